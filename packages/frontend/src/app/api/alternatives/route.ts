@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+interface AlternativesRequest {
+  repositoryUrl: string
+  userPrompt: string
+}
+
+// POST /api/alternatives - Cost-optimized, performance-optimized and hybrid
+// deployment plans for a repository, with costs normalized to monthly USD
+// ranges so they can be compared. Any returned deploymentPlan can be
+// approved like the plan from /api/analyze.
+export async function POST(request: NextRequest) {
+  try {
+    const body: AlternativesRequest = await request.json()
+    const { repositoryUrl, userPrompt } = body
+
+    if (!repositoryUrl || !userPrompt) {
+      return NextResponse.json(
+        { error: 'Missing required fields: repositoryUrl or userPrompt' },
+        { status: 400 }
+      )
+    }
+
+    const urlMatch = repositoryUrl.match(/github\.com\/([^\/]+)\/([^\/]+)/)
+    if (!urlMatch) {
+      return NextResponse.json(
+        { error: 'Invalid GitHub repository URL' },
+        { status: 400 }
+      )
+    }
+
+    const [, repositoryOwner, repositoryName] = urlMatch
+
+    const mcpResponse = await fetch(
+      `${process.env.MCP_API_URL || 'http://localhost:3000'}/api/mcp`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Cookie: request.headers.get('cookie') || '',
+        },
+        body: JSON.stringify({
+          method: 'compare_architectures',
+          params: { repositoryName, repositoryOwner, userPrompt },
+        }),
+      }
+    )
+
+    if (!mcpResponse.ok) {
+      throw new Error(`MCP server error: ${mcpResponse.status}`)
+    }
+
+    const mcpData = await mcpResponse.json()
+
+    if (mcpData.error) {
+      return NextResponse.json(
+        {
+          error: 'Architecture comparison failed',
+          details: mcpData.error.details || mcpData.error.message,
+        },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      alternatives: mcpData.result.alternatives,
+    })
+  } catch (error) {
+    console.error('Alternatives API error:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
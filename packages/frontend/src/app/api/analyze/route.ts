@@ -5,7 +5,7 @@ export async function POST(request: NextRequest) {
     console.log('🔍 Analyze API called')
 
     const body = await request.json()
-    const { repositoryUrl, userPrompt } = body
+    const { repositoryUrl, userPrompt, analysisMode } = body
 
     if (!repositoryUrl || !userPrompt) {
       return NextResponse.json(
@@ -43,6 +43,7 @@ export async function POST(request: NextRequest) {
           repositoryName,
           repositoryOwner,
           userPrompt,
+          analysisMode,
         },
       }),
     })
@@ -65,6 +66,8 @@ export async function POST(request: NextRequest) {
       success: true,
       repositoryName,
       repositoryOwner,
+      conversationId: result.conversationId,
+      aiInsights: result.aiInsights,
       analysis: {
         language: analysis?.language || 'Unknown',
         framework: analysis?.framework || 'Unknown',
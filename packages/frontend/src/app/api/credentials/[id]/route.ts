@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { credentialVault } from '../../../../lib/credential-vault'
+import {
+  getGitHubUser,
+  githubAuthenticationRequired,
+} from '../../../../lib/github-session'
+
+// DELETE /api/credentials/[id] - Forget one of the signed-in user's stored
+// credential profiles
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getGitHubUser(request.cookies)
+    if (!user) return githubAuthenticationRequired()
+
+    if (!(await credentialVault.delete(user.id, params.id))) {
+      return NextResponse.json(
+        { success: false, error: 'Credential profile not found' },
+        { status: 404 }
+      )
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete credential profile:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete credential profile' },
+      { status: 500 }
+    )
+  }
+}
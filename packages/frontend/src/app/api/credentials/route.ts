@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { credentialVault } from '../../../lib/credential-vault'
+import {
+  getCallerIdentity,
+  InvalidCredentialsError,
+} from '../../../lib/aws-identity'
+import {
+  createRoleAssumer,
+  ROLE_ARN_PATTERN,
+  roleSessionName,
+  RoleAssumptionError,
+} from '../../../lib/assume-role'
+import {
+  getGitHubUser,
+  GitHubUser,
+  githubAuthenticationRequired,
+} from '../../../lib/github-session'
+
+// GET /api/credentials - The signed-in user's stored credential profiles,
+// without their secrets, and the external ID their roles must require
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getGitHubUser(request.cookies)
+    if (!user) return githubAuthenticationRequired()
+
+    const profiles = await credentialVault.list(user.id)
+    const externalId = await credentialVault.externalId(user.id)
+    return NextResponse.json({ success: true, data: profiles, externalId })
+  } catch (error) {
+    console.error('Failed to list credential profiles:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to list credential profiles' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/credentials - Check AWS credentials with STS and store them
+// encrypted. Body: { accessKeyId, secretAccessKey, region, name? } for access
+// keys, or { roleArn, region, name? } for a role the server assumes with the
+// user's external ID from GET. Only the new profile's ID and description are returned; deploy
+// requests refer to it by ID from then on.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getGitHubUser(request.cookies)
+    if (!user) return githubAuthenticationRequired()
+
+    const body = await request.json()
+    if (body.roleArn) {
+      return saveRoleProfile(user, body)
+    }
+
+    const { accessKeyId, secretAccessKey, region, name } = body
+    if (!accessKeyId || !secretAccessKey || !region) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'accessKeyId, secretAccessKey and region are required',
+        },
+        { status: 400 }
+      )
+    }
+
+    const credentials = { accessKeyId, secretAccessKey, region }
+    const identity = await getCallerIdentity(credentials)
+    const profile = await credentialVault.save(user.id, credentials, name)
+
+    return NextResponse.json({ success: true, data: { profile, identity } })
+  } catch (error) {
+    return storeFailed(error)
+  }
+}
+
+// The role is assumed once before it is stored, so a wrong ARN, trust policy
+// or external ID is reported now rather than at deploy time
+async function saveRoleProfile(user: GitHubUser, body: any) {
+  const { roleArn, region, name } = body
+  if (body.externalId !== undefined) {
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          'The external ID is assigned by the server; require the one from GET /api/credentials in the role trust policy',
+      },
+      { status: 400 }
+    )
+  }
+  if (!region || !ROLE_ARN_PATTERN.test(roleArn)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          'A region and a role ARN like arn:aws:iam::123456789012:role/deploy are required',
+      },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const externalId = await credentialVault.externalId(user.id)
+    const session = await createRoleAssumer().assumeRole(
+      { roleArn, externalId, region },
+      roleSessionName('verify')
+    )
+    const identity = await getCallerIdentity(session)
+    const profile = await credentialVault.saveRole(
+      user.id,
+      { roleArn, region },
+      name
+    )
+
+    return NextResponse.json({ success: true, data: { profile, identity } })
+  } catch (error) {
+    return storeFailed(error)
+  }
+}
+
+function storeFailed(error: unknown) {
+  if (
+    error instanceof InvalidCredentialsError ||
+    error instanceof RoleAssumptionError
+  ) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 401 }
+    )
+  }
+
+  console.error('Failed to store credential profile:', error)
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Failed to store credentials',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  )
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  callerIpOf,
+  NetworkPolicyOptions,
+} from '../../../../lib/network-policy'
+
+interface PlanRequest {
+  repositoryName: string
+  repositoryUrl: string
+  deploymentPlan?: any
+  branch?: string
+  // Stored credential profile from /api/credentials
+  credentialProfileId?: string
+  // Overrides the server's default network policy, e.g. { ssh: 'caller-ip' }
+  networkPolicy?: NetworkPolicyOptions
+}
+
+// POST /api/deploy/plan - Work out the exact resources a deployment would
+// create, without creating anything. Apply the returned plan by posting its
+// planId to /api/deploy.
+export async function POST(request: NextRequest) {
+  try {
+    const body: PlanRequest = await request.json()
+    const {
+      repositoryName,
+      repositoryUrl,
+      deploymentPlan,
+      branch = 'main',
+      credentialProfileId,
+      networkPolicy,
+    } = body
+
+    if (!repositoryName || !repositoryUrl) {
+      return NextResponse.json(
+        { error: 'Missing required fields: repositoryName or repositoryUrl' },
+        { status: 400 }
+      )
+    }
+
+    if (!credentialProfileId) {
+      return NextResponse.json(
+        {
+          error:
+            'A stored AWS credential profile (credentialProfileId) is required for deployment',
+        },
+        { status: 400 }
+      )
+    }
+
+    const mcpResponse = await fetch(
+      `${process.env.MCP_API_URL || 'http://localhost:3000'}/api/mcp`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Cookie: request.headers.get('cookie') || '',
+        },
+        body: JSON.stringify({
+          method: 'plan_deployment',
+          params: {
+            repositoryUrl,
+            repositoryName,
+            deploymentPlan,
+            branch,
+            credentialProfileId,
+            networkPolicy,
+            // SSH can be opened to this address only
+            callerIp: callerIpOf(request.headers),
+          },
+        }),
+      }
+    )
+
+    if (!mcpResponse.ok) {
+      throw new Error(`MCP server error: ${mcpResponse.status}`)
+    }
+
+    const mcpData = await mcpResponse.json()
+
+    if (mcpData.error) {
+      return NextResponse.json(
+        {
+          error: 'Deployment planning failed',
+          details: mcpData.error.details || mcpData.error.message,
+        },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, plan: mcpData.result.plan })
+  } catch (error) {
+    console.error('Deployment plan API error:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,10 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-interface AWSCredentials {
-  accessKeyId: string
-  secretAccessKey: string
-  region: string
-}
+import { callerIpOf, NetworkPolicyOptions } from '../../../lib/network-policy'
 
 interface DeploymentRequest {
   repositoryName: string
@@ -12,7 +7,12 @@ interface DeploymentRequest {
   prompt: string
   deploymentPlan?: any
   branch?: string
-  awsCredentials?: AWSCredentials
+  // Stored credential profile from /api/credentials
+  credentialProfileId?: string
+  // Apply a plan from /api/deploy/plan instead of deploying directly
+  planId?: string
+  // Overrides the server's default network policy; a plan has its own
+  networkPolicy?: NetworkPolicyOptions
 }
 
 export async function POST(request: NextRequest) {
@@ -24,11 +24,13 @@ export async function POST(request: NextRequest) {
       prompt,
       deploymentPlan,
       branch = 'main',
-      awsCredentials,
+      credentialProfileId,
+      planId,
+      networkPolicy,
     } = body
 
-    // Validate required fields
-    if (!repositoryName || !repositoryUrl || !prompt) {
+    // Validate required fields (a stored plan already records them)
+    if (!planId && (!repositoryName || !repositoryUrl || !prompt)) {
       return NextResponse.json(
         {
           error:
@@ -38,15 +40,12 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Validate AWS credentials
-    if (
-      !awsCredentials ||
-      !awsCredentials.accessKeyId ||
-      !awsCredentials.secretAccessKey ||
-      !awsCredentials.region
-    ) {
+    if (!credentialProfileId) {
       return NextResponse.json(
-        { error: 'AWS credentials are required for deployment' },
+        {
+          error:
+            'A stored AWS credential profile (credentialProfileId) is required for deployment',
+        },
         { status: 400 }
       )
     }
@@ -60,16 +59,12 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Send deployment request to MCP server with AWS credentials
-    const mcpResponse = await fetch(
-      `${process.env.MCP_API_URL || 'http://localhost:3000'}/api/mcp`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Cookie: request.headers.get('cookie') || '', // Forward cookies for GitHub auth
-        },
-        body: JSON.stringify({
+    const mcpRequest = planId
+      ? {
+          method: 'apply_deployment_plan',
+          params: { planId, githubToken, credentialProfileId },
+        }
+      : {
           method: 'deploy_from_github',
           params: {
             repositoryUrl,
@@ -88,9 +83,22 @@ export async function POST(request: NextRequest) {
             prompt,
             branch,
             githubToken, // Pass token for MCP server to access repo
-            awsCredentials, // Pass user's AWS credentials securely
+            credentialProfileId, // Resolved from the vault by the MCP route
+            networkPolicy,
+            callerIp: callerIpOf(request.headers),
           },
-        }),
+        }
+
+    // Send deployment request to MCP server
+    const mcpResponse = await fetch(
+      `${process.env.MCP_API_URL || 'http://localhost:3000'}/api/mcp`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Cookie: request.headers.get('cookie') || '', // Forward cookies for GitHub auth
+        },
+        body: JSON.stringify(mcpRequest),
       }
     )
 
@@ -104,7 +112,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         {
           error: 'Deployment failed',
-          details: mcpData.error.message,
+          details: mcpData.error.details || mcpData.error.message,
         },
         { status: 500 }
       )
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 
 export async function POST(request: NextRequest) {
   try {
-    const { deploymentId } = await request.json()
+    const { deploymentId, credentialProfileId } = await request.json()
 
     if (!deploymentId) {
       return NextResponse.json(
@@ -14,10 +14,14 @@ export async function POST(request: NextRequest) {
     // Call MCP service to get real deployment status
     const mcpResponse = await fetch(`${request.nextUrl.origin}/api/mcp`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: {
+        'Content-Type': 'application/json',
+        // The credential profile is resolved for the signed-in user
+        Cookie: request.headers.get('cookie') || '',
+      },
       body: JSON.stringify({
         method: 'get_deployment_status',
-        params: { deploymentId },
+        params: { deploymentId, credentialProfileId },
       }),
     })
 
@@ -39,7 +43,7 @@ export async function POST(request: NextRequest) {
       status:
         status.status === 'completed'
           ? 'completed'
-          : status.status === 'error'
+          : status.status === 'failed' || status.status === 'error'
           ? 'failed'
           : 'in-progress',
       progress: status.progress || 0,
@@ -59,8 +63,11 @@ export async function POST(request: NextRequest) {
       statusPageUrl: status.statusPageUrl,
       sshAccess: status.sshAccess,
       applicationReady: status.applicationReady,
+      instanceState: status.instanceState,
+      setupPhase: status.setupPhase,
       estimatedReadyTime: status.estimatedReadyTime,
       instructions: status.instructions,
+      cost: status.cost,
     }
 
     return NextResponse.json(transformedStatus)
@@ -1,5 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { EC2Client } from '@aws-sdk/client-ec2'
 import { prisma } from '../../../../lib/prisma'
+import { deploymentStore } from '../../../../lib/deployment-store'
+import { destroyResources } from '../../../../lib/teardown'
+import {
+  awsClientConfig,
+  resolveCredentialProfile,
+} from '../../../../lib/credential-vault'
+import { roleSessionName } from '../../../../lib/assume-role'
+import { getCallerIdentity } from '../../../../lib/aws-identity'
+import {
+  getGitHubUser,
+  githubAuthenticationRequired,
+} from '../../../../lib/github-session'
 
 // GET /api/deployments/[id] - Get a specific deployment
 export async function GET(
@@ -99,19 +112,101 @@ export async function PUT(
   }
 }
 
-// DELETE /api/deployments/[id] - Delete a deployment
+// DELETE /api/deployments/[id] - Tear down a deployment's AWS resources and
+// delete it. ?dryRun=true only lists what would be deleted. An optional
+// { credentialProfileId } body, naming one of the signed-in user's profiles,
+// is used instead of the server's default credentials.
 export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    await prisma.deployment.delete({
-      where: { id: params.id },
+    const user = await getGitHubUser(request.cookies)
+    if (!user) return githubAuthenticationRequired()
+
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true'
+    const { credentialProfileId } = await request.json().catch(() => ({}))
+    const awsCredentials = await resolveCredentialProfile(
+      user.id,
+      credentialProfileId,
+      roleSessionName(`teardown-${params.id}`)
+    )
+
+    const record = await deploymentStore.get(params.id)
+    if (!record) {
+      return NextResponse.json(
+        { success: false, error: 'Deployment not found' },
+        { status: 404 }
+      )
+    }
+
+    // Instances launched after the teardown starts would be left behind
+    if (['pending', 'deploying'].includes(record.status)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Deployment is ${record.status}; wait for it to finish before deleting it`,
+        },
+        { status: 409 }
+      )
+    }
+
+    // In another account every resource is NotFound, which would count as
+    // already deleted and drop the record while the resources keep running
+    const { accountId } = await getCallerIdentity(awsCredentials)
+    if (record.accountId && accountId !== record.accountId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Deployment was created in AWS account ${record.accountId} but the credentials are for ${accountId}`,
+        },
+        { status: 403 }
+      )
+    }
+
+    const ec2Client = new EC2Client(
+      awsClientConfig(awsCredentials, record.region)
+    )
+    const results = await destroyResources(record.resources, {
+      ec2Client,
+      dryRun,
     })
 
+    if (dryRun) {
+      return NextResponse.json({ success: true, dryRun: true, data: results })
+    }
+
+    const remaining = results
+      .filter((result) => ['skipped', 'failed'].includes(result.outcome))
+      .map((result) => result.resource)
+
+    if (remaining.length > 0) {
+      // Keep the record so the remaining resources can be retried
+      await deploymentStore.save({
+        ...record,
+        message: `${remaining.length} resource(s) still need to be deleted`,
+        resources: record.resources.filter((resource) =>
+          remaining.some((left) => left.id === resource.id)
+        ),
+        state: { ...record.state, teardown: results },
+      })
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Some resources could not be deleted',
+          data: results,
+        },
+        { status: 500 }
+      )
+    }
+
+    await deploymentStore.delete(params.id)
+
     return NextResponse.json({
       success: true,
-      message: 'Deployment deleted successfully',
+      message: 'Deployment and its AWS resources deleted successfully',
+      data: results,
     })
   } catch (error) {
     console.error('Error deleting deployment:', error)
@@ -1,16 +1,75 @@
 import { NextRequest, NextResponse } from 'next/server'
-import {
-  BedrockRuntimeClient,
-  InvokeModelCommand,
-} from '@aws-sdk/client-bedrock-runtime'
 import {
   EC2Client,
   RunInstancesCommand,
   DescribeInstancesCommand,
-  CreateSecurityGroupCommand,
-  AuthorizeSecurityGroupIngressCommand,
   CreateKeyPairCommand,
+  _InstanceType,
 } from '@aws-sdk/client-ec2'
+import { deploymentStore } from '../../../lib/deployment-store'
+import {
+  deploymentInstructions,
+  probeInstanceDeployment,
+} from '../../../lib/instance-status'
+import { estimateInstanceMonthlyCost } from '../../../lib/ec2-pricing'
+import { getCostVariance } from '../../../lib/deployment-costs'
+import {
+  ExecutionPlan,
+  PlannedResourceChange,
+  PLAN_TTL_MS,
+} from '../../../lib/execution-plan'
+import {
+  createLLMProvider,
+  DEFAULT_MAX_TOKENS,
+  LLMMessage,
+  LLMProvider,
+  singleTurn,
+} from '../../../lib/llm-provider'
+import {
+  completeStructured,
+  validateAlternativeArchitecturesResponse,
+  validatePersonalizedPlanResponse,
+  validateRefinedPlanResponse,
+} from '../../../lib/structured-output'
+import {
+  ArchitectureAlternative,
+  toArchitectureAlternatives,
+} from '../../../lib/architecture-alternatives'
+import {
+  latestRevision,
+  PlanConversation,
+  planConversations,
+} from '../../../lib/plan-conversations'
+import {
+  detectFrameworks,
+  formatRepositoryFacts,
+  RepositoryFacts,
+} from '../../../lib/framework-detector'
+import {
+  AWSCredentials,
+  awsClientConfig,
+  CredentialProfileNotFoundError,
+  credentialVault,
+  redactSecrets,
+} from '../../../lib/credential-vault'
+import { RoleAssumptionError, roleSessionName } from '../../../lib/assume-role'
+import { CookieReader, getGitHubUser } from '../../../lib/github-session'
+import {
+  requiredActions,
+  runPermissionPreflight,
+} from '../../../lib/iam-preflight'
+import {
+  AppliedNetworkPolicy,
+  applyNetworkPolicy,
+  describeNetworkPolicy,
+  NetworkPolicy,
+  openPorts,
+  resolveNetworkPolicy,
+  shellAccess,
+} from '../../../lib/network-policy'
+import { AmiResolver, createAmiResolver } from '../../../lib/ami-resolver'
+import { getCallerIdentity } from '../../../lib/aws-identity'
+import { checkBudget } from '../../../lib/budget-guard'
 
 // Simple HTTP-based MCP communication (no process spawning)
 // This avoids all Next.js build-time analysis issues
@@ -25,89 +84,315 @@ interface MCPResponse {
   error?: any
 }
 
-interface AWSCredentials {
-  accessKeyId: string
-  secretAccessKey: string
+// 'ai' asks the model, grounded in the rule-based facts; 'rules' uses the
+// facts alone and never calls a model
+type AnalysisMode = 'ai' | 'rules'
+
+interface GitHubDeploymentParams {
+  repositoryUrl: string
+  repositoryName: string
+  branch: string
+  deploymentPlan: any
   region: string
+  // Resolved when the deployment is planned or requested
+  networkPolicy?: NetworkPolicy
 }
 
-// Simple in-memory storage for deployment results (in production, use a database)
-const deploymentStorage = new Map<string, any>()
-
 // Real AWS Deployment Service
 class RealAWSDeploymentService {
   private ec2Client: EC2Client
   private credentials: AWSCredentials
+  private amis: AmiResolver
+  private account?: Promise<string | undefined>
 
-  // Region-specific AMI mappings for Ubuntu 22.04 LTS
-  private readonly regionAMIs: { [region: string]: string } = {
-    'us-east-1': 'ami-0c7217cdde317cfec',
-    'us-east-2': 'ami-0b614a5d911a1a4b4',
-    'us-west-1': 'ami-0ce2cb35386fc22e9',
-    'us-west-2': 'ami-0892d3c7ee96c0bf7',
-    'eu-west-1': 'ami-0905a3c97561e0b69',
-    'eu-west-2': 'ami-0eb260c4d5475b901',
-    'eu-west-3': 'ami-08ca3fed11864d6bb',
-    'eu-central-1': 'ami-0fa03365cde71e0ab',
-    'ap-south-1': 'ami-0f5ee92e2d63afc18',
-    'ap-southeast-1': 'ami-0df7a207adb9748c7',
-    'ap-southeast-2': 'ami-0310483fb2b488153',
-    'ap-northeast-1': 'ami-0d52744d6551d851e',
-  }
+  // Instance types in order of preference (all free tier eligible)
+  private readonly instanceTypes: string[] = ['t2.micro', 't3.micro', 't2.nano']
 
-  constructor(credentials: AWSCredentials) {
+  constructor(
+    credentials: AWSCredentials,
+    amis: AmiResolver = createAmiResolver(credentials)
+  ) {
     this.credentials = credentials
-    this.ec2Client = new EC2Client({
-      region: credentials.region,
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
+    this.ec2Client = new EC2Client(awsClientConfig(credentials))
+    this.amis = amis
+  }
+
+  // Work out exactly what deployFromGitHub will create, without creating
+  // anything, and store the plan until it is applied
+  async planDeployment(params: GitHubDeploymentParams): Promise<ExecutionPlan> {
+    const deploymentId = `deploy_${Date.now()}`
+    const name = `aws-deploy-ai-${deploymentId}`
+    const instanceType = this.instanceTypes[0]
+    const monthlyCost = estimateInstanceMonthlyCost(instanceType) ?? 0
+    const networkPolicy = params.networkPolicy || resolveNetworkPolicy()
+
+    const changes: PlannedResourceChange[] = [
+      {
+        action: 'create',
+        type: 'EC2::SecurityGroup',
+        name,
+        description: [
+          describeNetworkPolicy(networkPolicy),
+          ...networkPolicy.notes,
+        ].join('. '),
+        ports: openPorts(networkPolicy),
+        estimatedMonthlyCost: 0,
       },
+      {
+        action: 'create',
+        type: 'EC2::Instance',
+        name,
+        description: `Ubuntu 22.04 server that clones ${params.repositoryUrl} (${params.branch}) and serves it through nginx`,
+        instanceType,
+        imageId: await this.getImageId(instanceType),
+        estimatedMonthlyCost: monthlyCost,
+      },
+    ]
+
+    const createdAt = new Date()
+    const plan: ExecutionPlan = {
+      id: deploymentId,
+      region: params.region,
+      repositoryUrl: params.repositoryUrl,
+      branch: params.branch,
+      changes,
+      estimatedMonthlyCost: monthlyCost,
+      createdAt: createdAt.toISOString(),
+      expiresAt: new Date(createdAt.getTime() + PLAN_TTL_MS).toISOString(),
+    }
+
+    await deploymentStore.save({
+      id: deploymentId,
+      name: params.repositoryName,
+      source: 'frontend',
+      repositoryUrl: params.repositoryUrl,
+      branch: params.branch,
+      region: params.region,
+      accountId: await this.accountId(),
+      status: 'planned',
+      progress: 0,
+      message: 'Awaiting approval',
+      resources: [],
+      state: { plan, request: { ...params, networkPolicy } },
     })
+
+    return plan
   }
 
-  async deployFromGitHub(params: {
-    repositoryUrl: string
-    repositoryName: string
-    branch: string
-    deploymentPlan: any
-    region: string
-  }): Promise<any> {
-    const deploymentId = `deploy_${Date.now()}`
+  // Create exactly the resources of a stored plan, once
+  async applyPlan(planId: string): Promise<any> {
+    const record = await deploymentStore.get(planId)
+
+    if (!record || !record.state.plan) {
+      throw new Error(`Plan not found: ${planId}`)
+    }
+    if (record.status !== 'planned') {
+      throw new Error(
+        `Plan ${planId} has already been applied (deployment status: ${record.status})`
+      )
+    }
+
+    const plan = record.state.plan as ExecutionPlan
+    if (new Date(plan.expiresAt).getTime() < Date.now()) {
+      throw new Error(`Plan ${planId} has expired; create a new plan`)
+    }
+    if (plan.region !== this.credentials.region) {
+      throw new Error(
+        `Plan ${planId} targets ${plan.region} but the credentials are for ${this.credentials.region}`
+      )
+    }
+
+    // Claim the plan before any other work so it cannot be applied twice
+    const claimed = await deploymentStore.compareAndSet(planId, 'planned', {
+      status: 'pending',
+      message: 'Creating planned resources',
+    })
+    if (!claimed) {
+      throw new Error(`Plan ${planId} is already being applied`)
+    }
+
+    try {
+      const accountId = await this.accountId()
+      if (record.accountId && accountId !== record.accountId) {
+        throw new Error(
+          `Plan ${planId} was made for AWS account ${record.accountId} but the credentials are for ${accountId}`
+        )
+      }
+
+      // Refuse before creating anything the credentials are not allowed to
+      const preflight = await runPermissionPreflight(
+        this.credentials,
+        plan.changes
+          .filter((change) => change.action === 'create')
+          .map((change) => change.type),
+        {
+          instanceProfile: record.state.request?.networkPolicy?.instanceProfile,
+        }
+      )
+      if (preflight.missingActions.length > 0) {
+        throw new Error(
+          `${preflight.message}: ${preflight.missingActions.join(', ')}`
+        )
+      }
+
+      // Other deployments may have used up the budget since planning
+      await checkBudget(planId, plan.estimatedMonthlyCost)
+    } catch (error) {
+      // Nothing was created, so the plan can be applied again later
+      await deploymentStore.compareAndSet(planId, 'pending', {
+        status: 'planned',
+        message: record.message,
+      })
+      throw error
+    }
+
+    // A failure is recorded by deployFromGitHub with whatever it created
+    return this.deployFromGitHub(record.state.request, plan)
+  }
+
+  async deployFromGitHub(
+    params: GitHubDeploymentParams,
+    plan?: ExecutionPlan
+  ): Promise<any> {
+    const deploymentId = plan?.id || `deploy_${Date.now()}`
+    const planned = (type: string) =>
+      plan?.changes.find(
+        (change) => change.type === type && change.action === 'create'
+      )
     const logs: string[] = []
+    // Every resource is recorded as soon as it exists, so a failure part
+    // way through still leaves a record of what has to be torn down
+    const resources: any[] = []
+    let network: AppliedNetworkPolicy | undefined
+    let accountId: string | undefined
+    const persist = (
+      status: string,
+      progress: number,
+      message: string,
+      state: Record<string, any> = {}
+    ) =>
+      deploymentStore.save({
+        id: deploymentId,
+        name: params.repositoryName,
+        source: 'frontend',
+        repositoryUrl: params.repositoryUrl,
+        branch: params.branch,
+        region: params.region,
+        accountId,
+        status,
+        progress,
+        message,
+        publicUrl: state.deploymentUrl,
+        resources,
+        state: {
+          deploymentId,
+          logs,
+          ...state,
+          ...(plan && { plan }),
+          ...(network && { networkPolicy: network }),
+        },
+      })
 
     try {
       logs.push('🚀 Starting AWS deployment...')
       logs.push(`📍 Region: ${params.region}`)
       logs.push(`📦 Repository: ${params.repositoryUrl}`)
       logs.push(`🌿 Branch: ${params.branch}`)
+      // Teardown later checks it is working in the same account
+      accountId = await this.accountId()
+      // An applied plan was checked against the budget and the permissions
+      // when it was claimed
+      const networkPolicy = params.networkPolicy || resolveNetworkPolicy()
+      if (!plan) {
+        await checkBudget(
+          deploymentId,
+          estimateInstanceMonthlyCost(this.instanceTypes[0]) ?? 0
+        )
+
+        const preflight = await runPermissionPreflight(
+          this.credentials,
+          ['EC2::SecurityGroup', 'EC2::Instance'],
+          { instanceProfile: networkPolicy.instanceProfile }
+        )
+        if (preflight.missingActions.length > 0) {
+          throw new Error(
+            `${preflight.message}: ${preflight.missingActions.join(', ')}`
+          )
+        }
+      }
 
       // Update initial status
       console.log('🔐 Creating security group...')
 
-      // Create security group
+      // Create security group, or reuse the shared one
       logs.push('🔐 Creating security group...')
-      const securityGroupId = await this.createSecurityGroup(deploymentId)
-      logs.push(`✅ Security group created: ${securityGroupId}`)
+      network = await applyNetworkPolicy(
+        this.ec2Client,
+        networkPolicy,
+        deploymentId
+      )
+      const securityGroupId = network.securityGroupId
+      // A shared group outlives the deployment, so it is not torn down
+      // with it; state.networkPolicy still records it
+      if (!network.shared) {
+        resources.push({
+          id: securityGroupId,
+          type: 'EC2::SecurityGroup',
+          arn: `arn:aws:ec2:${params.region}::security-group/${securityGroupId}`,
+          region: params.region,
+          status: 'active',
+          tags: { DeploymentId: deploymentId },
+        })
+        await persist('pending', 5, 'Security group created')
+      }
+      logs.push(
+        network.shared
+          ? `✅ Using shared security group: ${securityGroupId}`
+          : `✅ Security group created: ${securityGroupId}`
+      )
+      logs.push(`🛡️ ${describeNetworkPolicy(network)}`)
+      network.notes.forEach((note) => logs.push(`⚠️ ${note}`))
 
       // Update status
       console.log('🖥️ Launching EC2 instance...')
 
       // Create EC2 instance with user data script
       logs.push('🖥️ Launching EC2 instance...')
+      const facts = await this.detectProject(params.repositoryUrl)
+      logs.push(
+        facts?.primary
+          ? `🔎 Detected ${facts.primary.name} (${Math.round(facts.primary.confidence * 100)}% confidence)`
+          : '🔎 No framework detected, using the generic npm build'
+      )
       const userData = this.generateUserDataScript(
         params.repositoryUrl,
-        params.branch
+        params.branch,
+        facts
       )
 
+      const instanceChange = planned('EC2::Instance')
       const instanceResult = await this.createEC2Instance(
-        securityGroupId,
+        network,
         userData,
-        deploymentId
+        deploymentId,
+        instanceChange?.instanceType
+          ? [instanceChange.instanceType]
+          : this.instanceTypes,
+        instanceChange?.imageId
       )
+      const instanceResource = {
+        id: instanceResult.instanceId,
+        type: 'EC2::Instance',
+        arn: `arn:aws:ec2:${params.region}::instance/${instanceResult.instanceId}`,
+        region: params.region,
+        status: 'pending',
+        tags: { DeploymentId: deploymentId },
+      }
+      resources.push(instanceResource)
       logs.push(
         `✅ EC2 instance (${instanceResult.instanceType}) launched: ${instanceResult.instanceId}`
       )
+      await persist('pending', 10, 'Waiting for the instance to start')
 
       // Update status
       console.log('⏳ Waiting for instance to start...')
@@ -117,6 +402,7 @@ class RealAWSDeploymentService {
       const instanceDetails = await this.waitForInstanceRunning(
         instanceResult.instanceId
       )
+      instanceResource.status = 'running'
       logs.push(`✅ Instance is running at: ${instanceDetails.publicIp}`)
       logs.push('🔧 Starting application setup...')
       logs.push('📦 Cloning repository and installing dependencies...')
@@ -133,29 +419,31 @@ class RealAWSDeploymentService {
         status: 'deploying', // Return deploying status immediately
         instanceId: instanceResult.instanceId,
         instanceType: instanceResult.instanceType,
+        estimatedMonthlyCost:
+          estimateInstanceMonthlyCost(instanceResult.instanceType) ?? 0,
         publicIp: instanceDetails.publicIp,
         deploymentUrl: `http://${instanceDetails.publicIp}`,
         liveUrl: `http://${instanceDetails.publicIp}`,
         nginxUrl: `http://${instanceDetails.publicIp}`,
-        directUrl: `http://${instanceDetails.publicIp}:3000`,
         statusPageUrl: `http://${instanceDetails.publicIp}/deployment-info.html`,
-        sshAccess: `ssh -i your-key.pem ubuntu@${instanceDetails.publicIp}`,
+        sshAccess: shellAccess(
+          network,
+          instanceResult.instanceId,
+          instanceDetails.publicIp
+        ),
         logs,
         message: 'EC2 instance created! Application setup in progress...',
         applicationReady: false,
         estimatedReadyTime: '3-5 minutes',
-        instructions: [
-          '✅ EC2 instance created and configured',
-          '✅ Application cloned and dependencies installed',
-          '✅ Application built and service started',
-          '✅ Nginx proxy configured',
-          `🌐 Your live application: http://${instanceDetails.publicIp}`,
-          '🎉 Deployment completed successfully!',
-        ],
       }
 
-      // Store in memory for status polling
-      deploymentStorage.set(deploymentId, deploymentResult)
+      // Persist for status polling (shared with the MCP server)
+      await persist(
+        deploymentResult.status,
+        20,
+        deploymentResult.message,
+        deploymentResult
+      )
 
       // Return immediately - don't wait for application setup to avoid timeout
       return deploymentResult
@@ -176,83 +464,59 @@ class RealAWSDeploymentService {
         logs.push(
           '💡 Troubleshooting: Check your AWS credentials and IAM permissions.'
         )
-        logs.push('💡 Required permissions: EC2, VPC, SecurityGroups creation.')
+        logs.push(
+          `💡 Required permissions: ${requiredActions(['EC2::SecurityGroup', 'EC2::Instance'], params.networkPolicy || resolveNetworkPolicy()).join(', ')}`
+        )
+      }
+
+      // An applied plan always has a record; a direct deployment only
+      // needs one when it got far enough to create something
+      if (plan || resources.length > 0) {
+        await persist('failed', 0, errorMessage)
       }
 
       throw new Error(`AWS Deployment Failed: ${errorMessage}`)
     }
   }
 
-  private async createSecurityGroup(deploymentId: string): Promise<string> {
-    const groupName = `aws-deploy-ai-${deploymentId}`
-
-    const createCommand = new CreateSecurityGroupCommand({
-      GroupName: groupName,
-      Description: `Security group for AWS Deploy AI deployment ${deploymentId}`,
-    })
-
-    const result = await this.ec2Client.send(createCommand)
-    const groupId = result.GroupId!
-
-    // Add inbound rules for HTTP, HTTPS, and SSH
-    const ingressCommand = new AuthorizeSecurityGroupIngressCommand({
-      GroupId: groupId,
-      IpPermissions: [
-        {
-          IpProtocol: 'tcp',
-          FromPort: 80,
-          ToPort: 80,
-          IpRanges: [{ CidrIp: '0.0.0.0/0' }],
-        },
-        {
-          IpProtocol: 'tcp',
-          FromPort: 443,
-          ToPort: 443,
-          IpRanges: [{ CidrIp: '0.0.0.0/0' }],
-        },
-        {
-          IpProtocol: 'tcp',
-          FromPort: 3000,
-          ToPort: 3000,
-          IpRanges: [{ CidrIp: '0.0.0.0/0' }],
-        },
-        {
-          IpProtocol: 'tcp',
-          FromPort: 22,
-          ToPort: 22,
-          IpRanges: [{ CidrIp: '0.0.0.0/0' }],
-        },
-      ],
-    })
+  // Account of the credentials, looked up once per service
+  private accountId(): Promise<string | undefined> {
+    this.account ||= getCallerIdentity(this.credentials).then(
+      (identity) => identity.accountId
+    )
+    return this.account
+  }
 
-    await this.ec2Client.send(ingressCommand)
-    return groupId
+  // Current Ubuntu 22.04 AMI for the region and the instance type's
+  // architecture
+  private getImageId(instanceType: string): Promise<string> {
+    return this.amis.resolveFor(
+      this.credentials.region,
+      'ubuntu-22.04',
+      instanceType
+    )
   }
 
   private async createEC2Instance(
-    securityGroupId: string,
+    network: AppliedNetworkPolicy,
     userData: string,
-    deploymentId: string
+    deploymentId: string,
+    instanceTypes: string[] = this.instanceTypes,
+    amiId?: string
   ): Promise<any> {
-    // Get the correct AMI for the region
-    const amiId =
-      this.regionAMIs[this.credentials.region] || this.regionAMIs['us-east-1']
-
-    // Try different instance types in order of preference (all free tier eligible)
-    const instanceTypes: ('t2.micro' | 't3.micro' | 't2.nano')[] = [
-      't2.micro',
-      't3.micro',
-      't2.nano',
-    ]
-
+    // Try each instance type in turn; an applied plan allows only its own
     for (const instanceType of instanceTypes) {
       try {
         const command = new RunInstancesCommand({
-          ImageId: amiId,
-          InstanceType: instanceType,
+          ImageId: amiId || (await this.getImageId(instanceType)),
+          InstanceType: instanceType as _InstanceType,
           MinCount: 1,
           MaxCount: 1,
-          SecurityGroupIds: [securityGroupId],
+          SecurityGroupIds: [network.securityGroupId],
+          KeyName: network.keyName,
+          ...(network.instanceProfile && {
+            IamInstanceProfile: { Name: network.instanceProfile },
+          }),
           UserData: Buffer.from(userData).toString('base64'),
           TagSpecifications: [
             {
@@ -416,33 +680,139 @@ class RealAWSDeploymentService {
     }
   }
 
+  // Run the rule-based detector against a GitHub repository before launch,
+  // so the bootstrap script knows how to build and start it
+  private async detectProject(
+    repositoryUrl: string
+  ): Promise<RepositoryFacts | undefined> {
+    const match = repositoryUrl.match(/github\.com[/:]([^/]+)\/([^/.]+)/)
+    if (!match) {
+      return undefined
+    }
+    const facts = detectRepositoryFacts(
+      await fetchGitHubRepository(match[1], match[2])
+    )
+    return facts.primary ? facts : undefined
+  }
+
+  // Install, build and start steps for the detected framework, run as the
+  // ubuntu user inside the cloned app directory
+  private generateBuildScript(facts?: RepositoryFacts): string {
+    const fail = (message: string) =>
+      `{ echo "$(date): ${message}" >> /var/log/app/deployment.log; echo "failed" > /var/log/app/deployment-status.txt; exit 1; }`
+    const start = (command: string, indent: string = '    ') =>
+      [
+        `pm2 start "${command}" --name "app" --cwd "/home/ubuntu/app"`,
+        `echo "$(date): Started app with ${command}" >> /var/log/app/deployment.log`,
+      ]
+        .map((line) => indent + line)
+        .join('\n')
+    const primary = facts?.primary
+
+    if (!facts || !primary) {
+      return `    echo "$(date): No framework detected, using the generic npm build" >> /var/log/app/deployment.log
+    echo "installing" > /var/log/app/deployment-status.txt
+    npm install || ${fail('Failed to install dependencies')}
+    echo "building" > /var/log/app/deployment-status.txt
+    npm run build --if-present || ${fail('Build failed')}
+    export PORT=3000
+    export NODE_ENV=production
+    if [ -d "dist" ]; then
+${start('serve -s ./dist -p 3000', '        ')}
+    elif [ -d "build" ]; then
+${start('serve -s ./build -p 3000', '        ')}
+    else
+${start('npm start', '        ')}
+    fi`
+    }
+
+    const detected = `    echo "$(date): Detected ${primary.name} (${Math.round(primary.confidence * 100)}% confidence)" >> /var/log/app/deployment.log`
+
+    if (primary.runtime !== 'node' && primary.runtime !== 'static') {
+      return `${detected}
+    ${fail(`${primary.name} projects are not supported on this instance image`)}`
+    }
+
+    return [
+      detected,
+      facts.installCommand &&
+        `    echo "installing" > /var/log/app/deployment-status.txt
+    ${facts.installCommand} || ${fail('Failed to install dependencies')}`,
+      facts.buildCommand &&
+        `    echo "building" > /var/log/app/deployment-status.txt
+    ${facts.buildCommand} || ${fail('Build failed')}`,
+      `    export PORT=3000
+    export NODE_ENV=production
+${start(facts.startCommand)}`,
+    ]
+      .filter(Boolean)
+      .join('\n')
+  }
+
   private generateUserDataScript(
     repositoryUrl: string,
-    branch: string
+    branch: string,
+    facts?: RepositoryFacts
   ): string {
+    const packageManager =
+      facts?.packageManager === 'yarn' || facts?.packageManager === 'pnpm'
+        ? ` ${facts.packageManager}`
+        : ''
+
     return `#!/bin/bash
 exec > >(tee /var/log/user-data.log|logger -t user-data -s 2>/dev/console) 2>&1
 echo "=== AWS Deploy AI Setup Started ==="
 date
 
-# Create deployment tracking
+# Create deployment tracking (the app steps run as ubuntu and append here)
 mkdir -p /var/log/app
 echo "starting" > /var/log/app/deployment-status.txt
 echo "$(date): Starting deployment process" > /var/log/app/deployment.log
+chown -R ubuntu:ubuntu /var/log/app
+
+fail() {
+    echo "$(date): $1" >> /var/log/app/deployment.log
+    echo "failed" > /var/log/app/deployment-status.txt
+    exit 1
+}
 
 # Update and install essentials
 echo "Installing system dependencies..."
-apt-get update -y
-apt-get install -y git curl build-essential nginx
+echo "$(date): Installing system dependencies..." >> /var/log/app/deployment.log
+apt-get update -y || fail "apt-get update failed"
+apt-get install -y git curl build-essential nginx || fail "Failed to install system packages"
+
+# Serve the status files while the application is being set up
+cat > /etc/nginx/sites-available/default << 'EOF'
+server {
+    listen 80 default_server;
+    listen [::]:80 default_server;
+    server_name _;
+
+    location /deployment-status {
+        access_log off;
+        alias /var/log/app/deployment-status.txt;
+        add_header Content-Type text/plain;
+    }
+
+    location /deployment-logs {
+        access_log off;
+        alias /var/log/app/deployment.log;
+        add_header Content-Type text/plain;
+    }
+}
+EOF
+systemctl restart nginx
 
 # Install Node.js 18
 echo "Installing Node.js 18..."
-curl -fsSL https://deb.nodesource.com/setup_18.x | bash -
-apt-get install -y nodejs
+echo "$(date): Installing Node.js 18..." >> /var/log/app/deployment.log
+curl -fsSL https://deb.nodesource.com/setup_18.x | bash - || fail "Failed to add the Node.js repository"
+apt-get install -y nodejs || fail "Failed to install Node.js"
 
 # Install global packages
 echo "Installing PM2 and serve globally..."
-npm install -g pm2 serve
+npm install -g pm2 serve${packageManager} || fail "Failed to install PM2 and serve"
 
 # Verify installations
 echo "Verifying installations..."
@@ -474,73 +844,7 @@ if git clone ${repositoryUrl} app; then
         echo "$(date): Using default branch" >> /var/log/app/deployment.log
     fi
     
-    # Install dependencies
-    echo "$(date): Installing dependencies..." >> /var/log/app/deployment.log
-    echo "installing" > /var/log/app/deployment-status.txt
-    if npm install; then
-        echo "$(date): Dependencies installed successfully" >> /var/log/app/deployment.log
-    else
-        echo "$(date): Failed to install dependencies" >> /var/log/app/deployment.log
-        echo "failed" > /var/log/app/deployment-status.txt
-        exit 1
-    fi
-    
-    echo "building" > /var/log/app/deployment-status.txt
-    echo "$(date): Detecting project type and building..." >> /var/log/app/deployment.log
-    
-    # Detect and build project with better error handling
-    if [ -f "vite.config.js" ] || [ -f "vite.config.ts" ]; then
-        echo "$(date): Detected Vite project" >> /var/log/app/deployment.log
-        if npm run build; then
-            echo "$(date): Vite build successful" >> /var/log/app/deployment.log
-            # Start with serve for Vite projects - use proper command format
-            export PORT=3000
-            export NODE_ENV=production
-            # Start serve with full path and working directory
-            pm2 start "serve -s ./dist -p 3000" --name "app" --cwd "/home/ubuntu/app"
-            echo "$(date): Started Vite app with serve on port 3000" >> /var/log/app/deployment.log
-        else
-            echo "$(date): Vite build failed, trying dev server" >> /var/log/app/deployment.log
-            export PORT=3000
-            pm2 start "npm run dev" --name "app"
-        fi
-    elif grep -q '"next"' package.json 2>/dev/null; then
-        echo "$(date): Detected Next.js project" >> /var/log/app/deployment.log
-        if npm run build; then
-            echo "$(date): Next.js build successful" >> /var/log/app/deployment.log
-            export PORT=3000
-            pm2 start "npm start" --name "app"
-        else
-            echo "$(date): Next.js build failed, trying dev server" >> /var/log/app/deployment.log
-            export PORT=3000
-            pm2 start "npm run dev" --name "app"
-        fi
-    elif grep -q '"build"' package.json 2>/dev/null; then
-        echo "$(date): Detected project with build script" >> /var/log/app/deployment.log
-        if npm run build; then
-            echo "$(date): Build successful" >> /var/log/app/deployment.log
-            export PORT=3000
-            export NODE_ENV=production
-            if [ -d "build" ]; then
-                pm2 start "serve -s ./build -p 3000" --name "app" --cwd "/home/ubuntu/app"
-                echo "$(date): Started app with serve from build directory" >> /var/log/app/deployment.log
-            elif [ -d "dist" ]; then
-                pm2 start "serve -s ./dist -p 3000" --name "app" --cwd "/home/ubuntu/app"
-                echo "$(date): Started app with serve from dist directory" >> /var/log/app/deployment.log
-            else
-                pm2 start "npm start" --name "app"
-                echo "$(date): Started app with npm start" >> /var/log/app/deployment.log
-            fi
-        else
-            echo "$(date): Build failed, trying npm start" >> /var/log/app/deployment.log
-            export PORT=3000
-            pm2 start "npm start" --name "app"
-        fi
-    else
-        echo "$(date): No build script found, using npm start" >> /var/log/app/deployment.log
-        export PORT=3000
-        pm2 start "npm start" --name "app"
-    fi
+${this.generateBuildScript(facts)}
     
     # Save PM2 configuration and setup startup
     echo "$(date): Saving PM2 configuration..." >> /var/log/app/deployment.log
@@ -572,6 +876,12 @@ else
 fi
 EOFU
 
+# Stop here if cloning or installing dependencies failed
+if [ "$(cat /var/log/app/deployment-status.txt)" = "failed" ]; then
+    echo "=== AWS Deploy AI Setup Failed ==="
+    exit 1
+fi
+
 # Execute the PM2 startup script with proper permissions
 if [ -f /tmp/pm2_startup.sh ]; then
     echo "$(date): Executing PM2 startup script..." >> /var/log/app/deployment.log
@@ -618,6 +928,7 @@ else
 fi
 
 # Configure nginx
+echo "configuring" > /var/log/app/deployment-status.txt
 echo "$(date): Configuring nginx..." >> /var/log/app/deployment.log
 cat > /etc/nginx/sites-available/default << 'EOF'
 server {
@@ -679,8 +990,13 @@ systemctl status nginx --no-pager >> /var/log/app/deployment.log
 echo "Application Response Test:" >> /var/log/app/deployment.log
 curl -I http://localhost:3000 >> /var/log/app/deployment.log 2>&1
 
-echo "$(date): Deployment setup completed" >> /var/log/app/deployment.log
-echo "completed" > /var/log/app/deployment-status.txt
+if curl -f http://localhost:3000 >/dev/null 2>&1; then
+    echo "$(date): Deployment setup completed" >> /var/log/app/deployment.log
+    echo "completed" > /var/log/app/deployment-status.txt
+else
+    echo "$(date): Application is not responding on port 3000" >> /var/log/app/deployment.log
+    echo "failed" > /var/log/app/deployment-status.txt
+fi
 
 # Create deployment info page
 cat > /var/www/html/deployment-info.html << 'EOF'
@@ -706,7 +1022,7 @@ cat > /var/www/html/deployment-info.html << 'EOF'
     
     <div class="info status">
         <h3>📝 Application Details</h3>
-        <p><strong>Application Port:</strong> 3000</p>
+        <p><strong>Application Port:</strong> 3000 (local only)</p>
         <p><strong>Nginx Proxy:</strong> Port 80</p>
         <p><strong>Process Manager:</strong> PM2</p>
     </div>
@@ -714,7 +1030,6 @@ cat > /var/www/html/deployment-info.html << 'EOF'
     <div class="info status">
         <h3>🔗 Access Your Application</h3>
         <p><a href="/">Main Application (Port 80)</a></p>
-        <p><a href=":3000">Direct Application Access (Port 3000)</a></p>
         <p><a href="/health">Health Check</a></p>
     </div>
 </body>
@@ -730,18 +1045,26 @@ echo "Deployment logs: /var/log/app/deployment.log"
 
 // Personalized AI Deployment Planner
 class PersonalizedAIDeploymentPlanner {
-  private bedrockClient: BedrockRuntimeClient
-  private modelId = 'anthropic.claude-3-sonnet-20240229-v1:0'
+  private llm: LLMProvider
 
-  constructor(region: string = 'us-east-1') {
-    this.bedrockClient = new BedrockRuntimeClient({ region })
+  constructor(region: string = 'us-east-1', llm?: LLMProvider) {
+    this.llm = llm || createLLMProvider({ region })
   }
 
   async generatePersonalizedDeploymentPlan(
     repositoryData: any,
     userPrompt: string,
-    projectAnalysis: any
+    projectAnalysis: any,
+    analysisMode: AnalysisMode = 'ai'
   ): Promise<any> {
+    if (analysisMode === 'rules') {
+      return this.generateEnhancedFallbackPlan(
+        repositoryData,
+        userPrompt,
+        projectAnalysis
+      )
+    }
+
     try {
       const aiPrompt = this.createPersonalizedPrompt(
         repositoryData,
@@ -749,25 +1072,13 @@ class PersonalizedAIDeploymentPlanner {
         projectAnalysis
       )
 
-      const command = new InvokeModelCommand({
-        modelId: this.modelId,
-        body: JSON.stringify({
-          anthropic_version: 'bedrock-2023-05-31',
-          max_tokens: 4000,
-          messages: [
-            {
-              role: 'user',
-              content: aiPrompt,
-            },
-          ],
-        }),
-      })
-
-      const response = await this.bedrockClient.send(command)
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body))
+      const response = await completeStructured<any>(
+        this.llm,
+        singleTurn('deployment-plan', aiPrompt),
+        validatePersonalizedPlanResponse
+      )
 
-      // Parse the AI response into structured deployment plan
-      return this.parseAIResponse(responseBody.content[0].text)
+      return this.toDeploymentPlan(response)
     } catch (error) {
       console.error('AI deployment planning failed:', error)
 
@@ -780,6 +1091,217 @@ class PersonalizedAIDeploymentPlanner {
     }
   }
 
+  // Start the conversation a plan review refines. The first exchange is the
+  // planning prompt and the plan that came back.
+  startConversation(
+    repositoryData: any,
+    userPrompt: string,
+    projectAnalysis: any,
+    plan: any
+  ): PlanConversation {
+    return this.conversationFrom(
+      repositoryData.name,
+      this.createPersonalizedPrompt(
+        repositoryData,
+        userPrompt,
+        projectAnalysis
+      ),
+      plan
+    )
+  }
+
+  // Pick up a plan whose conversation is gone, e.g. after a restart
+  resumeConversation(repositoryName: string, plan: any): PlanConversation {
+    return this.conversationFrom(
+      repositoryName,
+      `Create an AWS deployment plan for the ${repositoryName} repository.`,
+      plan
+    )
+  }
+
+  private conversationFrom(
+    repositoryName: string,
+    prompt: string,
+    plan: any
+  ): PlanConversation {
+    const now = new Date().toISOString()
+    return {
+      id: `plan_${Date.now()}`,
+      repositoryName,
+      messages: [
+        { role: 'user', content: prompt },
+        {
+          role: 'assistant',
+          content: JSON.stringify({ deploymentPlan: plan.deploymentPlan }),
+        },
+      ],
+      revisions: [
+        {
+          revision: 1,
+          changeSummary: [],
+          deploymentPlan: plan.deploymentPlan,
+          aiInsights: plan.aiInsights,
+          createdAt: now,
+        },
+      ],
+      createdAt: now,
+      updatedAt: now,
+    }
+  }
+
+  // Revise the latest plan from free-text feedback. The whole conversation
+  // is sent, so the model sees the repository, earlier plans and all
+  // earlier feedback.
+  async refineDeploymentPlan(
+    conversation: PlanConversation,
+    feedback: string
+  ): Promise<PlanConversation> {
+    const current = latestRevision(conversation)
+    const request: LLMMessage = {
+      role: 'user',
+      content: this.createRefinementPrompt(current.deploymentPlan, feedback),
+    }
+
+    const response = await completeStructured<any>(
+      this.llm,
+      {
+        task: 'plan-refinement',
+        messages: [...conversation.messages, request],
+        maxTokens: DEFAULT_MAX_TOKENS,
+      },
+      validateRefinedPlanResponse
+    )
+    const revised = this.toDeploymentPlan(response)
+
+    return {
+      ...conversation,
+      messages: [
+        ...conversation.messages,
+        request,
+        { role: 'assistant', content: JSON.stringify(response) },
+      ],
+      revisions: [
+        ...conversation.revisions,
+        {
+          revision: current.revision + 1,
+          feedback,
+          changeSummary: response.changeSummary,
+          deploymentPlan: revised.deploymentPlan,
+          // A refinement may only touch the plan itself
+          aiInsights: response.analysis
+            ? revised.aiInsights
+            : current.aiInsights,
+          createdAt: new Date().toISOString(),
+        },
+      ],
+      updatedAt: new Date().toISOString(),
+    }
+  }
+
+  private createRefinementPrompt(plan: any, feedback: string): string {
+    return `## Current Plan:
+\`\`\`json
+${JSON.stringify(plan, null, 2)}
+\`\`\`
+
+## Feedback:
+"${feedback}"
+
+Revise the current plan to address this feedback while keeping every earlier requirement that the feedback does not override. Treat cost limits as hard constraints: if one cannot be met, get as close as possible and say so in the change summary.
+
+Respond with a valid JSON object containing the complete revised "deploymentPlan" (same structure as before) and a "changeSummary" array with one short sentence per change, for example:
+
+{
+  "deploymentPlan": { "architecture": "...", "services": [...], "steps": [...], "estimated_monthly_cost": "$X-Y", "deployment_time": "X-Y minutes", "requirements": [...], "recommendations": [...] },
+  "changeSummary": ["Replaced the EC2 instance with an ECS Fargate service"]
+}`
+  }
+
+  // Cost-optimized, performance-optimized and hybrid plans for the same
+  // project, each in the deployment plan shape so any of them can be
+  // deployed as-is
+  async generateAlternativeArchitectures(
+    repositoryData: any,
+    userPrompt: string,
+    projectAnalysis: any
+  ): Promise<ArchitectureAlternative[]> {
+    const response = await completeStructured<any>(
+      this.llm,
+      singleTurn(
+        'alternative-architectures',
+        this.createAlternativesPrompt(
+          repositoryData,
+          userPrompt,
+          projectAnalysis
+        )
+      ),
+      validateAlternativeArchitecturesResponse
+    )
+
+    return toArchitectureAlternatives(response)
+  }
+
+  private createAlternativesPrompt(
+    repositoryData: any,
+    userPrompt: string,
+    projectAnalysis: any
+  ): string {
+    return `
+Based on this project analysis:
+- Project: ${repositoryData.name}
+- Language: ${projectAnalysis.language || repositoryData.language || 'Unknown'}
+- Framework: ${projectAnalysis.framework}
+- Has Docker: ${projectAnalysis.hasDockerfile ?? false}
+- Build Command: ${projectAnalysis.buildCommand || 'none'}
+- Start Command: ${projectAnalysis.startCommand || 'none'}
+- Default Port: ${projectAnalysis.port || 3000}
+- User Requirements: "${userPrompt}"
+
+Generate 3 alternative AWS deployment architectures:
+1. cost: Cost-optimized (minimal cost)
+2. performance: Performance-optimized (maximum performance)
+3. hybrid: Hybrid (balanced cost and performance)
+
+Give every service and the plan as a whole a monthly cost in US dollars, e.g. "$5-15/month", so the alternatives can be compared.
+
+Respond with a valid JSON object in this exact format:
+
+{
+  "alternatives": [
+    {
+      "strategy": "cost|performance|hybrid",
+      "summary": "One sentence on what this option trades off",
+      "pros": ["pro1", "pro2"],
+      "cons": ["con1", "con2"],
+      "bestFor": "The situation this option suits best",
+      "deploymentPlan": {
+        "architecture": "Detailed architecture description",
+        "services": [
+          {
+            "name": "Service name",
+            "type": "AWS service type",
+            "purpose": "What this service does for this project",
+            "estimated_cost": "$X-Y/month"
+          }
+        ],
+        "steps": [
+          {
+            "step": 1,
+            "action": "Action name",
+            "description": "What this step does",
+            "resources": ["resource1", "resource2"]
+          }
+        ],
+        "estimated_monthly_cost": "$X-Y",
+        "deployment_time": "X-Y minutes",
+        "requirements": ["requirement1"],
+        "recommendations": ["recommendation1"]
+      }
+    }
+  ]
+}`
+  }
+
   private createPersonalizedPrompt(
     repositoryData: any,
     userPrompt: string,
@@ -801,6 +1323,11 @@ You are an expert AWS Solutions Architect and DevOps engineer. Analyze this spec
 - **Start Command**: ${projectAnalysis.startCommand}
 - **Default Port**: ${projectAnalysis.port}
 
+## Rule-Based Detection:
+These facts were derived directly from the repository files. Treat them as ground truth and only depart from them when the files clearly show otherwise.
+
+${formatRepositoryFacts(detectRepositoryFacts(repositoryData))}
+
 ## Project Files Structure:
 ${this.formatFileStructure(repositoryData.contents)}
 
@@ -900,47 +1427,29 @@ Important: Base your recommendations on the ACTUAL project characteristics, not
       .join('\n')
   }
 
-  private parseAIResponse(aiResponse: string): any {
-    try {
-      // Extract JSON from AI response (it might have additional text)
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/)
-      if (!jsonMatch) {
-        throw new Error('No JSON found in AI response')
-      }
-
-      const parsedResponse = JSON.parse(jsonMatch[0])
-
-      // Validate the response structure
-      if (!parsedResponse.deploymentPlan) {
-        throw new Error('Invalid AI response structure')
-      }
-
-      return {
-        analysis: parsedResponse.deploymentPlan,
-        deploymentPlan: {
-          architecture: parsedResponse.deploymentPlan.architecture,
-          services: parsedResponse.deploymentPlan.services || [],
-          steps: parsedResponse.deploymentPlan.steps || [],
-          estimated_monthly_cost:
-            parsedResponse.deploymentPlan.estimated_monthly_cost || '$20-100',
-          deployment_time:
-            parsedResponse.deploymentPlan.deployment_time || '30-60 minutes',
-          requirements: parsedResponse.deploymentPlan.requirements || [],
-          recommendations: parsedResponse.deploymentPlan.recommendations || [],
-        },
-        aiInsights: {
-          complexity: parsedResponse.analysis?.projectComplexity || 'moderate',
-          traffic: parsedResponse.analysis?.expectedTraffic || 'medium',
-          specialRequirements:
-            parsedResponse.analysis?.specialRequirements || [],
-          environmentVariables: parsedResponse.environmentVariables || [],
-          monitoring: parsedResponse.monitoring || {},
-          cicd: parsedResponse.cicd || {},
-        },
-      }
-    } catch (error) {
-      console.error('Failed to parse AI response:', error)
-      throw error
+  // Map a validated planner response onto the shape the deploy flow uses
+  private toDeploymentPlan(parsedResponse: any): any {
+    return {
+      analysis: parsedResponse.deploymentPlan,
+      deploymentPlan: {
+        architecture: parsedResponse.deploymentPlan.architecture,
+        services: parsedResponse.deploymentPlan.services || [],
+        steps: parsedResponse.deploymentPlan.steps || [],
+        estimated_monthly_cost:
+          parsedResponse.deploymentPlan.estimated_monthly_cost || '$20-100',
+        deployment_time:
+          parsedResponse.deploymentPlan.deployment_time || '30-60 minutes',
+        requirements: parsedResponse.deploymentPlan.requirements || [],
+        recommendations: parsedResponse.deploymentPlan.recommendations || [],
+      },
+      aiInsights: {
+        complexity: parsedResponse.analysis?.projectComplexity || 'moderate',
+        traffic: parsedResponse.analysis?.expectedTraffic || 'medium',
+        specialRequirements: parsedResponse.analysis?.specialRequirements || [],
+        environmentVariables: parsedResponse.environmentVariables || [],
+        monitoring: parsedResponse.monitoring || {},
+        cicd: parsedResponse.cicd || {},
+      },
     }
   }
 
@@ -1202,12 +1711,14 @@ const aiPlanner = new PersonalizedAIDeploymentPlanner()
 async function generatePersonalizedDeploymentPlan(
   repositoryData: any,
   userPrompt: string,
-  projectAnalysis: any
+  projectAnalysis: any,
+  analysisMode?: AnalysisMode
 ): Promise<any> {
   return await aiPlanner.generatePersonalizedDeploymentPlan(
     repositoryData,
     userPrompt,
-    projectAnalysis
+    projectAnalysis,
+    analysisMode
   )
 }
 
@@ -1268,117 +1779,60 @@ async function fetchGitHubRepository(owner: string, repo: string) {
   }
 }
 
+// The GitHub contents listing only has root file names; package.json is the
+// one file fetched in full
+function detectRepositoryFacts(repoData: any): RepositoryFacts {
+  const files: Record<string, string> = {}
+  for (const file of repoData.contents) {
+    files[file.name] = ''
+  }
+  return detectFrameworks({
+    files,
+    packageJson: repoData.packageJson,
+    language: repoData.language || undefined,
+  })
+}
+
 function analyzeRepositoryData(repoData: any) {
-  const { language, packageJson, contents } = repoData
-
-  // Analyze file structure
-  const fileNames = contents.map((file: any) => file.name.toLowerCase())
-  const hasDockerfile = fileNames.includes('dockerfile')
-  const hasPackageJson = fileNames.includes('package.json')
-  const hasRequirementsTxt = fileNames.includes('requirements.txt')
-  const hasComposerJson = fileNames.includes('composer.json')
-  const hasCargoToml = fileNames.includes('cargo.toml')
-  const hasGoMod = fileNames.includes('go.mod')
-
-  // Determine framework and package manager
-  let framework = 'Unknown'
-  let packageManager = 'Unknown'
-  let buildCommand = 'Unknown'
-  let startCommand = 'Unknown'
-  let port = 3000
-
-  if (hasPackageJson && packageJson) {
-    packageManager = fileNames.includes('yarn.lock')
-      ? 'yarn'
-      : fileNames.includes('pnpm-lock.yaml')
-      ? 'pnpm'
-      : 'npm'
-
-    // Analyze package.json for framework
-    const dependencies = {
-      ...packageJson.dependencies,
-      ...packageJson.devDependencies,
-    }
+  const facts = detectRepositoryFacts(repoData)
 
-    if (dependencies['next']) {
-      framework = 'Next.js'
-      buildCommand = `${packageManager} run build`
-      startCommand = `${packageManager} run start`
-      port = 3000
-    } else if (dependencies['react']) {
-      framework = 'React'
-      buildCommand = `${packageManager} run build`
-      startCommand = `${packageManager} run start`
-      port = 3000
-    } else if (dependencies['vue']) {
-      framework = 'Vue.js'
-      buildCommand = `${packageManager} run build`
-      startCommand = `${packageManager} run serve`
-      port = 8080
-    } else if (dependencies['angular']) {
-      framework = 'Angular'
-      buildCommand = `${packageManager} run build`
-      startCommand = `${packageManager} run start`
-      port = 4200
-    } else if (dependencies['express']) {
-      framework = 'Express.js'
-      buildCommand = 'Not required'
-      startCommand = `${packageManager} start`
-      port = 3000
-    }
-  } else if (hasRequirementsTxt || language === 'Python') {
-    packageManager = 'pip'
-    if (fileNames.includes('app.py') || fileNames.includes('main.py')) {
-      framework = 'Flask/FastAPI'
-      buildCommand = 'pip install -r requirements.txt'
-      startCommand = 'python app.py'
-      port = 5000
-    } else {
-      framework = 'Python'
-      buildCommand = 'pip install -r requirements.txt'
-      startCommand = 'python main.py'
-      port = 8000
-    }
-  } else if (hasComposerJson || language === 'PHP') {
-    packageManager = 'composer'
-    framework = 'PHP'
-    buildCommand = 'composer install'
-    startCommand = 'php -S localhost:8000'
-    port = 8000
-  } else if (hasCargoToml || language === 'Rust') {
-    packageManager = 'cargo'
-    framework = 'Rust'
-    buildCommand = 'cargo build --release'
-    startCommand = 'cargo run'
-    port = 8080
-  } else if (hasGoMod || language === 'Go') {
-    packageManager = 'go'
-    framework = 'Go'
-    buildCommand = 'go build'
-    startCommand = 'go run main.go'
-    port = 8080
+  return {
+    language: facts.language,
+    framework: facts.primary?.name || 'Unknown',
+    packageManager: facts.packageManager,
+    hasDatabase: facts.hasDatabase,
+    hasEnvVariables: facts.hasEnvVariables,
+    buildCommand: facts.buildCommand,
+    startCommand: facts.startCommand,
+    port: facts.port,
+    dependencies: facts.dependencies,
+    devDependencies: facts.devDependencies,
+    staticAssets: facts.staticAssets,
+    hasDockerfile: facts.hasDockerfile,
+    detection: facts.candidates,
   }
+}
 
-  return {
-    language: language || 'Unknown',
-    framework,
-    packageManager,
-    hasDatabase: false, // Would need more sophisticated analysis
-    hasEnvVariables:
-      fileNames.includes('.env') || fileNames.includes('.env.example'),
-    buildCommand,
-    startCommand,
-    port,
-    dependencies: packageJson?.dependencies
-      ? Object.keys(packageJson.dependencies)
-      : [],
-    devDependencies: packageJson?.devDependencies
-      ? Object.keys(packageJson.devDependencies)
-      : [],
-    staticAssets: fileNames.some((name: string) =>
-      ['public', 'static', 'assets', 'dist', 'build'].includes(name)
-    ),
-    hasDockerfile,
+// Credentials of the stored profile a request names, if there is one and it
+// belongs to the signed-in user. Role profiles get a session named after what
+// it is for.
+async function resolveRequestCredentials(
+  cookies: CookieReader | undefined,
+  params: any,
+  sessionLabel?: string
+): Promise<AWSCredentials | undefined> {
+  if (!params?.credentialProfileId) return undefined
+  const user = await getGitHubUser(cookies)
+  if (!user) return undefined
+  try {
+    return await credentialVault.resolve(
+      user.id,
+      params.credentialProfileId,
+      roleSessionName(sessionLabel)
+    )
+  } catch (error) {
+    if (error instanceof CredentialProfileNotFoundError) return undefined
+    throw error
   }
 }
 
@@ -1399,34 +1853,34 @@ function formatDate(dateString: string): string {
 // Simulate MCP server responses with real GitHub integration and AI analysis
 async function handleMCPRequest(
   request: MCPRequest,
-  cookies?: any
+  cookies?: CookieReader
 ): Promise<MCPResponse> {
   const { method, params } = request
 
-  console.log('MCP Request:', method, params)
+  console.log('MCP Request:', method, redactSecrets(params))
 
   // Simulate different MCP server methods
   switch (method) {
     case 'deploy_from_github':
       const {
         repositoryUrl,
-        awsCredentials,
         deploymentPlan,
         repositoryName,
         branch = 'main',
       } = params
+      const awsCredentials = await resolveRequestCredentials(
+        cookies,
+        params,
+        repositoryName
+      )
 
       // Validate AWS credentials
-      if (
-        !awsCredentials ||
-        !awsCredentials.accessKeyId ||
-        !awsCredentials.secretAccessKey ||
-        !awsCredentials.region
-      ) {
+      if (!awsCredentials) {
         return {
           error: {
             code: -32602,
-            message: 'AWS credentials are required for deployment',
+            message:
+              'A stored AWS credential profile (credentialProfileId) is required for deployment',
           },
         }
       }
@@ -1456,6 +1910,10 @@ async function handleMCPRequest(
           branch,
           deploymentPlan,
           region: awsCredentials.region,
+          networkPolicy: resolveNetworkPolicy(
+            params.networkPolicy,
+            params.callerIp
+          ),
         })
 
         return {
@@ -1485,9 +1943,130 @@ async function handleMCPRequest(
         }
       }
 
+    case 'plan_deployment': {
+      const planCredentials = await resolveRequestCredentials(
+        cookies,
+        params,
+        'plan'
+      )
+
+      if (!planCredentials) {
+        return {
+          error: {
+            code: -32602,
+            message:
+              'A stored AWS credential profile (credentialProfileId) is required for deployment',
+          },
+        }
+      }
+
+      if (!params.repositoryUrl || !params.repositoryName) {
+        return {
+          error: {
+            code: -32602,
+            message: 'Repository URL and name are required',
+          },
+        }
+      }
+
+      try {
+        const plan = await new RealAWSDeploymentService(
+          planCredentials
+        ).planDeployment({
+          repositoryUrl: params.repositoryUrl,
+          repositoryName: params.repositoryName,
+          branch: params.branch || 'main',
+          deploymentPlan: params.deploymentPlan,
+          region: planCredentials.region,
+          networkPolicy: resolveNetworkPolicy(
+            params.networkPolicy,
+            params.callerIp
+          ),
+        })
+
+        return { result: { plan } }
+      } catch (error) {
+        console.error('Deployment planning failed:', error)
+        return {
+          error: {
+            code: -32603,
+            message: 'Deployment planning failed',
+            details: error instanceof Error ? error.message : 'Unknown error',
+          },
+        }
+      }
+    }
+
+    case 'apply_deployment_plan': {
+      const { planId } = params
+      const applyCredentials = await resolveRequestCredentials(
+        cookies,
+        params,
+        planId
+      )
+
+      if (!applyCredentials) {
+        return {
+          error: {
+            code: -32602,
+            message:
+              'A stored AWS credential profile (credentialProfileId) is required for deployment',
+          },
+        }
+      }
+
+      if (!planId) {
+        return {
+          error: { code: -32602, message: 'Plan ID is required' },
+        }
+      }
+
+      try {
+        const deploymentResult = await new RealAWSDeploymentService(
+          applyCredentials
+        ).applyPlan(planId)
+
+        return {
+          result: {
+            deploymentId: deploymentResult.deploymentId,
+            status: deploymentResult.status,
+            message: 'Deployment plan applied successfully',
+            awsRegion: applyCredentials.region,
+            instanceId: deploymentResult.instanceId,
+            publicIp: deploymentResult.publicIp,
+            deploymentUrl: deploymentResult.deploymentUrl,
+            logs: deploymentResult.logs,
+          },
+        }
+      } catch (error) {
+        console.error('Applying deployment plan failed:', error)
+        return {
+          error: {
+            code: -32603,
+            message: 'AWS deployment failed',
+            details: error instanceof Error ? error.message : 'Unknown error',
+          },
+        }
+      }
+    }
+
     case 'analyze_repository':
       // Extract repository info from params
-      const { repositoryName: repoName, repositoryOwner, userPrompt } = params
+      const {
+        repositoryName: repoName,
+        repositoryOwner,
+        userPrompt,
+        analysisMode = 'ai',
+      } = params
+
+      if (analysisMode !== 'ai' && analysisMode !== 'rules') {
+        return {
+          error: {
+            code: -32602,
+            message: 'analysisMode must be "ai" or "rules"',
+          },
+        }
+      }
 
       if (!repoName || !repositoryOwner || !userPrompt) {
         return {
@@ -1517,17 +2096,29 @@ async function handleMCPRequest(
         const personalizedPlan = await generatePersonalizedDeploymentPlan(
           repositoryData,
           userPrompt,
-          projectAnalysis
+          projectAnalysis,
+          analysisMode
         )
 
         console.log('AI deployment plan generated successfully')
 
+        const conversation = await planConversations.save(
+          aiPlanner.startConversation(
+            repositoryData,
+            userPrompt,
+            projectAnalysis,
+            personalizedPlan
+          )
+        )
+
         return {
           result: {
+            conversationId: conversation.id,
             repository: repositoryData,
             analysis: projectAnalysis,
             deploymentPlan: personalizedPlan.deploymentPlan,
             aiInsights: personalizedPlan.aiInsights,
+            analysisMode,
             recommendations: personalizedPlan.deploymentPlan
               .recommendations || [
               'AI-powered deployment plan generated based on project analysis',
@@ -1549,6 +2140,110 @@ async function handleMCPRequest(
         }
       }
 
+    case 'refine_deployment_plan': {
+      const { conversationId, deploymentPlan, repositoryName, feedback } =
+        params
+
+      if (!feedback?.trim() || (!conversationId && !deploymentPlan)) {
+        return {
+          error: {
+            code: -32602,
+            message:
+              'Missing required parameters: feedback and conversationId or deploymentPlan',
+          },
+        }
+      }
+
+      try {
+        // A plan whose conversation has expired starts a new one from the
+        // plan the user is looking at
+        const conversation =
+          (conversationId && (await planConversations.get(conversationId))) ||
+          (deploymentPlan &&
+            aiPlanner.resumeConversation(repositoryName || 'repository', {
+              deploymentPlan,
+            }))
+
+        if (!conversation) {
+          return {
+            error: {
+              code: -32602,
+              message: `Plan conversation not found: ${conversationId}`,
+            },
+          }
+        }
+
+        const refined = await planConversations.save(
+          await aiPlanner.refineDeploymentPlan(conversation, feedback.trim())
+        )
+        const revision = latestRevision(refined)
+
+        return {
+          result: {
+            conversationId: refined.id,
+            revision: revision.revision,
+            deploymentPlan: revision.deploymentPlan,
+            aiInsights: revision.aiInsights,
+            changeSummary: revision.changeSummary,
+            history: refined.revisions.map(
+              ({ revision, feedback, changeSummary, createdAt }) => ({
+                revision,
+                feedback,
+                changeSummary,
+                createdAt,
+              })
+            ),
+          },
+        }
+      } catch (error) {
+        console.error('Plan refinement failed:', error)
+        return {
+          error: {
+            code: -32603,
+            message: 'Plan refinement failed',
+            details: error instanceof Error ? error.message : 'Unknown error',
+          },
+        }
+      }
+    }
+
+    case 'compare_architectures': {
+      const { repositoryName: repoName, repositoryOwner, userPrompt } = params
+
+      if (!repoName || !repositoryOwner || !userPrompt) {
+        return {
+          error: {
+            code: -32602,
+            message:
+              'Missing required parameters: repositoryName, repositoryOwner, userPrompt',
+          },
+        }
+      }
+
+      try {
+        const repositoryData = await fetchGitHubRepository(
+          repositoryOwner,
+          repoName
+        )
+        const alternatives = await aiPlanner.generateAlternativeArchitectures(
+          repositoryData,
+          userPrompt,
+          analyzeRepositoryData(repositoryData)
+        )
+
+        return { result: { alternatives } }
+      } catch (error) {
+        console.error('Architecture comparison failed:', error)
+        return {
+          error: {
+            code: -32603,
+            message: 'Architecture comparison failed',
+            details: error instanceof Error ? error.message : 'Unknown error',
+          },
+        }
+      }
+    }
+
     case 'get_repositories':
       // Get repositories from GitHub API instead of mock data
       const token = cookies?.get('github_token')?.value
@@ -1626,106 +2321,110 @@ async function handleMCPRequest(
         }
 
         // Check if we have stored deployment details
-        const storedDeployment = deploymentStorage.get(deploymentId)
-        if (storedDeployment) {
-          // We have the actual deployment details, simulate progress
-          const timestamp = deploymentId.replace('deploy_', '')
-          const deploymentStartTime = parseInt(timestamp)
-          const currentTime = Date.now()
-          const elapsedMinutes =
-            (currentTime - deploymentStartTime) / (1000 * 60)
-
-          let status = 'deploying'
-          let progress = 0
-          let logs: string[] = []
-          let message = ''
-
-          if (elapsedMinutes < 1) {
-            progress = 20
-            status = 'deploying'
-            message = 'EC2 instance created, starting application setup...'
-            logs = [
-              '✅ EC2 instance launched successfully',
-              '🔧 Installing system dependencies...',
-              '⏳ Cloning repository...',
-            ]
-          } else if (elapsedMinutes < 2) {
-            progress = 40
-            status = 'deploying'
-            message = 'Installing application dependencies...'
-            logs = [
-              '✅ EC2 instance launched successfully',
-              '✅ System dependencies installed',
-              '✅ Repository cloned successfully',
-              '📦 Installing npm dependencies...',
-            ]
-          } else if (elapsedMinutes < 3) {
-            progress = 60
-            status = 'deploying'
-            message = 'Building application...'
-            logs = [
-              '✅ EC2 instance launched successfully',
-              '✅ System dependencies installed',
-              '✅ Repository cloned successfully',
-              '✅ Dependencies installed',
-              '🔨 Building application...',
-            ]
-          } else if (elapsedMinutes < 4) {
-            progress = 80
-            status = 'deploying'
-            message = 'Starting application service...'
-            logs = [
-              '✅ EC2 instance launched successfully',
-              '✅ System dependencies installed',
-              '✅ Repository cloned successfully',
-              '✅ Dependencies installed',
-              '✅ Application built successfully',
-              '🚀 Starting application service...',
-            ]
-          } else {
-            progress = 100
-            status = 'completed'
-            message = 'Application deployed successfully!'
-            logs = [
-              '✅ EC2 instance launched successfully',
-              '✅ System dependencies installed',
-              '✅ Repository cloned successfully',
-              '✅ Dependencies installed',
-              '✅ Application built successfully',
-              '✅ Application service started',
-              '✅ Nginx proxy configured',
-              '🎉 Deployment completed successfully!',
-            ]
+        const record = await deploymentStore.get(deploymentId)
+
+        // Deployments started through the MCP server carry their own steps
+        if (record && record.source !== 'frontend') {
+          return {
+            result: {
+              deploymentId,
+              status: record.status,
+              progress: record.progress,
+              message: record.message || record.status,
+              logs: (record.state.steps || []).map(
+                (step: any) =>
+                  `${step.name}: ${step.message || step.output || step.status}`
+              ),
+              deploymentUrl: record.publicUrl,
+              liveUrl: record.publicUrl,
+              applicationReady: record.status === 'completed',
+              cost: getCostVariance(record),
+            },
           }
+        }
 
-          // Return deployment details with current progress
+        if (!record) {
+          return {
+            result: {
+              deploymentId,
+              status: 'error',
+              progress: 0,
+              logs: [`❌ No deployment found with ID ${deploymentId}`],
+              message: 'Deployment not found',
+              applicationReady: false,
+            },
+          }
+        }
+
+        const storedDeployment = record.state
+        const elapsedMinutes = Math.floor(
+          (Date.now() - new Date(record.createdAt).getTime()) / (1000 * 60)
+        )
+
+        // Finished deployments keep their final status
+        if (record.status === 'completed' || record.status === 'failed') {
           return {
             result: {
               ...storedDeployment,
-              status,
-              progress,
-              logs,
-              message,
-              elapsedTime: `${Math.floor(elapsedMinutes)} minutes`,
-              estimatedTimeRemaining:
-                status === 'completed'
-                  ? '0 minutes'
-                  : `${Math.max(0, 4 - Math.floor(elapsedMinutes))} minutes`,
-              applicationReady: status === 'completed',
+              status: record.status,
+              progress: record.progress,
+              message: record.message,
+              elapsedTime: `${elapsedMinutes} minutes`,
+              cost: getCostVariance(record),
             },
           }
         }
 
-        // Fallback: No stored deployment found, return basic status
+        // Plans awaiting approval or still being applied have no instance yet
+        if (!storedDeployment.instanceId) {
+          return {
+            result: {
+              deploymentId,
+              status: record.status,
+              progress: record.progress,
+              logs: [record.message || record.status],
+              message: record.message || record.status,
+              applicationReady: false,
+            },
+          }
+        }
+
+        const statusCredentials = await resolveRequestCredentials(
+          cookies,
+          params
+        )
+        const probe = await probeInstanceDeployment({
+          ec2Client: new EC2Client(
+            awsClientConfig(statusCredentials, record.region)
+          ),
+          instanceId: storedDeployment.instanceId,
+          publicIp: storedDeployment.publicIp,
+        })
+
+        const refreshed = {
+          ...storedDeployment,
+          status: probe.status,
+          logs: probe.logs,
+          message: probe.message,
+          instanceState: probe.instanceState,
+          setupPhase: probe.phase,
+          applicationReady: probe.applicationReady,
+          // Built from the probe, so they never claim success early
+          instructions: deploymentInstructions(probe),
+        }
+        await deploymentStore.save({
+          ...record,
+          status: probe.status,
+          progress: probe.progress,
+          message: probe.message,
+          state: refreshed,
+        })
+
         return {
           result: {
-            deploymentId,
-            status: 'completed',
-            progress: 100,
-            logs: ['Deployment details not found in memory'],
-            message:
-              'Deployment completed! Check AWS EC2 console for instance details.',
-            applicationReady: true,
+            ...refreshed,
+            progress: probe.progress,
+            elapsedTime: `${elapsedMinutes} minutes`,
           },
         }
       } catch (error) {
@@ -1758,6 +2457,14 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(response)
   } catch (error) {
+    // The deployment role could not be assumed in the target account
+    if (error instanceof RoleAssumptionError) {
+      return NextResponse.json(
+        { error: { code: -32602, message: error.message } },
+        { status: 401 }
+      )
+    }
+
     console.error('MCP API Error:', error)
     return NextResponse.json(
       {
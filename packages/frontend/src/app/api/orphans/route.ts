@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EC2Client } from '@aws-sdk/client-ec2'
+import {
+  deploymentStore,
+  InMemoryDeploymentStore,
+} from '../../../lib/deployment-store'
+import { scanOrphanedResources } from '../../../lib/orphan-scan'
+import { destroyResources } from '../../../lib/teardown'
+import {
+  awsClientConfig,
+  resolveCredentialProfile,
+} from '../../../lib/credential-vault'
+import { roleSessionName } from '../../../lib/assume-role'
+import {
+  getGitHubUser,
+  githubAuthenticationRequired,
+} from '../../../lib/github-session'
+
+// POST /api/orphans - Scan a region for EC2 resources created by AWS Deploy AI
+// that no stored deployment accounts for.
+// Body: { region?, credentialProfileId?, delete?, resourceIds?, all?,
+// dryRun? }. With delete, the orphans named in resourceIds (or every one, with
+// all) are deleted as well.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getGitHubUser(request.cookies)
+    if (!user) return githubAuthenticationRequired()
+
+    const body = await request.json().catch(() => ({}))
+    const { resourceIds, all = false, dryRun = false } = body
+    const awsCredentials = await resolveCredentialProfile(
+      user.id,
+      body.credentialProfileId,
+      roleSessionName('orphan-scan')
+    )
+    const region =
+      body.region || awsCredentials?.region || process.env.AWS_REGION
+
+    if (!region) {
+      return NextResponse.json(
+        { success: false, error: 'region is required' },
+        { status: 400 }
+      )
+    }
+
+    const ec2Client = new EC2Client(awsClientConfig(awsCredentials, region))
+
+    const scan = await scanOrphanedResources({
+      ec2Client,
+      region,
+      deployments: await deploymentStore.list(),
+    })
+
+    if (!body.delete) {
+      return NextResponse.json({ success: true, data: scan })
+    }
+
+    // Resources matched only by name could still belong to a deployment this
+    // server does not know about, so nothing is deleted unless it is named
+    if (!all && !(Array.isArray(resourceIds) && resourceIds.length > 0)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            'Name the orphans to delete in resourceIds, or pass all: true to delete every one found',
+        },
+        { status: 400 }
+      )
+    }
+    if (!dryRun && deploymentStore instanceof InMemoryDeploymentStore) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            'Refusing to delete orphans with the in-memory deployment store, which does not know every live deployment. Set DATABASE_URL to use the shared store.',
+        },
+        { status: 409 }
+      )
+    }
+
+    const selected = scan.orphans
+      .map((orphan) => orphan.resource)
+      .filter((resource) => all || resourceIds.includes(resource.id))
+    const results = await destroyResources(selected, { ec2Client, dryRun })
+    const failed = results.filter((result) => result.outcome === 'failed')
+
+    return NextResponse.json(
+      {
+        success: failed.length === 0,
+        dryRun,
+        data: { ...scan, deletion: results },
+        ...(failed.length > 0 && {
+          error: `${failed.length} resource(s) could not be deleted`,
+        }),
+      },
+      { status: failed.length > 0 ? 500 : 200 }
+    )
+  } catch (error) {
+    console.error('Error scanning for orphaned resources:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to scan for orphaned resources',
+      },
+      { status: 500 }
+    )
+  }
+}
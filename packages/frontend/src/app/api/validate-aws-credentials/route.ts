@@ -1,72 +1,109 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { STSClient, GetCallerIdentityCommand } from '@aws-sdk/client-sts'
-
-interface AWSCredentials {
-  accessKeyId: string
-  secretAccessKey: string
-  region: string
-}
+import {
+  AWSCredentials,
+  CredentialProfileNotFoundError,
+  credentialVault,
+} from '../../../lib/credential-vault'
+import {
+  getCallerIdentity,
+  InvalidCredentialsError,
+} from '../../../lib/aws-identity'
+import { RoleAssumptionError } from '../../../lib/assume-role'
+import { deploymentStore } from '../../../lib/deployment-store'
+import {
+  PreflightOptions,
+  resourceTypesForServices,
+  runPermissionPreflight,
+} from '../../../lib/iam-preflight'
+import { resolveNetworkPolicy } from '../../../lib/network-policy'
+import type { ExecutionPlan } from '../../../lib/execution-plan'
+import {
+  getGitHubUser,
+  githubAuthenticationRequired,
+} from '../../../lib/github-session'
 
+// Body: { credentialProfileId } for one of the signed-in user's stored
+// profiles, or raw credentials to check them before saving. A role profile is
+// checked by assuming it.
+// With { planId } (a plan from /api/deploy/plan) or { deploymentPlan }, the
+// response also has a preflight: the IAM actions the plan needs, which of
+// them the credentials are missing and a minimal policy granting them.
 export async function POST(request: NextRequest) {
   try {
-    const credentials: AWSCredentials = await request.json()
+    const body = await request.json()
+    let credentials: AWSCredentials = body
 
-    // Validate required fields
-    if (
+    if (body.credentialProfileId) {
+      const user = await getGitHubUser(request.cookies)
+      if (!user) return githubAuthenticationRequired()
+      credentials = await credentialVault.resolve(
+        user.id,
+        body.credentialProfileId
+      )
+    } else if (
       !credentials.accessKeyId ||
       !credentials.secretAccessKey ||
       !credentials.region
     ) {
+      // Validate required fields
       return NextResponse.json(
         { error: 'Missing required credentials fields' },
         { status: 400 }
       )
     }
 
-    // Test AWS credentials by making a simple STS call
-    const stsClient = new STSClient({
-      region: credentials.region,
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-      },
-    })
-
-    try {
-      const command = new GetCallerIdentityCommand({})
-      const response = await stsClient.send(command)
-
-      return NextResponse.json({
-        valid: true,
-        accountId: response.Account,
-        arn: response.Arn,
-        userId: response.UserId,
-        message: 'AWS credentials are valid',
-      })
-    } catch (awsError: any) {
-      console.error('AWS credential validation failed:', awsError)
+    const identity = await getCallerIdentity(credentials)
 
-      let errorMessage = 'Invalid AWS credentials'
-
-      if (awsError.name === 'InvalidUserError') {
-        errorMessage = 'Access Key ID not found'
-      } else if (awsError.name === 'SignatureDoesNotMatch') {
-        errorMessage = 'Invalid Secret Access Key'
-      } else if (awsError.name === 'AccessDenied') {
-        errorMessage = 'Access denied - insufficient permissions'
-      } else if (awsError.message) {
-        errorMessage = awsError.message
+    let resourceTypes: string[] | undefined
+    // A plan launches instances with the instance profile of its network
+    // policy; without a plan, with the server's default one
+    let options: PreflightOptions = resolveNetworkPolicy()
+    if (body.planId) {
+      const record = await deploymentStore.get(body.planId)
+      const plan = record?.state.plan as ExecutionPlan | undefined
+      if (!plan) {
+        return NextResponse.json(
+          { error: `Plan not found: ${body.planId}`, valid: true, ...identity },
+          { status: 404 }
+        )
       }
+      resourceTypes = plan.changes
+        .filter((change) => change.action === 'create')
+        .map((change) => change.type)
+      options = record?.state.request?.networkPolicy || {}
+    } else if (Array.isArray(body.deploymentPlan?.services)) {
+      resourceTypes = resourceTypesForServices(body.deploymentPlan.services)
+    }
 
+    return NextResponse.json({
+      valid: true,
+      ...identity,
+      message: 'AWS credentials are valid',
+      ...(resourceTypes && {
+        preflight: await runPermissionPreflight(
+          credentials,
+          resourceTypes,
+          options
+        ),
+      }),
+    })
+  } catch (error) {
+    if (error instanceof CredentialProfileNotFoundError) {
       return NextResponse.json(
-        {
-          error: errorMessage,
-          valid: false,
-        },
+        { error: error.message, valid: false },
+        { status: 404 }
+      )
+    }
+    if (
+      error instanceof InvalidCredentialsError ||
+      error instanceof RoleAssumptionError
+    ) {
+      return NextResponse.json(
+        { error: error.message, valid: false },
         { status: 401 }
       )
     }
-  } catch (error) {
+
     console.error('Credential validation error:', error)
     return NextResponse.json(
       {
@@ -22,14 +22,16 @@ import GitHubRepoCard from '../components/GitHubRepoCard'
 import DeploymentStatus from '../components/DeploymentStatus'
 import AWSCredentialsManager from '../components/AWSCredentialsManager'
 import AWSCredentialsForm from '../components/AWSCredentialsForm'
+import type {
+  CredentialProfile,
+  NewCredentialProfile,
+} from '../lib/credential-vault'
 import DeploymentPlanPreview from '../components/DeploymentPlanPreview'
+import ArchitectureComparison from '../components/ArchitectureComparison'
+import { ArchitectureAlternative } from '../lib/architecture-alternatives'
 import RealTimeDeploymentStatus from '../components/RealTimeDeploymentStatus'
-
-interface AWSCredentials {
-  accessKeyId: string
-  secretAccessKey: string
-  region: string
-}
+import type { ExecutionPlan } from '../lib/execution-plan'
+import type { PermissionPreflight } from '../lib/iam-preflight'
 
 interface DeploymentPlan {
   architecture: string
@@ -96,17 +98,32 @@ export default function Home() {
   // New AI-powered deployment states
   const [userPrompt, setUserPrompt] = useState('')
   const [loading, setLoading] = useState(false)
-  const [awsCredentials, setAwsCredentials] = useState<AWSCredentials | null>(
-    null
-  )
+  // Stored credential profile; the keys themselves stay on the server
+  const [credentialProfile, setCredentialProfile] =
+    useState<CredentialProfile | null>(null)
   const [deploymentPlan, setDeploymentPlan] = useState<DeploymentPlan | null>(
     null
   )
   const [analysisData, setAnalysisData] = useState<any | null>(null)
   const [aiInsights, setAiInsights] = useState<any | null>(null)
+  // Conversation behind the current plan, so feedback refines it in place
+  const [planConversationId, setPlanConversationId] = useState<string | null>(
+    null
+  )
+  const [planRevision, setPlanRevision] = useState(1)
+  const [planChangeSummary, setPlanChangeSummary] = useState<string[]>([])
+  const [isRefiningPlan, setIsRefiningPlan] = useState(false)
+  const [alternatives, setAlternatives] = useState<ArchitectureAlternative[]>(
+    []
+  )
+  const [showComparison, setShowComparison] = useState(false)
+  const [isComparing, setIsComparing] = useState(false)
   const [showCredentialsManager, setShowCredentialsManager] = useState(false)
   const [showAWSCredentialsForm, setShowAWSCredentialsForm] = useState(false)
   const [showPlanPreview, setShowPlanPreview] = useState(false)
+  const [executionPlan, setExecutionPlan] = useState<ExecutionPlan | null>(null)
+  const [permissionPreflight, setPermissionPreflight] =
+    useState<PermissionPreflight | null>(null)
   const [isValidatingCredentials, setIsValidatingCredentials] = useState(false)
   const [currentDeploymentId, setCurrentDeploymentId] = useState<string | null>(
     null
@@ -132,6 +149,13 @@ export default function Home() {
         checkGitHubAuth()
       }, 100)
     }
+
+    // Status links in Slack and webhook notifications open the deployment
+    const linkedDeployment = urlParams.get('deployment')
+    if (linkedDeployment) {
+      setCurrentDeploymentId(linkedDeployment)
+      setShowRealTimeStatus(true)
+    }
   }, [])
 
   async function checkMCPConnection() {
@@ -360,13 +384,12 @@ export default function Home() {
     // Skip credentials, go directly to user prompt
   }
 
-  const handleCredentialsSaved = (credentials: AWSCredentials) => {
-    setAwsCredentials(credentials)
+  const handleCredentialsSaved = (profile: CredentialProfile) => {
+    setCredentialProfile(profile)
     setShowCredentialsManager(false)
-    setDeploymentStep('deploy')
-    // Now execute deployment with approved plan and credentials
+    // Now work out the concrete changes for the approved plan
     if (deploymentPlan) {
-      executeDeployment(deploymentPlan)
+      planDeployment(deploymentPlan, profile)
     }
   }
 
@@ -399,6 +422,9 @@ export default function Home() {
       setAnalysisData(data.analysis)
       setDeploymentPlan(data.deploymentPlan)
       setAiInsights(data.aiInsights) // Store AI insights from Bedrock analysis
+      setPlanConversationId(data.conversationId || null)
+      setPlanRevision(1)
+      setPlanChangeSummary([])
       setDeploymentStep('plan')
       setShowPlanPreview(true)
     } catch (error) {
@@ -409,12 +435,60 @@ export default function Home() {
     }
   }, [selectedRepo, userPrompt, repositories])
 
-  const handleAWSCredentialsSubmit = async (credentials: AWSCredentials) => {
+  const handleRefinePlan = useCallback(
+    async (feedback: string) => {
+      if (!deploymentPlan) return
+
+      setIsRefiningPlan(true)
+      try {
+        const response = await fetch('/api/mcp', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            method: 'refine_deployment_plan',
+            params: {
+              conversationId: planConversationId,
+              deploymentPlan,
+              repositoryName: selectedRepo,
+              feedback,
+            },
+          }),
+        })
+
+        const data = await response.json()
+        if (!response.ok || data.error) {
+          throw new Error(data.error?.message || 'Failed to refine plan')
+        }
+
+        const { result } = data
+        setDeploymentPlan(result.deploymentPlan)
+        setAiInsights(result.aiInsights)
+        setPlanConversationId(result.conversationId)
+        setPlanRevision(result.revision)
+        setPlanChangeSummary(result.changeSummary || [])
+        // Any previewed changes belonged to the previous revision
+        setExecutionPlan(null)
+        setDeploymentStep('plan')
+      } catch (error) {
+        console.error('Failed to refine deployment plan:', error)
+        alert('Failed to update the deployment plan. Please try again.')
+      } finally {
+        setIsRefiningPlan(false)
+      }
+    },
+    [deploymentPlan, planConversationId, selectedRepo]
+  )
+
+  const handleAWSCredentialsSubmit = async (
+    credentials: NewCredentialProfile
+  ) => {
     setIsValidatingCredentials(true)
 
     try {
-      // Validate credentials by making a test AWS call
-      const response = await fetch('/api/validate-aws-credentials', {
+      // The server checks the keys or role with AWS and stores them encrypted
+      const response = await fetch('/api/credentials', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -422,20 +496,12 @@ export default function Home() {
         body: JSON.stringify(credentials),
       })
 
+      const data = await response.json()
       if (!response.ok) {
-        const error = await response.json()
-        throw new Error(error.message || 'Invalid AWS credentials')
+        throw new Error(data.error || 'Invalid AWS credentials')
       }
 
-      // Store credentials and proceed with deployment
-      setAwsCredentials(credentials)
-      setShowAWSCredentialsForm(false)
-      setDeploymentStep('deploy')
-
-      // Execute deployment with the approved plan
-      if (deploymentPlan) {
-        await executeDeployment(deploymentPlan)
-      }
+      await handleCredentialProfileSelect(data.data.profile)
     } catch (error) {
       console.error('AWS credentials validation failed:', error)
       alert(
@@ -448,6 +514,16 @@ export default function Home() {
     }
   }
 
+  const handleCredentialProfileSelect = async (profile: CredentialProfile) => {
+    setCredentialProfile(profile)
+    setShowAWSCredentialsForm(false)
+
+    // Work out the concrete changes for the approved plan
+    if (deploymentPlan) {
+      await planDeployment(deploymentPlan, profile)
+    }
+  }
+
   const handleAWSCredentialsCancel = () => {
     setShowAWSCredentialsForm(false)
     setDeploymentStep('plan')
@@ -467,21 +543,75 @@ export default function Home() {
     setShowPlanPreview(false)
 
     // Check if AWS credentials are available
-    if (!awsCredentials) {
+    if (!credentialProfile) {
       // Show AWS credentials form
       setShowAWSCredentialsForm(true)
       setDeploymentStep('credentials')
       return
     }
 
-    // Proceed with deployment if credentials are available
-    setDeploymentStep('deploy')
-    await executeDeployment(approvedPlan)
+    // Work out the concrete changes if credentials are available
+    await planDeployment(approvedPlan, credentialProfile)
   }
 
-  const executeDeployment = async (plan: DeploymentPlan) => {
-    setIsDeploying(true)
-    setDeploymentStatus('deploying')
+  const handleCompareAlternatives = async () => {
+    const selectedRepoData = repositories.find((r) => r.name === selectedRepo)
+    if (!selectedRepoData) return
+
+    setIsComparing(true)
+    try {
+      const response = await fetch('/api/alternatives', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          repositoryUrl: `https://github.com/${selectedRepoData.owner}/${selectedRepoData.name}`,
+          userPrompt,
+        }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(
+          data.details || data.error || `Comparison failed (${response.status})`
+        )
+      }
+
+      setAlternatives(data.alternatives)
+      setShowPlanPreview(false)
+      setShowComparison(true)
+    } catch (error) {
+      console.error('Failed to compare architectures:', error)
+      alert(
+        `Failed to compare architectures: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    } finally {
+      setIsComparing(false)
+    }
+  }
+
+  // A picked alternative replaces the plan and goes straight to deployment
+  // planning, like an approved plan
+  const handleAlternativeSelected = async (
+    alternative: ArchitectureAlternative
+  ) => {
+    setShowComparison(false)
+    setExecutionPlan(null)
+    // Refining the new plan starts a conversation from it
+    setPlanConversationId(null)
+    setPlanRevision(1)
+    setPlanChangeSummary([])
+    await handlePlanApproved(alternative.deploymentPlan)
+  }
+
+  // Compute the exact resources the approved plan will create and show them
+  // for a final approval. Nothing is created until the plan is applied.
+  const planDeployment = async (
+    plan: DeploymentPlan,
+    profile: CredentialProfile
+  ) => {
+    setLoading(true)
 
     try {
       const selectedRepoData = repositories.find((r) => r.name === selectedRepo)
@@ -491,33 +621,89 @@ export default function Home() {
         )
       }
 
+      const response = await fetch('/api/deploy/plan', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          repositoryName: selectedRepoData.name,
+          repositoryUrl: `https://github.com/${selectedRepoData.owner}/${selectedRepoData.name}`,
+          deploymentPlan: plan,
+          branch: 'main',
+          credentialProfileId: profile.id,
+        }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(
+          data.details || data.error || `Planning failed (${response.status})`
+        )
+      }
+
+      setExecutionPlan(data.plan)
+      setPermissionPreflight(null)
+      setDeploymentStep('plan')
+      setShowPlanPreview(true)
+
+      // Check the plan's IAM permissions while the user reviews it
+      fetch('/api/validate-aws-credentials', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          credentialProfileId: profile.id,
+          planId: data.plan.id,
+        }),
+      })
+        .then((preflightResponse) => preflightResponse.json())
+        .then((preflightData) =>
+          setPermissionPreflight(preflightData.preflight || null)
+        )
+        .catch((error) => {
+          console.warn('IAM permission preflight failed:', error)
+        })
+    } catch (error) {
+      console.error('Deployment planning failed:', error)
+      alert(
+        `Deployment planning failed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Apply a reviewed plan, creating exactly the resources it lists
+  const executeDeployment = async (planId: string) => {
+    setShowPlanPreview(false)
+    setExecutionPlan(null)
+    setDeploymentStep('deploy')
+    setIsDeploying(true)
+    setDeploymentStatus('deploying')
+
+    try {
       if (!githubConnected) {
         throw new Error(
           'GitHub authentication required. Please connect your GitHub account.'
         )
       }
 
-      if (!awsCredentials) {
+      if (!credentialProfile) {
         throw new Error(
           'AWS credentials required. Please provide your AWS credentials.'
         )
       }
 
-      // Execute deployment using the approved plan and user's AWS credentials
       const response = await fetch('/api/deploy', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          repositoryName: selectedRepoData.name,
-          repositoryUrl: `https://github.com/${selectedRepoData.owner}/${selectedRepoData.name}`,
-          prompt: `Deploy this repository using the following plan: ${JSON.stringify(
-            plan
-          )}`,
-          deploymentPlan: plan,
-          branch: 'main',
-          awsCredentials: awsCredentials, // Include user's AWS credentials
+          planId,
+          credentialProfileId: credentialProfile.id,
         }),
       })
 
@@ -532,7 +718,9 @@ export default function Home() {
         }
 
         throw new Error(
-          errorData.error || `Deployment failed (${response.status})`
+          errorData.details ||
+            errorData.error ||
+            `Deployment failed (${response.status})`
         )
       }
 
@@ -986,15 +1174,33 @@ export default function Home() {
             plan={deploymentPlan}
             repositoryName={selectedRepo || ''}
             aiInsights={aiInsights}
+            revision={planRevision}
+            changeSummary={planChangeSummary}
+            isRefining={isRefiningPlan}
+            executionPlan={executionPlan}
+            permissionPreflight={permissionPreflight}
             onApprove={handlePlanApproved}
+            onApply={executeDeployment}
             onReject={() => {
               setShowPlanPreview(false)
+              setExecutionPlan(null)
               setDeploymentStep('select')
             }}
-            onModify={(feedback: string) => {
-              console.log('User feedback:', feedback)
-              setShowPlanPreview(false)
-              setDeploymentStep('select')
+            onModify={handleRefinePlan}
+            onCompareAlternatives={handleCompareAlternatives}
+            isComparing={isComparing}
+          />
+        )}
+
+        {/* Architecture Comparison Modal */}
+        {showComparison && alternatives.length > 0 && (
+          <ArchitectureComparison
+            alternatives={alternatives}
+            repositoryName={selectedRepo || ''}
+            onSelect={handleAlternativeSelected}
+            onClose={() => {
+              setShowComparison(false)
+              setShowPlanPreview(true)
             }}
           />
         )}
@@ -1003,6 +1209,7 @@ export default function Home() {
         {showAWSCredentialsForm && (
           <AWSCredentialsForm
             onCredentialsSubmit={handleAWSCredentialsSubmit}
+            onProfileSelect={handleCredentialProfileSelect}
             onCancel={handleAWSCredentialsCancel}
             isValidating={isValidatingCredentials}
           />
@@ -1013,6 +1220,7 @@ export default function Home() {
           <RealTimeDeploymentStatus
             deploymentId={currentDeploymentId}
             repositoryName={selectedRepo || 'Unknown Repository'}
+            credentialProfileId={credentialProfile?.id}
             onClose={() => {
               setShowRealTimeStatus(false)
               setCurrentDeploymentId(null)
@@ -1021,8 +1229,9 @@ export default function Home() {
             onRetry={() => {
               setShowRealTimeStatus(false)
               setCurrentDeploymentId(null)
-              if (deploymentPlan) {
-                executeDeployment(deploymentPlan)
+              // A plan is applied once, so a retry plans again for review
+              if (deploymentPlan && credentialProfile) {
+                planDeployment(deploymentPlan, credentialProfile)
               }
             }}
           />
@@ -1033,6 +1242,7 @@ export default function Home() {
           <RealTimeDeploymentStatus
             deploymentId={currentDeploymentId || 'general'}
             repositoryName="Deployment Status"
+            credentialProfileId={credentialProfile?.id}
             onClose={() => setShowDeploymentStatus(false)}
             onRetry={() => {
               setShowDeploymentStatus(false)
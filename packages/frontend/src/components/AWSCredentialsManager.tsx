@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react'
 import { Eye, EyeOff, Shield, Key, AlertCircle } from 'lucide-react'
+import type { CredentialProfile } from '../lib/credential-vault'
 
 interface AWSCredentials {
   accessKeyId: string
@@ -8,7 +9,7 @@ interface AWSCredentials {
 }
 
 interface AWSCredentialsManagerProps {
-  onCredentialsSet: (credentials: AWSCredentials) => void
+  onCredentialsSet: (profile: CredentialProfile) => void
   onCredentialsCleared: () => void
 }
 
@@ -30,56 +31,78 @@ export default function AWSCredentialsManager({
     region: 'us-east-1',
   })
   const [showSecret, setShowSecret] = useState(false)
-  const [isStored, setIsStored] = useState(false)
+  const [profile, setProfile] = useState<CredentialProfile | null>(null)
 
   useEffect(() => {
-    // Check if credentials are already stored in localStorage
-    try {
-      const stored = localStorage.getItem('aws_credentials')
-      if (stored) {
-        const parsed = JSON.parse(stored)
-        setCredentials(parsed)
-        setIsStored(true)
-        onCredentialsSet(parsed)
-      }
-    } catch (error) {
-      console.error('Error loading stored credentials:', error)
-    }
+    // Earlier versions kept raw keys in the browser
+    localStorage.removeItem('aws_credentials')
+
+    // Use the most recently used profile stored on the server, if any
+    fetch('/api/credentials')
+      .then((response) => response.json())
+      .then((data) => {
+        const [latest] = ((data.data || []) as CredentialProfile[]).sort(
+          (a, b) =>
+            (b.lastUsedAt || b.createdAt).localeCompare(
+              a.lastUsedAt || a.createdAt
+            )
+        )
+        if (latest) {
+          setProfile(latest)
+          onCredentialsSet(latest)
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading stored credentials:', error)
+      })
   }, [onCredentialsSet])
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (!credentials.accessKeyId || !credentials.secretAccessKey) {
       alert('Please fill in all required fields')
       return
     }
 
     try {
-      // Store securely in localStorage (client-side only)
-      localStorage.setItem('aws_credentials', JSON.stringify(credentials))
-      setIsStored(true)
-      onCredentialsSet(credentials)
-    } catch (error) {
-      console.error('Error storing credentials:', error)
-      alert('Failed to store credentials')
-    }
-  }
+      // Checked with AWS and stored encrypted on the server
+      const response = await fetch('/api/credentials', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(credentials),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to store credentials')
+      }
 
-  const handleClear = () => {
-    try {
-      localStorage.removeItem('aws_credentials')
+      setProfile(data.data.profile)
       setCredentials({
         accessKeyId: '',
         secretAccessKey: '',
         region: 'us-east-1',
       })
-      setIsStored(false)
+      onCredentialsSet(data.data.profile)
+    } catch (error) {
+      console.error('Error storing credentials:', error)
+      alert(
+        error instanceof Error ? error.message : 'Failed to store credentials'
+      )
+    }
+  }
+
+  const handleClear = async () => {
+    try {
+      if (profile) {
+        await fetch(`/api/credentials/${profile.id}`, { method: 'DELETE' })
+      }
+      setProfile(null)
       onCredentialsCleared()
     } catch (error) {
       console.error('Error clearing credentials:', error)
     }
   }
 
-  if (isStored) {
+  if (profile) {
     return (
       <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
         <div className="flex items-center justify-between">
@@ -90,8 +113,10 @@ export default function AWSCredentialsManager({
                 AWS Credentials Configured
               </p>
               <p className="text-xs text-green-700 dark:text-green-300">
-                Region: {credentials.region} • Key:{' '}
-                {credentials.accessKeyId.substring(0, 8)}...
+                Region: {profile.region} •{' '}
+                {profile.type === 'assume-role'
+                  ? `Role: ${profile.roleArn}`
+                  : `Key: ...${profile.accessKeyIdHint}`}
               </p>
             </div>
           </div>
@@ -115,8 +140,8 @@ export default function AWSCredentialsManager({
             AWS Credentials Required
           </h3>
           <p className="text-sm text-gray-600 dark:text-gray-300">
-            Your credentials are stored securely in your browser and won&apos;t
-            be sent to our servers.
+            Your keys are encrypted and stored on the deployment server; your
+            browser only keeps a reference to them.
           </p>
         </div>
       </div>
@@ -192,10 +217,8 @@ export default function AWSCredentialsManager({
           <div className="text-xs text-yellow-800 dark:text-yellow-200">
             <p className="font-medium mb-1">Security Notice:</p>
             <ul className="list-disc list-inside space-y-1">
-              <li>
-                Credentials are stored only in your browser's local storage
-              </li>
-              <li>They are never transmitted to our servers</li>
+              <li>Keys are checked with AWS, then stored encrypted</li>
+              <li>They are never kept in your browser</li>
               <li>Use IAM credentials with minimal required permissions</li>
               <li>
                 Consider using temporary credentials for enhanced security
@@ -0,0 +1,178 @@
+import {
+  Clock,
+  DollarSign,
+  CheckCircle,
+  XCircle,
+  Server,
+  Target,
+} from 'lucide-react'
+import {
+  ArchitectureAlternative,
+  formatMonthlyCost,
+} from '../lib/architecture-alternatives'
+
+interface ArchitectureComparisonProps {
+  alternatives: ArchitectureAlternative[]
+  repositoryName: string
+  onSelect: (alternative: ArchitectureAlternative) => void
+  onClose: () => void
+}
+
+const STRATEGY_STYLES: Record<ArchitectureAlternative['strategy'], string> = {
+  cost: 'from-green-600 to-emerald-600',
+  performance: 'from-purple-600 to-indigo-600',
+  hybrid: 'from-blue-600 to-cyan-600',
+}
+
+export default function ArchitectureComparison({
+  alternatives,
+  repositoryName,
+  onSelect,
+  onClose,
+}: ArchitectureComparisonProps) {
+  const cheapest = Math.min(
+    ...alternatives.map((alternative) => alternative.monthlyCost.min)
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="max-w-6xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden">
+          {/* Header */}
+          <div className="bg-gradient-to-r from-blue-600 to-purple-600 px-6 py-4 relative">
+            <button
+              onClick={onClose}
+              className="absolute top-4 right-4 text-white hover:text-gray-200 transition-colors"
+            >
+              <svg
+                className="h-6 w-6"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+            <h2 className="text-xl font-bold text-white mb-2">
+              ⚖️ Architecture Options for &quot;{repositoryName}&quot;
+            </h2>
+            <p className="text-blue-100 text-sm">
+              Compare the trade-offs and deploy the option that fits
+            </p>
+          </div>
+
+          <div className="p-6 grid grid-cols-1 lg:grid-cols-3 gap-4">
+            {alternatives.map((alternative) => (
+              <div
+                key={alternative.strategy}
+                className="flex flex-col border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden"
+              >
+                <div
+                  className={`bg-gradient-to-r ${STRATEGY_STYLES[alternative.strategy]} px-4 py-3`}
+                >
+                  <h3 className="font-semibold text-white">
+                    {alternative.label}
+                  </h3>
+                  {alternative.summary && (
+                    <p className="text-xs text-white/80 mt-1">
+                      {alternative.summary}
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex-1 p-4 space-y-4 text-sm">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="flex items-center space-x-2">
+                      <DollarSign className="h-4 w-4 text-green-600" />
+                      <span className="font-semibold text-gray-900 dark:text-white">
+                        {formatMonthlyCost(alternative.monthlyCost)}/month
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Clock className="h-4 w-4 text-blue-600" />
+                      <span className="text-gray-700 dark:text-gray-300">
+                        {alternative.deploymentPlan.deployment_time ||
+                          'Unknown'}
+                      </span>
+                    </div>
+                  </div>
+                  {alternative.monthlyCost.min === cheapest && (
+                    <span className="inline-block px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                      Lowest cost
+                    </span>
+                  )}
+
+                  <p className="text-gray-700 dark:text-gray-300">
+                    {alternative.deploymentPlan.architecture}
+                  </p>
+
+                  <div>
+                    <h4 className="font-medium text-gray-900 dark:text-white mb-1 flex items-center">
+                      <Server className="h-4 w-4 mr-1 text-gray-500" />
+                      Services
+                    </h4>
+                    <ul className="space-y-1">
+                      {alternative.deploymentPlan.services.map(
+                        (service: any, index: number) => (
+                          <li
+                            key={index}
+                            className="flex justify-between text-gray-600 dark:text-gray-400"
+                          >
+                            <span>{service.name}</span>
+                            <span>{service.estimated_cost}</span>
+                          </li>
+                        )
+                      )}
+                    </ul>
+                  </div>
+
+                  <ul className="space-y-1">
+                    {alternative.pros.map((pro, index) => (
+                      <li
+                        key={`pro-${index}`}
+                        className="flex items-start text-gray-700 dark:text-gray-300"
+                      >
+                        <CheckCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-green-600" />
+                        {pro}
+                      </li>
+                    ))}
+                    {alternative.cons.map((con, index) => (
+                      <li
+                        key={`con-${index}`}
+                        className="flex items-start text-gray-700 dark:text-gray-300"
+                      >
+                        <XCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-red-500" />
+                        {con}
+                      </li>
+                    ))}
+                  </ul>
+
+                  {alternative.bestFor && (
+                    <p className="flex items-start text-gray-600 dark:text-gray-400">
+                      <Target className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-purple-600" />
+                      Best for: {alternative.bestFor}
+                    </p>
+                  )}
+                </div>
+
+                <div className="p-4 border-t border-gray-200 dark:border-gray-700">
+                  <button
+                    onClick={() => onSelect(alternative)}
+                    className="w-full px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium"
+                  >
+                    Deploy This Option
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
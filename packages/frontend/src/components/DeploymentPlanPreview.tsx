@@ -13,7 +13,15 @@ import {
   Brain,
   BarChart3,
   TrendingUp,
+  FileDiff,
+  Scale,
 } from 'lucide-react'
+import {
+  ExecutionPlan,
+  PlannedResourceChange,
+  countChanges,
+} from '../lib/execution-plan'
+import type { PermissionPreflight } from '../lib/iam-preflight'
 
 interface DeploymentPlan {
   architecture: string
@@ -64,6 +72,21 @@ interface DeploymentPlanPreviewProps {
   onApprove: (modifiedPlan: DeploymentPlan) => void
   onReject: () => void
   onModify: (feedback: string) => void
+  // Set once the plan has been refined from feedback: its revision number
+  // and what the last refinement changed
+  revision?: number
+  changeSummary?: string[]
+  isRefining?: boolean
+  // Shows cost, performance and hybrid alternatives to this plan
+  onCompareAlternatives?: () => void
+  isComparing?: boolean
+  // Concrete changes computed for the approved plan. When present they are
+  // listed and nothing is applied until the user confirms them.
+  executionPlan?: ExecutionPlan | null
+  // IAM preflight of executionPlan; applying is blocked while the
+  // simulation reports missing permissions
+  permissionPreflight?: PermissionPreflight | null
+  onApply?: (planId: string) => void
 }
 
 const SERVICE_ICONS: {
@@ -79,6 +102,30 @@ const SERVICE_ICONS: {
   default: Server,
 }
 
+const CHANGE_STYLES: {
+  [action in PlannedResourceChange['action']]: {
+    symbol: string
+    label: string
+    className: string
+  }
+} = {
+  create: {
+    symbol: '+',
+    label: 'to create',
+    className: 'text-green-600 dark:text-green-400',
+  },
+  update: {
+    symbol: '~',
+    label: 'to change',
+    className: 'text-yellow-600 dark:text-yellow-400',
+  },
+  delete: {
+    symbol: '-',
+    label: 'to delete',
+    className: 'text-red-600 dark:text-red-400',
+  },
+}
+
 export default function DeploymentPlanPreview({
   plan,
   repositoryName,
@@ -86,19 +133,35 @@ export default function DeploymentPlanPreview({
   onApprove,
   onReject,
   onModify,
+  revision = 1,
+  changeSummary = [],
+  isRefining = false,
+  onCompareAlternatives,
+  isComparing = false,
+  executionPlan,
+  permissionPreflight,
+  onApply,
 }: DeploymentPlanPreviewProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [feedback, setFeedback] = useState('')
-  const [editedPlan] = useState<DeploymentPlan>(plan)
+  const [changesApproved, setChangesApproved] = useState(false)
+  const missingPermissions = permissionPreflight?.missingActions || []
 
   const handleApprove = () => {
-    onApprove(editedPlan)
+    onApprove(plan)
+  }
+
+  const handleApply = () => {
+    if (executionPlan && changesApproved && missingPermissions.length === 0) {
+      onApply?.(executionPlan.id)
+    }
   }
 
   const handleModify = () => {
     if (feedback.trim()) {
       onModify(feedback)
       setFeedback('')
+      setIsEditing(false)
     }
   }
 
@@ -135,11 +198,28 @@ export default function DeploymentPlanPreview({
               🤖 AI Deployment Plan for &quot;{repositoryName}&quot;
             </h2>
             <p className="text-blue-100 text-sm">
-              Review and customize your deployment strategy
+              {executionPlan
+                ? 'Review exactly what will be created before anything is deployed'
+                : 'Review and customize your deployment strategy'}
             </p>
           </div>
 
           <div className="p-6 space-y-6">
+            {/* Latest Refinement Section */}
+            {revision > 1 && changeSummary.length > 0 && (
+              <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2 flex items-center">
+                  <Edit3 className="h-4 w-4 mr-2 text-blue-600" />
+                  Changes in revision {revision}
+                </h3>
+                <ul className="list-disc list-inside space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                  {changeSummary.map((change, index) => (
+                    <li key={index}>{change}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* AI Insights Section */}
             {aiInsights && (
               <div className="bg-gradient-to-r from-purple-50 to-blue-50 dark:from-purple-900/20 dark:to-blue-900/20 border border-purple-200 dark:border-purple-800 rounded-lg p-4">
@@ -400,6 +480,138 @@ export default function DeploymentPlanPreview({
               </div>
             </div>
 
+            {/* Planned Changes */}
+            {executionPlan && (
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1 flex items-center">
+                  <FileDiff className="h-5 w-5 mr-2 text-blue-600" />
+                  Changes to Apply
+                </h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                  {Object.entries(countChanges(executionPlan))
+                    .map(
+                      ([action, count]) =>
+                        `${count} ${CHANGE_STYLES[action as PlannedResourceChange['action']].label}`
+                    )
+                    .join(', ')}{' '}
+                  in {executionPlan.region}
+                </p>
+                <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+                  {executionPlan.changes.map((change, index) => (
+                    <div
+                      key={index}
+                      className="flex items-start justify-between p-3"
+                    >
+                      <div className="flex items-start space-x-3">
+                        <span
+                          className={`font-mono font-bold ${CHANGE_STYLES[change.action].className}`}
+                        >
+                          {CHANGE_STYLES[change.action].symbol}
+                        </span>
+                        <div>
+                          <p className="text-sm font-medium text-gray-900 dark:text-white">
+                            {change.type}{' '}
+                            <span className="font-mono text-gray-600 dark:text-gray-400">
+                              {change.name}
+                            </span>
+                          </p>
+                          <p className="text-xs text-gray-600 dark:text-gray-400">
+                            {change.description}
+                          </p>
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {[
+                              change.instanceType,
+                              change.imageId,
+                              change.runtime,
+                              ...(change.ports || []).map(
+                                (port) => `port ${port} open`
+                              ),
+                            ]
+                              .filter(Boolean)
+                              .map((detail, i) => (
+                                <span
+                                  key={i}
+                                  className="inline-flex items-center px-2 py-1 bg-gray-100 dark:bg-gray-700 text-xs text-gray-700 dark:text-gray-300 rounded"
+                                >
+                                  {detail}
+                                </span>
+                              ))}
+                          </div>
+                        </div>
+                      </div>
+                      <p className="text-sm font-medium text-gray-900 dark:text-white whitespace-nowrap">
+                        ${change.estimatedMonthlyCost.toFixed(2)}/mo
+                      </p>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                  Estimated ${executionPlan.estimatedMonthlyCost.toFixed(2)}
+                  /month. This plan expires{' '}
+                  {new Date(executionPlan.expiresAt).toLocaleString()}.
+                </p>
+                {permissionPreflight && (
+                  <div
+                    className={`mt-4 border rounded-lg p-3 ${
+                      missingPermissions.length > 0
+                        ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+                        : 'bg-gray-50 dark:bg-gray-700/50 border-gray-200 dark:border-gray-700'
+                    }`}
+                  >
+                    <p className="text-sm font-medium text-gray-900 dark:text-white flex items-center">
+                      {missingPermissions.length > 0 ? (
+                        <AlertTriangle className="h-4 w-4 mr-2 text-red-600" />
+                      ) : permissionPreflight.simulated &&
+                        !permissionPreflight.uncheckedTypes?.length ? (
+                        <CheckCircle className="h-4 w-4 mr-2 text-green-600" />
+                      ) : (
+                        <Shield className="h-4 w-4 mr-2 text-yellow-600" />
+                      )}
+                      IAM Permissions
+                    </p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                      {permissionPreflight.message}
+                    </p>
+                    {missingPermissions.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {missingPermissions.map((action) => (
+                          <span
+                            key={action}
+                            className="inline-flex items-center px-2 py-1 bg-red-100 dark:bg-red-900/40 text-xs font-mono text-red-700 dark:text-red-300 rounded"
+                          >
+                            {action}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {(missingPermissions.length > 0 ||
+                      !permissionPreflight.simulated) && (
+                      <details className="mt-2">
+                        <summary className="text-xs text-blue-600 dark:text-blue-400 cursor-pointer">
+                          Minimal IAM policy for this plan
+                        </summary>
+                        <pre className="mt-2 p-2 bg-gray-900 text-gray-100 text-xs rounded overflow-x-auto">
+                          {JSON.stringify(permissionPreflight.policy, null, 2)}
+                        </pre>
+                      </details>
+                    )}
+                  </div>
+                )}
+                <label className="flex items-start space-x-2 mt-4 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={changesApproved}
+                    onChange={(e) => setChangesApproved(e.target.checked)}
+                    className="mt-1"
+                  />
+                  <span>
+                    I have reviewed these changes and approve creating them in
+                    my AWS account
+                  </span>
+                </label>
+              </div>
+            )}
+
             {/* Modification Section */}
             {isEditing && (
               <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
@@ -420,22 +632,54 @@ export default function DeploymentPlanPreview({
             <div className="flex flex-col sm:flex-row gap-3 pt-6 border-t border-gray-200 dark:border-gray-700">
               {!isEditing ? (
                 <>
-                  <button
-                    onClick={handleApprove}
-                    className="flex-1 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium flex items-center justify-center space-x-2"
-                  >
-                    <CheckCircle className="h-5 w-5" />
-                    <span>Approve & Deploy</span>
-                  </button>
+                  {executionPlan ? (
+                    <button
+                      onClick={handleApply}
+                      disabled={
+                        !changesApproved || missingPermissions.length > 0
+                      }
+                      className="flex-1 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium flex items-center justify-center space-x-2"
+                    >
+                      <CheckCircle className="h-5 w-5" />
+                      <span>Apply Plan</span>
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleApprove}
+                      disabled={isRefining}
+                      className="flex-1 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium flex items-center justify-center space-x-2"
+                    >
+                      <CheckCircle className="h-5 w-5" />
+                      <span>Approve & Preview Changes</span>
+                    </button>
+                  )}
 
                   <button
                     onClick={() => setIsEditing(true)}
-                    className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center justify-center space-x-2"
+                    disabled={isRefining}
+                    className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium flex items-center justify-center space-x-2"
                   >
                     <Edit3 className="h-5 w-5" />
-                    <span>Request Changes</span>
+                    <span>
+                      {isRefining ? 'Updating Plan...' : 'Request Changes'}
+                    </span>
                   </button>
 
+                  {!executionPlan && onCompareAlternatives && (
+                    <button
+                      onClick={onCompareAlternatives}
+                      disabled={isComparing || isRefining}
+                      className="flex-1 px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium flex items-center justify-center space-x-2"
+                    >
+                      <Scale className="h-5 w-5" />
+                      <span>
+                        {isComparing
+                          ? 'Comparing Options...'
+                          : 'Compare Alternatives'}
+                      </span>
+                    </button>
+                  )}
+
                   <button
                     onClick={onReject}
                     className="px-6 py-3 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors font-medium"
@@ -450,7 +694,7 @@ export default function DeploymentPlanPreview({
                     disabled={!feedback.trim()}
                     className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
                   >
-                    Generate New Plan
+                    Update Plan
                   </button>
 
                   <button
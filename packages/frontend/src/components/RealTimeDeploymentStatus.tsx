@@ -15,7 +15,9 @@ import {
   Shield,
   Monitor,
   Link as LinkIcon,
+  DollarSign,
 } from 'lucide-react'
+import type { CostVariance } from '../lib/deployment-costs'
 
 interface DeploymentLog {
   timestamp: string
@@ -38,6 +40,7 @@ interface DeploymentStatusData {
   sshAccess?: string
   estimatedReadyTime?: string
   instructions?: string[]
+  cost?: CostVariance
   logs: string[]
   message: string
 }
@@ -45,6 +48,9 @@ interface DeploymentStatusData {
 interface RealTimeDeploymentStatusProps {
   deploymentId: string
   repositoryName: string
+  // Stored credential profile, used server-side to look up the instance
+  // state
+  credentialProfileId?: string | null
   onClose: () => void
   onRetry?: () => void
 }
@@ -52,6 +58,7 @@ interface RealTimeDeploymentStatusProps {
 export default function RealTimeDeploymentStatus({
   deploymentId,
   repositoryName,
+  credentialProfileId,
   onClose,
   onRetry,
 }: RealTimeDeploymentStatusProps) {
@@ -77,7 +84,7 @@ export default function RealTimeDeploymentStatus({
         const response = await fetch('/api/deployment-status', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ deploymentId }),
+          body: JSON.stringify({ deploymentId, credentialProfileId }),
         })
 
         if (response.ok) {
@@ -96,7 +103,7 @@ export default function RealTimeDeploymentStatus({
     }, 3000) // Poll every 3 seconds
 
     return () => clearInterval(pollInterval)
-  }, [deploymentId, isPolling])
+  }, [deploymentId, credentialProfileId, isPolling])
 
   const copyToClipboard = async (text: string, item: string) => {
     try {
@@ -394,7 +401,7 @@ export default function RealTimeDeploymentStatus({
                         <div className="flex items-center space-x-2 mb-1">
                           <Terminal className="h-3 w-3 text-gray-500" />
                           <span className="text-xs font-medium text-gray-700 dark:text-gray-300">
-                            SSH Access:
+                            Shell Access:
                           </span>
                         </div>
                         <div className="flex items-center space-x-2">
@@ -456,6 +463,59 @@ export default function RealTimeDeploymentStatus({
                   </div>
                 </div>
               )}
+
+              {/* Estimate vs Actual */}
+              {deploymentData.cost && (
+                <div className="mt-3 p-3 bg-white dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-700">
+                  <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2 flex items-center space-x-2">
+                    <DollarSign className="h-4 w-4 text-green-600" />
+                    <span>Estimate vs Actual</span>
+                  </h4>
+                  {deploymentData.cost.collectedAt ? (
+                    <div className="grid grid-cols-3 gap-2 text-sm">
+                      <div>
+                        <div className="text-gray-600 dark:text-gray-400">
+                          Estimated
+                        </div>
+                        <div className="font-medium">
+                          {deploymentData.cost.estimatedMonthly !== undefined
+                            ? `$${deploymentData.cost.estimatedMonthly.toFixed(2)}/mo`
+                            : 'Unknown'}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-gray-600 dark:text-gray-400">
+                          Month to date
+                        </div>
+                        <div className="font-medium">
+                          ${deploymentData.cost.actualMonthToDate.toFixed(2)}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-gray-600 dark:text-gray-400">
+                          Projected
+                        </div>
+                        <div
+                          className={`font-medium ${
+                            (deploymentData.cost.variancePercent ?? 0) > 20
+                              ? 'text-red-600'
+                              : 'text-gray-900 dark:text-white'
+                          }`}
+                        >
+                          ${deploymentData.cost.projectedMonthly.toFixed(2)}/mo
+                          {deploymentData.cost.variancePercent !== undefined &&
+                            ` (${deploymentData.cost.variancePercent >= 0 ? '+' : ''}${deploymentData.cost.variancePercent}%)`}
+                        </div>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      No spend reported yet. Cost Explorer usually shows a
+                      deployment&apos;s costs within a day.
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
@@ -0,0 +1,160 @@
+// AMI lookup through the public SSM parameters Canonical and Amazon publish
+// in every region, so instances always launch from the current image of an
+// OS for the region and architecture instead of a hard-coded ID
+
+import { SSMClient, GetParameterCommand } from '@aws-sdk/client-ssm'
+import { AWSCredentials, awsClientConfig } from './credential-vault'
+
+export type Architecture = 'x86_64' | 'arm64'
+
+export type ImageFamily = 'ubuntu-22.04' | 'amazon-linux-2'
+
+export const IMAGE_PARAMETERS: Record<
+  ImageFamily,
+  Record<Architecture, string>
+> = {
+  'ubuntu-22.04': {
+    x86_64:
+      '/aws/service/canonical/ubuntu/server/22.04/stable/current/amd64/hvm/ebs-gp2/ami-id',
+    arm64:
+      '/aws/service/canonical/ubuntu/server/22.04/stable/current/arm64/hvm/ebs-gp2/ami-id',
+  },
+  'amazon-linux-2': {
+    x86_64: '/aws/service/ami-amazon-linux-latest/amzn2-ami-hvm-x86_64-gp2',
+    arm64: '/aws/service/ami-amazon-linux-latest/amzn2-ami-hvm-arm64-gp2',
+  },
+}
+
+// New images are published every few weeks; a few hours keeps lookups off
+// the deploy path without launching from a stale image for long
+export const AMI_CACHE_TTL_MS = 6 * 60 * 60 * 1000
+
+export class AmiNotFoundError extends Error {
+  constructor(
+    public readonly region: string,
+    public readonly parameter: string
+  ) {
+    super(`No AMI is published at ${parameter} in ${region}`)
+    this.name = 'AmiNotFoundError'
+  }
+}
+
+// Reads one SSM parameter in a region; undefined when it does not exist
+export interface ParameterSource {
+  getParameter(region: string, name: string): Promise<string | undefined>
+}
+
+export class SsmParameterSource implements ParameterSource {
+  private clients = new Map<string, SSMClient>()
+
+  constructor(private credentials: AWSCredentials) {}
+
+  async getParameter(
+    region: string,
+    name: string
+  ): Promise<string | undefined> {
+    let client = this.clients.get(region)
+    if (!client) {
+      client = new SSMClient(awsClientConfig(this.credentials, region))
+      this.clients.set(region, client)
+    }
+    try {
+      const response = await client.send(
+        new GetParameterCommand({ Name: name })
+      )
+      return response.Parameter?.Value
+    } catch (awsError: any) {
+      if (awsError.name === 'ParameterNotFound') return undefined
+      throw awsError
+    }
+  }
+}
+
+// Fixed parameter values for tests and offline development, keyed by
+// parameter name or by `${region}:${name}` for a single region
+export class StubParameterSource implements ParameterSource {
+  readonly requests: { region: string; name: string }[] = []
+
+  constructor(private values: { [key: string]: string } = {}) {}
+
+  async getParameter(
+    region: string,
+    name: string
+  ): Promise<string | undefined> {
+    this.requests.push({ region, name })
+    return this.values[`${region}:${name}`] ?? this.values[name]
+  }
+}
+
+interface CachedImage {
+  imageId: Promise<string>
+  expiresAt: number
+}
+
+declare global {
+  var amiCache: Map<string, CachedImage> | undefined
+}
+
+// Public parameters have the same value in every account, so one cache
+// serves all credentials. Reused across hot reloads, like the deployment
+// store.
+const amiCache = globalThis.amiCache || new Map<string, CachedImage>()
+
+if (process.env.NODE_ENV !== 'production') {
+  globalThis.amiCache = amiCache
+}
+
+export class AmiResolver {
+  constructor(
+    private source: ParameterSource,
+    private cache: Map<string, CachedImage> = amiCache,
+    private ttlMs = AMI_CACHE_TTL_MS
+  ) {}
+
+  resolve(
+    region: string,
+    family: ImageFamily,
+    architecture: Architecture
+  ): Promise<string> {
+    const key = [region, family, architecture].join('|')
+    const cached = this.cache.get(key)
+    if (cached && cached.expiresAt > Date.now()) return cached.imageId
+
+    const parameter = IMAGE_PARAMETERS[family][architecture]
+    // Cache the lookup itself so concurrent deployments share one request
+    const imageId = this.source
+      .getParameter(region, parameter)
+      .then((value) => {
+        if (!value) throw new AmiNotFoundError(region, parameter)
+        return value
+      })
+    imageId.catch(() => {
+      if (this.cache.get(key)?.imageId === imageId) this.cache.delete(key)
+    })
+    this.cache.set(key, { imageId, expiresAt: Date.now() + this.ttlMs })
+    return imageId
+  }
+
+  // The image for an instance type, picking arm64 for Graviton types
+  resolveFor(
+    region: string,
+    family: ImageFamily,
+    instanceType: string
+  ): Promise<string> {
+    return this.resolve(region, family, architectureOf(instanceType))
+  }
+}
+
+// Graviton families carry a g right after the generation number (t4g,
+// m7gd, c6gn, im4gn, hpc7g), plus the first-generation a1. GPU families
+// such as g4dn and g5 are x86_64.
+export function architectureOf(instanceType: string): Architecture {
+  const family = instanceType.split('.')[0].toLowerCase()
+  return family === 'a1' || /^[a-z]+\d+g[a-z-]*$/.test(family)
+    ? 'arm64'
+    : 'x86_64'
+}
+
+export function createAmiResolver(credentials: AWSCredentials): AmiResolver {
+  return new AmiResolver(new SsmParameterSource(credentials))
+}
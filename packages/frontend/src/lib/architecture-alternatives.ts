@@ -0,0 +1,133 @@
+// Side-by-side alternatives to a deployment plan: one optimized for cost,
+// one for performance and one balancing the two.
+// Mirrors packages/mcp-server/src/services/architecture-alternatives.ts.
+
+export const ARCHITECTURE_STRATEGIES = [
+  'cost',
+  'performance',
+  'hybrid',
+] as const
+
+export type ArchitectureStrategy = (typeof ARCHITECTURE_STRATEGIES)[number]
+
+// A monthly cost range in USD, parsed from the free-text estimates models
+// write ("$5-15/month", "$30 - $40", "~$0.50 per hour")
+export interface MonthlyCostRange {
+  min: number
+  max: number
+  currency: 'USD'
+}
+
+export interface ArchitectureAlternative {
+  strategy: ArchitectureStrategy
+  label: string
+  summary: string
+  pros: string[]
+  cons: string[]
+  bestFor: string
+  // Same shape as the plan from repository analysis, with
+  // estimated_monthly_cost rewritten from monthlyCost
+  deploymentPlan: any
+  monthlyCost: MonthlyCostRange
+}
+
+export const STRATEGY_LABELS: Record<ArchitectureStrategy, string> = {
+  cost: 'Cost-optimized',
+  performance: 'Performance-optimized',
+  hybrid: 'Hybrid',
+}
+
+const HOURS_PER_MONTH = 730
+
+// The strategy a model meant, accepting the labels too ("Cost-optimized")
+export function toStrategy(value: unknown): ArchitectureStrategy | undefined {
+  const strategy =
+    typeof value === 'string'
+      ? value
+          .trim()
+          .toLowerCase()
+          .split(/[^a-z]/)[0]
+      : undefined
+  return ARCHITECTURE_STRATEGIES.find((candidate) => candidate === strategy)
+}
+
+// Parse a cost estimate into a monthly range, or undefined when it has no
+// amount. Hourly and yearly figures are converted to monthly.
+export function parseMonthlyCost(
+  text: string | undefined
+): MonthlyCostRange | undefined {
+  const amounts = [...(text || '').matchAll(/\d[\d,]*(?:\.\d+)?/g)]
+    .slice(0, 2)
+    .map(([amount]) => Number(amount.replace(/,/g, '')))
+  if (amounts.length === 0) return undefined
+
+  const perMonth = /\b(hour|hr)\b|\/\s*h\b/i.test(text || '')
+    ? HOURS_PER_MONTH
+    : /\b(year|yr|annual(ly)?)\b/i.test(text || '')
+      ? 1 / 12
+      : 1
+  const [min, max] = amounts.map((amount) => roundCost(amount * perMonth))
+
+  return {
+    min: Math.min(min, max ?? min),
+    max: Math.max(min, max ?? min),
+    currency: 'USD',
+  }
+}
+
+export function formatMonthlyCost(range: MonthlyCostRange): string {
+  return range.min === range.max
+    ? `$${range.min}`
+    : `$${range.min}-${range.max}`
+}
+
+// The plan's total estimate, or the sum of its service estimates when the
+// total has no amount
+export function planMonthlyCost(plan: any): MonthlyCostRange {
+  const total = parseMonthlyCost(plan.estimated_monthly_cost)
+  if (total) return total
+
+  return (plan.services || []).reduce(
+    (sum: MonthlyCostRange, service: any) => {
+      const cost = parseMonthlyCost(service.estimated_cost)
+      return cost
+        ? {
+            min: roundCost(sum.min + cost.min),
+            max: roundCost(sum.max + cost.max),
+            currency: 'USD',
+          }
+        : sum
+    },
+    { min: 0, max: 0, currency: 'USD' }
+  )
+}
+
+// Order a validated response by strategy and normalize its cost estimates
+export function toArchitectureAlternatives(
+  response: any
+): ArchitectureAlternative[] {
+  return ARCHITECTURE_STRATEGIES.map((strategy) => {
+    const alternative = response.alternatives.find(
+      (candidate: any) => toStrategy(candidate.strategy) === strategy
+    )
+    const monthlyCost = planMonthlyCost(alternative.deploymentPlan)
+
+    return {
+      strategy,
+      label: STRATEGY_LABELS[strategy],
+      summary: alternative.summary || '',
+      pros: alternative.pros || [],
+      cons: alternative.cons || [],
+      bestFor: alternative.bestFor || '',
+      deploymentPlan: {
+        ...alternative.deploymentPlan,
+        estimated_monthly_cost: formatMonthlyCost(monthlyCost),
+      },
+      monthlyCost,
+    }
+  })
+}
+
+function roundCost(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
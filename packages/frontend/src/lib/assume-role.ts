@@ -0,0 +1,132 @@
+// Deployment targets given as an IAM role instead of access keys. The server
+// assumes the role with its own AWS identity (its default credential chain)
+// and deploys with the short-lived session credentials STS hands back, so no
+// long-lived keys for the target account are ever stored.
+
+import { STSClient, AssumeRoleCommand } from '@aws-sdk/client-sts'
+import type {
+  AWSCredentials,
+  RoleAssumer,
+  RoleTarget,
+} from './credential-vault'
+
+export class RoleAssumptionError extends Error {
+  constructor(
+    public readonly roleArn: string,
+    message: string
+  ) {
+    super(message)
+    this.name = 'RoleAssumptionError'
+  }
+}
+
+export const ROLE_ARN_PATTERN =
+  /^arn:aws[a-z-]*:iam::\d{12}:role\/[\w+=,.@/-]{1,512}$/
+
+// STS allows 15 minutes up to the role's maximum session duration
+export const DEFAULT_SESSION_DURATION_SECONDS = 3600
+
+// Sessions are renewed this long before they expire, so a deployment never
+// starts with credentials about to lapse
+const RENEWAL_MARGIN_MS = 5 * 60 * 1000
+
+interface RoleSession {
+  credentials: AWSCredentials
+  expiresAt: number
+}
+
+export class StsRoleAssumer implements RoleAssumer {
+  // Status polling resolves the same target every few seconds; reuse its
+  // session until it is close to expiring
+  private sessions = new Map<string, RoleSession>()
+
+  constructor(
+    private durationSeconds = DEFAULT_SESSION_DURATION_SECONDS,
+    private createClient = (region: string) => new STSClient({ region })
+  ) {}
+
+  async assumeRole(
+    target: RoleTarget,
+    sessionName: string
+  ): Promise<AWSCredentials> {
+    const key = [target.roleArn, target.externalId, sessionName].join('|')
+    const now = Date.now()
+    for (const [entry, session] of this.sessions) {
+      if (session.expiresAt - RENEWAL_MARGIN_MS <= now) {
+        this.sessions.delete(entry)
+      }
+    }
+    const cached = this.sessions.get(key)
+    if (cached) return cached.credentials
+
+    let response
+    try {
+      response = await this.createClient(target.region).send(
+        new AssumeRoleCommand({
+          RoleArn: target.roleArn,
+          RoleSessionName: sessionName,
+          ExternalId: target.externalId || undefined,
+          DurationSeconds: this.durationSeconds,
+        })
+      )
+    } catch (awsError: any) {
+      console.error('AssumeRole failed:', target.roleArn, awsError.name)
+      throw new RoleAssumptionError(target.roleArn, describeFailure(awsError))
+    }
+
+    const session = response.Credentials
+    if (
+      !session?.AccessKeyId ||
+      !session.SecretAccessKey ||
+      !session.SessionToken
+    ) {
+      throw new RoleAssumptionError(
+        target.roleArn,
+        `STS returned no credentials for ${target.roleArn}`
+      )
+    }
+
+    const credentials: AWSCredentials = {
+      accessKeyId: session.AccessKeyId,
+      secretAccessKey: session.SecretAccessKey,
+      sessionToken: session.SessionToken,
+      region: target.region,
+    }
+    this.sessions.set(key, {
+      credentials,
+      expiresAt:
+        session.Expiration?.getTime() ?? now + this.durationSeconds * 1000,
+    })
+    return credentials
+  }
+}
+
+// RoleSessionName shows up in the target account's CloudTrail; it allows
+// [\w+=,.@-] and at most 64 characters
+export function roleSessionName(label?: string): string {
+  const suffix = (label || '').replace(/[^\w+=,.@-]/g, '-')
+  return ['aws-deploy-ai', suffix].filter(Boolean).join('-').slice(0, 64)
+}
+
+// ASSUME_ROLE_DURATION_SECONDS shortens or lengthens the role sessions
+export function createRoleAssumer(): StsRoleAssumer {
+  const duration = Number(process.env.ASSUME_ROLE_DURATION_SECONDS)
+  return new StsRoleAssumer(
+    duration > 0 ? duration : DEFAULT_SESSION_DURATION_SECONDS
+  )
+}
+
+function describeFailure(awsError: any): string {
+  switch (awsError.name) {
+    case 'AccessDenied':
+      return 'Access denied assuming the role. Check that its trust policy allows this deployment server and that the external ID matches.'
+    case 'CredentialsProviderError':
+      return 'The deployment server has no AWS identity of its own to assume roles with'
+    case 'RegionDisabledException':
+      return 'STS is not activated for this region in the target account'
+    case 'ValidationError':
+      return awsError.message || 'Invalid role ARN or session duration'
+    default:
+      return awsError.message || 'Failed to assume the role'
+  }
+}
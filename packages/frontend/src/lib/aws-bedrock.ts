@@ -1,7 +1,8 @@
+import { getLLMProvider, LLMProvider, singleTurn } from './llm-provider'
 import {
-  BedrockRuntimeClient,
-  InvokeModelCommand,
-} from '@aws-sdk/client-bedrock-runtime'
+  completeStructured,
+  validateRepositoryAnalysisResponse,
+} from './structured-output'
 
 interface RepositoryAnalysis {
   language: string
@@ -39,32 +40,10 @@ interface DeploymentPlan {
 }
 
 export class AWSBedrockService {
-  private client: BedrockRuntimeClient | null = null
+  private llm: LLMProvider
 
-  constructor() {
-    this.initialize()
-  }
-
-  initialize() {
-    // Check if we have a Bedrock API key or AWS credentials
-    const apiKey = process.env.AWS_BEDROCK_API_KEY
-    const region = process.env.AWS_REGION || 'us-east-1'
-
-    if (apiKey && apiKey !== 'your_bedrock_api_key_here') {
-      // If we have an API key, we'll use it in the API calls directly
-      console.log('Using Bedrock API key for authentication')
-      // Set a flag that we're using API key
-      this.client = new BedrockRuntimeClient({
-        region: region,
-      })
-    } else {
-      // Fall back to standard AWS credentials
-      this.client = new BedrockRuntimeClient({
-        region: region,
-        // AWS SDK will automatically use environment variables:
-        // AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_SESSION_TOKEN
-      })
-    }
+  constructor(llm: LLMProvider = getLLMProvider()) {
+    this.llm = llm
   }
 
   async analyzeRepository(
@@ -77,51 +56,16 @@ export class AWSBedrockService {
     },
     userPrompt: string
   ): Promise<{ analysis: RepositoryAnalysis; deploymentPlan: DeploymentPlan }> {
-    if (!this.client) {
-      throw new Error(
-        'AWS Bedrock client not initialized. Please check AWS configuration.'
-      )
-    }
-
-    if (!this.client) {
-      throw new Error(
-        'AWS Bedrock client not initialized. Please check AWS configuration.'
-      )
-    }
-
     const prompt = this.buildAnalysisPrompt(repoData, userPrompt)
 
     try {
-      const apiKey = process.env.AWS_BEDROCK_API_KEY
-
-      // If we have an API key, try to use it directly
-      if (apiKey && apiKey !== 'your_bedrock_api_key_here') {
-        return await this.callBedrockWithApiKey(apiKey, prompt)
-      }
-
-      // Otherwise use standard AWS SDK approach
-      const command = new InvokeModelCommand({
-        modelId: 'anthropic.claude-3-sonnet-20240229-v1:0',
-        contentType: 'application/json',
-        accept: 'application/json',
-        body: JSON.stringify({
-          anthropic_version: 'bedrock-2023-05-31',
-          max_tokens: 4000,
-          messages: [
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-        }),
-      })
-
-      const response = await this.client.send(command)
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body))
-
-      return JSON.parse(responseBody.content[0].text)
+      return await completeStructured(
+        this.llm,
+        singleTurn('repository-analysis', prompt),
+        validateRepositoryAnalysisResponse
+      )
     } catch (error) {
-      console.error('AWS Bedrock API error:', error)
+      console.error(`AI analysis error (${this.llm.kind}):`, error)
       throw new Error(
         `AI analysis failed: ${
           error instanceof Error ? error.message : 'Unknown error'
@@ -130,44 +74,6 @@ export class AWSBedrockService {
     }
   }
 
-  private async callBedrockWithApiKey(apiKey: string, prompt: string) {
-    // Handle your specific API key format
-    try {
-      // If your API key is a URL, make a direct HTTP request
-      if (apiKey.includes('http')) {
-        const response = await fetch(apiKey, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            anthropic_version: 'bedrock-2023-05-31',
-            max_tokens: 4000,
-            messages: [
-              {
-                role: 'user',
-                content: prompt,
-              },
-            ],
-          }),
-        })
-
-        if (!response.ok) {
-          throw new Error(`API request failed: ${response.statusText}`)
-        }
-
-        const responseBody = await response.json()
-        return JSON.parse(responseBody.content[0].text)
-      } else {
-        // Handle other API key formats
-        throw new Error('API key format not supported')
-      }
-    } catch (error) {
-      console.error('Bedrock API key error:', error)
-      throw error
-    }
-  }
-
   private buildAnalysisPrompt(
     repoData: {
       name: string
@@ -286,10 +192,6 @@ Provide your response as a JSON object with this exact structure:
     plan: DeploymentPlan,
     repoData: { name: string; cloneUrl: string }
   ): Promise<string> {
-    if (!this.client) {
-      throw new Error('AWS Bedrock client not initialized')
-    }
-
     const prompt = `Generate a comprehensive AWS CloudFormation template or AWS CLI script to deploy the following application:
 
 ## Repository:
@@ -309,26 +211,7 @@ Generate a production-ready CloudFormation template that implements this deploym
 Provide the complete CloudFormation template in YAML format.`
 
     try {
-      const command = new InvokeModelCommand({
-        modelId: 'anthropic.claude-3-sonnet-20240229-v1:0',
-        contentType: 'application/json',
-        accept: 'application/json',
-        body: JSON.stringify({
-          anthropic_version: 'bedrock-2023-05-31',
-          max_tokens: 4000,
-          messages: [
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-        }),
-      })
-
-      const response = await this.client.send(command)
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body))
-
-      return responseBody.content[0].text
+      return await this.llm.complete(singleTurn('deployment-script', prompt))
     } catch (error) {
       console.error('Bedrock script generation error:', error)
       throw new Error(
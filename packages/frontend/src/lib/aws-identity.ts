@@ -0,0 +1,49 @@
+// Checks AWS credentials with STS before they are stored or used
+
+import { STSClient, GetCallerIdentityCommand } from '@aws-sdk/client-sts'
+import { AWSCredentials, awsClientConfig } from './credential-vault'
+
+export interface CallerIdentity {
+  accountId?: string
+  arn?: string
+  userId?: string
+}
+
+export class InvalidCredentialsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidCredentialsError'
+  }
+}
+
+// Without credentials, checks the server's default credentials
+export async function getCallerIdentity(
+  credentials: AWSCredentials | undefined
+): Promise<CallerIdentity> {
+  const stsClient = new STSClient(awsClientConfig(credentials))
+
+  try {
+    const response = await stsClient.send(new GetCallerIdentityCommand({}))
+    return {
+      accountId: response.Account,
+      arn: response.Arn,
+      userId: response.UserId,
+    }
+  } catch (awsError: any) {
+    console.error('AWS credential validation failed:', awsError.name)
+
+    let errorMessage = 'Invalid AWS credentials'
+
+    if (awsError.name === 'InvalidUserError') {
+      errorMessage = 'Access Key ID not found'
+    } else if (awsError.name === 'SignatureDoesNotMatch') {
+      errorMessage = 'Invalid Secret Access Key'
+    } else if (awsError.name === 'AccessDenied') {
+      errorMessage = 'Access denied - insufficient permissions'
+    } else if (awsError.message) {
+      errorMessage = awsError.message
+    }
+
+    throw new InvalidCredentialsError(errorMessage)
+  }
+}
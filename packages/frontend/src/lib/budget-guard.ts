@@ -0,0 +1,63 @@
+// Blocks deployments whose estimate does not fit the monthly budget. Mirrors
+// the MCP server's BudgetGuard for MONTHLY_BUDGET, and counts the same shared
+// deployment records, so both processes enforce one budget.
+
+import { deploymentStore, DeploymentStore } from './deployment-store'
+import { getCostVariance } from './deployment-costs'
+
+// Deployments whose spend no longer counts against the budget
+const INACTIVE_STATUSES = ['planned', 'failed', 'destroyed']
+
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly limit: number,
+    public readonly estimatedMonthly: number,
+    public readonly committedMonthly: number
+  ) {
+    super(
+      `Estimated cost $${estimatedMonthly.toFixed(2)}/month plus $${committedMonthly.toFixed(2)}/month for existing deployments exceeds the monthly budget of $${limit.toFixed(2)}`
+    )
+    this.name = 'BudgetExceededError'
+  }
+}
+
+export function monthlyBudget(
+  env: NodeJS.ProcessEnv = process.env
+): number | undefined {
+  return env.MONTHLY_BUDGET ? Number(env.MONTHLY_BUDGET) : undefined
+}
+
+// Throws BudgetExceededError if the estimate does not fit. Existing
+// deployments count at their estimate or, once spend has been collected,
+// their projected spend if that is higher.
+export async function checkBudget(
+  deploymentId: string,
+  estimatedMonthly: number,
+  limit: number | undefined = monthlyBudget(),
+  store: DeploymentStore = deploymentStore
+): Promise<void> {
+  if (!limit) return
+
+  const others = (await store.list()).filter(
+    (record) =>
+      record.id !== deploymentId && !INACTIVE_STATUSES.includes(record.status)
+  )
+  const committed = others.reduce((sum, record) => {
+    const variance = getCostVariance(record)
+    return (
+      sum +
+      Math.max(
+        variance.estimatedMonthly || 0,
+        variance.collectedAt ? variance.projectedMonthly : 0
+      )
+    )
+  }, 0)
+
+  if (estimatedMonthly + committed > limit) {
+    throw new BudgetExceededError(
+      limit,
+      estimatedMonthly,
+      Math.round(committed * 100) / 100
+    )
+  }
+}
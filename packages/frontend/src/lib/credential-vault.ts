@@ -0,0 +1,565 @@
+// Server-side AWS credential profiles, so access keys never live in the
+// browser. Deploy requests name a profile by ID and the API routes resolve it
+// here. Each profile belongs to the GitHub user who stored it and only that
+// user can list, use or delete it. A profile is either access keys or an IAM
+// role the server assumes for each deployment. Secrets are envelope
+// encrypted: each profile has its own AES-256-GCM data key, which is itself
+// encrypted by a KeyProvider (a local master key file in development, KMS in
+// production).
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+  randomUUID,
+} from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { KMS } from '@aws-sdk/client-kms'
+import { createRoleAssumer, roleSessionName } from './assume-role'
+
+export interface AWSCredentials {
+  accessKeyId: string
+  secretAccessKey: string
+  sessionToken?: string
+  region: string
+}
+
+// A role in the target account, assumed with STS for each deployment
+export interface RoleTarget {
+  roleArn: string
+  externalId?: string
+  region: string
+}
+
+export type CredentialProfileType = 'access-key' | 'assume-role'
+
+// Body of POST /api/credentials: access keys or a role to assume. The
+// external ID of a role is assigned by the server, never sent by the browser.
+export type NewCredentialProfile = (
+  AWSCredentials | Omit<RoleTarget, 'externalId'>
+) & {
+  name?: string
+}
+
+// What the browser sees of a profile
+export interface CredentialProfile {
+  id: string
+  name: string
+  // Profiles stored before roles were supported have no type: access keys
+  type?: CredentialProfileType
+  region: string
+  // Last four characters of the access key ID
+  accessKeyIdHint?: string
+  roleArn?: string
+  createdAt: string
+  lastUsedAt?: string
+}
+
+interface VaultFile {
+  profiles: EncryptedProfile[]
+  // External ID per owner, required by the trust policy of their roles
+  externalIds: { [ownerId: string]: string }
+}
+
+interface EncryptedProfile extends CredentialProfile {
+  // GitHubUser.id of the user who stored it. Profiles stored before profiles
+  // had owners have none and cannot be used.
+  ownerId?: string
+  keyId: string
+  encryptedDataKey: string
+  iv: string
+  authTag: string
+  ciphertext: string
+}
+
+export interface DataKey {
+  keyId: string
+  plaintext: Buffer
+  ciphertext: Buffer
+}
+
+// Same operations as KMS GenerateDataKey and Decrypt
+export interface KeyProvider {
+  generateDataKey(): Promise<DataKey>
+  decryptDataKey(keyId: string, ciphertext: Buffer): Promise<Buffer>
+}
+
+// The subset of a KMS client the vault uses, e.g. KMS from
+// @aws-sdk/client-kms
+export interface KmsClient {
+  generateDataKey(params: { KeyId: string; KeySpec: 'AES_256' }): Promise<{
+    KeyId?: string
+    Plaintext?: Uint8Array
+    CiphertextBlob?: Uint8Array
+  }>
+  decrypt(params: {
+    KeyId?: string
+    CiphertextBlob: Uint8Array
+  }): Promise<{ Plaintext?: Uint8Array }>
+}
+
+// Exchanges a role target for session credentials, e.g. StsRoleAssumer
+export interface RoleAssumer {
+  assumeRole(target: RoleTarget, sessionName: string): Promise<AWSCredentials>
+}
+
+export class CredentialProfileNotFoundError extends Error {
+  constructor(public readonly profileId: string) {
+    super(`Credential profile not found: ${profileId}`)
+    this.name = 'CredentialProfileNotFoundError'
+  }
+}
+
+export const DEFAULT_VAULT_DIR = '.cache/credentials'
+
+const ALGORITHM = 'aes-256-gcm'
+const LAST_USED_RESOLUTION_MS = 60 * 60 * 1000
+
+// Development key provider: data keys are wrapped with a 256-bit master key
+// kept in a file readable only by this user, created on first use
+export class LocalKeyProvider implements KeyProvider {
+  private masterKey?: Promise<Buffer>
+
+  constructor(private masterKeyFile: string) {}
+
+  async generateDataKey(): Promise<DataKey> {
+    const masterKey = await this.getMasterKey()
+    const plaintext = randomBytes(32)
+    return {
+      keyId: keyIdOf(masterKey),
+      plaintext,
+      ciphertext: seal(masterKey, plaintext),
+    }
+  }
+
+  async decryptDataKey(keyId: string, ciphertext: Buffer): Promise<Buffer> {
+    const masterKey = await this.getMasterKey()
+    if (keyId !== keyIdOf(masterKey)) {
+      throw new Error(
+        `Credential was encrypted with master key ${keyId}, but ${this.masterKeyFile} holds ${keyIdOf(masterKey)}`
+      )
+    }
+    return open(masterKey, ciphertext)
+  }
+
+  private getMasterKey(): Promise<Buffer> {
+    if (!this.masterKey) {
+      this.masterKey = this.loadOrCreateMasterKey()
+    }
+    return this.masterKey
+  }
+
+  private async loadOrCreateMasterKey(): Promise<Buffer> {
+    try {
+      return Buffer.from(
+        (await fs.readFile(this.masterKeyFile, 'utf-8')).trim(),
+        'base64'
+      )
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error
+    }
+
+    const masterKey = randomBytes(32)
+    await fs.mkdir(path.dirname(this.masterKeyFile), { recursive: true })
+    // wx: another request may have created it first
+    await fs
+      .writeFile(this.masterKeyFile, masterKey.toString('base64'), {
+        mode: 0o600,
+        flag: 'wx',
+      })
+      .catch((error) => {
+        if (error.code !== 'EEXIST') throw error
+      })
+    return Buffer.from(
+      (await fs.readFile(this.masterKeyFile, 'utf-8')).trim(),
+      'base64'
+    )
+  }
+}
+
+// Production key provider: data keys come from a KMS key and are decrypted
+// by KMS, so the master key never leaves it
+export class KmsKeyProvider implements KeyProvider {
+  constructor(
+    private keyId: string,
+    private kms: KmsClient
+  ) {}
+
+  async generateDataKey(): Promise<DataKey> {
+    const result = await this.kms.generateDataKey({
+      KeyId: this.keyId,
+      KeySpec: 'AES_256',
+    })
+    if (!result.Plaintext || !result.CiphertextBlob) {
+      throw new Error(`KMS returned no data key for ${this.keyId}`)
+    }
+    return {
+      keyId: result.KeyId || this.keyId,
+      plaintext: Buffer.from(result.Plaintext),
+      ciphertext: Buffer.from(result.CiphertextBlob),
+    }
+  }
+
+  async decryptDataKey(keyId: string, ciphertext: Buffer): Promise<Buffer> {
+    const result = await this.kms.decrypt({
+      KeyId: keyId,
+      CiphertextBlob: ciphertext,
+    })
+    if (!result.Plaintext) {
+      throw new Error(`KMS could not decrypt the data key for ${keyId}`)
+    }
+    return Buffer.from(result.Plaintext)
+  }
+}
+
+export class CredentialVault {
+  // Writes are chained so concurrent saves do not overwrite each other
+  private writes: Promise<unknown> = Promise.resolve()
+
+  constructor(
+    private file: string,
+    private keys: KeyProvider,
+    private roles?: RoleAssumer
+  ) {}
+
+  async list(ownerId: string): Promise<CredentialProfile[]> {
+    await this.writes
+    return (await this.read())
+      .filter((entry) => entry.ownerId === ownerId)
+      .map(toProfile)
+  }
+
+  async save(
+    ownerId: string,
+    credentials: AWSCredentials,
+    name?: string
+  ): Promise<CredentialProfile> {
+    return this.store(
+      ownerId,
+      {
+        name:
+          name ||
+          `${credentials.region} ...${credentials.accessKeyId.slice(-4)}`,
+        type: 'access-key',
+        region: credentials.region,
+        accessKeyIdHint: credentials.accessKeyId.slice(-4),
+      },
+      {
+        accessKeyId: credentials.accessKeyId,
+        secretAccessKey: credentials.secretAccessKey,
+        sessionToken: credentials.sessionToken,
+      }
+    )
+  }
+
+  // The external ID the signed-in user's roles must require, created on
+  // first use. It is generated here and never taken from a request, so one
+  // user cannot get the server to assume a role that trusts it on behalf of
+  // another (the confused deputy problem external IDs exist to prevent).
+  async externalId(ownerId: string): Promise<string> {
+    await this.writes
+    const existing = (await this.readFile()).externalIds[ownerId]
+    if (existing) return existing
+
+    let externalId = ''
+    await this.write((file) => {
+      externalId =
+        file.externalIds[ownerId] ||
+        `aws-deploy-ai-${randomBytes(16).toString('hex')}`
+      return {
+        ...file,
+        externalIds: { ...file.externalIds, [ownerId]: externalId },
+      }
+    })
+    return externalId
+  }
+
+  // The owner's external ID is kept encrypted with the other secrets; the
+  // role ARN is shown to the user to tell targets apart
+  async saveRole(
+    ownerId: string,
+    target: Omit<RoleTarget, 'externalId'>,
+    name?: string
+  ): Promise<CredentialProfile> {
+    const externalId = await this.externalId(ownerId)
+    return this.store(
+      ownerId,
+      {
+        name: name || `${target.region} ${target.roleArn.split('/').pop()}`,
+        type: 'assume-role',
+        region: target.region,
+        roleArn: target.roleArn,
+      },
+      { externalId }
+    )
+  }
+
+  // Decrypt a profile's credentials, for use on the server only. Role
+  // profiles resolve to session credentials; sessionName labels the session
+  // in the target account's CloudTrail. Another user's profile is reported
+  // as not found.
+  async resolve(
+    ownerId: string,
+    id: string,
+    sessionName?: string
+  ): Promise<AWSCredentials> {
+    await this.writes
+    const profile = (await this.read()).find(
+      (entry) => entry.id === id && entry.ownerId === ownerId
+    )
+    if (!profile) {
+      throw new CredentialProfileNotFoundError(id)
+    }
+
+    const dataKey = await this.keys.decryptDataKey(
+      profile.keyId,
+      Buffer.from(profile.encryptedDataKey, 'base64')
+    )
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      dataKey,
+      Buffer.from(profile.iv, 'base64')
+    )
+    decipher.setAAD(additionalData(ownerId, profile.id))
+    decipher.setAuthTag(Buffer.from(profile.authTag, 'base64'))
+    const secret = JSON.parse(
+      Buffer.concat([
+        decipher.update(Buffer.from(profile.ciphertext, 'base64')),
+        decipher.final(),
+      ]).toString('utf-8')
+    )
+    dataKey.fill(0)
+
+    let credentials: AWSCredentials = { ...secret, region: profile.region }
+    if (profile.type === 'assume-role') {
+      if (!this.roles) {
+        throw new Error(
+          `Credential profile ${id} is a role, but roles cannot be assumed here`
+        )
+      }
+      credentials = await this.roles.assumeRole(
+        {
+          roleArn: profile.roleArn!,
+          externalId: secret.externalId,
+          region: profile.region,
+        },
+        sessionName || roleSessionName()
+      )
+    }
+
+    // Status polling resolves a profile every few seconds; record use hourly
+    const lastUsed = profile.lastUsedAt ? Date.parse(profile.lastUsedAt) : 0
+    if (Date.now() - lastUsed > LAST_USED_RESOLUTION_MS) {
+      await this.update((profiles) =>
+        profiles.map((entry) =>
+          entry.id === id
+            ? { ...entry, lastUsedAt: new Date().toISOString() }
+            : entry
+        )
+      )
+    }
+    return credentials
+  }
+
+  async delete(ownerId: string, id: string): Promise<boolean> {
+    let found = false
+    await this.update((profiles) =>
+      profiles.filter((entry) => {
+        const owned = entry.id === id && entry.ownerId === ownerId
+        found ||= owned
+        return !owned
+      })
+    )
+    return found
+  }
+
+  private async store(
+    ownerId: string,
+    fields: Omit<CredentialProfile, 'id' | 'createdAt'>,
+    secret: object
+  ): Promise<CredentialProfile> {
+    const id = `cred_${randomUUID()}`
+    const dataKey = await this.keys.generateDataKey()
+    const iv = randomBytes(12)
+    const cipher = createCipheriv(ALGORITHM, dataKey.plaintext, iv)
+    // Bind the ciphertext to its profile and owner so it cannot be swapped
+    // into another profile or handed to another user in the file
+    cipher.setAAD(additionalData(ownerId, id))
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify(secret)),
+      cipher.final(),
+    ])
+    dataKey.plaintext.fill(0)
+
+    const profile: EncryptedProfile = {
+      id,
+      ownerId,
+      ...fields,
+      createdAt: new Date().toISOString(),
+      keyId: dataKey.keyId,
+      encryptedDataKey: dataKey.ciphertext.toString('base64'),
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+    }
+    await this.update((profiles) => [...profiles, profile])
+    return toProfile(profile)
+  }
+
+  private update(
+    change: (profiles: EncryptedProfile[]) => EncryptedProfile[]
+  ): Promise<void> {
+    return this.write((file) => ({ ...file, profiles: change(file.profiles) }))
+  }
+
+  private write(change: (file: VaultFile) => VaultFile): Promise<void> {
+    const write = this.writes.then(async () => {
+      const { profiles, externalIds } = change(await this.readFile())
+      await fs.mkdir(path.dirname(this.file), { recursive: true })
+      const temporary = `${this.file}.${process.pid}.tmp`
+      await fs.writeFile(
+        temporary,
+        JSON.stringify({ version: 1, profiles, externalIds }, null, 2),
+        { mode: 0o600 }
+      )
+      await fs.rename(temporary, this.file)
+    })
+    this.writes = write.catch(() => undefined)
+    return write
+  }
+
+  private async read(): Promise<EncryptedProfile[]> {
+    return (await this.readFile()).profiles
+  }
+
+  private async readFile(): Promise<VaultFile> {
+    try {
+      const file = JSON.parse(await fs.readFile(this.file, 'utf-8'))
+      return {
+        profiles: file.profiles || [],
+        externalIds: file.externalIds || {},
+      }
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return { profiles: [], externalIds: {} }
+      throw error
+    }
+  }
+}
+
+// Resolve the signed-in user's credential profile named in a request body,
+// or fall back to the server's default credential chain when there is none
+export async function resolveCredentialProfile(
+  ownerId: string,
+  profileId?: string,
+  sessionName?: string
+): Promise<AWSCredentials | undefined> {
+  return profileId
+    ? credentialVault.resolve(ownerId, profileId, sessionName)
+    : undefined
+}
+
+// Region and credentials for an AWS SDK v3 client
+export function awsClientConfig(
+  credentials: AWSCredentials | undefined,
+  region?: string
+) {
+  return {
+    region: region || credentials?.region,
+    ...(credentials && {
+      credentials: {
+        accessKeyId: credentials.accessKeyId,
+        secretAccessKey: credentials.secretAccessKey,
+        sessionToken: credentials.sessionToken,
+      },
+    }),
+  }
+}
+
+const SECRET_KEYS = [
+  'awsCredentials',
+  'secretAccessKey',
+  'sessionToken',
+  'externalId',
+  'githubToken',
+]
+
+// A copy of request params that is safe to log
+export function redactSecrets(value: any): any {
+  if (Array.isArray(value)) return value.map(redactSecrets)
+  if (!value || typeof value !== 'object') return value
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [
+      key,
+      SECRET_KEYS.includes(key) ? '[redacted]' : redactSecrets(entry),
+    ])
+  )
+}
+
+// CREDENTIAL_VAULT_DIR holds the encrypted profiles. With
+// CREDENTIAL_KMS_KEY_ID set, data keys come from that KMS key using the
+// server's own AWS identity; otherwise from the development master key in
+// CREDENTIAL_MASTER_KEY_FILE (default: master.key in the vault directory).
+// Role profiles are assumed with the server's own AWS identity.
+export function createCredentialVault(): CredentialVault {
+  const directory = process.env.CREDENTIAL_VAULT_DIR || DEFAULT_VAULT_DIR
+  const kmsKeyId = process.env.CREDENTIAL_KMS_KEY_ID
+  return new CredentialVault(
+    path.join(directory, 'profiles.json'),
+    kmsKeyId
+      ? new KmsKeyProvider(kmsKeyId, new KMS({}))
+      : new LocalKeyProvider(
+          process.env.CREDENTIAL_MASTER_KEY_FILE ||
+            path.join(directory, 'master.key')
+        ),
+    createRoleAssumer()
+  )
+}
+
+function toProfile(profile: EncryptedProfile): CredentialProfile {
+  return {
+    id: profile.id,
+    name: profile.name,
+    type: profile.type || 'access-key',
+    region: profile.region,
+    accessKeyIdHint: profile.accessKeyIdHint,
+    roleArn: profile.roleArn,
+    createdAt: profile.createdAt,
+    lastUsedAt: profile.lastUsedAt,
+  }
+}
+
+function additionalData(ownerId: string, profileId: string): Buffer {
+  return Buffer.from(`${ownerId}|${profileId}`)
+}
+
+function keyIdOf(masterKey: Buffer): string {
+  return `local:${createHash('sha256').update(masterKey).digest('hex').slice(0, 16)}`
+}
+
+// iv | tag | ciphertext under the master key
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv(ALGORITHM, key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext])
+}
+
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, sealed.subarray(0, 12))
+  decipher.setAuthTag(sealed.subarray(12, 28))
+  return Buffer.concat([decipher.update(sealed.subarray(28)), decipher.final()])
+}
+
+declare global {
+  var credentialVault: CredentialVault | undefined
+}
+
+// Reuse one vault across hot reloads, like lib/deployment-store
+export const credentialVault =
+  globalThis.credentialVault || createCredentialVault()
+
+if (process.env.NODE_ENV !== 'production') {
+  globalThis.credentialVault = credentialVault
+}
@@ -0,0 +1,92 @@
+// Estimate-vs-actual spend for a stored deployment. The MCP server's
+// CostCollector writes daily Cost Explorer actuals into the record state;
+// this mirrors its getVariance for the dashboard.
+
+import type { DeploymentRecord } from './deployment-store'
+
+export interface DailyCost {
+  date: string
+  amount: number
+}
+
+export interface ActualSpend {
+  currency: 'USD'
+  daily: DailyCost[]
+  byService: Record<string, number>
+  matchedBy: 'DeploymentId' | 'Project'
+  collectedAt: string
+}
+
+export interface CostVariance {
+  currency: 'USD'
+  estimatedMonthly?: number
+  actualMonthToDate: number
+  // Month to date extrapolated over the whole month
+  projectedMonthly: number
+  // Projected minus estimated, as a percentage of the estimate
+  variancePercent?: number
+  daily: DailyCost[]
+  collectedAt?: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function getCostVariance(
+  record: DeploymentRecord,
+  now: Date = new Date()
+): CostVariance {
+  const spend = record.state.actualSpend as ActualSpend | undefined
+  // Deployments made without a stored plan record their estimate directly
+  const estimatedMonthly = (record.state.plan?.estimatedMonthlyCost ??
+    record.state.estimatedMonthlyCost) as number | undefined
+  const monthStart = startOfMonth(now)
+  const actualMonthToDate = roundCents(
+    (spend?.daily || [])
+      .filter((day) => day.date >= toDate(monthStart))
+      .reduce((sum, day) => sum + day.amount, 0)
+  )
+
+  // Extrapolate from the days the deployment has existed this month
+  const firstDay = Math.max(
+    monthStart.getTime(),
+    new Date(toDate(new Date(record.createdAt))).getTime()
+  )
+  const daysCovered = Math.max(
+    1,
+    Math.ceil((now.getTime() - firstDay) / DAY_MS)
+  )
+  const daysRemaining =
+    (startOfMonth(now, 1).getTime() - now.getTime()) / DAY_MS
+  const projectedMonthly = roundCents(
+    actualMonthToDate + (actualMonthToDate / daysCovered) * daysRemaining
+  )
+
+  return {
+    currency: 'USD',
+    estimatedMonthly,
+    actualMonthToDate,
+    projectedMonthly,
+    ...(estimatedMonthly &&
+      spend && {
+        variancePercent: Math.round(
+          ((projectedMonthly - estimatedMonthly) / estimatedMonthly) * 100
+        ),
+      }),
+    daily: (spend?.daily || []).slice(-7),
+    collectedAt: spend?.collectedAt,
+  }
+}
+
+function startOfMonth(date: Date, offset: number = 0): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offset, 1)
+  )
+}
+
+function toDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
@@ -0,0 +1,260 @@
+// Deployment persistence shared with the MCP server.
+// Mirrors packages/mcp-server/src/storage and uses the same Prisma schema, so
+// both processes read and write the same Deployment rows.
+
+import { prisma } from './prisma'
+
+export type DeploymentSource = 'website' | 'github' | 'frontend'
+
+export interface DeploymentRecord {
+  id: string
+  name: string
+  source: DeploymentSource
+  repositoryUrl?: string
+  branch?: string
+  region?: string
+  // AWS account the resources were created in
+  accountId?: string
+  status: string
+  progress: number
+  message?: string
+  publicUrl?: string
+  resources: any[]
+  // Flow-specific snapshot (steps, instance details, logs)
+  state: Record<string, any>
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type DeploymentRecordInput = Omit<
+  DeploymentRecord,
+  'createdAt' | 'updatedAt'
+> & { createdAt?: Date }
+
+export interface DeploymentListOptions {
+  source?: DeploymentSource
+  status?: string
+  limit?: number
+}
+
+// The fields a compare-and-set may change along with the status
+export type DeploymentStatusUpdate = Pick<DeploymentRecord, 'status'> &
+  Partial<Pick<DeploymentRecord, 'progress' | 'message'>>
+
+export interface DeploymentStore {
+  save(record: DeploymentRecordInput): Promise<DeploymentRecord>
+  get(id: string): Promise<DeploymentRecord | null>
+  list(options?: DeploymentListOptions): Promise<DeploymentRecord[]>
+  delete(id: string): Promise<void>
+  // Applies the update only while the record still has the expected status,
+  // so two callers cannot both claim it; null when it did not
+  compareAndSet(
+    id: string,
+    expectedStatus: string,
+    update: DeploymentStatusUpdate
+  ): Promise<DeploymentRecord | null>
+}
+
+// Non-persistent store, used in tests and when no database is configured
+export class InMemoryDeploymentStore implements DeploymentStore {
+  private records = new Map<string, DeploymentRecord>()
+
+  async save(record: DeploymentRecordInput): Promise<DeploymentRecord> {
+    const existing = this.records.get(record.id)
+    const now = new Date()
+    const saved: DeploymentRecord = {
+      ...JSON.parse(JSON.stringify(record)),
+      createdAt: existing?.createdAt || record.createdAt || now,
+      updatedAt: now,
+    }
+
+    this.records.set(record.id, saved)
+    return { ...saved }
+  }
+
+  async get(id: string): Promise<DeploymentRecord | null> {
+    const record = this.records.get(id)
+    return record ? { ...record } : null
+  }
+
+  async list(options: DeploymentListOptions = {}): Promise<DeploymentRecord[]> {
+    const records = Array.from(this.records.values())
+      .filter((record) => !options.source || record.source === options.source)
+      .filter((record) => !options.status || record.status === options.status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+
+    return (options.limit ? records.slice(0, options.limit) : records).map(
+      (record) => ({ ...record })
+    )
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id)
+  }
+
+  async compareAndSet(
+    id: string,
+    expectedStatus: string,
+    update: DeploymentStatusUpdate
+  ): Promise<DeploymentRecord | null> {
+    const record = this.records.get(id)
+    if (!record || record.status !== expectedStatus) {
+      return null
+    }
+
+    const saved: DeploymentRecord = {
+      ...record,
+      ...JSON.parse(JSON.stringify(update)),
+      updatedAt: new Date(),
+    }
+    this.records.set(id, saved)
+    return { ...saved }
+  }
+}
+
+// SQLite-backed store using prisma/schema.prisma
+export class PrismaDeploymentStore implements DeploymentStore {
+  // Saves are chained so rapid status updates land in order
+  private writes: Promise<unknown> = Promise.resolve()
+
+  async save(record: DeploymentRecordInput): Promise<DeploymentRecord> {
+    const write = this.writes.then(() => this.upsert(record))
+    this.writes = write.catch((error) => {
+      console.error(`Failed to save deployment ${record.id}:`, error)
+    })
+    return write
+  }
+
+  async get(id: string): Promise<DeploymentRecord | null> {
+    await this.writes
+    const row = await prisma.deployment.findUnique({ where: { id } })
+    return row ? toRecord(row) : null
+  }
+
+  async list(options: DeploymentListOptions = {}): Promise<DeploymentRecord[]> {
+    await this.writes
+    const rows = await prisma.deployment.findMany({
+      where: {
+        ...(options.source && { source: options.source }),
+        ...(options.status && { status: options.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      ...(options.limit && { take: options.limit }),
+    })
+    return rows.map(toRecord)
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.writes
+    await prisma.deployment.deleteMany({ where: { id } })
+  }
+
+  async compareAndSet(
+    id: string,
+    expectedStatus: string,
+    update: DeploymentStatusUpdate
+  ): Promise<DeploymentRecord | null> {
+    const write = this.writes.then(() =>
+      this.updateIfStatus(id, expectedStatus, update)
+    )
+    this.writes = write.catch((error) => {
+      console.error(`Failed to update deployment ${id}:`, error)
+    })
+    return write
+  }
+
+  private async updateIfStatus(
+    id: string,
+    expectedStatus: string,
+    update: DeploymentStatusUpdate
+  ) {
+    // A single conditional UPDATE, so the check and the write are atomic
+    const { count } = await prisma.deployment.updateMany({
+      where: { id, status: expectedStatus },
+      data: update,
+    })
+    if (count !== 1) {
+      return null
+    }
+
+    const row = await prisma.deployment.findUnique({ where: { id } })
+    return row ? toRecord(row) : null
+  }
+
+  private async upsert(record: DeploymentRecordInput) {
+    const data = {
+      name: record.name,
+      source: record.source,
+      repositoryUrl: record.repositoryUrl,
+      branch: record.branch || 'main',
+      region: record.region,
+      accountId: record.accountId,
+      status: record.status,
+      progress: record.progress,
+      message: record.message,
+      publicUrl: record.publicUrl,
+      resources: JSON.parse(JSON.stringify(record.resources)),
+      state: JSON.parse(JSON.stringify(record.state)),
+    }
+
+    const row = await prisma.deployment.upsert({
+      where: { id: record.id },
+      create: {
+        id: record.id,
+        ...data,
+        ...(record.createdAt && { createdAt: record.createdAt }),
+      },
+      update: data,
+    })
+    return toRecord(row)
+  }
+}
+
+function toRecord(row: any): DeploymentRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    source: row.source,
+    repositoryUrl: row.repositoryUrl ?? undefined,
+    branch: row.branch ?? undefined,
+    region: row.region ?? undefined,
+    accountId: row.accountId ?? undefined,
+    status: row.status,
+    progress: row.progress,
+    message: row.message ?? undefined,
+    publicUrl: row.publicUrl ?? undefined,
+    resources: row.resources || [],
+    state: row.state || {},
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  }
+}
+
+// DEPLOYMENT_STORE ("prisma" | "memory") picks the backend; defaults to Prisma
+// when DATABASE_URL is set, otherwise in-memory.
+export function createDeploymentStore(): DeploymentStore {
+  const kind =
+    process.env.DEPLOYMENT_STORE ||
+    (process.env.DATABASE_URL ? 'prisma' : 'memory')
+
+  if (kind === 'prisma') {
+    return new PrismaDeploymentStore()
+  }
+
+  console.warn(
+    'Using in-memory deployment store; deployments will not survive restarts. Set DATABASE_URL to persist them.'
+  )
+  return new InMemoryDeploymentStore()
+}
+
+declare global {
+  var deploymentStore: DeploymentStore | undefined
+}
+
+// Reuse one store across hot reloads, like lib/prisma
+export const deploymentStore =
+  globalThis.deploymentStore || createDeploymentStore()
+
+if (process.env.NODE_ENV !== 'production') {
+  globalThis.deploymentStore = deploymentStore
+}
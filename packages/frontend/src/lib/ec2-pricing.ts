@@ -0,0 +1,26 @@
+// On-demand EC2 prices used to estimate what a deployment costs to keep
+// running. Shared by orphan scans and deployment plans.
+
+export const HOURS_PER_MONTH = 730
+
+// On-demand Linux prices in us-east-1, USD per hour
+export const INSTANCE_HOURLY_PRICES: Record<string, number> = {
+  't2.nano': 0.0058,
+  't2.micro': 0.0116,
+  't2.small': 0.023,
+  't2.medium': 0.0464,
+  't3.nano': 0.0052,
+  't3.micro': 0.0104,
+  't3.small': 0.0208,
+  't3.medium': 0.0416,
+  't3.large': 0.0832,
+}
+
+// Monthly cost of running an instance around the clock, or undefined when
+// there is no price on file for the type
+export function estimateInstanceMonthlyCost(
+  instanceType: string
+): number | undefined {
+  const hourly = INSTANCE_HOURLY_PRICES[instanceType]
+  return hourly ? Math.round(hourly * HOURS_PER_MONTH * 100) / 100 : undefined
+}
@@ -0,0 +1,40 @@
+// Concrete resource list computed before a deployment and shown for approval.
+// Applying a plan creates exactly these resources. Mirrors the MCP server's
+// ExecutionPlan for the EC2 deployments the frontend runs.
+
+export interface PlannedResourceChange {
+  action: 'create' | 'update' | 'delete'
+  type: string
+  name: string
+  description: string
+  instanceType?: string
+  imageId?: string
+  runtime?: string
+  ports?: number[]
+  estimatedMonthlyCost: number
+}
+
+export interface ExecutionPlan {
+  // Also the ID of the deployment the plan creates
+  id: string
+  region: string
+  repositoryUrl: string
+  branch: string
+  changes: PlannedResourceChange[]
+  estimatedMonthlyCost: number
+  createdAt: string
+  expiresAt: string
+}
+
+// How long a plan can wait for approval before it has to be recomputed
+export const PLAN_TTL_MS = 24 * 60 * 60 * 1000
+
+export function countChanges(
+  plan: ExecutionPlan
+): Record<PlannedResourceChange['action'], number> {
+  const counts = { create: 0, update: 0, delete: 0 }
+  for (const change of plan.changes) {
+    counts[change.action]++
+  }
+  return counts
+}
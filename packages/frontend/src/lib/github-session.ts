@@ -0,0 +1,70 @@
+// The signed-in GitHub user behind a request. The github_token cookie is set
+// by the OAuth callback; the user it belongs to comes from GitHub rather than
+// the github_user cookie, which the browser can change. Data the server keeps
+// per user, such as credential profiles, is keyed by the user's numeric
+// GitHub ID, which unlike the login is never reassigned.
+
+import { NextResponse } from 'next/server'
+import { createHash } from 'crypto'
+
+export interface GitHubUser {
+  // github:<numeric user ID>
+  id: string
+  login: string
+}
+
+// Anything with the request cookie API, e.g. NextRequest.cookies
+export interface CookieReader {
+  get(name: string): { value: string } | undefined
+}
+
+// Polling routes look the user up every few seconds
+const SESSION_CACHE_TTL_MS = 5 * 60 * 1000
+
+interface CachedSession {
+  user?: GitHubUser
+  expiresAt: number
+}
+
+// Keyed by a hash of the token, so tokens are not kept in memory
+const sessions = new Map<string, CachedSession>()
+
+export async function getGitHubUser(
+  cookies?: CookieReader
+): Promise<GitHubUser | undefined> {
+  const token = cookies?.get('github_token')?.value
+  if (!token) return undefined
+
+  const now = Date.now()
+  for (const [key, session] of sessions) {
+    if (session.expiresAt <= now) sessions.delete(key)
+  }
+  const key = createHash('sha256').update(token).digest('hex')
+  const cached = sessions.get(key)
+  if (cached) return cached.user
+
+  const response = await fetch('https://api.github.com/user', {
+    headers: {
+      Authorization: `token ${token}`,
+      Accept: 'application/vnd.github.v3+json',
+    },
+  })
+  let user: GitHubUser | undefined
+  if (response.ok) {
+    const data = await response.json()
+    user = { id: `github:${data.id}`, login: data.login }
+  } else if (response.status !== 401) {
+    // Rate limits and outages are not a reason to sign the user out
+    throw new Error(`GitHub API error: ${response.status}`)
+  }
+  // A revoked or expired token is remembered as signed out
+  sessions.set(key, { user, expiresAt: now + SESSION_CACHE_TTL_MS })
+  return user
+}
+
+export function githubAuthenticationRequired() {
+  return NextResponse.json(
+    { success: false, error: 'GitHub authentication required' },
+    { status: 401 }
+  )
+}
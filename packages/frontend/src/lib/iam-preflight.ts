@@ -0,0 +1,362 @@
+// IAM preflight for a deployment plan: the exact actions its resources need
+// (including rollback and teardown), checked against the caller's policies
+// with SimulatePrincipalPolicy before anything is created
+
+import {
+  IAMClient,
+  GetRoleCommand,
+  SimulatePrincipalPolicyCommand,
+} from '@aws-sdk/client-iam'
+import { AWSCredentials, awsClientConfig } from './credential-vault'
+import { getCallerIdentity } from './aws-identity'
+
+export interface PolicyDocument {
+  Version: '2012-10-17'
+  Statement: {
+    Sid: string
+    Effect: 'Allow'
+    Action: string[]
+    Resource: '*'
+  }[]
+}
+
+export interface PermissionPreflight {
+  principalArn?: string
+  requiredActions: string[]
+  missingActions: string[]
+  // Resource types without an entry in REQUIRED_ACTIONS, whose permissions
+  // were not checked
+  uncheckedTypes: string[]
+  // False when the permissions could not be simulated, e.g. for the root
+  // user or without iam:SimulatePrincipalPolicy. requiredActions and policy
+  // are filled in either way.
+  simulated: boolean
+  message: string
+  // Grants exactly requiredActions
+  policy: PolicyDocument
+}
+
+// Actions per planned resource type, matching PlannedResourceChange.type
+// here and in the MCP server's plans
+export const REQUIRED_ACTIONS: { [resourceType: string]: string[] } = {
+  'EC2::SecurityGroup': [
+    'ec2:CreateSecurityGroup',
+    'ec2:AuthorizeSecurityGroupIngress',
+    'ec2:DescribeSecurityGroups',
+    'ec2:DescribeVpcs',
+    'ec2:CreateTags',
+    'ec2:DeleteSecurityGroup',
+  ],
+  'EC2::Instance': [
+    'ec2:RunInstances',
+    'ec2:DescribeInstances',
+    'ec2:CreateTags',
+    'ec2:TerminateInstances',
+    // The AMI comes from a public SSM parameter
+    'ssm:GetParameter',
+  ],
+  'S3::Bucket': [
+    's3:CreateBucket',
+    's3:PutBucketPolicy',
+    's3:PutBucketWebsite',
+    's3:PutBucketTagging',
+    's3:PutObject',
+    's3:ListBucket',
+    's3:ListBucketVersions',
+    's3:DeleteObject',
+    's3:DeleteObjectVersion',
+    's3:DeleteBucket',
+  ],
+  'CloudFront::Distribution': [
+    'cloudfront:CreateDistribution',
+    'cloudfront:TagResource',
+    'cloudfront:GetDistribution',
+    'cloudfront:GetDistributionConfig',
+    'cloudfront:UpdateDistribution',
+    'cloudfront:CreateInvalidation',
+    'cloudfront:DeleteDistribution',
+  ],
+  'IAM::Role': [
+    'iam:CreateRole',
+    'iam:TagRole',
+    'iam:GetRole',
+    'iam:AttachRolePolicy',
+    'iam:PassRole',
+    'iam:DetachRolePolicy',
+    'iam:DeleteRole',
+  ],
+  'Lambda::Function': [
+    'lambda:CreateFunction',
+    'lambda:GetFunction',
+    'lambda:UpdateFunctionCode',
+    'lambda:TagResource',
+    'lambda:DeleteFunction',
+  ],
+  'ApiGateway::RestApi': [
+    'apigateway:POST',
+    'apigateway:PUT',
+    'apigateway:GET',
+    'apigateway:DELETE',
+    'lambda:AddPermission',
+  ],
+  'ECR::Repository': [
+    'ecr:CreateRepository',
+    'ecr:DescribeRepositories',
+    'ecr:TagResource',
+    'ecr:DeleteRepository',
+  ],
+  'ECR::Image': [
+    'ecr:GetAuthorizationToken',
+    'ecr:BatchCheckLayerAvailability',
+    'ecr:InitiateLayerUpload',
+    'ecr:UploadLayerPart',
+    'ecr:CompleteLayerUpload',
+    'ecr:PutImage',
+    'ecr:BatchDeleteImage',
+  ],
+  'ECS::Cluster': ['ecs:CreateCluster', 'ecs:TagResource', 'ecs:DeleteCluster'],
+  'ECS::TaskDefinition': [
+    'ecs:RegisterTaskDefinition',
+    'ecs:DeregisterTaskDefinition',
+    // The task execution role is created on first use and passed to ECS
+    'iam:GetRole',
+    'iam:CreateRole',
+    'iam:AttachRolePolicy',
+    'iam:PassRole',
+  ],
+  'ECS::Service': [
+    'ecs:CreateService',
+    'ecs:DescribeServices',
+    'ecs:UpdateService',
+    'ecs:DeleteService',
+    'ec2:DescribeVpcs',
+    'ec2:DescribeSubnets',
+  ],
+  'ElasticLoadBalancingV2::LoadBalancer': [
+    'elasticloadbalancing:CreateLoadBalancer',
+    'elasticloadbalancing:CreateListener',
+    'elasticloadbalancing:AddTags',
+    'elasticloadbalancing:DescribeLoadBalancers',
+    'elasticloadbalancing:DeleteLoadBalancer',
+  ],
+  'ElasticLoadBalancingV2::TargetGroup': [
+    'elasticloadbalancing:CreateTargetGroup',
+    'elasticloadbalancing:AddTags',
+    'elasticloadbalancing:DeleteTargetGroup',
+  ],
+  'Logs::LogGroup': [
+    'logs:CreateLogGroup',
+    'logs:DescribeLogGroups',
+    'logs:PutRetentionPolicy',
+    'logs:TagResource',
+    'logs:DeleteLogGroup',
+  ],
+  'Budgets::Budget': ['budgets:ViewBudget', 'budgets:ModifyBudget'],
+}
+
+// What a plan needs beyond its resource types
+export interface PreflightOptions {
+  // Instances launch with this instance profile, which needs iam:PassRole
+  // on its role
+  instanceProfile?: string
+}
+
+// Resource types behind the service names of a generated deployment plan,
+// for plans that have no concrete changes yet
+const SERVICE_RESOURCE_TYPES: [RegExp, string[]][] = [
+  [/ec2/i, ['EC2::SecurityGroup', 'EC2::Instance']],
+  [/s3/i, ['S3::Bucket']],
+  [/cloudfront/i, ['CloudFront::Distribution']],
+  [/lambda/i, ['Lambda::Function', 'IAM::Role']],
+  [/api ?gateway/i, ['ApiGateway::RestApi']],
+  [/ecr|container registry/i, ['ECR::Repository', 'ECR::Image']],
+  [
+    /ecs|fargate/i,
+    [
+      'ECR::Repository',
+      'ECR::Image',
+      'ECS::Cluster',
+      'ECS::TaskDefinition',
+      'ECS::Service',
+      'EC2::SecurityGroup',
+    ],
+  ],
+  [
+    /load balancer|\belb\b|\balb\b/i,
+    [
+      'ElasticLoadBalancingV2::LoadBalancer',
+      'ElasticLoadBalancingV2::TargetGroup',
+    ],
+  ],
+  [/cloudwatch/i, ['Logs::LogGroup']],
+]
+
+// Services that match no pattern are passed on by name, so the preflight
+// reports them as unchecked instead of leaving them out
+export function resourceTypesForServices(
+  services: { type: string }[]
+): string[] {
+  const types = services.flatMap((service) => {
+    const matches = SERVICE_RESOURCE_TYPES.filter(([pattern]) =>
+      pattern.test(service.type)
+    )
+    return matches.length > 0
+      ? matches.flatMap(([, serviceTypes]) => serviceTypes)
+      : [service.type]
+  })
+  return Array.from(new Set(types))
+}
+
+export function uncheckedResourceTypes(resourceTypes: string[]): string[] {
+  return Array.from(
+    new Set(resourceTypes.filter((type) => !REQUIRED_ACTIONS[type]))
+  ).sort()
+}
+
+export function requiredActions(
+  resourceTypes: string[],
+  options: PreflightOptions = {}
+): string[] {
+  const actions = resourceTypes.flatMap((type) => REQUIRED_ACTIONS[type] || [])
+  if (options.instanceProfile && resourceTypes.includes('EC2::Instance')) {
+    actions.push('iam:PassRole')
+  }
+  return Array.from(new Set(actions)).sort()
+}
+
+// One statement per service, so the policy reads like a hand-written one
+export function minimalPolicy(actions: string[]): PolicyDocument {
+  const byService = new Map<string, string[]>()
+  for (const action of actions) {
+    const service = action.split(':')[0]
+    byService.set(service, [...(byService.get(service) || []), action])
+  }
+  return {
+    Version: '2012-10-17',
+    Statement: Array.from(byService, ([service, serviceActions]) => ({
+      Sid: `AwsDeployAi${service.charAt(0).toUpperCase()}${service.slice(1)}`,
+      Effect: 'Allow',
+      Action: serviceActions,
+      Resource: '*',
+    })),
+  }
+}
+
+export async function runPermissionPreflight(
+  credentials: AWSCredentials,
+  resourceTypes: string[],
+  options: PreflightOptions = {},
+  iamClient = new IAMClient(awsClientConfig(credentials))
+): Promise<PermissionPreflight> {
+  const actions = requiredActions(resourceTypes, options)
+  const uncheckedTypes = uncheckedResourceTypes(resourceTypes)
+  const result = {
+    requiredActions: actions,
+    missingActions: [],
+    uncheckedTypes,
+    policy: minimalPolicy(actions),
+  }
+  const unchecked =
+    uncheckedTypes.length > 0
+      ? `; permissions for ${uncheckedTypes.join(', ')} were not checked`
+      : ''
+  const checked =
+    uncheckedTypes.length > 0
+      ? 'checked permissions'
+      : 'permissions the plan needs'
+
+  const { arn } = await getCallerIdentity(credentials)
+  const principalArn = arn && (await simulatablePrincipal(iamClient, arn))
+  if (!principalArn) {
+    return {
+      ...result,
+      principalArn: arn,
+      simulated: false,
+      message: `Permissions of ${arn || 'this identity'} cannot be simulated; make sure it is allowed the required actions${unchecked}`,
+    }
+  }
+  if (actions.length === 0) {
+    return {
+      ...result,
+      principalArn,
+      simulated: true,
+      message:
+        uncheckedTypes.length > 0
+          ? `Permissions for ${uncheckedTypes.join(', ')} were not checked`
+          : 'The plan needs no AWS permissions',
+    }
+  }
+
+  const missingActions: string[] = []
+  try {
+    let marker: string | undefined
+    do {
+      const response = await iamClient.send(
+        new SimulatePrincipalPolicyCommand({
+          PolicySourceArn: principalArn,
+          ActionNames: actions,
+          Marker: marker,
+        })
+      )
+      for (const evaluation of response.EvaluationResults || []) {
+        if (
+          evaluation.EvalDecision !== 'allowed' &&
+          evaluation.EvalActionName
+        ) {
+          missingActions.push(evaluation.EvalActionName)
+        }
+      }
+      marker = response.IsTruncated ? response.Marker : undefined
+    } while (marker)
+  } catch (awsError: any) {
+    console.error('Permission simulation failed:', awsError.name)
+    return {
+      ...result,
+      principalArn,
+      simulated: false,
+      message:
+        awsError.name === 'AccessDenied' ||
+        awsError.name === 'AccessDeniedException'
+          ? `Grant ${principalArn} iam:SimulatePrincipalPolicy on itself to check its permissions before deploying${unchecked}`
+          : `Permissions could not be simulated: ${awsError.message}${unchecked}`,
+    }
+  }
+
+  return {
+    ...result,
+    principalArn,
+    missingActions: missingActions.sort(),
+    simulated: true,
+    message:
+      missingActions.length === 0
+        ? `${principalArn} has all ${actions.length} ${checked}${unchecked}`
+        : `${principalArn} is missing ${missingActions.length} of the ${actions.length} ${checked}${unchecked}`,
+  }
+}
+
+// SimulatePrincipalPolicy takes IAM users and roles. An assumed-role session
+// is simulated as its role, whose ARN (including any path) comes from IAM.
+// The root user and federated users cannot be simulated.
+async function simulatablePrincipal(
+  iamClient: IAMClient,
+  callerArn: string
+): Promise<string | undefined> {
+  const assumedRole = callerArn.match(
+    /^arn:(aws[a-z-]*):sts::(\d{12}):assumed-role\/([^/]+)\//
+  )
+  if (assumedRole) {
+    const [, partition, accountId, roleName] = assumedRole
+    try {
+      const response = await iamClient.send(
+        new GetRoleCommand({ RoleName: roleName })
+      )
+      if (response.Role?.Arn) return response.Role.Arn
+    } catch {
+      // Without iam:GetRole, assume the role has no path
+    }
+    return `arn:${partition}:iam::${accountId}:role/${roleName}`
+  }
+  return /^arn:aws[a-z-]*:iam::\d{12}:(user|role)\//.test(callerArn)
+    ? callerArn
+    : undefined
+}
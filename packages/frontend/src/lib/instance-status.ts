@@ -0,0 +1,203 @@
+// Derives EC2 deployment status from real signals: the instance state from
+// DescribeInstances and the status/log files the user-data script writes,
+// which nginx serves at /deployment-status and /deployment-logs.
+
+import { EC2Client, DescribeInstancesCommand } from '@aws-sdk/client-ec2'
+
+export interface InstanceDeploymentStatus {
+  status: 'deploying' | 'completed' | 'failed'
+  // Instance state, or the setup phase once the status file is reachable
+  phase: string
+  progress: number
+  message: string
+  logs: string[]
+  instanceState?: string
+  publicIp?: string
+  applicationReady: boolean
+}
+
+// Values written to /var/log/app/deployment-status.txt by the user-data script
+const SETUP_PHASES: Record<
+  string,
+  { progress: number; message: string; status?: 'completed' | 'failed' }
+> = {
+  starting: { progress: 25, message: 'Installing system dependencies...' },
+  installing: {
+    progress: 45,
+    message: 'Installing application dependencies...',
+  },
+  building: { progress: 65, message: 'Building application...' },
+  configuring: {
+    progress: 85,
+    message: 'Starting the application and configuring nginx...',
+  },
+  completed: {
+    progress: 100,
+    message: 'Application deployed successfully!',
+    status: 'completed',
+  },
+  failed: { progress: 100, message: 'Deployment failed', status: 'failed' },
+}
+
+const LOG_TAIL_LINES = 50
+
+async function fetchText(
+  url: string,
+  timeoutMs: number = 5000
+): Promise<string | null> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      cache: 'no-store',
+    })
+    return response.ok ? await response.text() : null
+  } catch {
+    return null
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+export async function probeInstanceDeployment(params: {
+  ec2Client: EC2Client
+  instanceId: string
+  publicIp?: string
+}): Promise<InstanceDeploymentStatus> {
+  const logs: string[] = []
+  let instanceState: string | undefined
+  let publicIp = params.publicIp
+
+  try {
+    const result = await params.ec2Client.send(
+      new DescribeInstancesCommand({ InstanceIds: [params.instanceId] })
+    )
+    const instance = result.Reservations?.[0]?.Instances?.[0]
+
+    if (!instance) {
+      return {
+        status: 'failed',
+        phase: 'missing',
+        progress: 100,
+        message: `Instance ${params.instanceId} no longer exists`,
+        logs,
+        applicationReady: false,
+      }
+    }
+
+    instanceState = instance.State?.Name
+    publicIp = instance.PublicIpAddress || publicIp
+  } catch (error) {
+    // Fall back to the status endpoint alone, e.g. without credentials
+    logs.push(
+      `⚠️ Could not describe instance: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`
+    )
+  }
+
+  if (instanceState === 'pending') {
+    return {
+      status: 'deploying',
+      phase: instanceState,
+      progress: 10,
+      message: 'EC2 instance is starting...',
+      logs,
+      instanceState,
+      publicIp,
+      applicationReady: false,
+    }
+  }
+
+  if (instanceState && instanceState !== 'running') {
+    return {
+      status: 'failed',
+      phase: instanceState,
+      progress: 100,
+      message: `EC2 instance is ${instanceState}`,
+      logs,
+      instanceState,
+      publicIp,
+      applicationReady: false,
+    }
+  }
+
+  const statusText = publicIp
+    ? await fetchText(`http://${publicIp}/deployment-status`)
+    : null
+
+  if (statusText === null) {
+    // nginx is installed early in the script; until then only the state is known
+    return {
+      status: 'deploying',
+      phase: instanceState || 'unknown',
+      progress: 20,
+      message: 'Instance running, installing system packages...',
+      logs,
+      instanceState,
+      publicIp,
+      applicationReady: false,
+    }
+  }
+
+  const phase = statusText.trim()
+  const logText = await fetchText(`http://${publicIp}/deployment-logs`)
+  if (logText) {
+    logs.push(
+      ...logText.trim().split('\n').filter(Boolean).slice(-LOG_TAIL_LINES)
+    )
+  }
+
+  const setup = SETUP_PHASES[phase] || {
+    progress: 30,
+    message: `Setup status: ${phase}`,
+  }
+  const status = setup.status || 'deploying'
+  const lastLogLine = logs[logs.length - 1]
+
+  return {
+    status,
+    phase,
+    progress: setup.progress,
+    message:
+      status === 'failed' && lastLogLine
+        ? `${setup.message}: ${lastLogLine}`
+        : setup.message,
+    logs,
+    instanceState,
+    publicIp,
+    applicationReady: status === 'completed',
+  }
+}
+
+// What to tell the user for a probed status: the result once setup has
+// finished, troubleshooting once it has failed, nothing while it runs
+export function deploymentInstructions(
+  probe: InstanceDeploymentStatus
+): string[] | undefined {
+  if (probe.status === 'completed') {
+    return [
+      '✅ EC2 instance created and configured',
+      '✅ Application cloned and dependencies installed',
+      '✅ Application built and service started',
+      '✅ Nginx proxy configured',
+      `🌐 Your live application: http://${probe.publicIp}`,
+      '🎉 Deployment completed successfully!',
+    ]
+  }
+
+  if (probe.status === 'failed') {
+    return probe.phase === 'failed'
+      ? [
+          '❌ Application setup failed on the instance',
+          'Check the setup log: /var/log/user-data.log',
+          'Check the application logs: /var/log/app/',
+          'Fix the repository and deploy again',
+        ]
+      : [`❌ ${probe.message}`, 'Deploy again to launch a new instance']
+  }
+
+  return undefined
+}
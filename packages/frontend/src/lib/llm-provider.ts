@@ -0,0 +1,81 @@
+// Model providers for the AI planner and repository analysis. The providers
+// come from the MCP server's build, so both processes share one
+// implementation; the factory below reads the same environment variables
+// without the server's file logger and fixture recording.
+
+import {
+  BedrockProvider,
+  LLMProvider,
+  LLMProviderKind,
+  LocalProvider,
+  OpenAICompatibleProvider,
+} from '@aws-deploy-ai/mcp-server/dist/llm/core.js'
+
+export {
+  BedrockProvider,
+  DEFAULT_BEDROCK_MODEL_ID,
+  DEFAULT_MAX_TOKENS,
+  LocalProvider,
+  OpenAICompatibleProvider,
+  singleTurn,
+} from '@aws-deploy-ai/mcp-server/dist/llm/core.js'
+export type {
+  LLMMessage,
+  LLMProvider,
+  LLMProviderKind,
+  LLMRequest,
+  LocalResponder,
+} from '@aws-deploy-ai/mcp-server/dist/llm/core.js'
+
+let sharedProvider: LLMProvider | undefined
+
+/**
+ * Create a provider from LLM_PROVIDER ("bedrock" | "openai" | "local").
+ * Defaults to Bedrock. LLM_MODEL overrides the model for any provider.
+ */
+export function createLLMProvider(
+  options: { region?: string } = {}
+): LLMProvider {
+  const kind = (process.env.LLM_PROVIDER || 'bedrock') as LLMProviderKind
+
+  switch (kind) {
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        model: process.env.LLM_MODEL || 'gpt-4o-mini',
+        apiKey: process.env.OPENAI_API_KEY,
+      })
+    case 'local':
+      console.warn(
+        'Using the local LLM provider; analysis results are deterministic placeholders.'
+      )
+      return new LocalProvider()
+    case 'bedrock': {
+      // A Bedrock API key in URL form is invoked directly
+      const apiKey = process.env.AWS_BEDROCK_API_KEY
+      return new BedrockProvider({
+        region:
+          options.region ||
+          process.env.BEDROCK_REGION ||
+          process.env.AWS_REGION ||
+          'us-east-1',
+        modelId: process.env.LLM_MODEL || process.env.BEDROCK_MODEL_ID,
+        endpointUrl: apiKey?.startsWith('http') ? apiKey : undefined,
+      })
+    }
+    default:
+      throw new Error(
+        `Unknown LLM_PROVIDER "${kind}"; expected bedrock, openai or local`
+      )
+  }
+}
+
+/**
+ * Process-wide provider shared by the analysis and planning services
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!sharedProvider) {
+    sharedProvider = createLLMProvider()
+  }
+  return sharedProvider
+}
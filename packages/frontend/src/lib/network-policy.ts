@@ -0,0 +1,360 @@
+// Inbound network policy for the instances the dashboard launches. Only HTTP
+// and HTTPS are public: the app listens on a port that nginx proxies to, and
+// SSH stays closed in favour of SSM Session Manager unless it is opened to
+// the deploying user's IP. The resolved policy is part of the execution plan
+// and recorded on the deployment so it can be audited.
+
+import {
+  EC2Client,
+  AuthorizeSecurityGroupIngressCommand,
+  CreateSecurityGroupCommand,
+  DeleteSecurityGroupCommand,
+  DescribeSecurityGroupsCommand,
+  DescribeVpcsCommand,
+  IpPermission,
+} from '@aws-sdk/client-ec2'
+import { isIP } from 'net'
+
+export type SshAccess = 'closed' | 'caller-ip'
+
+export interface NetworkPolicy {
+  ssh: SshAccess
+  // Single address allowed to SSH when ssh is caller-ip
+  sshCidr?: string
+  // Key pair for SSH; instances are launched without one otherwise
+  keyName?: string
+  // Instance profile with AmazonSSMManagedInstanceCore, for Session Manager
+  instanceProfile?: string
+  publicPorts: number[]
+  // Where the app listens on the instance, reachable only through nginx
+  appPort: number
+  // Open the public ports to ::/0 as well
+  ipv6: boolean
+  // Reuse one group per VPC instead of creating one per deployment
+  sharedSecurityGroup: boolean
+  // Where the policy differs from what was asked for, and why
+  notes: string[]
+}
+
+// What a request may ask for; anything left out comes from the environment
+export interface NetworkPolicyOptions {
+  ssh?: SshAccess
+  ipv6?: boolean
+  sharedSecurityGroup?: boolean
+  keyName?: string
+  instanceProfile?: string
+}
+
+// The policy as applied, stored in the deployment state
+export interface AppliedNetworkPolicy extends NetworkPolicy {
+  securityGroupId: string
+  securityGroupName: string
+  vpcId?: string
+  // The group is shared with other deployments and is not torn down with
+  // this one
+  shared: boolean
+}
+
+const PUBLIC_PORTS = [80, 443]
+const APP_PORT = 3000
+
+// NETWORK_SSH_ACCESS (closed or caller-ip), NETWORK_IPV6,
+// NETWORK_SHARED_SECURITY_GROUP, NETWORK_SSH_KEY_NAME and
+// NETWORK_SSM_INSTANCE_PROFILE set the defaults
+export function resolveNetworkPolicy(
+  options: NetworkPolicyOptions = {},
+  callerIp?: string
+): NetworkPolicy {
+  const notes: string[] = []
+  let ssh: SshAccess =
+    options.ssh ||
+    (process.env.NETWORK_SSH_ACCESS === 'caller-ip' ? 'caller-ip' : 'closed')
+  let sshCidr: string | undefined
+  let sharedSecurityGroup =
+    options.sharedSecurityGroup ??
+    process.env.NETWORK_SHARED_SECURITY_GROUP === 'true'
+  const keyName = options.keyName || process.env.NETWORK_SSH_KEY_NAME
+
+  if (ssh === 'caller-ip') {
+    const address = publicAddress(callerIp)
+    if (!address) {
+      ssh = 'closed'
+      notes.push(
+        `SSH stays closed: ${callerIp ? `${callerIp} is not a public address` : 'the caller IP is unknown'}`
+      )
+    } else {
+      sshCidr = isIP(address) === 6 ? `${address}/128` : `${address}/32`
+      if (sharedSecurityGroup) {
+        sharedSecurityGroup = false
+        notes.push(
+          'SSH rules are per caller, so this deployment gets its own security group'
+        )
+      }
+      if (!keyName) {
+        notes.push(
+          'No key pair is set (NETWORK_SSH_KEY_NAME), so SSH needs keys added to the instance some other way'
+        )
+      }
+    }
+  }
+
+  const instanceProfile =
+    options.instanceProfile || process.env.NETWORK_SSM_INSTANCE_PROFILE
+  if (ssh === 'closed' && !instanceProfile) {
+    notes.push(
+      'No shell access: SSH is closed and no Session Manager instance profile is set (NETWORK_SSM_INSTANCE_PROFILE), so the instance cannot be reached or updated in place'
+    )
+  }
+
+  return {
+    ssh,
+    sshCidr,
+    keyName: ssh === 'caller-ip' ? keyName : undefined,
+    instanceProfile,
+    publicPorts: PUBLIC_PORTS,
+    appPort: APP_PORT,
+    ipv6: options.ipv6 ?? process.env.NETWORK_IPV6 !== 'false',
+    sharedSecurityGroup,
+    notes,
+  }
+}
+
+// Proxies in front of the server that append to X-Forwarded-For, from
+// NETWORK_TRUSTED_PROXY_HOPS (default 1)
+export function trustedProxyHops(env: NodeJS.ProcessEnv = process.env): number {
+  const hops = Number(env.NETWORK_TRUSTED_PROXY_HOPS)
+  return Number.isInteger(hops) && hops > 0 ? hops : 1
+}
+
+// The browser's address as seen by the outermost trusted proxy. Entries to the
+// left of that proxy's come from the client and can be forged, so they are
+// never used.
+export function callerIpOf(
+  headers: Headers,
+  hops: number = trustedProxyHops()
+): string | undefined {
+  const forwarded = headers
+    .get('x-forwarded-for')
+    ?.split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  if (forwarded?.length) {
+    return forwarded[Math.max(0, forwarded.length - hops)]
+  }
+  return headers.get('x-real-ip') || undefined
+}
+
+export function ingressPermissions(policy: NetworkPolicy): IpPermission[] {
+  const permissions: IpPermission[] = policy.publicPorts.map((port) => ({
+    IpProtocol: 'tcp',
+    FromPort: port,
+    ToPort: port,
+    IpRanges: [{ CidrIp: '0.0.0.0/0', Description: 'Public web traffic' }],
+    ...(policy.ipv6 && {
+      Ipv6Ranges: [{ CidrIpv6: '::/0', Description: 'Public web traffic' }],
+    }),
+  }))
+
+  if (policy.ssh === 'caller-ip' && policy.sshCidr) {
+    const description = 'SSH from the deploying user'
+    permissions.push({
+      IpProtocol: 'tcp',
+      FromPort: 22,
+      ToPort: 22,
+      ...(policy.sshCidr.includes(':')
+        ? {
+            Ipv6Ranges: [
+              { CidrIpv6: policy.sshCidr, Description: description },
+            ],
+          }
+        : { IpRanges: [{ CidrIp: policy.sshCidr, Description: description }] }),
+    })
+  }
+  return permissions
+}
+
+// Ports the security group opens, for plan review
+export function openPorts(policy: NetworkPolicy): number[] {
+  return policy.ssh === 'caller-ip'
+    ? [...policy.publicPorts, 22]
+    : policy.publicPorts
+}
+
+export function describeNetworkPolicy(policy: NetworkPolicy): string {
+  const web = `Allows inbound HTTP and HTTPS from anywhere (${policy.ipv6 ? '0.0.0.0/0 and ::/0' : '0.0.0.0/0'})`
+  const app = `port ${policy.appPort} is reachable only through nginx`
+  const ssh =
+    policy.ssh === 'caller-ip'
+      ? `SSH only from ${policy.sshCidr}`
+      : 'SSH closed (use SSM Session Manager)'
+  const group = policy.sharedSecurityGroup
+    ? `; shared group ${sharedGroupName(policy)} in the default VPC`
+    : ''
+  return `${web}; ${app}; ${ssh}${group}`
+}
+
+// The command that opens a shell on the instance under this policy
+export function shellAccess(
+  policy: NetworkPolicy,
+  instanceId: string,
+  publicIp?: string
+): string {
+  if (policy.ssh === 'caller-ip') {
+    return `ssh -i ${policy.keyName || 'your-key'}.pem ubuntu@${publicIp}`
+  }
+  return policy.instanceProfile
+    ? `aws ssm start-session --target ${instanceId}`
+    : 'None: SSH is closed and the instance has no Session Manager instance profile'
+}
+
+// Create the security group for a deployment, or find the shared one
+export async function applyNetworkPolicy(
+  ec2Client: EC2Client,
+  policy: NetworkPolicy,
+  deploymentId: string
+): Promise<AppliedNetworkPolicy> {
+  if (!policy.sharedSecurityGroup) {
+    const groupName = `aws-deploy-ai-${deploymentId}`
+    const groupId = await createGroup(ec2Client, policy, groupName, [
+      { Key: 'DeploymentId', Value: deploymentId },
+    ])
+    return {
+      ...policy,
+      securityGroupId: groupId,
+      securityGroupName: groupName,
+      shared: false,
+    }
+  }
+
+  // Instances launched without a subnet go into the default VPC
+  const vpcs = await ec2Client.send(
+    new DescribeVpcsCommand({
+      Filters: [{ Name: 'is-default', Values: ['true'] }],
+    })
+  )
+  const vpcId = vpcs.Vpcs?.[0]?.VpcId
+  if (!vpcId) {
+    throw new Error(
+      'No default VPC in this region for the shared security group'
+    )
+  }
+
+  const groupName = sharedGroupName(policy)
+  let groupId = await findGroup(ec2Client, vpcId, groupName)
+  if (!groupId) {
+    try {
+      groupId = await createGroup(ec2Client, policy, groupName, [
+        { Key: 'Shared', Value: 'true' },
+      ])
+    } catch (error: any) {
+      // Another deployment created it first
+      if (error?.name !== 'InvalidGroup.Duplicate') throw error
+      groupId = await findGroup(ec2Client, vpcId, groupName)
+      if (!groupId) throw error
+    }
+  }
+
+  return {
+    ...policy,
+    securityGroupId: groupId,
+    securityGroupName: groupName,
+    vpcId,
+    shared: true,
+  }
+}
+
+function sharedGroupName(policy: NetworkPolicy): string {
+  return `aws-deploy-ai-shared-web${policy.ipv6 ? '-ipv6' : ''}`
+}
+
+async function findGroup(
+  ec2Client: EC2Client,
+  vpcId: string,
+  groupName: string
+): Promise<string | undefined> {
+  const result = await ec2Client.send(
+    new DescribeSecurityGroupsCommand({
+      Filters: [
+        { Name: 'vpc-id', Values: [vpcId] },
+        { Name: 'group-name', Values: [groupName] },
+      ],
+    })
+  )
+  return result.SecurityGroups?.[0]?.GroupId
+}
+
+async function createGroup(
+  ec2Client: EC2Client,
+  policy: NetworkPolicy,
+  groupName: string,
+  tags: { Key: string; Value: string }[]
+): Promise<string> {
+  const result = await ec2Client.send(
+    new CreateSecurityGroupCommand({
+      GroupName: groupName,
+      Description: describeNetworkPolicy(policy).slice(0, 255),
+      TagSpecifications: [
+        {
+          ResourceType: 'security-group',
+          Tags: [
+            { Key: 'Name', Value: groupName },
+            { Key: 'CreatedBy', Value: 'AWS Deploy AI' },
+            ...tags,
+          ],
+        },
+      ],
+    })
+  )
+  const groupId = result.GroupId!
+
+  try {
+    await ec2Client.send(
+      new AuthorizeSecurityGroupIngressCommand({
+        GroupId: groupId,
+        IpPermissions: ingressPermissions(policy),
+      })
+    )
+  } catch (error) {
+    // Nothing references the group yet, so it can go straight away
+    await ec2Client
+      .send(new DeleteSecurityGroupCommand({ GroupId: groupId }))
+      .catch((cleanupError) =>
+        console.error(
+          `Failed to delete security group ${groupId} after its rules were rejected:`,
+          cleanupError
+        )
+      )
+    throw error
+  }
+  return groupId
+}
+
+// Loopback, private, link-local and carrier-grade NAT addresses cannot be
+// the source of SSH traffic from the internet
+function publicAddress(callerIp?: string): string | undefined {
+  const address = callerIp?.replace(/^::ffff:/, '')
+  if (!address) return undefined
+
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(Number)
+    const isPrivate =
+      a === 10 ||
+      a === 127 ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 169 && b === 254) ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      a === 0
+    return isPrivate ? undefined : address
+  }
+  if (isIP(address) === 6) {
+    const lower = address.toLowerCase()
+    const isPrivate =
+      lower === '::1' ||
+      lower === '::' ||
+      /^f[cd]/.test(lower) ||
+      /^fe[89ab]/.test(lower)
+    return isPrivate ? undefined : address
+  }
+  return undefined
+}
@@ -0,0 +1,219 @@
+// Finds EC2 resources created by AWS Deploy AI that no stored deployment
+// accounts for. Mirrors the MCP server's OrphanScanner for the resource types
+// the frontend creates; buckets, distributions and Lambda roles are covered by
+// its find-orphaned-resources tool.
+
+import {
+  EC2Client,
+  DescribeInstancesCommand,
+  DescribeSecurityGroupsCommand,
+  Filter,
+  Tag,
+} from '@aws-sdk/client-ec2'
+import type { DeploymentRecord } from './deployment-store'
+import type { TeardownResource } from './teardown'
+import { estimateInstanceMonthlyCost } from './ec2-pricing'
+
+export interface OrphanedResource {
+  resource: TeardownResource & { status: string; tags: Record<string, string> }
+  name?: string
+  matchedBy: string
+  deploymentId?: string
+  estimatedMonthlyCost: number
+  costNote?: string
+  createdAt?: Date
+}
+
+export interface OrphanScanResult {
+  region: string
+  scannedTypes: string[]
+  scanned: number
+  knownDeployments: number
+  orphans: OrphanedResource[]
+  estimatedMonthlyCost: number
+}
+
+const NAME_PREFIX = 'aws-deploy-ai-'
+// Records in these states no longer account for the resources they list
+const ENDED_STATUSES = ['destroyed', 'failed']
+
+// EC2 ANDs filters, so each way of recognising a resource is its own query
+const INSTANCE_QUERIES: Array<[string, Filter]> = [
+  [
+    'tag ManagedBy=aws-deploy-ai',
+    { Name: 'tag:ManagedBy', Values: ['aws-deploy-ai'] },
+  ],
+  [
+    'tag CreatedBy=AWS Deploy AI',
+    { Name: 'tag:CreatedBy', Values: ['AWS Deploy AI'] },
+  ],
+  [`name ${NAME_PREFIX}*`, { Name: 'tag:Name', Values: [`${NAME_PREFIX}*`] }],
+]
+
+const SECURITY_GROUP_QUERIES: Array<[string, Filter]> = [
+  [`name ${NAME_PREFIX}*`, { Name: 'group-name', Values: [`${NAME_PREFIX}*`] }],
+  [
+    'tag ManagedBy=aws-deploy-ai',
+    { Name: 'tag:ManagedBy', Values: ['aws-deploy-ai'] },
+  ],
+  [
+    'tag CreatedBy=AWS Deploy AI',
+    { Name: 'tag:CreatedBy', Values: ['AWS Deploy AI'] },
+  ],
+]
+
+export async function scanOrphanedResources(params: {
+  ec2Client: EC2Client
+  region: string
+  deployments: DeploymentRecord[]
+}): Promise<OrphanScanResult> {
+  // Only the resources a live record lists are accounted for; a tagged
+  // DeploymentId alone does not count, and a failed deployment's leftovers
+  // are orphans even though its record remains
+  const knownIds = new Set<string>()
+  for (const deployment of params.deployments) {
+    if (ENDED_STATUSES.includes(deployment.status)) continue
+    for (const resource of deployment.resources) {
+      if (resource?.id) knownIds.add(resource.id)
+    }
+    // Shared security groups are recorded in the network policy instead
+    const sharedGroupId = deployment.state?.networkPolicy?.securityGroupId
+    if (sharedGroupId) knownIds.add(sharedGroupId)
+  }
+
+  const candidates = [
+    ...(await scanInstances(params.ec2Client, params.region)),
+    ...(await scanSecurityGroups(params.ec2Client, params.region)),
+  ]
+  const orphans = candidates.filter(
+    (candidate) => !knownIds.has(candidate.resource.id)
+  )
+
+  return {
+    region: params.region,
+    scannedTypes: ['EC2::Instance', 'EC2::SecurityGroup'],
+    scanned: candidates.length,
+    knownDeployments: params.deployments.length,
+    orphans,
+    estimatedMonthlyCost: round(
+      orphans.reduce((sum, orphan) => sum + orphan.estimatedMonthlyCost, 0)
+    ),
+  }
+}
+
+async function scanInstances(
+  ec2Client: EC2Client,
+  region: string
+): Promise<OrphanedResource[]> {
+  const found = new Map<string, OrphanedResource>()
+
+  for (const [matchedBy, filter] of INSTANCE_QUERIES) {
+    let nextToken: string | undefined
+    do {
+      const result = await ec2Client.send(
+        new DescribeInstancesCommand({
+          Filters: [
+            filter,
+            {
+              Name: 'instance-state-name',
+              Values: ['pending', 'running', 'stopping', 'stopped'],
+            },
+          ],
+          NextToken: nextToken,
+        })
+      )
+
+      for (const reservation of result.Reservations || []) {
+        for (const instance of reservation.Instances || []) {
+          if (!instance.InstanceId || found.has(instance.InstanceId)) continue
+
+          const tags = toTagMap(instance.Tags)
+          const state = instance.State?.Name || 'unknown'
+          const running = state === 'running' || state === 'pending'
+          const monthly = estimateInstanceMonthlyCost(
+            instance.InstanceType || ''
+          )
+
+          found.set(instance.InstanceId, {
+            resource: {
+              id: instance.InstanceId,
+              type: 'EC2::Instance',
+              region,
+              status: state,
+              tags,
+            },
+            name: tags.Name,
+            matchedBy,
+            deploymentId: tags.DeploymentId,
+            estimatedMonthlyCost: running && monthly ? monthly : 0,
+            costNote: !running
+              ? 'Stopped; only its EBS volumes are billed'
+              : monthly
+                ? `${instance.InstanceType} on-demand`
+                : `No price on file for ${instance.InstanceType}`,
+            createdAt: instance.LaunchTime,
+          })
+        }
+      }
+
+      nextToken = result.NextToken
+    } while (nextToken)
+  }
+
+  return Array.from(found.values())
+}
+
+async function scanSecurityGroups(
+  ec2Client: EC2Client,
+  region: string
+): Promise<OrphanedResource[]> {
+  const found = new Map<string, OrphanedResource>()
+
+  for (const [matchedBy, filter] of SECURITY_GROUP_QUERIES) {
+    let nextToken: string | undefined
+    do {
+      const result = await ec2Client.send(
+        new DescribeSecurityGroupsCommand({
+          Filters: [filter],
+          NextToken: nextToken,
+        })
+      )
+
+      for (const group of result.SecurityGroups || []) {
+        if (!group.GroupId || found.has(group.GroupId)) continue
+
+        const tags = toTagMap(group.Tags)
+        found.set(group.GroupId, {
+          resource: {
+            id: group.GroupId,
+            type: 'EC2::SecurityGroup',
+            region,
+            status: 'active',
+            tags,
+          },
+          name: group.GroupName,
+          matchedBy,
+          deploymentId: tags.DeploymentId,
+          estimatedMonthlyCost: 0,
+          costNote: 'Security groups are free',
+        })
+      }
+
+      nextToken = result.NextToken
+    } while (nextToken)
+  }
+
+  return Array.from(found.values())
+}
+
+function toTagMap(tags?: Tag[]): Record<string, string> {
+  return Object.fromEntries(
+    (tags || [])
+      .filter((tag) => tag.Key)
+      .map((tag) => [tag.Key!, tag.Value || ''])
+  )
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
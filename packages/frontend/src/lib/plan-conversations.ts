@@ -0,0 +1,74 @@
+// Conversation history behind each AI deployment plan, so feedback from the
+// plan review refines the plan instead of starting over. Conversations only
+// need to outlive the review, so they are kept in memory.
+
+import { LLMMessage } from './llm-provider'
+
+// Conversations untouched for this long are dropped
+export const CONVERSATION_TTL_MS = 24 * 60 * 60 * 1000
+
+export interface PlanRevision {
+  revision: number
+  // The feedback that produced this revision; absent for the first plan
+  feedback?: string
+  changeSummary: string[]
+  deploymentPlan: any
+  aiInsights?: any
+  createdAt: string
+}
+
+export interface PlanConversation {
+  id: string
+  repositoryName: string
+  // Everything said to and by the model, oldest first
+  messages: LLMMessage[]
+  revisions: PlanRevision[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface PlanConversationStore {
+  save(conversation: PlanConversation): Promise<PlanConversation>
+  get(id: string): Promise<PlanConversation | null>
+}
+
+export class InMemoryPlanConversationStore implements PlanConversationStore {
+  private conversations = new Map<string, PlanConversation>()
+
+  async save(conversation: PlanConversation): Promise<PlanConversation> {
+    this.prune()
+    const saved = JSON.parse(JSON.stringify(conversation))
+    this.conversations.set(conversation.id, saved)
+    return JSON.parse(JSON.stringify(saved))
+  }
+
+  async get(id: string): Promise<PlanConversation | null> {
+    const conversation = this.conversations.get(id)
+    return conversation ? JSON.parse(JSON.stringify(conversation)) : null
+  }
+
+  private prune() {
+    const cutoff = Date.now() - CONVERSATION_TTL_MS
+    for (const [id, conversation] of this.conversations) {
+      if (new Date(conversation.updatedAt).getTime() < cutoff) {
+        this.conversations.delete(id)
+      }
+    }
+  }
+}
+
+export function latestRevision(conversation: PlanConversation): PlanRevision {
+  return conversation.revisions[conversation.revisions.length - 1]
+}
+
+declare global {
+  var planConversations: PlanConversationStore | undefined
+}
+
+// Reuse one store across hot reloads, like lib/deployment-store
+export const planConversations =
+  globalThis.planConversations || new InMemoryPlanConversationStore()
+
+if (process.env.NODE_ENV !== 'production') {
+  globalThis.planConversations = planConversations
+}
@@ -0,0 +1,220 @@
+// Validated JSON output from the model, with repair retries. The repair loop
+// and JSON extraction come from the MCP server's build; the checks mirror
+// packages/mcp-server/src/llm/schemas.ts and are hand-written because the
+// frontend has no schema library.
+
+import {
+  completeWithRepairs,
+  DEFAULT_MAX_REPAIRS,
+  extractJson,
+} from '@aws-deploy-ai/mcp-server/dist/llm/core.js'
+import { LLMProvider, LLMRequest } from './llm-provider'
+import {
+  ARCHITECTURE_STRATEGIES,
+  toStrategy,
+} from './architecture-alternatives'
+
+export {
+  DEFAULT_MAX_REPAIRS,
+  extractJson,
+  StructuredOutputError,
+} from '@aws-deploy-ai/mcp-server/dist/llm/core.js'
+
+export type Validator = (value: unknown) => string[]
+
+// Ask for JSON that passes validate. Invalid answers are sent back to the
+// model together with the validation errors, up to maxRepairs times.
+export async function completeStructured<T>(
+  llm: LLMProvider,
+  request: LLMRequest,
+  validate: Validator,
+  maxRepairs: number = DEFAULT_MAX_REPAIRS
+): Promise<T> {
+  return completeWithRepairs<T>(
+    llm,
+    request,
+    (response) => {
+      let issues: string[]
+      let value: unknown
+      try {
+        value = extractJson(response)
+        issues = validate(value)
+      } catch (error) {
+        issues = [error instanceof Error ? error.message : 'Invalid JSON']
+      }
+      return issues.length === 0
+        ? { success: true, data: value as T }
+        : { success: false, issues }
+    },
+    maxRepairs,
+    {
+      onInvalid: (task, attempt, issues) =>
+        console.warn(`Model output for ${task} failed validation`, {
+          attempt,
+          issues,
+        }),
+    }
+  )
+}
+
+type FieldType = 'string' | 'number' | 'boolean' | 'string[]'
+
+// Check that each field of an object has the expected type
+function checkFields(
+  value: unknown,
+  path: string,
+  fields: Record<string, FieldType>,
+  issues: string[]
+): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    issues.push(`${path}: Expected object`)
+    return false
+  }
+
+  for (const [name, type] of Object.entries(fields)) {
+    const field = (value as Record<string, unknown>)[name]
+    const ok =
+      type === 'string[]'
+        ? Array.isArray(field) && field.every((v) => typeof v === 'string')
+        : type === 'number'
+          ? typeof field === 'number' ||
+            (typeof field === 'string' && !isNaN(Number(field)))
+          : typeof field === type
+    if (!ok) {
+      issues.push(
+        `${path}.${name}: ${field === undefined ? 'Required' : `Expected ${type}`}`
+      )
+    }
+  }
+
+  return true
+}
+
+export function validateDeploymentPlan(
+  value: unknown,
+  path: string = 'deploymentPlan'
+): string[] {
+  const issues: string[] = []
+  if (
+    !checkFields(
+      value,
+      path,
+      { architecture: 'string', estimated_monthly_cost: 'string' },
+      issues
+    )
+  ) {
+    return issues
+  }
+
+  const services = value.services
+  if (!Array.isArray(services) || services.length === 0) {
+    issues.push(`${path}.services: Expected at least one service`)
+  } else {
+    services.forEach((service, i) =>
+      checkFields(
+        service,
+        `${path}.services.${i}`,
+        { name: 'string', type: 'string' },
+        issues
+      )
+    )
+  }
+
+  if (!Array.isArray(value.steps)) {
+    issues.push(`${path}.steps: Expected array`)
+  } else {
+    value.steps.forEach((step, i) =>
+      checkFields(
+        step,
+        `${path}.steps.${i}`,
+        { step: 'number', action: 'string' },
+        issues
+      )
+    )
+  }
+
+  return issues
+}
+
+export function validateRepositoryAnalysisResponse(value: unknown): string[] {
+  const issues: string[] = []
+  if (!checkFields(value, '(root)', {}, issues)) return issues
+
+  checkFields(
+    value.analysis,
+    'analysis',
+    {
+      language: 'string',
+      framework: 'string',
+      packageManager: 'string',
+      hasDatabase: 'boolean',
+      hasEnvVariables: 'boolean',
+      buildCommand: 'string',
+      startCommand: 'string',
+      port: 'number',
+      staticAssets: 'boolean',
+      hasDockerfile: 'boolean',
+    },
+    issues
+  )
+  return [...issues, ...validateDeploymentPlan(value.deploymentPlan)]
+}
+
+export function validatePersonalizedPlanResponse(value: unknown): string[] {
+  const issues: string[] = []
+  if (!checkFields(value, '(root)', {}, issues)) return issues
+
+  return validateDeploymentPlan(value.deploymentPlan)
+}
+
+export function validateRefinedPlanResponse(value: unknown): string[] {
+  const issues: string[] = []
+  if (!checkFields(value, '(root)', { changeSummary: 'string[]' }, issues)) {
+    return issues
+  }
+
+  return [...issues, ...validateDeploymentPlan(value.deploymentPlan)]
+}
+
+export function validateAlternativeArchitecturesResponse(
+  value: unknown
+): string[] {
+  const issues: string[] = []
+  if (!checkFields(value, '(root)', {}, issues)) return issues
+
+  const alternatives = value.alternatives
+  if (
+    !Array.isArray(alternatives) ||
+    alternatives.length !== ARCHITECTURE_STRATEGIES.length
+  ) {
+    return [
+      `alternatives: Expected ${ARCHITECTURE_STRATEGIES.length} alternatives`,
+    ]
+  }
+
+  alternatives.forEach((alternative, i) => {
+    if (!checkFields(alternative, `alternatives.${i}`, {}, issues)) return
+    if (!toStrategy(alternative.strategy)) {
+      issues.push(
+        `alternatives.${i}.strategy: Expected one of ${ARCHITECTURE_STRATEGIES.join(', ')}`
+      )
+    }
+    issues.push(
+      ...validateDeploymentPlan(
+        alternative.deploymentPlan,
+        `alternatives.${i}.deploymentPlan`
+      )
+    )
+  })
+
+  const strategies = new Set(
+    alternatives.map((alternative) => toStrategy(alternative?.strategy))
+  )
+  if (issues.length === 0 && strategies.size !== alternatives.length) {
+    issues.push(
+      'alternatives: Expected one cost, one performance and one hybrid alternative'
+    )
+  }
+
+  return issues
+}
@@ -0,0 +1,124 @@
+// Deletes the AWS resources recorded for a deployment, mirroring the MCP
+// server's TeardownService for the resource types the frontend creates.
+
+import {
+  EC2Client,
+  TerminateInstancesCommand,
+  DeleteSecurityGroupCommand,
+  waitUntilInstanceTerminated,
+} from '@aws-sdk/client-ec2'
+
+export interface TeardownResource {
+  id: string
+  type: string
+  region?: string
+}
+
+export type TeardownOutcome =
+  'planned' | 'deleted' | 'already-deleted' | 'skipped' | 'failed'
+
+export interface TeardownResult {
+  resource: TeardownResource
+  outcome: TeardownOutcome
+  message: string
+}
+
+// Instances hold their security group, so they go first
+const TEARDOWN_ORDER = ['EC2::Instance', 'EC2::SecurityGroup']
+
+const NOT_FOUND_ERRORS = ['InvalidInstanceID.NotFound', 'InvalidGroup.NotFound']
+
+export async function destroyResources(
+  resources: TeardownResource[],
+  options: {
+    ec2Client: EC2Client
+    dryRun?: boolean
+  }
+): Promise<TeardownResult[]> {
+  const rank = (resource: TeardownResource) => {
+    const index = TEARDOWN_ORDER.indexOf(resource.type)
+    return index === -1 ? TEARDOWN_ORDER.length : index
+  }
+  const ordered = [...resources].reverse().sort((a, b) => rank(a) - rank(b))
+  const results: TeardownResult[] = []
+
+  for (const resource of ordered) {
+    if (!TEARDOWN_ORDER.includes(resource.type)) {
+      results.push({
+        resource,
+        outcome: 'skipped',
+        message: `${resource.type} was created by the MCP server; use its destroy-deployment tool`,
+      })
+      continue
+    }
+
+    if (options.dryRun) {
+      results.push({
+        resource,
+        outcome: 'planned',
+        message: `Would delete ${resource.type} ${resource.id}`,
+      })
+      continue
+    }
+
+    try {
+      if (resource.type === 'EC2::Instance') {
+        await options.ec2Client.send(
+          new TerminateInstancesCommand({ InstanceIds: [resource.id] })
+        )
+        await waitUntilInstanceTerminated(
+          { client: options.ec2Client, maxWaitTime: 300 },
+          { InstanceIds: [resource.id] }
+        )
+        results.push({
+          resource,
+          outcome: 'deleted',
+          message: 'Instance terminated',
+        })
+      } else {
+        await deleteSecurityGroup(options.ec2Client, resource.id)
+        results.push({
+          resource,
+          outcome: 'deleted',
+          message: 'Security group deleted',
+        })
+      }
+    } catch (error: any) {
+      if (NOT_FOUND_ERRORS.includes(error?.name)) {
+        results.push({
+          resource,
+          outcome: 'already-deleted',
+          message: `${resource.type} ${resource.id} no longer exists`,
+        })
+      } else {
+        console.error(
+          `Failed to delete ${resource.type} ${resource.id}:`,
+          error
+        )
+        results.push({
+          resource,
+          outcome: 'failed',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    }
+  }
+
+  return results
+}
+
+// The network interface of a just-terminated instance can keep the group in
+// use for a little while
+async function deleteSecurityGroup(ec2Client: EC2Client, groupId: string) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await ec2Client.send(new DeleteSecurityGroupCommand({ GroupId: groupId }))
+      return
+    } catch (error: any) {
+      if (error?.name !== 'DependencyViolation' || attempt >= 6) {
+        throw error
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10000))
+    }
+  }
+}
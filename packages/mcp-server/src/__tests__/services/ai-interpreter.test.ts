@@ -0,0 +1,75 @@
+import path from 'path';
+import { createLLMProvider, ReplayProvider } from '../../llm/index.js';
+import { PricingEngine, SnapshotPriceList } from '../../pricing/index.js';
+import { AIPromptInterpreter } from '../../services/ai-interpreter.js';
+import { DeploymentRequest, ProjectType } from '../../types/index.js';
+
+const FIXTURES_DIR = path.resolve(__dirname, '../../../fixtures/llm');
+
+// LLM_FIXTURES=record re-records the responses from the configured model
+const llm = process.env.LLM_FIXTURES
+  ? createLLMProvider()
+  : new ReplayProvider(FIXTURES_DIR);
+
+const pricing = new PricingEngine(new SnapshotPriceList());
+
+const request: DeploymentRequest = {
+  id: 'test-portfolio',
+  prompt:
+    'Deploy my React portfolio site with a CDN and HTTPS on portfolio.example.com',
+  projectName: 'portfolio',
+  customDomain: 'portfolio.example.com',
+  environment: 'production',
+  timestamp: new Date('2026-01-01T00:00:00Z'),
+};
+
+describe('AIPromptInterpreter', () => {
+  describe('parseDeploymentIntent', () => {
+    it('parses a recorded response into deployment requirements', async () => {
+      const interpreter = new AIPromptInterpreter(llm, pricing);
+
+      const intent = await interpreter.parseDeploymentIntent(request);
+
+      expect(intent.projectType).toBe(ProjectType.PORTFOLIO);
+      expect(intent.infrastructure.compute.type).toBe('static');
+      expect(intent.infrastructure.storage.type).toBe('s3');
+      expect(intent.infrastructure.cdn).toBe(true);
+      expect(intent.infrastructure.ssl).toBe(true);
+      expect(intent.infrastructure.database).toBeUndefined();
+      expect(intent.domain).toEqual({
+        domain: 'portfolio.example.com',
+        ssl: true,
+        cdn: true,
+      });
+      expect(intent.environment).toMatchObject({
+        region: 'us-east-1',
+        stage: 'prod',
+      });
+      expect(intent.features).toContain('HTTPS');
+    });
+
+    it('estimates the cost of the parsed requirements locally', async () => {
+      const interpreter = new AIPromptInterpreter(llm, pricing);
+
+      const intent = await interpreter.parseDeploymentIntent(request);
+
+      expect(intent.estimatedCost.currency).toBe('USD');
+      expect(intent.estimatedCost.monthly).toBeGreaterThanOrEqual(0);
+      expect(intent.estimatedCost.breakdown).toBeDefined();
+    });
+
+    it('fails on prompts that were never recorded', async () => {
+      const interpreter = new AIPromptInterpreter(
+        new ReplayProvider(FIXTURES_DIR),
+        pricing
+      );
+
+      await expect(
+        interpreter.parseDeploymentIntent({
+          ...request,
+          prompt: 'A prompt without a recording',
+        })
+      ).rejects.toThrow(/No recorded response for deployment-intent/);
+    });
+  });
+});
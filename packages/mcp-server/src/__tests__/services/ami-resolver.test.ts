@@ -0,0 +1,139 @@
+import {
+  AmiNotFoundError,
+  AmiResolver,
+  IMAGE_PARAMETERS,
+  ParameterSource,
+  StubParameterSource,
+  architectureOf,
+} from '../../services/ami-resolver.js';
+
+const UBUNTU_X86 = IMAGE_PARAMETERS['ubuntu-22.04'].x86_64;
+const UBUNTU_ARM = IMAGE_PARAMETERS['ubuntu-22.04'].arm64;
+
+describe('AmiResolver', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('caches the image per region, family and architecture', async () => {
+    const source = new StubParameterSource({
+      [UBUNTU_X86]: 'ami-x86',
+      [UBUNTU_ARM]: 'ami-arm',
+      [`eu-west-1:${UBUNTU_X86}`]: 'ami-x86-eu',
+    });
+    const resolver = new AmiResolver(source);
+
+    expect(await resolver.resolve('us-east-1', 'ubuntu-22.04', 'x86_64')).toBe(
+      'ami-x86'
+    );
+    expect(await resolver.resolve('us-east-1', 'ubuntu-22.04', 'x86_64')).toBe(
+      'ami-x86'
+    );
+    expect(await resolver.resolve('us-east-1', 'ubuntu-22.04', 'arm64')).toBe(
+      'ami-arm'
+    );
+    expect(await resolver.resolve('eu-west-1', 'ubuntu-22.04', 'x86_64')).toBe(
+      'ami-x86-eu'
+    );
+
+    expect(source.requests).toEqual([
+      { region: 'us-east-1', name: UBUNTU_X86 },
+      { region: 'us-east-1', name: UBUNTU_ARM },
+      { region: 'eu-west-1', name: UBUNTU_X86 },
+    ]);
+  });
+
+  it('shares one lookup between concurrent callers', async () => {
+    const source = new StubParameterSource({ [UBUNTU_X86]: 'ami-x86' });
+    const resolver = new AmiResolver(source);
+
+    const images = await Promise.all([
+      resolver.resolve('us-east-1', 'ubuntu-22.04', 'x86_64'),
+      resolver.resolve('us-east-1', 'ubuntu-22.04', 'x86_64'),
+    ]);
+
+    expect(images).toEqual(['ami-x86', 'ami-x86']);
+    expect(source.requests).toHaveLength(1);
+  });
+
+  it('looks the image up again once the cache entry expires', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const source = new StubParameterSource({ [UBUNTU_X86]: 'ami-x86' });
+    const resolver = new AmiResolver(source, 60_000);
+
+    await resolver.resolve('us-east-1', 'ubuntu-22.04', 'x86_64');
+    now.mockReturnValue(1_059_999);
+    await resolver.resolve('us-east-1', 'ubuntu-22.04', 'x86_64');
+    expect(source.requests).toHaveLength(1);
+
+    now.mockReturnValue(1_060_000);
+    await resolver.resolve('us-east-1', 'ubuntu-22.04', 'x86_64');
+    expect(source.requests).toHaveLength(2);
+  });
+
+  it('drops a failed lookup from the cache', async () => {
+    let calls = 0;
+    const source: ParameterSource = {
+      getParameter: async () => {
+        if (++calls === 1) throw new Error('Throttling');
+        return 'ami-x86';
+      },
+    };
+    const resolver = new AmiResolver(source);
+
+    await expect(
+      resolver.resolve('us-east-1', 'ubuntu-22.04', 'x86_64')
+    ).rejects.toThrow('Throttling');
+    expect(await resolver.resolve('us-east-1', 'ubuntu-22.04', 'x86_64')).toBe(
+      'ami-x86'
+    );
+    expect(calls).toBe(2);
+  });
+
+  it('rejects with AmiNotFoundError when the parameter is not published', async () => {
+    const source = new StubParameterSource();
+    const resolver = new AmiResolver(source);
+
+    await expect(
+      resolver.resolve('ap-east-2', 'amazon-linux-2', 'arm64')
+    ).rejects.toBeInstanceOf(AmiNotFoundError);
+    await expect(
+      resolver.resolve('ap-east-2', 'amazon-linux-2', 'arm64')
+    ).rejects.toThrow(IMAGE_PARAMETERS['amazon-linux-2'].arm64);
+    // Not cached: each attempt asks again
+    expect(source.requests).toHaveLength(2);
+  });
+
+  it('resolves the arm64 image for Graviton instance types', async () => {
+    const source = new StubParameterSource({
+      [UBUNTU_X86]: 'ami-x86',
+      [UBUNTU_ARM]: 'ami-arm',
+    });
+    const resolver = new AmiResolver(source);
+
+    expect(
+      await resolver.resolveFor('us-east-1', 'ubuntu-22.04', 't4g.small')
+    ).toBe('ami-arm');
+    expect(
+      await resolver.resolveFor('us-east-1', 'ubuntu-22.04', 't3.small')
+    ).toBe('ami-x86');
+  });
+});
+
+describe('architectureOf', () => {
+  it.each([
+    ['t4g.micro', 'arm64'],
+    ['m7gd.large', 'arm64'],
+    ['c6gn.xlarge', 'arm64'],
+    ['im4gn.large', 'arm64'],
+    ['g5g.xlarge', 'arm64'],
+    ['a1.medium', 'arm64'],
+    ['g4dn.xlarge', 'x86_64'],
+    ['g5.xlarge', 'x86_64'],
+    ['t3.micro', 'x86_64'],
+    ['m5a.large', 'x86_64'],
+    ['T4G.MICRO', 'arm64'],
+  ])('%s runs %s', (instanceType, architecture) => {
+    expect(architectureOf(instanceType)).toBe(architecture);
+  });
+});
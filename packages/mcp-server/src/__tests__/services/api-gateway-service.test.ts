@@ -0,0 +1,88 @@
+import { APIGatewayClient } from '@aws-sdk/client-api-gateway';
+import { ApiGatewayService } from '../../services/api-gateway-service.js';
+
+const functionArn = 'arn:aws:lambda:us-east-1:123456789012:function:shop';
+
+/**
+ * A client that answers the REST API calls by command name, failing the
+ * command named in `failOn`
+ */
+function stubClient(failOn?: string) {
+  const sent: string[] = [];
+  const client = {
+    send: jest.fn(async (command: any) => {
+      const name = command.constructor.name;
+      sent.push(name);
+      if (name === failOn) {
+        throw new Error(`${name} failed`);
+      }
+      switch (name) {
+        case 'CreateRestApiCommand':
+          return { id: 'api123' };
+        case 'GetResourcesCommand':
+          return { items: [{ id: 'root', path: '/' }] };
+        case 'CreateResourceCommand':
+          return { id: 'proxy' };
+        default:
+          return {};
+      }
+    }),
+  };
+  return { client: client as unknown as APIGatewayClient, sent };
+}
+
+describe('ApiGatewayService', () => {
+  describe('createLambdaProxyApi', () => {
+    it('returns the API and its invoke URL', async () => {
+      const { client, sent } = stubClient();
+
+      const api = await new ApiGatewayService(
+        'us-east-1',
+        client
+      ).createLambdaProxyApi('shop', 'production', functionArn);
+
+      expect(api.resource.id).toBe('api123');
+      expect(api.invokeUrl).toBe(
+        'https://api123.execute-api.us-east-1.amazonaws.com/prod'
+      );
+      expect(api.executeApiArn).toBe(
+        'arn:aws:execute-api:us-east-1:123456789012:api123'
+      );
+      expect(sent).not.toContain('DeleteRestApiCommand');
+    });
+
+    it('deletes the API when a later step fails', async () => {
+      const { client, sent } = stubClient('CreateDeploymentCommand');
+
+      await expect(
+        new ApiGatewayService('us-east-1', client).createLambdaProxyApi(
+          'shop',
+          'production',
+          functionArn
+        )
+      ).rejects.toThrow('CreateDeploymentCommand failed');
+
+      expect(sent[sent.length - 1]).toBe('DeleteRestApiCommand');
+    });
+
+    it('keeps the original error when the cleanup fails too', async () => {
+      const { client } = stubClient('PutIntegrationCommand');
+      const send = client.send as jest.Mock;
+      const answer = send.getMockImplementation()!;
+      send.mockImplementation(async (command: any) => {
+        if (command.constructor.name === 'DeleteRestApiCommand') {
+          throw new Error('Delete failed');
+        }
+        return answer(command);
+      });
+
+      await expect(
+        new ApiGatewayService('us-east-1', client).createLambdaProxyApi(
+          'shop',
+          'production',
+          functionArn
+        )
+      ).rejects.toThrow('PutIntegrationCommand failed');
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import path from 'path';
+import { createLLMProvider, ReplayProvider } from '../../llm/index.js';
+import { BedrockAIService } from '../../services/bedrock-ai.js';
+
+const FIXTURES_DIR = path.resolve(__dirname, '../../../fixtures/llm');
+
+// LLM_FIXTURES=record re-records the responses from the configured model
+const llm = process.env.LLM_FIXTURES
+  ? createLLMProvider()
+  : new ReplayProvider(FIXTURES_DIR);
+
+const packageJson = {
+  name: 'todo-api',
+  version: '1.0.0',
+  main: 'src/server.js',
+  scripts: { start: 'node src/server.js', test: 'jest' },
+  dependencies: { express: '^4.19.2', pg: '^8.11.3', dotenv: '^16.4.5' },
+  devDependencies: { jest: '^29.7.0' },
+};
+
+const repository = {
+  name: 'todo-api',
+  language: 'JavaScript',
+  packageJson,
+  readme: '# Todo API\n\nA REST API for todo lists backed by PostgreSQL.',
+  files: {
+    'package.json': JSON.stringify(packageJson, null, 2),
+    'src/server.js': [
+      "const express = require('express');",
+      "const { Pool } = require('pg');",
+      'const app = express();',
+      'const pool = new Pool({ connectionString: process.env.DATABASE_URL });',
+      'app.use(express.json());',
+      'app.listen(process.env.PORT || 8080);',
+    ].join('\n'),
+    '.env.example': 'DATABASE_URL=postgres://localhost:5432/todos\nPORT=8080',
+  },
+};
+
+describe('BedrockAIService', () => {
+  describe('analyzeRepository', () => {
+    it('parses a recorded analysis of an Express API', async () => {
+      const service = new BedrockAIService(llm);
+
+      const { analysis } = await service.analyzeRepository(
+        repository,
+        'Deploy this API as cheaply as possible'
+      );
+
+      expect(analysis).toMatchObject({
+        language: 'JavaScript',
+        framework: 'Express',
+        packageManager: 'npm',
+        hasDatabase: true,
+        hasEnvVariables: true,
+        startCommand: 'npm start',
+        port: 8080,
+        hasDockerfile: false,
+      });
+      expect(analysis.dependencies).toEqual(['express', 'pg', 'dotenv']);
+    });
+
+    it('returns the recorded deployment plan', async () => {
+      const service = new BedrockAIService(llm);
+
+      const { deploymentPlan } = await service.analyzeRepository(
+        repository,
+        'Deploy this API as cheaply as possible'
+      );
+
+      expect(deploymentPlan.architecture).toMatch(/Lambda/);
+      expect(deploymentPlan.services.map((service) => service.type)).toEqual(
+        expect.arrayContaining(['AWS Lambda', 'Amazon RDS'])
+      );
+      expect(deploymentPlan.steps.map((step) => step.step)).toEqual([
+        1, 2, 3, 4,
+      ]);
+      expect(deploymentPlan.estimated_monthly_cost).toBe('$15-25');
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import {
+  DeploymentRecordInput,
+  InMemoryDeploymentStore,
+} from '../../storage/index.js';
+import { CostCollector } from '../../services/cost-collector.js';
+import {
+  CostExplorerApi,
+  StubCostEntry,
+  StubCostExplorer,
+} from '../../services/cost-explorer.js';
+
+const EC2 = 'Amazon Elastic Compute Cloud - Compute';
+const S3 = 'Amazon Simple Storage Service';
+
+const now = new Date('2026-03-15T12:00:00Z');
+
+function record(
+  id: string,
+  overrides: Partial<DeploymentRecordInput> = {}
+): DeploymentRecordInput {
+  return {
+    id,
+    name: id,
+    source: 'github',
+    status: 'completed',
+    progress: 100,
+    resources: [],
+    state: {},
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function resource(id: string, type: string) {
+  return {
+    id,
+    type,
+    arn: '',
+    region: 'us-east-1',
+    status: 'active' as const,
+    tags: {},
+  };
+}
+
+function spend(
+  date: string,
+  amount: number,
+  service: string,
+  tags: Record<string, string>
+): StubCostEntry {
+  return { date, amount, service, tags };
+}
+
+describe('CostCollector', () => {
+  let store: InMemoryDeploymentStore;
+
+  beforeEach(() => {
+    store = new InMemoryDeploymentStore();
+  });
+
+  describe('collect', () => {
+    it('stores daily spend by DeploymentId and attributes it to resources', async () => {
+      await store.save(
+        record('deploy-a', {
+          resources: [
+            resource('i-123', 'EC2::Instance'),
+            resource('site-bucket', 'S3::Bucket'),
+          ],
+        })
+      );
+      const tags = { DeploymentId: 'deploy-a', Project: 'deploy-a' };
+      const costExplorer = new StubCostExplorer([
+        spend('2026-03-10', 5, EC2, tags),
+        spend('2026-03-11', 5, EC2, tags),
+        spend('2026-03-11', 1, S3, tags),
+      ]);
+
+      const updated = await new CostCollector(store, costExplorer).collect(now);
+
+      expect(updated).toBe(1);
+      const saved = await store.get('deploy-a');
+      expect(saved!.state.actualSpend).toMatchObject({
+        daily: [
+          { date: '2026-03-10', amount: 5 },
+          { date: '2026-03-11', amount: 6 },
+        ],
+        byService: { [EC2]: 10, [S3]: 1 },
+        matchedBy: 'DeploymentId',
+        collectedAt: now.toISOString(),
+      });
+      expect(saved!.resources.map((r) => r.cost)).toEqual([10, 1]);
+      // Every deployment matched on DeploymentId, so Project is not queried
+      expect(costExplorer.requests).toHaveLength(1);
+    });
+
+    it('falls back to the Project tag for deployments without DeploymentId spend', async () => {
+      await store.save(record('legacy', { name: 'shop' }));
+      await store.save(record('plan-only', { status: 'planned' }));
+      const costExplorer = new StubCostExplorer([
+        spend('2026-03-12', 2, EC2, { Project: 'shop' }),
+      ]);
+
+      const updated = await new CostCollector(store, costExplorer).collect(now);
+
+      expect(updated).toBe(1);
+      expect((await store.get('legacy'))!.state.actualSpend).toMatchObject({
+        daily: [{ date: '2026-03-12', amount: 2 }],
+        matchedBy: 'Project',
+      });
+      expect((await store.get('plan-only'))!.state.actualSpend).toBeUndefined();
+    });
+
+    it('replaces the queried window and drops days past retention', async () => {
+      await store.save(
+        record('deploy-a', {
+          state: {
+            actualSpend: {
+              currency: 'USD',
+              daily: [
+                { date: '2025-11-01', amount: 9 },
+                { date: '2026-02-20', amount: 3 },
+                { date: '2026-03-10', amount: 99 },
+              ],
+              byService: {},
+              matchedBy: 'DeploymentId',
+              collectedAt: '2026-03-11T00:00:00.000Z',
+            },
+          },
+        })
+      );
+      const costExplorer = new StubCostExplorer([
+        spend('2026-03-10', 4, EC2, { DeploymentId: 'deploy-a' }),
+      ]);
+
+      await new CostCollector(store, costExplorer).collect(now);
+
+      expect((await store.get('deploy-a'))!.state.actualSpend.daily).toEqual([
+        { date: '2026-02-20', amount: 3 },
+        { date: '2026-03-10', amount: 4 },
+      ]);
+    });
+  });
+
+  describe('collectIfStale', () => {
+    it('queries Cost Explorer at most once per interval', async () => {
+      await store.save(record('deploy-a'));
+      const costExplorer = new StubCostExplorer();
+      const collector = new CostCollector(store, costExplorer);
+
+      await collector.collectIfStale();
+      const queried = costExplorer.requests.length;
+      await collector.collectIfStale();
+
+      expect(queried).toBeGreaterThan(0);
+      expect(costExplorer.requests).toHaveLength(queried);
+    });
+
+    it('shares a collection already in progress', async () => {
+      await store.save(record('deploy-a'));
+      const costExplorer = new StubCostExplorer();
+      const collector = new CostCollector(store, costExplorer, {
+        minIntervalMs: 0,
+      });
+
+      const results = await Promise.all([
+        collector.collectIfStale(),
+        collector.collectIfStale(),
+      ]);
+      const queried = costExplorer.requests.length;
+      await collector.collectIfStale();
+
+      expect(results).toEqual([false, false]);
+      // Only the first call queried; once it finished the next one may
+      expect(costExplorer.requests).toHaveLength(queried * 2);
+    });
+
+    it('waits out the interval after a failed query', async () => {
+      await store.save(record('deploy-a'));
+      const getCostAndUsage = jest
+        .fn()
+        .mockRejectedValue(new Error('Cost Explorer is not enabled'));
+      const collector = new CostCollector(store, {
+        getCostAndUsage,
+      } as CostExplorerApi);
+
+      expect(await collector.collectIfStale()).toBe(false);
+      expect(await collector.collectIfStale()).toBe(false);
+      expect(getCostAndUsage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getVariance', () => {
+    const collector = new CostCollector(
+      new InMemoryDeploymentStore(),
+      new StubCostExplorer()
+    );
+    const varianceNow = new Date('2026-03-11T00:00:00Z');
+
+    function withSpend(
+      createdAt: string,
+      daily: Array<{ date: string; amount: number }>,
+      state: Record<string, any> = {}
+    ) {
+      return {
+        ...record('deploy-a'),
+        createdAt: new Date(createdAt),
+        updatedAt: new Date(createdAt),
+        state: {
+          ...state,
+          actualSpend: {
+            currency: 'USD',
+            daily,
+            byService: {},
+            matchedBy: 'DeploymentId',
+            collectedAt: '2026-03-10T12:00:00.000Z',
+          },
+        },
+      };
+    }
+
+    function days(from: number, to: number, amount: number) {
+      const daily = [];
+      for (let day = from; day <= to; day++) {
+        daily.push({
+          date: `2026-03-${String(day).padStart(2, '0')}`,
+          amount,
+        });
+      }
+      return daily;
+    }
+
+    it('projects month-to-date spend over the month and compares it with the plan', () => {
+      const variance = collector.getVariance(
+        withSpend('2026-03-01T00:00:00Z', days(1, 10, 1), {
+          plan: { estimatedMonthlyCost: 20 },
+        }),
+        varianceNow
+      );
+
+      expect(variance).toMatchObject({
+        estimatedMonthly: 20,
+        actualMonthToDate: 10,
+        // 10 days at $1 plus the 21 days left in March
+        projectedMonthly: 31,
+        variancePercent: 55,
+        collectedAt: '2026-03-10T12:00:00.000Z',
+      });
+      expect(variance.daily.map((day) => day.date)).toEqual(
+        days(4, 10, 1).map((day) => day.date)
+      );
+    });
+
+    it('extrapolates from the day a mid-month deployment was created', () => {
+      const variance = collector.getVariance(
+        withSpend('2026-03-06T15:00:00Z', days(6, 10, 2), {
+          estimatedMonthlyCost: 40,
+        }),
+        varianceNow
+      );
+
+      expect(variance.estimatedMonthly).toBe(40);
+      expect(variance.projectedMonthly).toBe(52);
+      expect(variance.variancePercent).toBe(30);
+    });
+
+    it('leaves the variance out until spend is collected', () => {
+      const variance = collector.getVariance(
+        {
+          ...record('deploy-a'),
+          createdAt: new Date('2026-03-01T00:00:00Z'),
+          updatedAt: new Date('2026-03-01T00:00:00Z'),
+          state: { plan: { estimatedMonthlyCost: 20 } },
+        },
+        varianceNow
+      );
+
+      expect(variance).toEqual({
+        currency: 'USD',
+        estimatedMonthly: 20,
+        actualMonthToDate: 0,
+        projectedMonthly: 0,
+        daily: [],
+        collectedAt: undefined,
+      });
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { AWSResource } from '../../types/index.js';
+import {
+  ContainerLoadBalancer,
+  ContainerNetwork,
+  EcsService,
+  EcsServiceClients,
+} from '../../services/ecs-service.js';
+
+type Handler = (input: any) => any;
+
+/**
+ * An SDK client that answers each command by its class name and records
+ * what it was sent. Commands without a handler fail like a missing API would.
+ */
+class StubAwsClient {
+  sent: { command: string; input: any }[] = [];
+
+  constructor(private handlers: Record<string, Handler> = {}) {}
+
+  async send(command: { constructor: { name: string }; input: any }) {
+    const name = command.constructor.name;
+    this.sent.push({ command: name, input: command.input });
+    const handler = this.handlers[name];
+    if (!handler) {
+      throw new Error(`Unexpected command ${name}`);
+    }
+    return handler(command.input);
+  }
+
+  count(name: string): number {
+    return this.sent.filter((entry) => entry.command === name).length;
+  }
+}
+
+function awsError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+function createService(clients: Record<string, StubAwsClient>): EcsService {
+  const service = new EcsService(
+    'us-east-1',
+    clients as unknown as EcsServiceClients
+  );
+  // Role propagation waits are real seconds; tests only count them
+  jest.spyOn(service as any, 'delay').mockResolvedValue(undefined);
+  return service;
+}
+
+const network: ContainerNetwork = {
+  vpcId: 'vpc-1',
+  subnetIds: ['subnet-1', 'subnet-2'],
+};
+
+const loadBalancer: ContainerLoadBalancer = {
+  loadBalancerArn: 'arn:aws:elasticloadbalancing:us-east-1:1:loadbalancer/app',
+  targetGroupArn: 'arn:aws:elasticloadbalancing:us-east-1:1:targetgroup/tg',
+  dnsName: 'app.us-east-1.elb.amazonaws.com',
+  serviceSecurityGroupId: 'sg-svc',
+};
+
+const clusterArn = 'arn:aws:ecs:us-east-1:1:cluster/aws-deploy-ai-shop';
+const serviceArn = 'arn:aws:ecs:us-east-1:1:service/aws-deploy-ai-shop/svc';
+
+describe('EcsService', () => {
+  describe('runService', () => {
+    it('records the cluster and service as they are created', async () => {
+      const ecs = new StubAwsClient({
+        CreateClusterCommand: () => ({ cluster: { clusterArn } }),
+        CreateServiceCommand: () => ({ service: { serviceArn } }),
+      });
+      const created: AWSResource[] = [];
+
+      const result = await createService({ ecs }).runService(
+        'shop',
+        'deploy-123456',
+        'arn:task',
+        network,
+        loadBalancer,
+        3000,
+        created
+      );
+
+      expect(result).toEqual({ clusterArn, serviceArn });
+      expect(created.map((resource) => resource.type)).toEqual([
+        'ECS::Cluster',
+        'ECS::Service',
+      ]);
+      expect(created[0].tags.DeploymentId).toBe('deploy-123456');
+    });
+
+    it('keeps the cluster on the deployment when the service fails', async () => {
+      const ecs = new StubAwsClient({
+        CreateClusterCommand: () => ({ cluster: { clusterArn } }),
+        CreateServiceCommand: () => {
+          throw awsError('AccessDeniedException', 'Not allowed');
+        },
+      });
+      const created: AWSResource[] = [];
+
+      await expect(
+        createService({ ecs }).runService(
+          'shop',
+          'deploy-123456',
+          'arn:task',
+          network,
+          loadBalancer,
+          3000,
+          created
+        )
+      ).rejects.toThrow('Not allowed');
+
+      expect(created).toEqual([
+        expect.objectContaining({ type: 'ECS::Cluster', arn: clusterArn }),
+      ]);
+      expect(ecs.count('CreateServiceCommand')).toBe(1);
+    });
+
+    it('retries the service while the execution role propagates', async () => {
+      let attempts = 0;
+      const ecs = new StubAwsClient({
+        CreateClusterCommand: () => ({ cluster: { clusterArn } }),
+        CreateServiceCommand: () => {
+          if (++attempts < 3) {
+            throw awsError(
+              'InvalidParameterException',
+              'ECS was unable to assume the role arn:aws:iam::1:role/exec'
+            );
+          }
+          return { service: { serviceArn } };
+        },
+      });
+      const service = createService({ ecs });
+
+      await service.runService(
+        'shop',
+        'deploy-123456',
+        'arn:task',
+        network,
+        loadBalancer,
+        3000,
+        []
+      );
+
+      expect(ecs.count('CreateServiceCommand')).toBe(3);
+      expect((service as any).delay).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('registerTaskDefinition', () => {
+    const taskDefinitionArn = 'arn:aws:ecs:us-east-1:1:task-definition/shop:1';
+
+    it('waits for a newly created execution role before registering', async () => {
+      const iam = new StubAwsClient({
+        GetRoleCommand: () => {
+          throw awsError('NoSuchEntityException', 'Role not found');
+        },
+        CreateRoleCommand: () => ({
+          Role: { Arn: 'arn:aws:iam::1:role/exec' },
+        }),
+        AttachRolePolicyCommand: () => ({}),
+      });
+      const ecs = new StubAwsClient({
+        RegisterTaskDefinitionCommand: () => ({
+          taskDefinition: { taskDefinitionArn },
+        }),
+      });
+      const service = createService({ ecs, iam });
+
+      const resource = await service.registerTaskDefinition(
+        'shop',
+        'deploy-123456',
+        'repo:latest',
+        3000
+      );
+
+      expect(resource.arn).toBe(taskDefinitionArn);
+      expect((service as any).delay).toHaveBeenCalledTimes(1);
+      expect(ecs.sent[0].input.executionRoleArn).toBe(
+        'arn:aws:iam::1:role/exec'
+      );
+    });
+
+    it('uses an existing execution role without waiting', async () => {
+      const iam = new StubAwsClient({
+        GetRoleCommand: () => ({ Role: { Arn: 'arn:aws:iam::1:role/exec' } }),
+      });
+      const ecs = new StubAwsClient({
+        RegisterTaskDefinitionCommand: () => ({
+          taskDefinition: { taskDefinitionArn },
+        }),
+      });
+      const service = createService({ ecs, iam });
+
+      await service.registerTaskDefinition(
+        'shop',
+        'deploy-123456',
+        'repo:latest',
+        3000
+      );
+
+      expect(iam.count('CreateRoleCommand')).toBe(0);
+      expect((service as any).delay).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createLoadBalancer', () => {
+    it('keeps the security groups when the load balancer fails', async () => {
+      let groups = 0;
+      const ec2 = new StubAwsClient({
+        CreateSecurityGroupCommand: () => ({ GroupId: `sg-${++groups}` }),
+        AuthorizeSecurityGroupIngressCommand: () => ({}),
+      });
+      const elb = new StubAwsClient({
+        CreateLoadBalancerCommand: () => {
+          throw awsError('TooManyLoadBalancersException', 'Limit reached');
+        },
+      });
+      const created: AWSResource[] = [];
+
+      await expect(
+        createService({ ec2, elb }).createLoadBalancer(
+          'shop',
+          'deploy-123456',
+          network,
+          3000,
+          created
+        )
+      ).rejects.toThrow('Limit reached');
+
+      expect(created.map((resource) => resource.id)).toEqual(['sg-1', 'sg-2']);
+    });
+  });
+});
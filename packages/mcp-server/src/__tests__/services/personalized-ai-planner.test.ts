@@ -0,0 +1,81 @@
+import path from 'path';
+import { createLLMProvider, ReplayProvider } from '../../llm/index.js';
+import { PersonalizedAIDeploymentPlanner } from '../../services/personalized-ai-planner.js';
+
+const FIXTURES_DIR = path.resolve(__dirname, '../../../fixtures/llm');
+
+// LLM_FIXTURES=record re-records the responses from the configured model
+const llm = process.env.LLM_FIXTURES
+  ? createLLMProvider()
+  : new ReplayProvider(FIXTURES_DIR);
+
+const repository = { name: 'storefront', language: 'TypeScript' };
+
+const projectAnalysis = {
+  language: 'TypeScript',
+  framework: 'Next.js',
+  hasDockerfile: false,
+  buildCommand: 'npm run build',
+  startCommand: 'npm start',
+  port: 3000,
+};
+
+describe('PersonalizedAIDeploymentPlanner', () => {
+  describe('generateAlternativeArchitectures', () => {
+    it('returns the cost, performance and hybrid alternatives in order', async () => {
+      const planner = new PersonalizedAIDeploymentPlanner('us-east-1', llm);
+
+      const alternatives = await planner.generateAlternativeArchitectures(
+        repository,
+        'Online store with a product catalog',
+        projectAnalysis
+      );
+
+      expect(alternatives.map((alternative) => alternative.strategy)).toEqual([
+        'cost',
+        'performance',
+        'hybrid',
+      ]);
+      expect(alternatives.map((alternative) => alternative.label)).toEqual([
+        'Cost-optimized',
+        'Performance-optimized',
+        'Hybrid',
+      ]);
+    });
+
+    it('normalizes the recorded cost estimates to monthly ranges', async () => {
+      const planner = new PersonalizedAIDeploymentPlanner('us-east-1', llm);
+
+      const [cost, performance, hybrid] =
+        await planner.generateAlternativeArchitectures(
+          repository,
+          'Online store with a product catalog',
+          projectAnalysis
+        );
+
+      expect(cost.monthlyCost).toEqual({ min: 5, max: 15, currency: 'USD' });
+      // Recorded as an hourly rate
+      expect(performance.monthlyCost).toEqual({
+        min: 146,
+        max: 146,
+        currency: 'USD',
+      });
+      expect(performance.deploymentPlan.estimated_monthly_cost).toBe('$146');
+      // Recorded without a total, so the services are summed
+      expect(hybrid.monthlyCost).toEqual({ min: 40, max: 70, currency: 'USD' });
+    });
+
+    it('replays the repair round trip when the first answer was invalid', async () => {
+      const planner = new PersonalizedAIDeploymentPlanner('us-east-1', llm);
+
+      const alternatives = await planner.generateAlternativeArchitectures(
+        repository,
+        'Internal admin dashboard',
+        projectAnalysis
+      );
+
+      expect(alternatives).toHaveLength(3);
+      expect(alternatives[0].pros).toContain('Scales to zero when idle');
+    });
+  });
+});
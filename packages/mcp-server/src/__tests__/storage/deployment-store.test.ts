@@ -0,0 +1,309 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  DeploymentRecordInput,
+  DeploymentStore,
+  InMemoryDeploymentStore,
+  PrismaDeploymentStore,
+} from '../../storage/index.js';
+
+/**
+ * The subset of the Prisma deployment model the store uses, kept in memory
+ * with the column defaults from packages/frontend/prisma/schema.prisma
+ */
+class StubPrismaClient {
+  private rows = new Map<string, any>();
+
+  deployment = {
+    findUnique: async ({ where }: any) => this.copy(this.rows.get(where.id)),
+    findMany: async ({ where = {}, orderBy, take }: any) => {
+      const rows = [...this.rows.values()]
+        .filter((row) => !where.source || row.source === where.source)
+        .filter((row) => !where.status || row.status === where.status)
+        .sort((a, b) =>
+          orderBy?.createdAt === 'desc'
+            ? b.createdAt.getTime() - a.createdAt.getTime()
+            : 0
+        );
+      return rows.slice(0, take).map((row) => this.copy(row));
+    },
+    upsert: async ({ where, create, update }: any) => {
+      const existing = this.rows.get(where.id);
+      const now = new Date();
+      const row = existing
+        ? { ...existing, ...this.defined(update), updatedAt: now }
+        : {
+            branch: 'main',
+            status: 'pending',
+            progress: 0,
+            createdAt: now,
+            ...this.defined(create),
+            updatedAt: now,
+          };
+      this.rows.set(where.id, row);
+      return this.copy(row);
+    },
+    updateMany: async ({ where, data }: any) => {
+      const row = this.rows.get(where.id);
+      if (!row || row.status !== where.status) {
+        return { count: 0 };
+      }
+      this.rows.set(where.id, {
+        ...row,
+        ...this.defined(data),
+        updatedAt: new Date(),
+      });
+      return { count: 1 };
+    },
+    deleteMany: async ({ where }: any) => ({
+      count: this.rows.delete(where.id) ? 1 : 0,
+    }),
+  };
+
+  // Prisma leaves a column unchanged when its value is undefined
+  private defined(data: Record<string, unknown>) {
+    return Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined)
+    );
+  }
+
+  // Json columns come back as new objects on every query
+  private copy(row: any) {
+    return row
+      ? {
+          ...row,
+          resources: JSON.parse(JSON.stringify(row.resources ?? null)),
+          state: JSON.parse(JSON.stringify(row.state ?? null)),
+        }
+      : null;
+  }
+}
+
+const record = (
+  id: string,
+  overrides: Partial<DeploymentRecordInput> = {}
+): DeploymentRecordInput => ({
+  id,
+  name: `project-${id}`,
+  source: 'website',
+  region: 'us-east-1',
+  status: 'deploying',
+  progress: 40,
+  resources: [
+    {
+      id: `bucket-${id}`,
+      type: 'S3::Bucket',
+      arn: `arn:aws:s3:::bucket-${id}`,
+      region: 'us-east-1',
+      status: 'active',
+      tags: { DeploymentId: id },
+    },
+  ],
+  state: { steps: [{ name: 'Create S3 Bucket', status: 'completed' }] },
+  ...overrides,
+});
+
+/**
+ * Behavior every DeploymentStore has to share, so the MCP tools and the
+ * frontend see the same records whichever store is configured
+ */
+function describeStoreContract(
+  name: string,
+  createStore: () => DeploymentStore | Promise<DeploymentStore>
+) {
+  describe(name, () => {
+    let store: DeploymentStore;
+
+    beforeEach(async () => {
+      store = await createStore();
+    });
+
+    it('returns a saved record', async () => {
+      const saved = await store.save(record('dep-1'));
+      const loaded = await store.get('dep-1');
+
+      expect(loaded).toEqual(saved);
+      expect(loaded).toMatchObject({
+        id: 'dep-1',
+        name: 'project-dep-1',
+        source: 'website',
+        status: 'deploying',
+        progress: 40,
+        resources: record('dep-1').resources,
+        state: record('dep-1').state,
+      });
+      expect(loaded?.createdAt).toBeInstanceOf(Date);
+      expect(loaded?.updatedAt).toBeInstanceOf(Date);
+    });
+
+    it('returns null for an unknown id', async () => {
+      expect(await store.get('missing')).toBeNull();
+    });
+
+    it('updates an existing record and keeps its creation time', async () => {
+      const created = await store.save(record('dep-1'));
+      const updated = await store.save(
+        record('dep-1', {
+          status: 'completed',
+          progress: 100,
+          publicUrl: 'https://example.com',
+          resources: [],
+        })
+      );
+
+      expect(updated.createdAt).toEqual(created.createdAt);
+      expect(updated.updatedAt.getTime()).toBeGreaterThanOrEqual(
+        created.updatedAt.getTime()
+      );
+      expect(await store.get('dep-1')).toMatchObject({
+        status: 'completed',
+        progress: 100,
+        publicUrl: 'https://example.com',
+        resources: [],
+      });
+    });
+
+    it('keeps the creation time given for a new record', async () => {
+      const createdAt = new Date('2026-01-01T00:00:00Z');
+      await store.save(record('dep-1', { createdAt }));
+
+      expect((await store.get('dep-1'))?.createdAt).toEqual(createdAt);
+    });
+
+    it('lists records newest first', async () => {
+      await store.save(
+        record('old', { createdAt: new Date('2026-01-01T00:00:00Z') })
+      );
+      await store.save(
+        record('new', { createdAt: new Date('2026-03-01T00:00:00Z') })
+      );
+      await store.save(
+        record('middle', { createdAt: new Date('2026-02-01T00:00:00Z') })
+      );
+
+      const records = await store.list();
+      expect(records.map((saved) => saved.id)).toEqual([
+        'new',
+        'middle',
+        'old',
+      ]);
+    });
+
+    it('filters the list by source and status and applies the limit', async () => {
+      await store.save(
+        record('site', { createdAt: new Date('2026-01-01T00:00:00Z') })
+      );
+      await store.save(
+        record('repo', {
+          source: 'github',
+          createdAt: new Date('2026-01-02T00:00:00Z'),
+        })
+      );
+      await store.save(
+        record('done', {
+          status: 'completed',
+          createdAt: new Date('2026-01-03T00:00:00Z'),
+        })
+      );
+
+      const ids = async (options: Parameters<DeploymentStore['list']>[0]) =>
+        (await store.list(options)).map((saved) => saved.id);
+
+      expect(await ids({ source: 'github' })).toEqual(['repo']);
+      expect(await ids({ status: 'completed' })).toEqual(['done']);
+      expect(await ids({ source: 'website', status: 'deploying' })).toEqual([
+        'site',
+      ]);
+      expect(await ids({ limit: 2 })).toEqual(['done', 'repo']);
+    });
+
+    it('deletes a record, ignoring unknown ids', async () => {
+      await store.save(record('dep-1'));
+
+      await store.delete('dep-1');
+      await store.delete('missing');
+
+      expect(await store.get('dep-1')).toBeNull();
+      expect(await store.list()).toEqual([]);
+    });
+
+    it('sets the status while the record has the expected one', async () => {
+      await store.save(record('dep-1', { status: 'planned', progress: 0 }));
+
+      const claimed = await store.compareAndSet('dep-1', 'planned', {
+        status: 'pending',
+        message: 'Initializing',
+      });
+
+      expect(claimed).toMatchObject({
+        id: 'dep-1',
+        status: 'pending',
+        progress: 0,
+        message: 'Initializing',
+        resources: record('dep-1').resources,
+      });
+      expect(await store.get('dep-1')).toEqual(claimed);
+    });
+
+    it('lets only one of two concurrent claims through', async () => {
+      await store.save(record('dep-1', { status: 'planned' }));
+
+      const claims = await Promise.all([
+        store.compareAndSet('dep-1', 'planned', { status: 'pending' }),
+        store.compareAndSet('dep-1', 'planned', { status: 'pending' }),
+      ]);
+
+      expect(claims.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('leaves the record unchanged when the status differs', async () => {
+      await store.save(record('dep-1'));
+
+      expect(
+        await store.compareAndSet('dep-1', 'planned', { status: 'pending' })
+      ).toBeNull();
+      expect(
+        await store.compareAndSet('missing', 'planned', { status: 'pending' })
+      ).toBeNull();
+      expect((await store.get('dep-1'))?.status).toBe('deploying');
+    });
+
+    it('returns copies that do not change the stored record', async () => {
+      const saved = await store.save(record('dep-1'));
+      saved.status = 'failed';
+      const loaded = await store.get('dep-1');
+      loaded!.status = 'failed';
+
+      expect((await store.get('dep-1'))?.status).toBe('deploying');
+    });
+  });
+}
+
+describeStoreContract(
+  'InMemoryDeploymentStore',
+  () => new InMemoryDeploymentStore()
+);
+
+describeStoreContract(
+  'PrismaDeploymentStore',
+  () =>
+    new PrismaDeploymentStore(new StubPrismaClient() as unknown as PrismaClient)
+);
+
+// Against a real database, e.g. TEST_DATABASE_URL=file:./test.db after
+// `npx prisma db push` in packages/frontend. Its deployments are deleted
+// before every test, so never point it at a database in use.
+const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+if (testDatabaseUrl) {
+  const prisma = new PrismaClient({
+    datasources: { db: { url: testDatabaseUrl } },
+  });
+  afterAll(() => prisma.$disconnect());
+
+  describeStoreContract(
+    'PrismaDeploymentStore on TEST_DATABASE_URL',
+    async () => {
+      await prisma.deployment.deleteMany();
+      return new PrismaDeploymentStore(prisma);
+    }
+  );
+}
@@ -0,0 +1,91 @@
+import {
+  BedrockRuntimeClient,
+  InvokeModelCommand,
+} from '@aws-sdk/client-bedrock-runtime';
+import { DEFAULT_MAX_TOKENS, LLMProvider, LLMRequest } from './llm-provider.js';
+
+export const DEFAULT_BEDROCK_MODEL_ID =
+  'anthropic.claude-3-sonnet-20240229-v1:0';
+
+export interface BedrockProviderOptions {
+  region?: string;
+  modelId?: string;
+  // Invoke this URL directly instead of going through the SDK
+  endpointUrl?: string;
+  client?: BedrockRuntimeClient;
+}
+
+/**
+ * Anthropic models on AWS Bedrock (messages API)
+ */
+export class BedrockProvider implements LLMProvider {
+  readonly kind = 'bedrock' as const;
+  readonly model: string;
+  private client: BedrockRuntimeClient;
+  private endpointUrl?: string;
+
+  constructor(options: BedrockProviderOptions = {}) {
+    this.model = options.modelId || DEFAULT_BEDROCK_MODEL_ID;
+    this.endpointUrl = options.endpointUrl;
+    this.client =
+      options.client ||
+      new BedrockRuntimeClient({ region: options.region || 'us-east-1' });
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const body = JSON.stringify({
+      anthropic_version: 'bedrock-2023-05-31',
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      ...(request.temperature !== undefined && {
+        temperature: request.temperature,
+      }),
+      ...(request.system && { system: request.system }),
+      messages: request.messages,
+    });
+
+    const responseBody = this.endpointUrl
+      ? await this.invokeEndpoint(this.endpointUrl, body)
+      : await this.invokeModel(body);
+
+    const text = (responseBody?.content || [])
+      .filter((block: any) => block.type === 'text' || block.text)
+      .map((block: any) => block.text)
+      .join('');
+    if (!text) {
+      throw new Error('Invalid response format from Bedrock');
+    }
+
+    return text;
+  }
+
+  private async invokeModel(body: string): Promise<any> {
+    const response = await this.client.send(
+      new InvokeModelCommand({
+        modelId: this.model,
+        contentType: 'application/json',
+        accept: 'application/json',
+        body,
+      })
+    );
+
+    if (!response.body) {
+      throw new Error('Empty response from Bedrock');
+    }
+
+    return JSON.parse(new TextDecoder().decode(response.body));
+  }
+
+  private async invokeEndpoint(url: string, body: string): Promise<any> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    });
+
+    if (!response.ok) {
+      throw new Error(`API request failed: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * The providers and the repair loop, without the server's logger or fixture
+ * recording. The web interface imports these from the build
+ * (dist/llm/core.js) instead of keeping its own copy.
+ */
+export * from './llm-provider.js';
+export * from './bedrock-provider.js';
+export * from './openai-compatible-provider.js';
+export * from './local-provider.js';
+export * from './repair.js';
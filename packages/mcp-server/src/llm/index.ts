@@ -0,0 +1,91 @@
+import { logger } from '../utils/logger.js';
+import { BedrockProvider } from './bedrock-provider.js';
+import { LocalProvider } from './local-provider.js';
+import { LLMProvider, LLMProviderKind } from './llm-provider.js';
+import { OpenAICompatibleProvider } from './openai-compatible-provider.js';
+import { RecordingProvider, ReplayProvider } from './recording.js';
+
+export * from './core.js';
+export * from './recording.js';
+export * from './schemas.js';
+export * from './structured-output.js';
+
+// Where LLM_FIXTURES=record|replay keeps prompt/response fixtures
+export const DEFAULT_FIXTURES_DIR = 'fixtures/llm';
+
+let sharedProvider: LLMProvider | undefined;
+
+/**
+ * Create a provider from LLM_PROVIDER ("bedrock" | "openai" | "local").
+ * Defaults to Bedrock. LLM_MODEL overrides the model for any provider.
+ *
+ * LLM_FIXTURES=record saves every response under LLM_FIXTURES_DIR;
+ * LLM_FIXTURES=replay answers from those files without calling a model.
+ */
+export function createLLMProvider(
+  options: { region?: string } = {}
+): LLMProvider {
+  const fixtures = process.env.LLM_FIXTURES;
+  const directory = process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+
+  switch (fixtures) {
+    case undefined:
+    case '':
+      return createModelProvider(options);
+    case 'record':
+      logger.info(`Recording model responses to ${directory}`);
+      return new RecordingProvider(createModelProvider(options), directory);
+    case 'replay':
+      logger.info(`Replaying model responses from ${directory}`);
+      return new ReplayProvider(directory);
+    default:
+      throw new Error(
+        `Unknown LLM_FIXTURES "${fixtures}"; expected record or replay`
+      );
+  }
+}
+
+function createModelProvider(options: { region?: string }): LLMProvider {
+  const kind = (process.env.LLM_PROVIDER || 'bedrock') as LLMProviderKind;
+
+  switch (kind) {
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        model: process.env.LLM_MODEL || 'gpt-4o-mini',
+        apiKey: process.env.OPENAI_API_KEY,
+      });
+    case 'local':
+      logger.warn(
+        'Using the local LLM provider; analysis results are deterministic placeholders.'
+      );
+      return new LocalProvider();
+    case 'bedrock': {
+      // A Bedrock API key in URL form is invoked directly
+      const apiKey = process.env.AWS_BEDROCK_API_KEY;
+      return new BedrockProvider({
+        region:
+          options.region ||
+          process.env.BEDROCK_REGION ||
+          process.env.AWS_REGION ||
+          'us-east-1',
+        modelId: process.env.LLM_MODEL || process.env.BEDROCK_MODEL_ID,
+        endpointUrl: apiKey?.startsWith('http') ? apiKey : undefined,
+      });
+    }
+    default:
+      throw new Error(
+        `Unknown LLM_PROVIDER "${kind}"; expected bedrock, openai or local`
+      );
+  }
+}
+
+/**
+ * Process-wide provider shared by the analysis and planning services
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!sharedProvider) {
+    sharedProvider = createLLMProvider();
+  }
+  return sharedProvider;
+}
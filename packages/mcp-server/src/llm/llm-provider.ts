@@ -0,0 +1,45 @@
+/**
+ * Which backend answers model prompts
+ */
+export type LLMProviderKind = 'bedrock' | 'openai' | 'local' | 'replay';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  // What the prompt is for, e.g. 'deployment-intent'. Lets offline
+  // providers answer without understanding the prompt.
+  task: string;
+  system?: string;
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+}
+
+/**
+ * A text completion backend used by the analysis and planning services
+ */
+export interface LLMProvider {
+  readonly kind: LLMProviderKind;
+  readonly model: string;
+  complete(request: LLMRequest): Promise<string>;
+}
+
+export const DEFAULT_MAX_TOKENS = 4000;
+
+/**
+ * Build a single-turn request
+ */
+export function singleTurn(
+  task: string,
+  prompt: string,
+  options: Omit<LLMRequest, 'task' | 'messages'> = {}
+): LLMRequest {
+  return {
+    task,
+    messages: [{ role: 'user', content: prompt }],
+    ...options,
+  };
+}
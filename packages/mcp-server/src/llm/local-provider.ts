@@ -0,0 +1,519 @@
+import { LLMProvider, LLMRequest } from './llm-provider.js';
+
+export type LocalResponder = (prompt: string, request: LLMRequest) => string;
+
+export interface LocalProviderOptions {
+  // Extra or replacement answers, keyed by request task
+  responders?: Record<string, LocalResponder>;
+}
+
+interface StackFacts {
+  name: string;
+  framework: string;
+  language: string;
+  hasDockerfile: boolean;
+  port: number;
+}
+
+const SERVER_FRAMEWORKS = [
+  'Next.js',
+  'Express',
+  'Fastify',
+  'NestJS',
+  'Django',
+  'Flask',
+  'FastAPI',
+  'Go',
+];
+
+/**
+ * Offline provider that answers every known task with a deterministic,
+ * keyword-driven response. Lets the analysis pipeline run in CI and
+ * without AWS access; the answers are plausible, not smart. Also answers the
+ * web interface's plan refinement and deployment script tasks, which use
+ * this provider too.
+ */
+export class LocalProvider implements LLMProvider {
+  readonly kind = 'local' as const;
+  readonly model = 'local-deterministic';
+  private responders: Record<string, LocalResponder>;
+
+  constructor(options: LocalProviderOptions = {}) {
+    this.responders = {
+      'deployment-intent': (prompt) => this.deploymentIntent(prompt),
+      recommendations: () => this.recommendations(),
+      'repository-analysis': (prompt) => this.repositoryAnalysis(prompt),
+      'deployment-plan': (prompt) => this.personalizedPlan(prompt),
+      'alternative-architectures': (prompt) => this.alternatives(prompt),
+      'deployment-script': (prompt) => this.deploymentScript(prompt),
+      'plan-refinement': (_prompt, request) => this.refinePlan(request),
+      ...options.responders,
+    };
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const responder = this.responders[request.task];
+    if (!responder) {
+      throw new Error(
+        `Local provider has no response for task: ${request.task}`
+      );
+    }
+
+    const prompt = request.messages
+      .filter((message) => message.role === 'user')
+      .map((message) => message.content)
+      .join('\n\n');
+    return responder(prompt, request);
+  }
+
+  private deploymentIntent(prompt: string): string {
+    const description = (
+      prompt.match(/Deployment Request: "([\s\S]*?)"/)?.[1] || prompt
+    ).toLowerCase();
+    const has = (pattern: RegExp) => pattern.test(description);
+
+    const container = has(/\b(docker|container|fargate|ecs)\b/);
+    const api = has(/\b(api|backend|server|express|lambda|serverless)\b/);
+    const frontend = has(/\b(react|vue|angular|spa|frontend)\b/);
+    const database = has(/\b(database|postgres|mysql|sql|dynamodb|mongo)\b/);
+    const computeType = container ? 'container' : api ? 'serverless' : 'static';
+
+    const projectType =
+      api && frontend
+        ? 'fullstack-app'
+        : api
+          ? 'nodejs-api'
+          : has(/\b(shop|store|ecommerce|e-commerce)\b/)
+            ? 'ecommerce'
+            : has(/\bblog\b/)
+              ? 'blog'
+              : has(/\bportfolio\b/)
+                ? 'portfolio'
+                : has(/\blanding\b/)
+                  ? 'landing-page'
+                  : frontend
+                    ? 'single-page-app'
+                    : 'static-website';
+
+    const stageName = prompt.match(/Target Environment: (\w+)/)?.[1];
+    const stage =
+      stageName === 'development'
+        ? 'dev'
+        : stageName === 'staging'
+          ? 'staging'
+          : 'prod';
+    const customDomain = prompt.match(/Custom Domain: (\S+)/)?.[1];
+    const cdn = has(/\b(cdn|cloudfront|global|fast)\b/) || !!customDomain;
+
+    return JSON.stringify({
+      projectType,
+      infrastructure: {
+        compute: {
+          type: computeType,
+          ...(computeType === 'serverless' && { runtime: 'nodejs18.x' }),
+          autoscaling: computeType !== 'static',
+        },
+        storage: { type: 's3', size: 1, backup: false, encryption: true },
+        networking: {
+          vpc: container,
+          publicAccess: true,
+          loadBalancer: container,
+          apiGateway: computeType === 'serverless',
+        },
+        ...(database && {
+          database: {
+            type: has(/\b(postgres|mysql|sql)\b/) ? 'rds' : 'dynamodb',
+            size: 'small',
+            backup: true,
+            encryption: true,
+          },
+        }),
+        cdn,
+        ssl: true,
+        monitoring: has(/\b(monitor|monitoring|alerts?)\b/),
+      },
+      ...(customDomain && {
+        domain: { domain: customDomain, ssl: true, cdn },
+      }),
+      environment: {
+        name: stageName || 'production',
+        region: 'us-east-1',
+        stage,
+        variables: {},
+      },
+      features: [
+        'static hosting',
+        ...(api ? ['api'] : []),
+        ...(database ? ['database'] : []),
+        ...(cdn ? ['cdn'] : []),
+      ],
+    });
+  }
+
+  private recommendations(): string {
+    return [
+      '1. Enable S3 server-side encryption and block public ACLs on every bucket.',
+      '2. Serve content through CloudFront to cut latency and data transfer costs.',
+      '3. Set a monthly AWS Budget with an alert before costs grow unexpectedly.',
+      '4. Turn on CloudWatch alarms for error rates and unhealthy targets.',
+    ].join('\n');
+  }
+
+  private repositoryAnalysis(prompt: string): string {
+    const packageJson = this.parsePackageJson(
+      prompt.match(/## Package\.json Analysis:\n```json\n([\s\S]*?)\n```/)?.[1]
+    );
+    const dependencies = Object.keys(packageJson.dependencies || {});
+    const devDependencies = Object.keys(packageJson.devDependencies || {});
+    const language =
+      prompt.match(/\*\*Primary Language\*\*: (.+)/)?.[1]?.trim() ||
+      'JavaScript';
+    // Echo the rule-based facts from the prompt when it has them
+    const grounded = (name: string) => {
+      const value = prompt
+        .match(new RegExp(`\\*\\*${name}\\*\\*: (.+)`))?.[1]
+        ?.trim();
+      return value && !['none', 'undetermined'].includes(value)
+        ? value
+        : undefined;
+    };
+    const facts: StackFacts = {
+      name: prompt.match(/\*\*Name\*\*: (.+)/)?.[1]?.trim() || 'app',
+      framework:
+        grounded('Framework') ||
+        this.detectFramework([...dependencies, ...devDependencies], language),
+      language,
+      hasDockerfile: /Files Found\*\*: .*\bDockerfile\b/.test(prompt),
+      port: 3000,
+    };
+    facts.port =
+      Number(grounded('Port')) ||
+      (['Vue', 'Angular'].includes(facts.framework) ? 8080 : 3000);
+
+    const scripts = packageJson.scripts || {};
+    return JSON.stringify({
+      analysis: {
+        language: facts.language,
+        framework: facts.framework,
+        packageManager: 'npm',
+        hasDatabase: dependencies.some((name) =>
+          /^(pg|mysql2?|mongoose|mongodb|prisma|@prisma\/client|sequelize|typeorm)$/.test(
+            name
+          )
+        ),
+        hasEnvVariables: /\.env\b/.test(prompt),
+        buildCommand:
+          grounded('Build Command') ?? (scripts.build ? 'npm run build' : ''),
+        startCommand:
+          grounded('Start Command') ?? (scripts.start ? 'npm start' : ''),
+        port: facts.port,
+        dependencies,
+        devDependencies,
+        staticAssets: !SERVER_FRAMEWORKS.includes(facts.framework),
+        hasDockerfile: facts.hasDockerfile,
+      },
+      deploymentPlan: this.planFor(facts),
+    });
+  }
+
+  private personalizedPlan(prompt: string): string {
+    const field = (name: string) =>
+      prompt.match(new RegExp(`\\*\\*${name}\\*\\*: (.+)`))?.[1]?.trim();
+    const facts: StackFacts = {
+      name: field('Name') || 'app',
+      framework: field('Framework') || 'unknown',
+      language: field('Language') || 'JavaScript',
+      hasDockerfile: field('Has Docker') === 'true',
+      port: Number(field('Default Port')) || 3000,
+    };
+    const plan = this.planFor(facts);
+    const primary = plan.architecture.startsWith('Containerized')
+      ? 'containerized'
+      : plan.architecture.startsWith('Static')
+        ? 'serverless'
+        : 'vm-based';
+
+    return JSON.stringify({
+      analysis: {
+        projectComplexity: 'simple',
+        expectedTraffic: 'low',
+        resourceRequirements: { cpu: 'low', memory: 'low', storage: 'low' },
+        specialRequirements: [],
+        riskFactors: [],
+      },
+      recommendedArchitecture: {
+        primary,
+        reasoning: `${facts.framework} project detected; ${plan.architecture.toLowerCase()} is the simplest fit.`,
+      },
+      deploymentPlan: plan,
+      environmentVariables: [
+        {
+          name: 'NODE_ENV',
+          description: 'Runtime mode',
+          required: true,
+          defaultValue: 'production',
+        },
+      ],
+      monitoring: {
+        metrics: ['CPUUtilization'],
+        alerts: ['High CPU'],
+        dashboards: [],
+      },
+      cicd: {
+        recommended: true,
+        pipeline: 'Redeploy on every push to the main branch',
+        tools: ['GitHub Actions'],
+      },
+    });
+  }
+
+  private alternatives(prompt: string): string {
+    const name = prompt.match(/- Project: (.+)/)?.[1]?.trim() || 'app';
+    const port = prompt.match(/- Default Port: (\d+)/)?.[1] || '3000';
+    return JSON.stringify({
+      alternatives: [
+        {
+          strategy: 'cost',
+          summary: 'Pay per request and nothing while idle',
+          pros: ['Pay per request', 'No servers to manage'],
+          cons: ['Cold starts', '15 minute execution limit'],
+          bestFor: 'Low or spiky traffic',
+          deploymentPlan: this.plan(
+            `Serverless ${name} on AWS Lambda with API Gateway`,
+            [
+              ['Lambda Function', 'Lambda', 'Runs the application', '$1/month'],
+              [
+                'API Gateway',
+                'API Gateway',
+                'Routes HTTP requests',
+                '$1/month',
+              ],
+              ['S3 Bucket', 'S3', 'Hosts static assets', '$1/month'],
+            ],
+            '$1-5',
+            'Package the app as a Lambda function behind API Gateway'
+          ),
+        },
+        {
+          strategy: 'performance',
+          summary: 'Always-on containers that scale out under load',
+          pros: ['Horizontal scaling', 'No cold starts'],
+          cons: ['Higher baseline cost'],
+          bestFor: 'Steady production traffic',
+          deploymentPlan: this.plan(
+            `Containerized ${name} on ECS Fargate behind an Application Load Balancer`,
+            [
+              ['ECS Fargate', 'ECS', 'Runs the container', '$20-40/month'],
+              ['Load Balancer', 'ELB', 'Routes HTTP traffic', '$18/month'],
+              ['CloudFront', 'CloudFront', 'Caches responses', '$2-20/month'],
+            ],
+            '$40-80',
+            `Build the container image and run it on port ${port}`
+          ),
+        },
+        {
+          strategy: 'hybrid',
+          summary: 'One instance with a CDN in front',
+          pros: ['Predictable cost', 'Full control of the host'],
+          cons: ['Manual patching', 'Single point of failure'],
+          bestFor: 'Small production apps',
+          deploymentPlan: this.plan(
+            `Single EC2 instance for ${name} with CloudFront in front`,
+            [
+              ['EC2 Instance', 'EC2', 'Runs the application', '$8-12/month'],
+              [
+                'CloudFront',
+                'CloudFront',
+                'Serves the site over HTTPS',
+                '$1-3/month',
+              ],
+            ],
+            '$8-15',
+            `Clone, build and start the app with PM2 on port ${port}`
+          ),
+        },
+      ],
+    });
+  }
+
+  /**
+   * Apply a few recognisable requests ("use Fargate", "under $10/month") to
+   * the current plan; anything else is recorded as a requirement
+   */
+  private refinePlan(request: LLMRequest): string {
+    const latest = request.messages[request.messages.length - 1].content;
+    const plan = this.parsePackageJson(
+      latest.match(/## Current Plan:\n```json\n([\s\S]*?)\n```/)?.[1]
+    );
+    const feedback = latest.match(/## Feedback:\n"([\s\S]*?)"\n/)?.[1] || '';
+    // "Fargate instead of Lambda" asks for Fargate, not Lambda
+    const wanted = feedback.split(/\b(?:instead of|rather than)\b/i)[0];
+    const changeSummary: string[] = [];
+    let computeReplaced = false;
+    const replaceCompute = (
+      pattern: RegExp,
+      service: Record<string, string>,
+      architecture: string
+    ) => {
+      if (computeReplaced || !pattern.test(wanted)) return;
+      computeReplaced = true;
+      plan.services = [
+        service,
+        ...(plan.services || []).filter(
+          (s: any) => !/\b(EC2|ECS|Lambda)\b/.test(s.type)
+        ),
+      ];
+      plan.architecture = architecture;
+      changeSummary.push(`Switched compute to ${service.name}`);
+    };
+
+    replaceCompute(
+      /\b(fargate|ecs|containers?)\b/i,
+      {
+        name: 'ECS Fargate',
+        type: 'ECS',
+        purpose: 'Runs the application container without managing servers',
+        estimated_cost: '$15/month',
+      },
+      'Containerized application on ECS Fargate'
+    );
+    replaceCompute(
+      /\b(lambda|serverless)\b/i,
+      {
+        name: 'Lambda Function',
+        type: 'Lambda',
+        purpose: 'Runs the application on demand',
+        estimated_cost: '$1/month',
+      },
+      'Serverless application on AWS Lambda'
+    );
+
+    const budget = feedback.match(/\$\s?(\d+)/)?.[1];
+    if (budget) {
+      plan.recommendations = [
+        ...(plan.recommendations || []),
+        `Set an AWS Budget alert at $${budget}/month`,
+      ];
+      changeSummary.push(`Added a $${budget}/month budget alert`);
+    }
+
+    if (changeSummary.length === 0) {
+      plan.requirements = [...(plan.requirements || []), feedback];
+      changeSummary.push(`Added requirement: ${feedback}`);
+    }
+
+    return JSON.stringify({ deploymentPlan: plan, changeSummary });
+  }
+
+  private deploymentScript(prompt: string): string {
+    const name = prompt.match(/- Name: (.+)/)?.[1]?.trim() || 'app';
+    return `AWSTemplateFormatVersion: '2010-09-09'
+Description: ${name} (generated offline by the local LLM provider)
+Resources:
+  SiteBucket:
+    Type: AWS::S3::Bucket
+    Properties:
+      Tags:
+        - Key: ManagedBy
+          Value: cloudformation
+`;
+  }
+
+  /**
+   * The same architecture choice the deploy flows make: containers when
+   * there is a Dockerfile, a server for server frameworks, S3 otherwise
+   */
+  private planFor(facts: StackFacts) {
+    if (facts.hasDockerfile) {
+      return this.plan(
+        `Containerized ${facts.framework} application on ECS Fargate behind an Application Load Balancer`,
+        [
+          ['Amazon ECR', 'ECR', 'Stores the container image', '$1/month'],
+          ['ECS Fargate', 'ECS', 'Runs the container', '$15/month'],
+          ['Load Balancer', 'ELB', 'Routes HTTP traffic', '$18/month'],
+        ],
+        '$30 - $40',
+        `Build and push the Docker image, then run it on port ${facts.port}`
+      );
+    }
+
+    if (SERVER_FRAMEWORKS.includes(facts.framework)) {
+      return this.plan(
+        `Single EC2 instance running the ${facts.framework} server behind Nginx`,
+        [['EC2 Instance', 'EC2', 'Runs the application', '$8/month']],
+        '$8 - $15',
+        `Clone, build and start the app with PM2 on port ${facts.port}`
+      );
+    }
+
+    return this.plan(
+      `Static ${facts.framework} site on S3 with CloudFront`,
+      [
+        ['S3 Bucket', 'S3', 'Hosts the built static files', '$1/month'],
+        ['CloudFront', 'CloudFront', 'Serves the site over HTTPS', '$1/month'],
+      ],
+      '$1 - $5',
+      'Build the site and upload the output directory to S3'
+    );
+  }
+
+  private plan(
+    architecture: string,
+    services: Array<[string, string, string, string]>,
+    cost: string,
+    deployStep: string
+  ) {
+    return {
+      architecture,
+      services: services.map(([name, type, purpose, estimated_cost]) => ({
+        name,
+        type,
+        purpose,
+        estimated_cost,
+      })),
+      steps: [
+        {
+          step: 1,
+          action: 'Provision infrastructure',
+          description: `Create ${services.map(([name]) => name).join(', ')}`,
+          resources: services.map(([, type]) => type),
+        },
+        {
+          step: 2,
+          action: 'Deploy application',
+          description: deployStep,
+          resources: [],
+        },
+      ],
+      estimated_monthly_cost: cost,
+      deployment_time: '10 minutes',
+      requirements: ['AWS credentials with deployment permissions'],
+      recommendations: ['Enable HTTPS and CloudWatch alarms'],
+    };
+  }
+
+  private detectFramework(dependencies: string[], language: string): string {
+    const frameworks: Array<[string, string]> = [
+      ['next', 'Next.js'],
+      ['@nestjs/core', 'NestJS'],
+      ['@angular/core', 'Angular'],
+      ['vue', 'Vue'],
+      ['react', 'React'],
+      ['fastify', 'Fastify'],
+      ['express', 'Express'],
+    ];
+    return (
+      frameworks.find(([dependency]) =>
+        dependencies.includes(dependency)
+      )?.[1] || (language === 'HTML' ? 'Static HTML' : language)
+    );
+  }
+
+  private parsePackageJson(source?: string): Record<string, any> {
+    try {
+      return source ? JSON.parse(source) : {};
+    } catch {
+      return {};
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { DEFAULT_MAX_TOKENS, LLMProvider, LLMRequest } from './llm-provider.js';
+
+export interface OpenAICompatibleProviderOptions {
+  // e.g. https://api.openai.com/v1 or http://localhost:11434/v1 for Ollama
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+/**
+ * Any endpoint that speaks the OpenAI chat completions API, including
+ * self-hosted models (Ollama, vLLM, llama.cpp server)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly kind = 'openai' as const;
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+        ...(request.temperature !== undefined && {
+          temperature: request.temperature,
+        }),
+        messages: [
+          ...(request.system
+            ? [{ role: 'system', content: request.system }]
+            : []),
+          ...request.messages,
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Chat completion request failed: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const body = (await response.json()) as any;
+    const text = body.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error('Invalid response format from chat completions API');
+    }
+
+    return text;
+  }
+}
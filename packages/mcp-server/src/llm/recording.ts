@@ -0,0 +1,122 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import { LLMProvider, LLMRequest } from './llm-provider.js';
+
+/**
+ * One recorded prompt and the response the model gave
+ */
+export interface LLMFixture {
+  hash: string;
+  task: string;
+  provider: string;
+  model: string;
+  request: LLMRequest;
+  response: string;
+  recordedAt: string;
+}
+
+/**
+ * Replay found no recording for a prompt
+ */
+export class MissingFixtureError extends Error {
+  constructor(
+    public readonly task: string,
+    public readonly hash: string,
+    public readonly fixturePath: string
+  ) {
+    super(
+      `No recorded response for ${task} (${hash}) at ${fixturePath}; record it with LLM_FIXTURES=record`
+    );
+    this.name = 'MissingFixtureError';
+  }
+}
+
+/**
+ * Stable key for a request: everything that can change the model's answer
+ */
+export function promptHash(request: LLMRequest): string {
+  const key = JSON.stringify({
+    task: request.task,
+    system: request.system ?? null,
+    messages: request.messages.map(({ role, content }) => ({ role, content })),
+    maxTokens: request.maxTokens ?? null,
+    temperature: request.temperature ?? null,
+  });
+  return createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+export function fixturePath(directory: string, request: LLMRequest): string {
+  return path.join(directory, request.task, `${promptHash(request)}.json`);
+}
+
+/**
+ * Passes requests to another provider and saves every prompt/response
+ * pair as a fixture file
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly kind: LLMProvider['kind'];
+  readonly model: string;
+
+  constructor(
+    private inner: LLMProvider,
+    private directory: string
+  ) {
+    this.kind = inner.kind;
+    this.model = inner.model;
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const response = await this.inner.complete(request);
+    const file = fixturePath(this.directory, request);
+
+    const fixture: LLMFixture = {
+      hash: promptHash(request),
+      task: request.task,
+      provider: this.inner.kind,
+      model: this.inner.model,
+      request,
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(fixture, null, 2) + '\n');
+      logger.debug(`Recorded ${request.task} response to ${file}`);
+    } catch (error) {
+      // A failed recording must not fail the call it recorded
+      logger.warn(`Failed to record ${request.task} response`, { error });
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Serves recorded responses offline. Prompts that were never recorded
+ * fail with MissingFixtureError instead of reaching a model.
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly kind = 'replay' as const;
+  readonly model = 'recorded';
+
+  constructor(private directory: string) {}
+
+  async complete(request: LLMRequest): Promise<string> {
+    const file = fixturePath(this.directory, request);
+
+    let contents: string;
+    try {
+      contents = await fs.readFile(file, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new MissingFixtureError(request.task, promptHash(request), file);
+      }
+      throw error;
+    }
+
+    return (JSON.parse(contents) as LLMFixture).response;
+  }
+}
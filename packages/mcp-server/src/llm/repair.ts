@@ -0,0 +1,134 @@
+import { LLMMessage, LLMProvider, LLMRequest } from './llm-provider.js';
+
+// How many times a model gets its validation errors back before giving up
+export const DEFAULT_MAX_REPAIRS = 2;
+
+/**
+ * A model kept answering with output that does not match the schema
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[],
+    public readonly lastResponse: string
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export type ParseResult<T> =
+  { success: true; data: T } | { success: false; issues: string[] };
+
+/**
+ * Called as the repair loop progresses, for logging
+ */
+export interface RepairHooks {
+  onInvalid?(task: string, attempt: number, issues: string[]): void;
+  onRepaired?(task: string, attempt: number): void;
+}
+
+/**
+ * Ask for output that parse accepts. Rejected answers are sent back to the
+ * model together with the issues, up to maxRepairs times. Independent of any
+ * schema library, so the web interface can validate with plain functions.
+ */
+export async function completeWithRepairs<T>(
+  llm: LLMProvider,
+  request: LLMRequest,
+  parse: (response: string) => ParseResult<T>,
+  maxRepairs: number = DEFAULT_MAX_REPAIRS,
+  hooks: RepairHooks = {}
+): Promise<T> {
+  const messages: LLMMessage[] = [...request.messages];
+  let issues: string[] = [];
+  let response = '';
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    response = await llm.complete({ ...request, messages });
+
+    const result = parse(response);
+    if (result.success) {
+      if (attempt > 0) {
+        hooks.onRepaired?.(request.task, attempt);
+      }
+      return result.data;
+    }
+
+    issues = result.issues;
+    hooks.onInvalid?.(request.task, attempt, issues);
+    messages.push(
+      { role: 'assistant', content: response },
+      { role: 'user', content: buildRepairPrompt(issues) }
+    );
+  }
+
+  throw new StructuredOutputError(
+    `Model output for ${request.task} is still invalid after ${maxRepairs} repair attempt(s): ${issues.join('; ')}`,
+    issues,
+    response
+  );
+}
+
+/**
+ * Pull the JSON value out of a response that may wrap it in prose or a
+ * markdown code fence
+ */
+export function extractJson(response: string): unknown {
+  const text = response.trim();
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/);
+  const candidate = fenced ? fenced[1] : text;
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    // Fall through to scanning for the first complete value
+  }
+
+  const start = candidate.search(/[{[]/);
+  if (start === -1) {
+    throw new Error('Response contains no JSON object');
+  }
+
+  const end = findClosingBracket(candidate, start);
+  if (end === -1) {
+    throw new Error('Response contains an incomplete JSON value');
+  }
+
+  try {
+    return JSON.parse(candidate.slice(start, end + 1));
+  } catch (error) {
+    throw new Error(
+      `Response is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+function findClosingBracket(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+function buildRepairPrompt(issues: string[]): string {
+  return `Your previous response did not match the required JSON structure:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Respond again with the complete corrected JSON object only, no additional text.`;
+}
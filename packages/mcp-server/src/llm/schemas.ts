@@ -0,0 +1,215 @@
+import { z } from 'zod';
+import { ProjectType } from '../types/index.js';
+
+// Models write null for "not applicable"; treat it like a missing field
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => value ?? undefined, schema.optional());
+
+const stringList = z.array(z.string()).default([]);
+
+// Accept numbers written as strings ("3000")
+const numeric = (schema: z.ZodNumber = z.number()) =>
+  z.preprocess(
+    (value) =>
+      typeof value === 'string' && value.trim() !== '' ? Number(value) : value,
+    schema
+  );
+
+/**
+ * Repository facts from the repository analysis prompt
+ */
+export const repositoryAnalysisSchema = z.object({
+  language: z.string(),
+  framework: z.string(),
+  packageManager: z.string(),
+  hasDatabase: z.boolean(),
+  hasEnvVariables: z.boolean(),
+  buildCommand: z.string(),
+  startCommand: z.string(),
+  port: numeric(z.number().int().positive()),
+  dependencies: stringList,
+  devDependencies: stringList,
+  staticAssets: z.boolean(),
+  hasDockerfile: z.boolean(),
+});
+
+/**
+ * The deployment plan shared by the repository analysis and planner prompts
+ */
+export const deploymentPlanSchema = z
+  .object({
+    architecture: z.string().min(1),
+    services: z
+      .array(
+        z
+          .object({
+            name: z.string(),
+            type: z.string(),
+            purpose: z.string().default(''),
+            estimated_cost: z.string().default(''),
+          })
+          .passthrough()
+      )
+      .min(1),
+    steps: z.array(
+      z
+        .object({
+          step: numeric(),
+          action: z.string(),
+          description: z.string().default(''),
+          resources: stringList,
+        })
+        .passthrough()
+    ),
+    estimated_monthly_cost: z.string(),
+    deployment_time: z.string().default(''),
+    requirements: stringList,
+    recommendations: stringList,
+  })
+  .passthrough();
+
+export const repositoryAnalysisResponseSchema = z.object({
+  analysis: repositoryAnalysisSchema,
+  deploymentPlan: deploymentPlanSchema,
+});
+
+export const personalizedPlanResponseSchema = z.object({
+  analysis: optional(
+    z
+      .object({
+        projectComplexity: optional(z.enum(['simple', 'moderate', 'complex'])),
+        expectedTraffic: optional(z.enum(['low', 'medium', 'high'])),
+        specialRequirements: stringList,
+      })
+      .passthrough()
+  ),
+  recommendedArchitecture: optional(
+    z.object({ primary: z.string(), reasoning: z.string() }).passthrough()
+  ),
+  deploymentPlan: deploymentPlanSchema,
+  environmentVariables: z
+    .array(
+      z
+        .object({
+          name: z.string(),
+          description: z.string().default(''),
+          required: z.boolean().default(false),
+        })
+        .passthrough()
+    )
+    .default([]),
+  monitoring: z.record(z.unknown()).default({}),
+  cicd: z.record(z.unknown()).default({}),
+});
+
+export const ARCHITECTURE_STRATEGIES = [
+  'cost',
+  'performance',
+  'hybrid',
+] as const;
+
+/**
+ * One cost-optimized, one performance-optimized and one hybrid plan
+ */
+export const alternativeArchitecturesResponseSchema = z.object({
+  alternatives: z
+    .array(
+      z.object({
+        // Accept the labels too, e.g. "Cost-optimized"
+        strategy: z.preprocess(
+          (value) =>
+            typeof value === 'string'
+              ? value
+                  .trim()
+                  .toLowerCase()
+                  .split(/[^a-z]/)[0]
+              : value,
+          z.enum(ARCHITECTURE_STRATEGIES)
+        ),
+        summary: z.string().default(''),
+        pros: stringList,
+        cons: stringList,
+        bestFor: z.string().default(''),
+        deploymentPlan: deploymentPlanSchema,
+      })
+    )
+    .length(ARCHITECTURE_STRATEGIES.length)
+    .refine(
+      (alternatives) =>
+        new Set(alternatives.map(({ strategy }) => strategy)).size ===
+        ARCHITECTURE_STRATEGIES.length,
+      'Expected one cost, one performance and one hybrid alternative'
+    ),
+});
+
+/**
+ * Everything in ParsedDeploymentIntent except the cost estimate, which is
+ * computed locally
+ */
+export const parsedDeploymentIntentSchema = z.object({
+  projectType: z.nativeEnum(ProjectType),
+  infrastructure: z.object({
+    compute: z.object({
+      type: z.enum(['static', 'serverless', 'container', 'vm']),
+      runtime: optional(z.string()),
+      memory: optional(numeric()),
+      cpu: optional(numeric()),
+      autoscaling: optional(z.boolean()),
+    }),
+    storage: z.object({
+      type: z.enum(['s3', 'efs', 'ebs']),
+      size: numeric(z.number().nonnegative()),
+      backup: z.boolean(),
+      encryption: z.boolean(),
+    }),
+    networking: z.object({
+      vpc: z.boolean(),
+      publicAccess: z.boolean(),
+      loadBalancer: z.boolean(),
+      apiGateway: z.boolean(),
+    }),
+    // A database with a null type means none is needed
+    database: z.preprocess(
+      (value: any) => (value?.type ? value : undefined),
+      z
+        .object({
+          type: z.enum(['dynamodb', 'rds', 'documentdb']),
+          size: z.enum(['small', 'medium', 'large']),
+          backup: z.boolean(),
+          encryption: z.boolean(),
+        })
+        .optional()
+    ),
+    cdn: z.boolean(),
+    ssl: z.boolean(),
+    monitoring: z.boolean(),
+  }),
+  domain: z.preprocess(
+    (value: any) => (value?.domain ? value : undefined),
+    z
+      .object({
+        domain: z.string(),
+        subdomain: optional(z.string()),
+        ssl: z.boolean(),
+        cdn: z.boolean(),
+      })
+      .optional()
+  ),
+  environment: z.object({
+    name: z.string(),
+    region: z.string(),
+    stage: z.enum(['dev', 'staging', 'prod']),
+    variables: z.record(z.string()).default({}),
+  }),
+  features: stringList,
+});
+
+export type RepositoryAnalysisResponse = z.output<
+  typeof repositoryAnalysisResponseSchema
+>;
+export type PersonalizedPlanResponse = z.output<
+  typeof personalizedPlanResponseSchema
+>;
+export type AlternativeArchitecturesResponse = z.output<
+  typeof alternativeArchitecturesResponseSchema
+>;
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { logger } from '../utils/logger.js';
+import { LLMProvider, LLMRequest } from './llm-provider.js';
+import {
+  completeWithRepairs,
+  DEFAULT_MAX_REPAIRS,
+  extractJson,
+  ParseResult,
+} from './repair.js';
+
+/**
+ * Ask for JSON matching a schema. Invalid answers are sent back to the
+ * model together with the validation errors, up to maxRepairs times.
+ */
+export async function completeStructured<T extends z.ZodTypeAny>(
+  llm: LLMProvider,
+  request: LLMRequest,
+  schema: T,
+  maxRepairs: number = DEFAULT_MAX_REPAIRS
+): Promise<z.output<T>> {
+  return completeWithRepairs(
+    llm,
+    request,
+    (response) => parseStructured(response, schema),
+    maxRepairs,
+    {
+      onInvalid: (task, attempt, issues) =>
+        logger.warn(`Model output for ${task} failed validation`, {
+          attempt,
+          issues,
+        }),
+      onRepaired: (task, attempt) =>
+        logger.info(`Model output for ${task} repaired`, { attempt }),
+    }
+  );
+}
+
+/**
+ * Validate a raw model response against a schema
+ */
+export function parseStructured<T extends z.ZodTypeAny>(
+  response: string,
+  schema: T
+): ParseResult<z.output<T>> {
+  let value: unknown;
+  try {
+    value = extractJson(response);
+  } catch (error) {
+    return {
+      success: false,
+      issues: [error instanceof Error ? error.message : 'Invalid JSON'],
+    };
+  }
+
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map(
+      (issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+    ),
+  };
+}
@@ -10,6 +10,13 @@ import { S3Service } from './services/s3-service.js';
 import { CloudFrontService } from './services/cloudfront-service.js';
 import { LambdaService } from './services/lambda-service.js';
 import { GitHubService } from './services/github-service.js';
+import { PersonalizedAIDeploymentPlanner } from './services/personalized-ai-planner.js';
+import {
+  formatAlternativesComparison,
+  formatMonthlyCost,
+} from './services/architecture-alternatives.js';
+import { describeCostItem, describePriceSource } from './pricing/index.js';
+import { formatCostVariance } from './services/cost-collector.js';
 import { logger } from './utils/logger.js';
 import path from 'path';
 
@@ -97,6 +104,163 @@ Error: ${error instanceof Error ? error.message : 'Unknown error'}
   }
 );
 
+// Tool: Plan Deployment
+server.tool(
+  'plan-deployment',
+  'Preview the exact AWS resources a deployment would create, with names, ports and estimated cost, and get a plan ID to apply. Nothing is created.',
+  toolSchemas.planDeployment,
+  async (params: any) => {
+    try {
+      logger.info('Plan deployment tool called', { prompt: params.prompt });
+      const plan = await deploymentTools.planDeployment(params);
+
+      const symbols: Record<string, string> = {
+        create: '+',
+        update: '~',
+        delete: '-',
+      };
+      const changesList = plan.changes
+        .map(
+          (change) =>
+            `${symbols[change.action]} **${change.type}** ${change.name}
+    ${change.description}${change.instanceType ? `; ${change.instanceType}` : ''}${change.runtime ? `; ${change.runtime}` : ''}${change.ports?.length ? `; ports ${change.ports.join(', ')} open` : ''}; ~$${change.estimatedMonthlyCost.toFixed(2)}/month`
+        )
+        .join('\n');
+      const count = (action: string) =>
+        plan.changes.filter((change) => change.action === action).length;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `📝 **Deployment Plan: ${plan.id}**
+
+**Project:** ${plan.projectName} (${plan.environment}) in ${plan.region}
+**Changes:** ${count('create')} to create, ${count('update')} to change, ${count('delete')} to delete
+
+\`\`\`diff
+${changesList}
+\`\`\`
+
+**Estimated monthly cost:** $${plan.estimatedMonthlyCost.toFixed(2)}${params.monthlyBudget ? ` (budget $${params.monthlyBudget.toFixed(2)})` : ''}
+**Plan expires:** ${plan.expiresAt.toLocaleString()}
+
+Nothing has been created yet. Review the changes above, then run \`apply-deployment-plan\` with plan ID \`${plan.id}\` to create exactly these resources.`,
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Plan deployment tool failed', { error });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Planning Failed**
+
+Error: ${error instanceof Error ? error.message : 'Unknown error'}
+
+Make sure AWS Bedrock access is enabled and the deployment prompt is clear and specific.`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+// Tool: Apply Deployment Plan
+server.tool(
+  'apply-deployment-plan',
+  'Create exactly the resources of a plan returned by plan-deployment',
+  toolSchemas.applyDeploymentPlan,
+  async ({ planId }: { planId: string }) => {
+    try {
+      const result = await deploymentTools.applyDeploymentPlan(planId);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `🚀 **Plan Applied: ${result.deploymentId}**
+
+**Status:** ${result.status}
+**Message:** ${result.message}
+
+Use \`get-deployment-status\` with this ID to follow progress.
+
+**Track deployment:** ${result.trackingUrl}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Apply Failed**
+
+Error: ${error instanceof Error ? error.message : 'Unknown error'}
+
+Nothing was created. Plans can only be applied once and expire after 24 hours; run \`plan-deployment\` again for a fresh plan.`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+// Tool: Update Deployment
+server.tool(
+  'update-deployment',
+  'Redeploy an existing deployment in place as a new revision',
+  toolSchemas.updateDeployment,
+  async (params: {
+    deploymentId: string;
+    files?: Array<{
+      name: string;
+      content: string;
+      contentType: string;
+      path: string;
+    }>;
+    code?: string;
+    branch?: string;
+    commit?: string;
+  }) => {
+    try {
+      const result = await deploymentTools.updateDeployment(params);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `🔁 **Update Started: ${result.deploymentId}**
+
+**Revision:** ${result.revision}
+**Status:** ${result.status}
+**Message:** ${result.message}
+
+The existing resources are updated in place. Use \`get-deployment-status\` with this ID to follow the revision.
+
+**Track deployment:** ${result.trackingUrl}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Update Failed**
+
+Error: ${error instanceof Error ? error.message : 'Unknown error'}
+
+Nothing was changed. Website deployments take \`files\` and/or \`code\`; GitHub deployments take an optional \`branch\` or \`commit\`.`,
+          },
+        ],
+      };
+    }
+  }
+);
+
 // Tool: Get Deployment Status
 server.tool(
   'get-deployment-status',
@@ -116,7 +280,7 @@ server.tool(
       const resourcesList = status.resources
         .map(
           (resource: any) =>
-            `• ${resource.type}: ${resource.id} (${resource.status})`
+            `• ${resource.type}: ${resource.id} (${resource.status})${resource.cost !== undefined ? ` - $${resource.cost.toFixed(2)} this month` : ''}`
         )
         .join('\n');
 
@@ -136,6 +300,8 @@ ${stepsList}
 **Resources Created:**
 ${resourcesList || 'No resources created yet'}
 
+${status.cost ? formatCostVariance(status.cost) : ''}
+
 ${
   status.urls && status.urls.length > 0
     ? `**Live URLs:**
@@ -153,6 +319,32 @@ ${status.error.suggestions.map((s: string) => `• ${s}`).join('\n')}`
     : ''
 }
 
+${
+  status.status === 'planned'
+    ? `**Awaiting approval:** run \`apply-deployment-plan\` with this ID to create the ${status.plan?.changes.length ?? 0} planned resource(s).`
+    : ''
+}
+
+${
+  status.revisions && status.revisions.length > 0
+    ? `**Revisions:**
+${status.revisions
+  .map(
+    (r: any) =>
+      `${r.status === 'completed' ? '✅' : r.status === 'failed' ? '❌' : '🔄'} Revision ${r.revision}${r.commit ? ` (${r.commit.slice(0, 7)})` : r.ref ? ` (${r.ref})` : ''}${r.changes.length ? ` - ${r.changes.join('; ')}` : ''}${r.error ? ` - ${r.error}` : ''}`
+  )
+  .join('\n')}`
+    : ''
+}
+
+${
+  status.rollback
+    ? `**Rollback:**
+${status.rollback.cleanedUp.map((r: any) => `🧹 ${r.type}: ${r.id} - ${r.message}`).join('\n') || 'Nothing was cleaned up'}
+${status.rollback.notCleanedUp.map((r: any) => `⚠️ ${r.type}: ${r.id} - ${r.message}`).join('\n')}`
+    : ''
+}
+
 **Timeline:**
 - Started: ${status.startTime.toLocaleString()}
 ${status.endTime ? `- Completed: ${status.endTime.toLocaleString()}` : ''}
@@ -199,10 +391,7 @@ server.tool(
         .map((r: string) => `💡 ${r}`)
         .join('\n');
       const costBreakdown = analysis.estimatedCost.breakdown
-        .map(
-          (item: any) =>
-            `• ${item.service}: $${item.cost.toFixed(2)}/${item.unit} - ${item.description}`
-        )
+        .map((item) => `• ${describeCostItem(item)}`)
         .join('\n');
 
       return {
@@ -227,6 +416,7 @@ ${featuresList}
 
 **Cost Breakdown:**
 ${costBreakdown}
+_Prices: ${describePriceSource(analysis.estimatedCost)}_
 
 **Deployment Steps:**
 ${stepsList}
@@ -264,18 +454,27 @@ server.tool(
   'get-cost-estimate',
   'Get detailed cost estimates for a deployment',
   toolSchemas.getCostEstimate,
-  async ({ prompt }: { prompt: string }) => {
+  async ({
+    prompt,
+    monthlyRequests,
+    dataTransferGB,
+  }: {
+    prompt: string;
+    monthlyRequests?: number;
+    dataTransferGB?: number;
+  }) => {
     try {
-      const estimate = await deploymentTools.getCostEstimate(prompt);
+      const estimate = await deploymentTools.getCostEstimate(prompt, {
+        ...(monthlyRequests !== undefined && { monthlyRequests }),
+        ...(dataTransferGB !== undefined && { dataTransferGB }),
+      });
 
       const breakdown = estimate.breakdown
-        .map(
-          (item: any) =>
-            `• ${item.service}: $${item.cost.toFixed(2)}/${item.unit} - ${item.description}`
-        )
+        .map((item) => `• ${describeCostItem(item)}`)
         .join('\n');
 
-      const savings = estimate.comparison;
+      const singleInstance = estimate.comparison.vs_single_instance;
+      const assumptions = estimate.assumptions;
       const tips = estimate.optimizationTips
         .map((tip: string) => `💰 ${tip}`)
         .join('\n');
@@ -292,16 +491,14 @@ server.tool(
 **Cost Breakdown:**
 ${breakdown}
 
-**Potential Savings:**
-• vs Traditional Hosting: $${savings.vs_traditional_hosting.savings.toFixed(2)}/month (${savings.vs_traditional_hosting.percentage}% savings)
-• vs VPS: $${savings.vs_vps.savings.toFixed(2)}/month (${savings.vs_vps.percentage}% savings)
+**Free Tier:** $${(estimate.freeTierSavings || 0).toFixed(2)}/month already deducted
+
+**Compared to a Single EC2 Instance:** $${singleInstance.monthly.toFixed(2)}/month (${singleInstance.savings >= 0 ? `${singleInstance.percentage}% savings` : `$${Math.abs(singleInstance.savings).toFixed(2)} more`})
 
 **Cost Optimization Tips:**
 ${tips}
 
-**Note:** These are estimates based on typical usage patterns. Actual costs may vary based on traffic, storage usage, and feature utilization.
-
-**AWS Free Tier:** Many services include free tier benefits that could reduce or eliminate costs for new AWS accounts.`,
+**Note:** Prices from the ${describePriceSource(estimate)}.${assumptions ? ` Assumes ${assumptions.monthlyRequests.toLocaleString('en-US')} requests and ${assumptions.dataTransferGB}GB of data transfer a month; pass monthlyRequests or dataTransferGB to change this.` : ''}`,
           },
         ],
       };
@@ -326,6 +523,249 @@ ${error instanceof Error ? error.message : 'Unknown error'}
   }
 );
 
+// Tool: Destroy Deployment
+server.tool(
+  'destroy-deployment',
+  'Delete all AWS resources recorded for a deployment, in dependency order',
+  toolSchemas.destroyDeployment,
+  async ({
+    deploymentId,
+    dryRun = false,
+  }: {
+    deploymentId: string;
+    dryRun?: boolean;
+  }) => {
+    try {
+      const result = await deploymentTools.destroyDeployment(
+        deploymentId,
+        dryRun
+      );
+
+      const icons: Record<string, string> = {
+        planned: '📝',
+        deleted: '✅',
+        'already-deleted': '✅',
+        kept: 'ℹ️',
+        pending: '⏳',
+        skipped: '⚠️',
+        failed: '❌',
+      };
+      const resultsList = result.results
+        .map(
+          (r) =>
+            `${icons[r.outcome]} ${r.resource.type}: ${r.resource.id} - ${r.message}`
+        )
+        .join('\n');
+
+      const summary = dryRun
+        ? `**Dry run:** nothing was deleted. Run again without \`dryRun\` to delete these resources.`
+        : result.destroyed
+          ? '**All resources deleted.**'
+          : `**${result.remaining} resource(s) still need attention.** Resolve the errors above and run \`destroy-deployment\` again.`;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `🧹 **${dryRun ? 'Teardown Plan' : 'Teardown Results'}: ${deploymentId}**
+
+${resultsList || 'No resources recorded for this deployment'}
+
+${summary}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Teardown Failed**
+
+Error: ${error instanceof Error ? error.message : 'Unknown error'}
+
+Please verify the deployment ID and your AWS permissions.`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+// Tool: Find Orphaned Resources
+server.tool(
+  'find-orphaned-resources',
+  'Scan a region for resources created by AWS Deploy AI that no known deployment accounts for, with estimated monthly cost and optional deletion',
+  toolSchemas.findOrphanedResources,
+  async ({
+    region,
+    deleteOrphans = false,
+    resourceIds,
+    all = false,
+    dryRun = false,
+  }: {
+    region?: string;
+    deleteOrphans?: boolean;
+    resourceIds?: string[];
+    all?: boolean;
+    dryRun?: boolean;
+  }) => {
+    try {
+      const result = await deploymentTools.findOrphanedResources({
+        region,
+        deleteOrphans,
+        resourceIds,
+        all,
+        dryRun,
+      });
+
+      const orphanList = result.orphans
+        .map(
+          (o) =>
+            `• **${o.resource.type}** ${o.resource.id}${o.name && o.name !== o.resource.id ? ` (${o.name})` : ''}
+  Matched by ${o.matchedBy}${o.deploymentId ? `, deployment ${o.deploymentId}` : ''}
+  ~$${o.estimatedMonthlyCost.toFixed(2)}/month${o.costNote ? ` - ${o.costNote}` : ''}`
+        )
+        .join('\n');
+
+      const icons: Record<string, string> = {
+        planned: '📝',
+        deleted: '✅',
+        'already-deleted': '✅',
+        kept: 'ℹ️',
+        pending: '⏳',
+        skipped: '⚠️',
+        failed: '❌',
+      };
+      const deletionList = result.deletion
+        ?.map(
+          (r) =>
+            `${icons[r.outcome]} ${r.resource.type}: ${r.resource.id} - ${r.message}`
+        )
+        .join('\n');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `🔎 **Orphaned Resources in ${result.region}**
+
+Scanned ${result.scanned} tagged resource(s) against ${result.knownDeployments} known deployment(s).
+
+${orphanList || '✅ No orphaned resources found'}
+
+**Estimated monthly cost:** $${result.estimatedMonthlyCost.toFixed(2)}
+
+${
+  result.errors.length > 0
+    ? `**Could not scan:**
+${result.errors.map((e) => `⚠️ ${e}`).join('\n')}`
+    : ''
+}
+
+${
+  result.deletion
+    ? `**${dryRun ? 'Deletion Plan' : 'Deletion Results'}:**
+${deletionList || 'Nothing selected for deletion'}`
+    : result.orphans.length > 0
+      ? 'Run again with `deleteOrphans` and the `resourceIds` to delete (or `all`) to delete them.'
+      : ''
+}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Orphan Scan Failed**
+
+Error: ${error instanceof Error ? error.message : 'Unknown error'}
+
+Please verify your AWS credentials and permissions.`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+// Tool: Export Infrastructure
+server.tool(
+  'export-infrastructure',
+  'Render a deployment plan or prompt as a CloudFormation template and/or Terraform configuration for review, without creating any resources',
+  toolSchemas.exportInfrastructure,
+  async (params: {
+    prompt?: string;
+    deploymentPlan?: {
+      architecture: string;
+      services: Array<{ name: string; type: string }>;
+    };
+    format?: 'cloudformation' | 'terraform' | 'both';
+    projectName?: string;
+    environment?: string;
+    region?: string;
+    containerPort?: number;
+    outputDirectory?: string;
+  }) => {
+    try {
+      const result = await deploymentTools.exportInfrastructure(params);
+      const { spec } = result;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `📦 **Infrastructure Export: ${spec.projectName} (${spec.environment})**
+
+**Compute:** ${spec.compute}${spec.cdn ? ' + CloudFront' : ''}${spec.database ? ` + ${spec.database}` : ''}
+**Region:** ${spec.region}
+
+${
+  spec.notes.length > 0
+    ? `**Not covered by the templates:**
+${spec.notes.map((note) => `⚠️ ${note}`).join('\n')}`
+    : ''
+}
+
+${
+  result.cloudFormation
+    ? `**CloudFormation** (\`aws cloudformation deploy --template-file cloudformation.yaml --capabilities CAPABILITY_IAM\`):
+\`\`\`yaml
+${result.cloudFormation}\`\`\``
+    : ''
+}
+
+${
+  result.terraform
+    ? `**Terraform** (\`terraform init && terraform plan\`):
+\`\`\`hcl
+${result.terraform}\`\`\``
+    : ''
+}
+
+${result.files.length > 0 ? `**Written to:**\n${result.files.map((file) => `📄 ${file}`).join('\n')}` : ''}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Infrastructure Export Failed**
+
+Error: ${error instanceof Error ? error.message : 'Unknown error'}
+
+Provide either a \`prompt\` or a \`deploymentPlan\` from the AI repository analysis.`,
+          },
+        ],
+      };
+    }
+  }
+);
+
 // Tool: List Deployments
 server.tool(
   'list-deployments',
@@ -368,6 +808,9 @@ You haven't created any deployments yet. Use the \`deploy-website\` tool to star
 • Active: ${deployments.active}
 • Completed: ${deployments.completed}  
 • Failed: ${deployments.failed}
+• Awaiting approval: ${deployments.planned}
+
+**Actual Spend:** $${deployments.spend.monthlyCost.toFixed(2)} this month, $${deployments.spend.totalCost.toFixed(2)} tracked in total
 
 **Recent Deployments:**
 ${deploymentsList}
@@ -393,6 +836,9 @@ ${error instanceof Error ? error.message : 'Unknown error'}`,
 
 // Initialize GitHub service
 const githubService = new GitHubService();
+const aiPlanner = new PersonalizedAIDeploymentPlanner(
+  process.env.AWS_REGION || 'us-east-1'
+);
 
 // Tool: Deploy from GitHub
 server.tool(
@@ -595,6 +1041,7 @@ server.tool(
 
 **Project Analysis:**
 - **Project Type:** ${analysis.projectType.toUpperCase()}
+- **Detected Framework:** ${analysis.facts.primary ? `${analysis.facts.primary.name} (${Math.round(analysis.facts.primary.confidence * 100)}% confidence)` : 'None'}
 - **Files Found:** ${Object.keys(analysis.files).length}
 - **Has package.json:** ${analysis.packageJson ? 'Yes' : 'No'}
 - **Has README:** ${analysis.readme ? 'Yes' : 'No'}
@@ -665,6 +1112,103 @@ Error: ${error instanceof Error ? error.message : 'Unknown error'}
   }
 );
 
+// Tool: Compare Architectures
+server.tool(
+  'compare-architectures',
+  'Generate cost-optimized, performance-optimized and hybrid deployment plans for a GitHub repository and compare them side by side',
+  toolSchemas.compareArchitectures,
+  async (params: { repository: string; prompt: string; branch?: string }) => {
+    try {
+      const { repository, prompt, branch = 'main' } = params;
+      const [owner, repo] = repository.split('/');
+
+      if (!owner || !repo) {
+        throw new Error('Invalid repository format. Use "owner/repo"');
+      }
+
+      logger.info('Compare architectures tool called', { params });
+
+      const repoInfo = await githubService.getRepositoryInfo(owner, repo);
+      const { facts } = await githubService.analyzeRepository({
+        owner,
+        repo,
+        branch,
+      });
+
+      const alternatives = await aiPlanner.generateAlternativeArchitectures(
+        repoInfo,
+        prompt,
+        {
+          framework: facts.primary?.name || 'Unknown',
+          language: facts.language,
+          hasDockerfile: facts.hasDockerfile,
+          buildCommand: facts.buildCommand,
+          startCommand: facts.startCommand,
+          port: facts.port,
+        }
+      );
+
+      const details = alternatives
+        .map(
+          (
+            alternative,
+            index
+          ) => `**${index + 1}. ${alternative.label}** (${formatMonthlyCost(alternative.monthlyCost)}/month)
+${alternative.summary}
+- **Architecture:** ${alternative.deploymentPlan.architecture}
+- **Services:** ${alternative.deploymentPlan.services.map((service) => `${service.name} (${service.estimated_cost || 'no estimate'})`).join(', ')}
+- **Pros:** ${alternative.pros.join('; ') || 'none listed'}
+- **Cons:** ${alternative.cons.join('; ') || 'none listed'}
+- **Best for:** ${alternative.bestFor || 'not specified'}`
+        )
+        .join('\n\n');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `⚖️ **Architecture Options: ${repository}**
+
+${formatAlternativesComparison(alternatives)}
+
+${details}
+
+**Next Steps:**
+- Deploy an option with \`deploy-from-github\`, using its architecture as the prompt
+- Pass an option's \`deploymentPlan\` below to \`export-infrastructure\` to review it as templates
+
+**Deployment Plans:**
+\`\`\`json
+${JSON.stringify(
+  alternatives.map(({ strategy, deploymentPlan }) => ({
+    strategy,
+    deploymentPlan,
+  })),
+  null,
+  2
+)}
+\`\`\``,
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('Compare architectures tool failed', { error, params });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ **Architecture Comparison Failed**
+
+Error: ${error instanceof Error ? error.message : 'Unknown error'}
+
+Check the repository name and that a model provider is configured (\`LLM_PROVIDER\`).`,
+          },
+        ],
+      };
+    }
+  }
+);
+
 // Tool: List GitHub Repositories
 server.tool(
   'list-github-repos',
@@ -800,6 +1344,7 @@ process.on('SIGTERM', () => {
 });
 
 // Start the server
+deploymentTools.startCostMonitoring();
 logger.info('AWS Deploy AI MCP Server is ready');
 const transport = new StdioServerTransport();
 server.connect(transport);
@@ -0,0 +1,40 @@
+import { UserPreferences } from '../types/index.js';
+import { loadUserPreferences } from '../utils/preferences.js';
+import { NotificationChannel, Notifier } from './notifier.js';
+import { SlackChannel } from './slack.js';
+import { WebhookChannel } from './webhook.js';
+
+export * from './notifier.js';
+export * from './slack.js';
+export * from './webhook.js';
+
+let sharedNotifier: Notifier | undefined;
+
+/**
+ * Create a notifier for the channels enabled in the user's preferences.
+ *
+ * DASHBOARD_URL is where the frontend runs, for status page links.
+ */
+export function createNotifier(
+  preferences: UserPreferences = loadUserPreferences()
+): Notifier {
+  const channels: NotificationChannel[] = [];
+  if (preferences.slackIntegration?.enabled) {
+    channels.push(new SlackChannel(preferences.slackIntegration));
+  }
+  if (preferences.webhook?.enabled) {
+    channels.push(new WebhookChannel(preferences.webhook));
+  }
+
+  return new Notifier(channels, { dashboardUrl: process.env.DASHBOARD_URL });
+}
+
+/**
+ * Process-wide notifier
+ */
+export function getNotifier(): Notifier {
+  if (!sharedNotifier) {
+    sharedNotifier = createNotifier();
+  }
+  return sharedNotifier;
+}
@@ -0,0 +1,112 @@
+import { NotificationEvent } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+// A slow receiver should not hold up a deployment
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+/**
+ * Somewhere deployment events are delivered, e.g. Slack or a webhook
+ */
+export interface NotificationChannel {
+  name: string;
+  send(event: NotificationEvent): Promise<void>;
+}
+
+export interface NotifierOptions {
+  // Dashboard base URL, for links to a deployment's status page
+  dashboardUrl?: string;
+}
+
+/**
+ * One line describing an event, for logs and message previews
+ */
+export function describeEvent(event: NotificationEvent): string {
+  switch (event.type) {
+    case 'deployment.started':
+      return `Deploying ${event.name} to ${event.environment} in ${event.region}`;
+    case 'deployment.step_failed':
+      return `${event.name}: ${event.step} failed: ${event.error}`;
+    case 'deployment.completed':
+      return `${event.name} deployed in ${Math.round(event.durationMs / 1000)}s`;
+    case 'deployment.rolled_back':
+      return event.notCleanedUp.length > 0
+        ? `${event.name} was rolled back; ${event.notCleanedUp.length} resource(s) could not be deleted`
+        : `${event.name} was rolled back; all ${event.cleanedUp} resource(s) deleted`;
+    case 'budget.threshold_crossed': {
+      const { alert } = event;
+      return `${alert.name} has spent $${alert.actualMonthToDate.toFixed(2)} this month, over ${alert.threshold}% of its $${alert.limit.toFixed(2)} budget (projected $${alert.projectedMonthly.toFixed(2)} for the month)`;
+    }
+  }
+}
+
+/**
+ * Delivers deployment events to every configured channel. Delivery failures
+ * are logged and never reach the caller; notify resolves to the number of
+ * channels that accepted the event.
+ */
+export class Notifier {
+  constructor(
+    private channels: NotificationChannel[] = [],
+    private options: NotifierOptions = {}
+  ) {}
+
+  get enabled(): boolean {
+    return this.channels.length > 0;
+  }
+
+  statusUrl(deploymentId: string): string | undefined {
+    return this.options.dashboardUrl
+      ? `${this.options.dashboardUrl.replace(/\/$/, '')}/?deployment=${encodeURIComponent(deploymentId)}`
+      : undefined;
+  }
+
+  async notify(event: NotificationEvent): Promise<number> {
+    if (!this.enabled) {
+      return 0;
+    }
+
+    const statusUrl =
+      event.links.statusUrl ||
+      (event.deploymentId && this.statusUrl(event.deploymentId));
+    const delivered: NotificationEvent = {
+      ...event,
+      links: { ...event.links, ...(statusUrl && { statusUrl }) },
+    };
+
+    const sent = await Promise.all(
+      this.channels.map(async (channel) => {
+        try {
+          await channel.send(delivered);
+          return true;
+        } catch (error) {
+          logger.error(`Failed to send ${event.type} to ${channel.name}`, {
+            deploymentId: event.deploymentId,
+            error: error instanceof Error ? error.message : error,
+          });
+          return false;
+        }
+      })
+    );
+    return sent.filter(Boolean).length;
+  }
+}
+
+/**
+ * POST a JSON body, failing on a non-2xx response or after the delivery
+ * timeout
+ */
+export async function postJson(
+  url: string,
+  body: string,
+  headers: Record<string, string> = {}
+): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status}`);
+  }
+}
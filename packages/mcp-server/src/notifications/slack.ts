@@ -0,0 +1,161 @@
+import {
+  NotificationEvent,
+  NotificationEventType,
+  SlackConfig,
+} from '../types/index.js';
+import { describeEvent, NotificationChannel, postJson } from './notifier.js';
+
+const HEADERS: Record<NotificationEventType, string> = {
+  'deployment.started': ':rocket: Deployment started',
+  'deployment.step_failed': ':x: Deployment step failed',
+  'deployment.completed': ':white_check_mark: Deployment completed',
+  'deployment.rolled_back': ':rewind: Deployment rolled back',
+  'budget.threshold_crossed': ':warning: Budget threshold crossed',
+};
+
+// Slack rejects section text over 3000 characters
+const MAX_TEXT_LENGTH = 2900;
+
+type SlackBlock = Record<string, unknown>;
+
+export interface SlackMessage {
+  channel?: string;
+  // Shown in notifications and by clients without Block Kit
+  text: string;
+  blocks: SlackBlock[];
+}
+
+/**
+ * Format an event as a Block Kit message: a header, the summary with the
+ * event's details as fields, and buttons for the live site and status page
+ */
+export function toSlackMessage(event: NotificationEvent): SlackMessage {
+  const summary = describeEvent(event);
+  const fields = fieldsFor(event);
+  const blocks: SlackBlock[] = [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: HEADERS[event.type], emoji: true },
+    },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: truncate(summary) },
+      ...(fields.length > 0 && {
+        fields: fields.map(([label, value]) => ({
+          type: 'mrkdwn',
+          text: `*${label}*\n${value}`,
+        })),
+      }),
+    },
+  ];
+
+  if (event.type === 'deployment.step_failed') {
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text: `\`\`\`${truncate(event.error)}\`\`\`` },
+    });
+  }
+
+  const buttons = [
+    event.links.liveUrl && button('Open site', event.links.liveUrl, true),
+    event.links.statusUrl && button('View status', event.links.statusUrl),
+  ].filter(Boolean);
+  if (buttons.length > 0) {
+    blocks.push({ type: 'actions', elements: buttons });
+  }
+
+  blocks.push({
+    type: 'context',
+    elements: [
+      {
+        type: 'mrkdwn',
+        text: [
+          event.deploymentId && `Deployment \`${event.deploymentId}\``,
+          new Date(event.timestamp).toISOString(),
+        ]
+          .filter(Boolean)
+          .join(' · '),
+      },
+    ],
+  });
+
+  return { text: summary, blocks };
+}
+
+/**
+ * Posts events to a Slack incoming webhook
+ */
+export class SlackChannel implements NotificationChannel {
+  readonly name = 'slack';
+
+  constructor(private config: SlackConfig) {}
+
+  async send(event: NotificationEvent): Promise<void> {
+    await postJson(
+      this.config.webhookUrl,
+      JSON.stringify({
+        ...toSlackMessage(event),
+        ...(this.config.channel && { channel: this.config.channel }),
+      })
+    );
+  }
+}
+
+function fieldsFor(event: NotificationEvent): Array<[string, string]> {
+  switch (event.type) {
+    case 'deployment.started':
+      return [
+        ['Environment', event.environment],
+        ['Region', event.region],
+        ...(event.estimatedMonthlyCost !== undefined
+          ? [
+              [
+                'Estimated cost',
+                `$${event.estimatedMonthlyCost.toFixed(2)}/month`,
+              ] as [string, string],
+            ]
+          : []),
+      ];
+    case 'deployment.step_failed':
+      return [['Step', event.step]];
+    case 'deployment.completed':
+      return [
+        ['Duration', `${Math.round(event.durationMs / 1000)}s`],
+        ['Resources', String(event.resources)],
+      ];
+    case 'deployment.rolled_back':
+      return [
+        ['Deleted', String(event.cleanedUp)],
+        [
+          'Left behind',
+          event.notCleanedUp.length > 0
+            ? event.notCleanedUp
+                .map((entry) => `${entry.type} \`${entry.id}\``)
+                .join('\n')
+            : 'None',
+        ],
+      ];
+    case 'budget.threshold_crossed':
+      return [
+        ['Spent this month', `$${event.alert.actualMonthToDate.toFixed(2)}`],
+        ['Budget', `$${event.alert.limit.toFixed(2)}/month`],
+        ['Projected', `$${event.alert.projectedMonthly.toFixed(2)}`],
+        ['Threshold', `${event.alert.threshold}%`],
+      ];
+  }
+}
+
+function button(text: string, url: string, primary = false): SlackBlock {
+  return {
+    type: 'button',
+    text: { type: 'plain_text', text },
+    url,
+    ...(primary && { style: 'primary' }),
+  };
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TEXT_LENGTH
+    ? `${text.slice(0, MAX_TEXT_LENGTH)}…`
+    : text;
+}
@@ -0,0 +1,68 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { NotificationEvent, WebhookConfig } from '../types/index.js';
+import { NotificationChannel, postJson } from './notifier.js';
+
+export const EVENT_HEADER = 'X-Deploy-Event';
+export const DELIVERY_HEADER = 'X-Deploy-Delivery';
+export const TIMESTAMP_HEADER = 'X-Deploy-Timestamp';
+export const SIGNATURE_HEADER = 'X-Deploy-Signature';
+
+// Older deliveries are rejected by verifySignature to stop replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * HMAC-SHA256 of "<timestamp>.<body>", as sent in the signature header
+ */
+export function signPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Check a delivery's signature and timestamp, for receivers written in
+ * TypeScript
+ */
+export function verifySignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  now: number = Date.now()
+): boolean {
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Posts each event as JSON to a URL, signed when the webhook has a secret
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly name = 'webhook';
+
+  constructor(private config: WebhookConfig) {}
+
+  async send(event: NotificationEvent): Promise<void> {
+    const id = randomUUID();
+    const timestamp = Math.floor(Date.now() / 1000);
+    const body = JSON.stringify({ id, ...event });
+
+    await postJson(this.config.url, body, {
+      [EVENT_HEADER]: event.type,
+      [DELIVERY_HEADER]: id,
+      [TIMESTAMP_HEADER]: String(timestamp),
+      ...(this.config.secret && {
+        [SIGNATURE_HEADER]: signPayload(this.config.secret, timestamp, body),
+      }),
+    });
+  }
+}
@@ -0,0 +1,47 @@
+import { BulkPriceList } from './price-list.js';
+import { FreeTierMode, PricingEngine } from './pricing-engine.js';
+
+export * from './price-list.js';
+export * from './pricing-engine.js';
+export { PRICE_SNAPSHOT, SNAPSHOT_DATE } from './snapshot.js';
+export * from './unit-prices.js';
+
+// Where downloaded unit prices are cached, one file per region
+export const DEFAULT_PRICE_CACHE_DIR = '.cache/pricing';
+
+let sharedEngine: PricingEngine | undefined;
+
+/**
+ * Create a pricing engine backed by the AWS price list.
+ *
+ * PRICING_OFFLINE=true estimates from the cache or bundled snapshot only;
+ * PRICING_CACHE_DIR moves the cache; PRICING_FREE_TIER picks which free
+ * tier allowances apply ("always-free" | "new-account" | "none").
+ */
+export function createPricingEngine(): PricingEngine {
+  const freeTier = (process.env.PRICING_FREE_TIER ||
+    'always-free') as FreeTierMode;
+  if (!['always-free', 'new-account', 'none'].includes(freeTier)) {
+    throw new Error(
+      `Unknown PRICING_FREE_TIER "${freeTier}"; expected always-free, new-account or none`
+    );
+  }
+
+  return new PricingEngine(
+    new BulkPriceList({
+      cacheDirectory: process.env.PRICING_CACHE_DIR || DEFAULT_PRICE_CACHE_DIR,
+      offline: process.env.PRICING_OFFLINE === 'true',
+    }),
+    { freeTier }
+  );
+}
+
+/**
+ * Process-wide engine, so every estimate shares one price cache
+ */
+export function getPricingEngine(): PricingEngine {
+  if (!sharedEngine) {
+    sharedEngine = createPricingEngine();
+  }
+  return sharedEngine;
+}
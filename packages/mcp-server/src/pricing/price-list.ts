@@ -0,0 +1,197 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import { PRICE_SNAPSHOT, SNAPSHOT_DATE } from './snapshot.js';
+import {
+  extractUnitPrices,
+  PRICE_RULES,
+  PriceKey,
+  PriceListOffer,
+  PriceRule,
+  UnitPrices,
+} from './unit-prices.js';
+
+export const PRICE_LIST_URL = 'https://pricing.us-east-1.amazonaws.com';
+
+// Price list files change a few times a month at most
+export const PRICE_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * A complete set of unit prices for one region
+ */
+export interface RegionPrices {
+  region: string;
+  source: 'price-list' | 'cache' | 'snapshot';
+  // Publication date of the prices, not when they were fetched
+  asOf: string;
+  fetchedAt?: string;
+  prices: UnitPrices;
+}
+
+export interface PriceListSource {
+  getPrices(region: string): Promise<RegionPrices>;
+}
+
+/**
+ * Prices from the bundled snapshot; never touches the network
+ */
+export class SnapshotPriceList implements PriceListSource {
+  async getPrices(region: string): Promise<RegionPrices> {
+    const prices = PRICE_SNAPSHOT[region];
+    if (!prices) {
+      logger.warn(
+        `No snapshot prices for ${region}; estimating with us-east-1 prices`
+      );
+    }
+
+    return {
+      region,
+      source: 'snapshot',
+      asOf: SNAPSHOT_DATE,
+      prices: { ...(prices || PRICE_SNAPSHOT['us-east-1']) },
+    };
+  }
+}
+
+export type OfferFetcher = (
+  offerCode: string,
+  region?: string
+) => Promise<PriceListOffer>;
+
+export interface BulkPriceListOptions {
+  cacheDirectory: string;
+  ttlMs?: number;
+  // Use the cache or snapshot only
+  offline?: boolean;
+  fetchOffer?: OfferFetcher;
+  snapshot?: PriceListSource;
+}
+
+/**
+ * Prices read from the AWS Price List bulk offer files, cached per region
+ * on disk. Falls back to a stale cache and then to the snapshot when the
+ * price list cannot be reached.
+ */
+export class BulkPriceList implements PriceListSource {
+  private ttlMs: number;
+  private fetchOffer: OfferFetcher;
+  private snapshot: PriceListSource;
+
+  constructor(private options: BulkPriceListOptions) {
+    this.ttlMs = options.ttlMs ?? PRICE_CACHE_TTL_MS;
+    this.fetchOffer = options.fetchOffer || fetchOffer;
+    this.snapshot = options.snapshot || new SnapshotPriceList();
+  }
+
+  async getPrices(region: string): Promise<RegionPrices> {
+    const cached = await this.readCache(region);
+    const age = cached?.fetchedAt
+      ? Date.now() - new Date(cached.fetchedAt).getTime()
+      : Infinity;
+    if (cached && age < this.ttlMs) {
+      return cached;
+    }
+
+    if (!this.options.offline) {
+      try {
+        const prices = await this.download(region);
+        await this.writeCache(prices);
+        return prices;
+      } catch (error) {
+        logger.warn(`Failed to load ${region} prices from the AWS price list`, {
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    return cached || this.snapshot.getPrices(region);
+  }
+
+  private async download(region: string): Promise<RegionPrices> {
+    const byOffer = new Map<string, Partial<Record<PriceKey, PriceRule>>>();
+    for (const [key, rule] of Object.entries(PRICE_RULES) as Array<
+      [PriceKey, PriceRule]
+    >) {
+      byOffer.set(rule.offerCode, {
+        ...byOffer.get(rule.offerCode),
+        [key]: rule,
+      });
+    }
+
+    // One offer at a time: some files are tens of megabytes
+    const found: Partial<UnitPrices> = {};
+    let asOf = '';
+    for (const [offerCode, rules] of byOffer) {
+      const global = Object.values(rules).some((rule) => rule?.global);
+      const offer = await this.fetchOffer(
+        offerCode,
+        global ? undefined : region
+      );
+      Object.assign(found, extractUnitPrices(offer, rules));
+      if (offer.publicationDate && offer.publicationDate > asOf) {
+        asOf = offer.publicationDate;
+      }
+    }
+
+    const missing = (Object.keys(PRICE_RULES) as PriceKey[]).filter(
+      (key) => found[key] === undefined
+    );
+    if (missing.length > 0) {
+      logger.warn(
+        `Price list had no ${region} price for ${missing.join(', ')}; using the snapshot`
+      );
+    }
+
+    const snapshot = await this.snapshot.getPrices(region);
+    return {
+      region,
+      source: 'price-list',
+      asOf: asOf.slice(0, 10) || new Date().toISOString().slice(0, 10),
+      fetchedAt: new Date().toISOString(),
+      prices: { ...snapshot.prices, ...found },
+    };
+  }
+
+  private cacheFile(region: string): string {
+    return path.join(this.options.cacheDirectory, `${region}.json`);
+  }
+
+  private async readCache(region: string): Promise<RegionPrices | undefined> {
+    try {
+      const contents = await fs.readFile(this.cacheFile(region), 'utf-8');
+      return { ...(JSON.parse(contents) as RegionPrices), source: 'cache' };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Ignoring unreadable price cache for ${region}`, {
+          error,
+        });
+      }
+      return undefined;
+    }
+  }
+
+  private async writeCache(prices: RegionPrices): Promise<void> {
+    try {
+      await fs.mkdir(this.options.cacheDirectory, { recursive: true });
+      await fs.writeFile(
+        this.cacheFile(prices.region),
+        JSON.stringify(prices, null, 2) + '\n'
+      );
+    } catch (error) {
+      // A failed write only costs a download next time
+      logger.warn(`Failed to cache ${prices.region} prices`, { error });
+    }
+  }
+}
+
+async function fetchOffer(
+  offerCode: string,
+  region?: string
+): Promise<PriceListOffer> {
+  const url = `${PRICE_LIST_URL}/offers/v1.0/aws/${offerCode}/current/${region ? `${region}/` : ''}index.json`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status}`);
+  }
+  return (await response.json()) as PriceListOffer;
+}
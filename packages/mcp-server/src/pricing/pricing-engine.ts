@@ -0,0 +1,421 @@
+import {
+  CostBreakdown,
+  CostEstimate,
+  ParsedDeploymentIntent,
+  UsageAssumptions,
+} from '../types/index.js';
+import { PriceListSource, RegionPrices } from './price-list.js';
+import { PRICE_SNAPSHOT } from './snapshot.js';
+import { PriceKey } from './unit-prices.js';
+
+/**
+ * A small production site: a million requests and 50GB out a month
+ */
+export const DEFAULT_USAGE: UsageAssumptions = {
+  monthlyRequests: 1_000_000,
+  dataTransferGB: 50,
+  lambdaMemoryMB: 512,
+  lambdaDurationMs: 200,
+  containerTasks: 1,
+  containerVcpu: 0.25,
+  containerMemoryGB: 0.5,
+  databaseStorageGB: 20,
+  hoursPerMonth: 730,
+};
+
+/**
+ * 'always-free' applies the allowances every account keeps; 'new-account'
+ * adds the 12-month allowances of a new account
+ */
+export type FreeTierMode = 'none' | 'always-free' | 'new-account';
+
+const ALWAYS_FREE: Partial<Record<PriceKey, number>> = {
+  'lambda-requests': 1_000_000,
+  'lambda-gb-seconds': 400_000,
+  'cloudfront-data-transfer-gb': 1024,
+  'cloudfront-https-requests': 10_000_000,
+  'dynamodb-storage-gb-month': 25,
+  'data-transfer-out-gb': 100,
+};
+
+const NEW_ACCOUNT_FREE: Partial<Record<PriceKey, number>> = {
+  ...ALWAYS_FREE,
+  's3-storage-gb-month': 5,
+  's3-get-requests': 20_000,
+  's3-put-requests': 2_000,
+  'api-gateway-http-requests': 1_000_000,
+  'ec2-t3-micro-hours': 750,
+  'ebs-gp3-gb-month': 30,
+  'rds-small-hours': 750,
+  'rds-storage-gb-month': 20,
+  'alb-hours': 750,
+};
+
+// Instance size behind each database size in the parsed intent
+const RDS_HOURS: Record<'small' | 'medium' | 'large', PriceKey> = {
+  small: 'rds-small-hours',
+  medium: 'rds-medium-hours',
+  large: 'rds-large-hours',
+};
+
+// Share of requests a CDN passes to the origin
+const CDN_ORIGIN_RATIO = 0.1;
+
+export interface PricingEngineOptions {
+  freeTier?: FreeTierMode;
+  defaultRegion?: string;
+}
+
+/**
+ * Prices a parsed deployment intent from per-region unit prices and usage
+ * assumptions, one breakdown line per billed dimension
+ */
+export class PricingEngine {
+  private freeTier: FreeTierMode;
+  private defaultRegion: string;
+
+  constructor(
+    private priceList: PriceListSource,
+    options: PricingEngineOptions = {}
+  ) {
+    this.freeTier = options.freeTier || 'always-free';
+    this.defaultRegion = options.defaultRegion || 'us-east-1';
+  }
+
+  async estimate(
+    intent: ParsedDeploymentIntent,
+    usageOverrides: Partial<UsageAssumptions> = {}
+  ): Promise<CostEstimate> {
+    const region = intent.environment?.region || this.defaultRegion;
+    const usage = { ...DEFAULT_USAGE, ...usageOverrides };
+    const prices = await this.priceList.getPrices(region);
+    const lines = new LineItems(prices, this.allowances());
+    const { infrastructure } = intent;
+    const requests = usage.monthlyRequests;
+
+    if (infrastructure.storage.type === 's3') {
+      lines.add(
+        'S3 Storage',
+        's3-storage-gb-month',
+        infrastructure.storage.size,
+        'GB-month',
+        `${infrastructure.storage.size}GB standard storage`
+      );
+      lines.add(
+        'S3 Requests',
+        's3-get-requests',
+        infrastructure.cdn ? requests * CDN_ORIGIN_RATIO : requests,
+        'requests',
+        infrastructure.cdn ? 'GET requests on CDN cache misses' : 'GET requests'
+      );
+    }
+
+    if (infrastructure.cdn) {
+      lines.add(
+        'CloudFront CDN',
+        'cloudfront-data-transfer-gb',
+        usage.dataTransferGB,
+        'GB',
+        'Data transfer to viewers'
+      );
+      lines.add(
+        'CloudFront CDN',
+        'cloudfront-https-requests',
+        requests,
+        'requests',
+        'HTTPS requests'
+      );
+    } else {
+      lines.add(
+        'Data Transfer',
+        'data-transfer-out-gb',
+        usage.dataTransferGB,
+        'GB',
+        'Data transfer out to the internet'
+      );
+    }
+
+    switch (infrastructure.compute.type) {
+      case 'serverless': {
+        const memoryMB = infrastructure.compute.memory || usage.lambdaMemoryMB;
+        lines.add(
+          'AWS Lambda',
+          'lambda-requests',
+          requests,
+          'requests',
+          'Function invocations'
+        );
+        lines.add(
+          'AWS Lambda',
+          'lambda-gb-seconds',
+          requests * (usage.lambdaDurationMs / 1000) * (memoryMB / 1024),
+          'GB-seconds',
+          `${memoryMB}MB for ${usage.lambdaDurationMs}ms per invocation`
+        );
+        break;
+      }
+      case 'container': {
+        const taskHours = usage.containerTasks * usage.hoursPerMonth;
+        const vcpu = infrastructure.compute.cpu || usage.containerVcpu;
+        const memoryGB = infrastructure.compute.memory
+          ? infrastructure.compute.memory / 1024
+          : usage.containerMemoryGB;
+        lines.add(
+          'ECS Fargate',
+          'fargate-vcpu-hours',
+          taskHours * vcpu,
+          'vCPU-hours',
+          `${usage.containerTasks} task(s) with ${vcpu} vCPU`
+        );
+        lines.add(
+          'ECS Fargate',
+          'fargate-gb-hours',
+          taskHours * memoryGB,
+          'GB-hours',
+          `${usage.containerTasks} task(s) with ${memoryGB}GB memory`
+        );
+        break;
+      }
+      case 'vm':
+        lines.add(
+          'EC2 Instance',
+          'ec2-t3-micro-hours',
+          usage.hoursPerMonth,
+          'hours',
+          't3.micro running around the clock'
+        );
+        lines.add(
+          'EC2 Instance',
+          'ebs-gp3-gb-month',
+          8,
+          'GB-month',
+          '8GB gp3 root volume'
+        );
+        break;
+    }
+
+    if (infrastructure.networking.loadBalancer) {
+      lines.add(
+        'Application Load Balancer',
+        'alb-hours',
+        usage.hoursPerMonth,
+        'hours',
+        'Load balancer hours'
+      );
+      lines.add(
+        'Application Load Balancer',
+        'alb-lcu-hours',
+        usage.hoursPerMonth,
+        'LCU-hours',
+        'One load balancer capacity unit on average'
+      );
+    }
+
+    if (
+      infrastructure.networking.apiGateway &&
+      infrastructure.compute.type === 'serverless'
+    ) {
+      lines.add(
+        'API Gateway',
+        'api-gateway-http-requests',
+        requests,
+        'requests',
+        'HTTP API requests'
+      );
+    }
+
+    const database = infrastructure.database;
+    if (database?.type === 'dynamodb') {
+      lines.add(
+        'DynamoDB',
+        'dynamodb-read-requests',
+        requests,
+        'read request units',
+        'One on-demand read per request'
+      );
+      lines.add(
+        'DynamoDB',
+        'dynamodb-write-requests',
+        requests * 0.1,
+        'write request units',
+        'One on-demand write per ten requests'
+      );
+      lines.add(
+        'DynamoDB',
+        'dynamodb-storage-gb-month',
+        usage.databaseStorageGB,
+        'GB-month',
+        `${usage.databaseStorageGB}GB table storage`
+      );
+    } else if (database?.type === 'rds') {
+      lines.add(
+        'RDS',
+        RDS_HOURS[database.size],
+        usage.hoursPerMonth,
+        'hours',
+        `${database.size} single-AZ MySQL instance`
+      );
+      lines.add(
+        'RDS',
+        'rds-storage-gb-month',
+        usage.databaseStorageGB,
+        'GB-month',
+        `${usage.databaseStorageGB}GB gp2 storage`
+      );
+    } else if (database?.type === 'documentdb') {
+      lines.add(
+        'DocumentDB',
+        'documentdb-instance-hours',
+        usage.hoursPerMonth,
+        'hours',
+        'db.t3.medium instance'
+      );
+      lines.add(
+        'DocumentDB',
+        'documentdb-storage-gb-month',
+        usage.databaseStorageGB,
+        'GB-month',
+        `${usage.databaseStorageGB}GB storage`
+      );
+    }
+
+    const breakdown = lines.items;
+    if (infrastructure.ssl) {
+      breakdown.push({
+        service: 'SSL Certificate',
+        cost: 0,
+        unit: 'monthly',
+        description: 'AWS Certificate Manager (free)',
+      });
+    }
+
+    const monthly = roundCents(
+      breakdown.reduce((sum, item) => sum + item.cost, 0)
+    );
+    return {
+      monthly,
+      yearly: roundCents(monthly * 12),
+      breakdown,
+      currency: 'USD',
+      region,
+      freeTierSavings: roundCents(lines.freeTierSavings),
+      priceSource: prices.source,
+      pricesAsOf: prices.asOf,
+      assumptions: usage,
+    };
+  }
+
+  /**
+   * What the same app would cost on one always-on instance with no CDN,
+   * the usual alternative to the managed services in an estimate
+   */
+  async estimateSingleInstance(
+    intent: ParsedDeploymentIntent,
+    usageOverrides: Partial<UsageAssumptions> = {}
+  ): Promise<CostEstimate> {
+    return this.estimate(
+      {
+        ...intent,
+        infrastructure: {
+          ...intent.infrastructure,
+          compute: { type: 'vm' },
+          storage: { ...intent.infrastructure.storage, type: 'ebs' },
+          networking: {
+            ...intent.infrastructure.networking,
+            loadBalancer: false,
+            apiGateway: false,
+          },
+          cdn: false,
+        },
+      },
+      usageOverrides
+    );
+  }
+
+  private allowances(): Partial<Record<PriceKey, number>> {
+    return this.freeTier === 'new-account'
+      ? NEW_ACCOUNT_FREE
+      : this.freeTier === 'always-free'
+        ? ALWAYS_FREE
+        : {};
+  }
+}
+
+/**
+ * Collects breakdown lines, spending each free tier allowance once
+ */
+class LineItems {
+  readonly items: CostBreakdown[] = [];
+  freeTierSavings = 0;
+  private remaining: Partial<Record<PriceKey, number>>;
+
+  constructor(
+    private prices: RegionPrices,
+    allowances: Partial<Record<PriceKey, number>>
+  ) {
+    this.remaining = { ...allowances };
+  }
+
+  add(
+    service: string,
+    key: PriceKey,
+    quantity: number,
+    unit: string,
+    description: string
+  ) {
+    // Caches written before a key existed lack its price
+    const unitPrice =
+      this.prices.prices[key] ?? PRICE_SNAPSHOT['us-east-1'][key];
+    const free = Math.min(quantity, this.remaining[key] || 0);
+    this.remaining[key] = (this.remaining[key] || 0) - free;
+    this.freeTierSavings += free * unitPrice;
+
+    this.items.push({
+      service,
+      cost: roundCents((quantity - free) * unitPrice),
+      unit,
+      description:
+        free > 0
+          ? `${description} (${formatQuantity(free)} free)`
+          : description,
+      quantity: Math.round(quantity * 1000) / 1000,
+      unitPrice,
+      ...(free > 0 && { freeTierQuantity: free }),
+    });
+  }
+}
+
+function formatQuantity(quantity: number): string {
+  return quantity.toLocaleString('en-US', { maximumFractionDigits: 2 });
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * One breakdown line for tool output, e.g.
+ * "AWS Lambda: $1.23/month - 1,000,000 requests × $0.0000002 (...)"
+ */
+export function describeCostItem(item: CostBreakdown): string {
+  const usage =
+    item.quantity !== undefined && item.unitPrice !== undefined
+      ? `${formatQuantity(item.quantity)} ${item.unit} × $${item.unitPrice.toLocaleString('en-US', { maximumSignificantDigits: 6 })} - `
+      : '';
+  return `${item.service}: $${item.cost.toFixed(2)}/month - ${usage}${item.description}`;
+}
+
+/**
+ * Where an estimate's prices came from, for tool output
+ */
+export function describePriceSource(estimate: CostEstimate): string {
+  const source =
+    estimate.priceSource === 'price-list'
+      ? 'AWS Price List'
+      : estimate.priceSource === 'cache'
+        ? 'cached AWS Price List'
+        : 'bundled price snapshot';
+  const asOf = estimate.pricesAsOf ? ` as of ${estimate.pricesAsOf}` : '';
+  const region = estimate.region ? ` for ${estimate.region}` : '';
+  return `${source}${asOf}${region}`;
+}
@@ -0,0 +1,92 @@
+import { UnitPrices } from './unit-prices.js';
+
+/**
+ * When the snapshot prices were taken from the AWS price list
+ */
+export const SNAPSHOT_DATE = '2024-11-15';
+
+/**
+ * On-demand prices for the regions deployments use most, so estimates work
+ * offline and cover the keys the bulk files are not read for. Regions
+ * missing here are estimated with us-east-1 prices.
+ */
+export const PRICE_SNAPSHOT: Record<string, UnitPrices> = {
+  'us-east-1': {
+    's3-storage-gb-month': 0.023,
+    's3-get-requests': 0.0000004,
+    's3-put-requests': 0.000005,
+    'cloudfront-data-transfer-gb': 0.085,
+    'cloudfront-https-requests': 0.000001,
+    'lambda-requests': 0.0000002,
+    'lambda-gb-seconds': 0.0000166667,
+    'api-gateway-http-requests': 0.000001,
+    'fargate-vcpu-hours': 0.04048,
+    'fargate-gb-hours': 0.004445,
+    'alb-hours': 0.0225,
+    'alb-lcu-hours': 0.008,
+    'ec2-t3-micro-hours': 0.0104,
+    'ebs-gp3-gb-month': 0.08,
+    'dynamodb-read-requests': 0.000000125,
+    'dynamodb-write-requests': 0.000000625,
+    'dynamodb-storage-gb-month': 0.25,
+    'rds-small-hours': 0.017,
+    'rds-medium-hours': 0.034,
+    'rds-large-hours': 0.068,
+    'rds-storage-gb-month': 0.115,
+    'documentdb-instance-hours': 0.078,
+    'documentdb-storage-gb-month': 0.1,
+    'data-transfer-out-gb': 0.09,
+  },
+  'us-west-2': {
+    's3-storage-gb-month': 0.023,
+    's3-get-requests': 0.0000004,
+    's3-put-requests': 0.000005,
+    'cloudfront-data-transfer-gb': 0.085,
+    'cloudfront-https-requests': 0.000001,
+    'lambda-requests': 0.0000002,
+    'lambda-gb-seconds': 0.0000166667,
+    'api-gateway-http-requests': 0.000001,
+    'fargate-vcpu-hours': 0.04048,
+    'fargate-gb-hours': 0.004445,
+    'alb-hours': 0.0225,
+    'alb-lcu-hours': 0.008,
+    'ec2-t3-micro-hours': 0.0104,
+    'ebs-gp3-gb-month': 0.08,
+    'dynamodb-read-requests': 0.000000125,
+    'dynamodb-write-requests': 0.000000625,
+    'dynamodb-storage-gb-month': 0.25,
+    'rds-small-hours': 0.017,
+    'rds-medium-hours': 0.034,
+    'rds-large-hours': 0.068,
+    'rds-storage-gb-month': 0.115,
+    'documentdb-instance-hours': 0.078,
+    'documentdb-storage-gb-month': 0.1,
+    'data-transfer-out-gb': 0.09,
+  },
+  'eu-west-1': {
+    's3-storage-gb-month': 0.023,
+    's3-get-requests': 0.0000004,
+    's3-put-requests': 0.000005,
+    'cloudfront-data-transfer-gb': 0.085,
+    'cloudfront-https-requests': 0.0000012,
+    'lambda-requests': 0.0000002,
+    'lambda-gb-seconds': 0.0000166667,
+    'api-gateway-http-requests': 0.00000111,
+    'fargate-vcpu-hours': 0.04048,
+    'fargate-gb-hours': 0.004445,
+    'alb-hours': 0.0252,
+    'alb-lcu-hours': 0.008,
+    'ec2-t3-micro-hours': 0.0114,
+    'ebs-gp3-gb-month': 0.088,
+    'dynamodb-read-requests': 0.000000141,
+    'dynamodb-write-requests': 0.000000705,
+    'dynamodb-storage-gb-month': 0.283,
+    'rds-small-hours': 0.018,
+    'rds-medium-hours': 0.036,
+    'rds-large-hours': 0.072,
+    'rds-storage-gb-month': 0.127,
+    'documentdb-instance-hours': 0.085,
+    'documentdb-storage-gb-month': 0.11,
+    'data-transfer-out-gb': 0.09,
+  },
+};
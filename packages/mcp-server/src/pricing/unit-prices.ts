@@ -0,0 +1,220 @@
+/**
+ * The unit prices cost estimates are built from, and how each one is found
+ * in the AWS Price List bulk offer files
+ */
+
+export type PriceKey =
+  | 's3-storage-gb-month'
+  | 's3-get-requests'
+  | 's3-put-requests'
+  | 'cloudfront-data-transfer-gb'
+  | 'cloudfront-https-requests'
+  | 'lambda-requests'
+  | 'lambda-gb-seconds'
+  | 'api-gateway-http-requests'
+  | 'fargate-vcpu-hours'
+  | 'fargate-gb-hours'
+  | 'alb-hours'
+  | 'alb-lcu-hours'
+  | 'ec2-t3-micro-hours'
+  | 'ebs-gp3-gb-month'
+  | 'dynamodb-read-requests'
+  | 'dynamodb-write-requests'
+  | 'dynamodb-storage-gb-month'
+  | 'rds-small-hours'
+  | 'rds-medium-hours'
+  | 'rds-large-hours'
+  | 'rds-storage-gb-month'
+  | 'documentdb-instance-hours'
+  | 'documentdb-storage-gb-month'
+  | 'data-transfer-out-gb';
+
+/**
+ * USD per unit for each key
+ */
+export type UnitPrices = Record<PriceKey, number>;
+
+export interface PriceRule {
+  offerCode: string;
+  // Priced once for every region, e.g. CloudFront
+  global?: boolean;
+  productFamily?: string;
+  // Product attributes that must match exactly
+  attributes?: Record<string, string>;
+  usagetypeSuffix?: string;
+}
+
+/**
+ * Where each price lives in the bulk offer files. Keys without a rule come
+ * from the snapshot only: the EC2 and RDS offer files run to hundreds of
+ * megabytes per region, too much to download for a handful of prices.
+ */
+export const PRICE_RULES: Partial<Record<PriceKey, PriceRule>> = {
+  's3-storage-gb-month': {
+    offerCode: 'AmazonS3',
+    productFamily: 'Storage',
+    attributes: { volumeType: 'Standard' },
+  },
+  's3-get-requests': {
+    offerCode: 'AmazonS3',
+    productFamily: 'API Request',
+    attributes: { group: 'S3-API-Tier2' },
+  },
+  's3-put-requests': {
+    offerCode: 'AmazonS3',
+    productFamily: 'API Request',
+    attributes: { group: 'S3-API-Tier1' },
+  },
+  'cloudfront-data-transfer-gb': {
+    offerCode: 'AmazonCloudFront',
+    global: true,
+    attributes: {
+      transferType: 'CloudFront Outbound',
+      fromLocation: 'United States',
+    },
+  },
+  'cloudfront-https-requests': {
+    offerCode: 'AmazonCloudFront',
+    global: true,
+    productFamily: 'Request',
+    attributes: {
+      requestType: 'CloudFront-Request-HTTPS-Proxy',
+      location: 'United States',
+    },
+  },
+  'lambda-requests': {
+    offerCode: 'AWSLambda',
+    attributes: { group: 'AWS-Lambda-Requests' },
+  },
+  'lambda-gb-seconds': {
+    offerCode: 'AWSLambda',
+    attributes: { group: 'AWS-Lambda-Duration' },
+  },
+  'api-gateway-http-requests': {
+    offerCode: 'AmazonApiGateway',
+    productFamily: 'API Calls',
+    attributes: { operation: 'ApiGatewayHttpApi' },
+  },
+  'fargate-vcpu-hours': {
+    offerCode: 'AmazonECS',
+    usagetypeSuffix: 'Fargate-vCPU-Hours:perCPU',
+  },
+  'fargate-gb-hours': {
+    offerCode: 'AmazonECS',
+    usagetypeSuffix: 'Fargate-GB-Hours',
+  },
+  'alb-hours': {
+    offerCode: 'AWSELB',
+    productFamily: 'Load Balancer-Application',
+    usagetypeSuffix: 'LoadBalancerUsage',
+  },
+  'alb-lcu-hours': {
+    offerCode: 'AWSELB',
+    productFamily: 'Load Balancer-Application',
+    usagetypeSuffix: 'LCUUsage',
+  },
+  'dynamodb-read-requests': {
+    offerCode: 'AmazonDynamoDB',
+    attributes: { group: 'DDB-ReadUnits' },
+  },
+  'dynamodb-write-requests': {
+    offerCode: 'AmazonDynamoDB',
+    attributes: { group: 'DDB-WriteUnits' },
+  },
+  'dynamodb-storage-gb-month': {
+    offerCode: 'AmazonDynamoDB',
+    productFamily: 'Database Storage',
+    attributes: { volumeType: 'Amazon DynamoDB - Indexed DataStore' },
+  },
+  'data-transfer-out-gb': {
+    offerCode: 'AWSDataTransfer',
+    attributes: { transferType: 'AWS Outbound', toLocation: 'External' },
+  },
+};
+
+/**
+ * The parts of a bulk offer file (offers/v1.0/aws/<offer>/current/...)
+ * that prices are read from
+ */
+export interface PriceListOffer {
+  publicationDate?: string;
+  products: Record<
+    string,
+    {
+      sku: string;
+      productFamily?: string;
+      attributes: Record<string, string>;
+    }
+  >;
+  terms: {
+    OnDemand?: Record<
+      string,
+      Record<
+        string,
+        {
+          priceDimensions: Record<
+            string,
+            {
+              beginRange?: string;
+              pricePerUnit: Record<string, string>;
+            }
+          >;
+        }
+      >
+    >;
+  };
+}
+
+/**
+ * Read the on-demand price of each rule from an offer file. Prices are the
+ * first paid tier; the free tier is applied separately.
+ */
+export function extractUnitPrices(
+  offer: PriceListOffer,
+  rules: Partial<Record<PriceKey, PriceRule>>
+): Partial<UnitPrices> {
+  const prices: Partial<UnitPrices> = {};
+
+  for (const [key, rule] of Object.entries(rules) as Array<
+    [PriceKey, PriceRule]
+  >) {
+    // Free tier SKUs match too; take the first product with a paid price
+    for (const product of Object.values(offer.products)) {
+      if (!matchesRule(product, rule)) continue;
+
+      const paid = Object.values(offer.terms.OnDemand?.[product.sku] || {})
+        .flatMap((term) => Object.values(term.priceDimensions))
+        .map((dimension) => ({
+          begin: Number(dimension.beginRange || 0),
+          usd: Number(dimension.pricePerUnit.USD),
+        }))
+        .filter(({ usd }) => usd > 0)
+        .sort((a, b) => a.begin - b.begin);
+
+      if (paid.length > 0) {
+        prices[key] = paid[0].usd;
+        break;
+      }
+    }
+  }
+
+  return prices;
+}
+
+function matchesRule(
+  product: PriceListOffer['products'][string],
+  rule: PriceRule
+): boolean {
+  if (rule.productFamily && product.productFamily !== rule.productFamily) {
+    return false;
+  }
+  if (
+    rule.usagetypeSuffix &&
+    !product.attributes.usagetype?.endsWith(rule.usagetypeSuffix)
+  ) {
+    return false;
+  }
+  return Object.entries(rule.attributes || {}).every(
+    ([name, value]) => product.attributes[name] === value
+  );
+}
@@ -1,7 +1,3 @@
-import {
-  BedrockRuntimeClient,
-  InvokeModelCommand,
-} from '@aws-sdk/client-bedrock-runtime';
 import {
   DeploymentRequest,
   ParsedDeploymentIntent,
@@ -9,24 +5,28 @@ import {
   InfrastructureRequirements,
   CostEstimate,
   Environment,
+  UsageAssumptions,
 } from '../types/index.js';
 import { logger } from '../utils/logger.js';
+import { getPricingEngine, PricingEngine } from '../pricing/index.js';
+import {
+  completeStructured,
+  getLLMProvider,
+  LLMProvider,
+  LLMRequest,
+  parsedDeploymentIntentSchema,
+} from '../llm/index.js';
 
 export class AIPromptInterpreter {
-  private bedrockClient: BedrockRuntimeClient;
-  private readonly modelId: string;
-
-  constructor() {
-    this.bedrockClient = new BedrockRuntimeClient({
-      region: process.env.AWS_REGION || 'us-east-1',
-      credentials: {
-        accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-      },
-    });
-    // Using Claude 3 Sonnet as the default model
-    this.modelId =
-      process.env.BEDROCK_MODEL_ID || 'anthropic.claude-3-sonnet-20240229-v1:0';
+  private llm: LLMProvider;
+  private pricing: PricingEngine;
+
+  constructor(
+    llm: LLMProvider = getLLMProvider(),
+    pricing: PricingEngine = getPricingEngine()
+  ) {
+    this.llm = llm;
+    this.pricing = pricing;
   }
 
   /**
@@ -41,22 +41,18 @@ export class AIPromptInterpreter {
     const userPrompt = this.buildUserPrompt(request);
 
     try {
-      const response = await this.invokeClaudeModel(
-        systemPrompt,
-        userPrompt,
-        true
+      const intent = await completeStructured(
+        this.llm,
+        this.buildRequest('deployment-intent', systemPrompt, userPrompt, true),
+        parsedDeploymentIntentSchema
       );
 
-      // Parse JSON response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('AI failed to return valid JSON structure');
-      }
-
-      const parsedIntent = JSON.parse(jsonMatch[0]) as ParsedDeploymentIntent;
-
       // Enhance with cost estimation
-      parsedIntent.estimatedCost = await this.estimateCosts(parsedIntent);
+      const parsedIntent = { ...intent } as ParsedDeploymentIntent;
+      parsedIntent.estimatedCost = await this.estimateCosts(
+        parsedIntent,
+        request.usage
+      );
 
       logger.info(
         `Successfully parsed deployment intent: ${JSON.stringify(parsedIntent, null, 2)}`
@@ -95,10 +91,12 @@ export class AIPromptInterpreter {
     `;
 
     try {
-      const response = await this.invokeClaudeModel(
-        'You are an expert AWS cloud architect.',
-        prompt,
-        false
+      const response = await this.llm.complete(
+        this.buildRequest(
+          'recommendations',
+          'You are an expert AWS cloud architect.',
+          prompt
+        )
       );
 
       const recommendations = response
@@ -116,65 +114,27 @@ export class AIPromptInterpreter {
     }
   }
 
-  /**
-   * Invoke Claude model through AWS Bedrock
-   */
-  private async invokeClaudeModel(
+  private buildRequest(
+    task: string,
     systemPrompt: string,
     userPrompt: string,
     requireJson: boolean = false
-  ): Promise<string> {
-    const messages = [
-      {
-        role: 'user',
-        content:
-          systemPrompt +
-          '\n\n' +
-          userPrompt +
-          (requireJson
-            ? '\n\nPlease respond with valid JSON only, no additional text.'
-            : ''),
-      },
-    ];
-
-    const body = {
-      anthropic_version: 'bedrock-2023-05-31',
-      max_tokens: 4000,
+  ): LLMRequest {
+    return {
+      task,
+      system: systemPrompt,
+      messages: [
+        {
+          role: 'user',
+          content:
+            userPrompt +
+            (requireJson
+              ? '\n\nPlease respond with valid JSON only, no additional text.'
+              : ''),
+        },
+      ],
       temperature: 0.1,
-      messages,
     };
-
-    try {
-      const command = new InvokeModelCommand({
-        modelId: this.modelId,
-        body: JSON.stringify(body),
-        contentType: 'application/json',
-        accept: 'application/json',
-      });
-
-      const response = await this.bedrockClient.send(command);
-
-      if (!response.body) {
-        throw new Error('Empty response from Bedrock');
-      }
-
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-
-      if (
-        !responseBody.content ||
-        !responseBody.content[0] ||
-        !responseBody.content[0].text
-      ) {
-        throw new Error('Invalid response format from Bedrock');
-      }
-
-      return responseBody.content[0].text;
-    } catch (error) {
-      logger.error('Failed to invoke Bedrock model:', error);
-      throw new Error(
-        `Bedrock invocation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
-    }
   }
 
   private buildSystemPrompt(): string {
@@ -192,7 +152,9 @@ Key principles:
 You must respond with a valid JSON object that matches this exact structure:
 
 {
-  "projectType": "static-website" | "spa" | "api" | "full-stack" | "microservice",
+  "projectType": ${Object.values(ProjectType)
+    .map((type) => `"${type}"`)
+    .join(' | ')},
   "infrastructure": {
     "compute": {
       "type": "static" | "serverless" | "container" | "vm",
@@ -268,99 +230,10 @@ Respond with only the JSON object, no additional text or explanation.
   }
 
   private async estimateCosts(
-    intent: ParsedDeploymentIntent
+    intent: ParsedDeploymentIntent,
+    usage?: Partial<UsageAssumptions>
   ): Promise<CostEstimate> {
-    // This is a simplified cost estimation. In production, you'd use AWS Pricing API
-    let monthlyCost = 0;
-    const breakdown: any[] = [];
-
-    // S3 Storage (first 50GB free, then $0.023/GB)
-    if (intent.infrastructure.storage.type === 's3') {
-      const storageGB = intent.infrastructure.storage.size;
-      const storageCost = Math.max(0, (storageGB - 50) * 0.023);
-      monthlyCost += storageCost;
-      breakdown.push({
-        service: 'S3 Storage',
-        cost: storageCost,
-        unit: 'GB',
-        description: `${storageGB}GB storage`,
-      });
-    }
-
-    // CloudFront CDN
-    if (intent.infrastructure.cdn) {
-      const cdnCost = 15; // Estimated $15/month for typical usage
-      monthlyCost += cdnCost;
-      breakdown.push({
-        service: 'CloudFront CDN',
-        cost: cdnCost,
-        unit: 'monthly',
-        description: 'Content delivery network',
-      });
-    }
-
-    // Lambda (if serverless)
-    if (intent.infrastructure.compute.type === 'serverless') {
-      const lambdaCost = 5; // Estimated $5/month for typical usage
-      monthlyCost += lambdaCost;
-      breakdown.push({
-        service: 'AWS Lambda',
-        cost: lambdaCost,
-        unit: 'monthly',
-        description: 'Serverless compute',
-      });
-    }
-
-    // ECS (if container)
-    if (intent.infrastructure.compute.type === 'container') {
-      const ecsCost = 25; // Estimated $25/month for small instance
-      monthlyCost += ecsCost;
-      breakdown.push({
-        service: 'ECS Fargate',
-        cost: ecsCost,
-        unit: 'monthly',
-        description: 'Container hosting',
-      });
-    }
-
-    // Database costs
-    if (intent.infrastructure.database) {
-      let dbCost = 0;
-      if (intent.infrastructure.database.type === 'dynamodb') {
-        dbCost = 10; // Pay-per-use, estimated $10/month
-      } else if (intent.infrastructure.database.type === 'rds') {
-        dbCost =
-          intent.infrastructure.database.size === 'small'
-            ? 20
-            : intent.infrastructure.database.size === 'medium'
-              ? 50
-              : 100;
-      }
-      monthlyCost += dbCost;
-      breakdown.push({
-        service: intent.infrastructure.database.type.toUpperCase(),
-        cost: dbCost,
-        unit: 'monthly',
-        description: `${intent.infrastructure.database.size} database`,
-      });
-    }
-
-    // SSL Certificate (free with ACM)
-    if (intent.infrastructure.ssl) {
-      breakdown.push({
-        service: 'SSL Certificate',
-        cost: 0,
-        unit: 'monthly',
-        description: 'AWS Certificate Manager (free)',
-      });
-    }
-
-    return {
-      monthly: Math.round(monthlyCost * 100) / 100,
-      yearly: Math.round(monthlyCost * 12 * 100) / 100,
-      breakdown,
-      currency: 'USD',
-    };
+    return this.pricing.estimate(intent, usage);
   }
 
   /**
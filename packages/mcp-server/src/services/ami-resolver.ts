@@ -0,0 +1,151 @@
+import AWS from 'aws-sdk';
+
+export type Architecture = 'x86_64' | 'arm64';
+
+export type ImageFamily = 'ubuntu-22.04' | 'amazon-linux-2';
+
+/**
+ * Public SSM parameters holding the current AMI of each image, published by
+ * Canonical and Amazon in every region. Mirrors the frontend's AMI resolver.
+ */
+export const IMAGE_PARAMETERS: Record<
+  ImageFamily,
+  Record<Architecture, string>
+> = {
+  'ubuntu-22.04': {
+    x86_64:
+      '/aws/service/canonical/ubuntu/server/22.04/stable/current/amd64/hvm/ebs-gp2/ami-id',
+    arm64:
+      '/aws/service/canonical/ubuntu/server/22.04/stable/current/arm64/hvm/ebs-gp2/ami-id',
+  },
+  'amazon-linux-2': {
+    x86_64: '/aws/service/ami-amazon-linux-latest/amzn2-ami-hvm-x86_64-gp2',
+    arm64: '/aws/service/ami-amazon-linux-latest/amzn2-ami-hvm-arm64-gp2',
+  },
+};
+
+export const AMI_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+export class AmiNotFoundError extends Error {
+  constructor(
+    public readonly region: string,
+    public readonly parameter: string
+  ) {
+    super(`No AMI is published at ${parameter} in ${region}`);
+    this.name = 'AmiNotFoundError';
+  }
+}
+
+/**
+ * Reads one SSM parameter in a region, resolving to undefined when it does
+ * not exist
+ */
+export interface ParameterSource {
+  getParameter(region: string, name: string): Promise<string | undefined>;
+}
+
+export class SsmParameterSource implements ParameterSource {
+  private clients = new Map<string, AWS.SSM>();
+
+  async getParameter(
+    region: string,
+    name: string
+  ): Promise<string | undefined> {
+    let client = this.clients.get(region);
+    if (!client) {
+      client = new AWS.SSM({ region });
+      this.clients.set(region, client);
+    }
+    try {
+      const result = await client.getParameter({ Name: name }).promise();
+      return result.Parameter?.Value;
+    } catch (error: any) {
+      if (error?.code === 'ParameterNotFound') return undefined;
+      throw error;
+    }
+  }
+}
+
+/**
+ * Answers from fixed values keyed by parameter name, or by
+ * `${region}:${name}` for a single region, so AMI lookup can be exercised
+ * without an AWS account
+ */
+export class StubParameterSource implements ParameterSource {
+  readonly requests: Array<{ region: string; name: string }> = [];
+
+  constructor(private values: Record<string, string> = {}) {}
+
+  async getParameter(
+    region: string,
+    name: string
+  ): Promise<string | undefined> {
+    this.requests.push({ region, name });
+    return this.values[`${region}:${name}`] ?? this.values[name];
+  }
+}
+
+interface CachedImage {
+  imageId: Promise<string>;
+  expiresAt: number;
+}
+
+/**
+ * Resolves and caches the current AMI per region, image and architecture.
+ * Lookups are cached as promises so concurrent deployments share one
+ * request; failed lookups are dropped from the cache.
+ */
+export class AmiResolver {
+  private cache = new Map<string, CachedImage>();
+
+  constructor(
+    private source: ParameterSource = new SsmParameterSource(),
+    private ttlMs: number = AMI_CACHE_TTL_MS
+  ) {}
+
+  resolve(
+    region: string,
+    family: ImageFamily,
+    architecture: Architecture
+  ): Promise<string> {
+    const key = [region, family, architecture].join('|');
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.imageId;
+
+    const parameter = IMAGE_PARAMETERS[family][architecture];
+    const imageId = this.source
+      .getParameter(region, parameter)
+      .then((value) => {
+        if (!value) throw new AmiNotFoundError(region, parameter);
+        return value;
+      });
+    imageId.catch(() => {
+      if (this.cache.get(key)?.imageId === imageId) this.cache.delete(key);
+    });
+    this.cache.set(key, { imageId, expiresAt: Date.now() + this.ttlMs });
+    return imageId;
+  }
+
+  /**
+   * The image for an instance type, picking arm64 for Graviton types
+   */
+  resolveFor(
+    region: string,
+    family: ImageFamily,
+    instanceType: string
+  ): Promise<string> {
+    return this.resolve(region, family, architectureOf(instanceType));
+  }
+}
+
+/**
+ * Graviton families carry a g right after the generation number (t4g, m7gd,
+ * c6gn, im4gn), plus the first-generation a1. GPU families such as g4dn are
+ * x86_64.
+ */
+export function architectureOf(instanceType: string): Architecture {
+  const family = instanceType.split('.')[0].toLowerCase();
+  return family === 'a1' || /^[a-z]+\d+g[a-z-]*$/.test(family)
+    ? 'arm64'
+    : 'x86_64';
+}
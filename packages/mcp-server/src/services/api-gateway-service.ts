@@ -0,0 +1,152 @@
+import {
+  APIGatewayClient,
+  CreateRestApiCommand,
+  GetResourcesCommand,
+  CreateResourceCommand,
+  PutMethodCommand,
+  PutIntegrationCommand,
+  CreateDeploymentCommand,
+  DeleteRestApiCommand,
+} from '@aws-sdk/client-api-gateway';
+import { AWSResource } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { generateResourceName, createAwsTags } from '../utils/helpers.js';
+
+export interface LambdaProxyApi {
+  resource: AWSResource;
+  invokeUrl: string;
+  executeApiArn: string;
+}
+
+export class ApiGatewayService {
+  private apiGatewayClient: APIGatewayClient;
+  private region: string;
+
+  constructor(region: string = 'us-east-1', client?: APIGatewayClient) {
+    this.region = region;
+    this.apiGatewayClient = client || new APIGatewayClient({ region });
+  }
+
+  /**
+   * Create a REST API that proxies every path and method to a Lambda function.
+   * If any step after the API exists fails, the API is deleted again so it
+   * does not outlive the failed deployment.
+   */
+  async createLambdaProxyApi(
+    projectName: string,
+    environment: string,
+    functionArn: string,
+    stageName: string = 'prod'
+  ): Promise<LambdaProxyApi> {
+    const apiName = generateResourceName(projectName, 'api', environment);
+    const tags = createAwsTags(projectName, environment, {
+      ResourceType: 'rest-api',
+    });
+
+    logger.info(`Creating API Gateway REST API: ${apiName}`);
+    let restApiId: string | undefined;
+
+    try {
+      const api = await this.apiGatewayClient.send(
+        new CreateRestApiCommand({
+          name: apiName,
+          description: `HTTP API for ${projectName} (${environment})`,
+          endpointConfiguration: { types: ['REGIONAL'] },
+          tags,
+        })
+      );
+
+      if (!api.id) {
+        throw new Error('Failed to create REST API');
+      }
+      restApiId = api.id;
+
+      const resources = await this.apiGatewayClient.send(
+        new GetResourcesCommand({ restApiId: api.id })
+      );
+      const rootId = resources.items?.find((item) => item.path === '/')?.id;
+
+      if (!rootId) {
+        throw new Error('REST API root resource not found');
+      }
+
+      const proxy = await this.apiGatewayClient.send(
+        new CreateResourceCommand({
+          restApiId: api.id,
+          parentId: rootId,
+          pathPart: '{proxy+}',
+        })
+      );
+
+      // Route both "/" and "/{proxy+}" to the function
+      for (const resourceId of [rootId, proxy.id!]) {
+        await this.apiGatewayClient.send(
+          new PutMethodCommand({
+            restApiId: api.id,
+            resourceId,
+            httpMethod: 'ANY',
+            authorizationType: 'NONE',
+          })
+        );
+
+        await this.apiGatewayClient.send(
+          new PutIntegrationCommand({
+            restApiId: api.id,
+            resourceId,
+            httpMethod: 'ANY',
+            type: 'AWS_PROXY',
+            integrationHttpMethod: 'POST',
+            uri: `arn:aws:apigateway:${this.region}:lambda:path/2015-03-31/functions/${functionArn}/invocations`,
+          })
+        );
+      }
+
+      await this.apiGatewayClient.send(
+        new CreateDeploymentCommand({
+          restApiId: api.id,
+          stageName,
+          description: `Initial deployment of ${projectName}`,
+        })
+      );
+
+      // Function ARN: arn:aws:lambda:<region>:<account>:function:<name>
+      const accountId = functionArn.split(':')[4];
+      const invokeUrl = `https://${api.id}.execute-api.${this.region}.amazonaws.com/${stageName}`;
+
+      logger.info(`Successfully created REST API: ${apiName} (${invokeUrl})`);
+
+      return {
+        resource: {
+          id: api.id,
+          type: 'ApiGateway::RestApi',
+          arn: `arn:aws:apigateway:${this.region}::/restapis/${api.id}`,
+          region: this.region,
+          status: 'active',
+          tags,
+        },
+        invokeUrl,
+        executeApiArn: `arn:aws:execute-api:${this.region}:${accountId}:${api.id}`,
+      };
+    } catch (error) {
+      logger.error(`Failed to create REST API: ${apiName}`, { error });
+      if (restApiId) {
+        await this.deleteRestApi(restApiId).catch((cleanupError) =>
+          logger.error(`Failed to delete incomplete REST API: ${restApiId}`, {
+            error: cleanupError,
+          })
+        );
+      }
+      throw new Error(
+        `API Gateway creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Delete a REST API with all its resources and stages
+   */
+  async deleteRestApi(restApiId: string): Promise<void> {
+    logger.info(`Deleting API Gateway REST API: ${restApiId}`);
+    await this.apiGatewayClient.send(new DeleteRestApiCommand({ restApiId }));
+  }
+}
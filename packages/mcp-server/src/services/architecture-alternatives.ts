@@ -0,0 +1,155 @@
+/**
+ * Side-by-side alternatives to a deployment plan: one optimized for cost,
+ * one for performance and one balancing the two. Mirrored in
+ * packages/frontend/src/lib/architecture-alternatives.ts.
+ */
+
+import {
+  AlternativeArchitecturesResponse,
+  ARCHITECTURE_STRATEGIES,
+} from '../llm/index.js';
+
+export type ArchitectureStrategy = (typeof ARCHITECTURE_STRATEGIES)[number];
+
+type AlternativeResponse =
+  AlternativeArchitecturesResponse['alternatives'][number];
+
+export type AlternativeDeploymentPlan = AlternativeResponse['deploymentPlan'];
+
+/**
+ * A monthly cost range in USD, parsed from the free-text estimates models
+ * write ("$5-15/month", "$30 - $40", "~$0.50 per hour")
+ */
+export interface MonthlyCostRange {
+  min: number;
+  max: number;
+  currency: 'USD';
+}
+
+export interface ArchitectureAlternative {
+  strategy: ArchitectureStrategy;
+  label: string;
+  summary: string;
+  pros: string[];
+  cons: string[];
+  bestFor: string;
+  // Same shape as the plan from repository analysis, with
+  // estimated_monthly_cost rewritten from monthlyCost
+  deploymentPlan: AlternativeDeploymentPlan;
+  monthlyCost: MonthlyCostRange;
+}
+
+export const STRATEGY_LABELS: Record<ArchitectureStrategy, string> = {
+  cost: 'Cost-optimized',
+  performance: 'Performance-optimized',
+  hybrid: 'Hybrid',
+};
+
+const HOURS_PER_MONTH = 730;
+
+/**
+ * Parse a cost estimate into a monthly range, or undefined when it has no
+ * amount. Hourly and yearly figures are converted to monthly.
+ */
+export function parseMonthlyCost(text: string): MonthlyCostRange | undefined {
+  const amounts = [...text.matchAll(/\d[\d,]*(?:\.\d+)?/g)]
+    .slice(0, 2)
+    .map(([amount]) => Number(amount.replace(/,/g, '')));
+  if (amounts.length === 0) return undefined;
+
+  const perMonth = /\b(hour|hr)\b|\/\s*h\b/i.test(text)
+    ? HOURS_PER_MONTH
+    : /\b(year|yr|annual(ly)?)\b/i.test(text)
+      ? 1 / 12
+      : 1;
+  const [min, max] = amounts.map((amount) => roundCost(amount * perMonth));
+
+  return {
+    min: Math.min(min, max ?? min),
+    max: Math.max(min, max ?? min),
+    currency: 'USD',
+  };
+}
+
+export function formatMonthlyCost(range: MonthlyCostRange): string {
+  return range.min === range.max
+    ? `$${range.min}`
+    : `$${range.min}-${range.max}`;
+}
+
+/**
+ * The plan's total estimate, or the sum of its service estimates when the
+ * total has no amount
+ */
+export function planMonthlyCost(
+  plan: AlternativeDeploymentPlan
+): MonthlyCostRange {
+  const total = parseMonthlyCost(plan.estimated_monthly_cost);
+  if (total) return total;
+
+  return plan.services.reduce<MonthlyCostRange>(
+    (sum, service) => {
+      const cost = parseMonthlyCost(service.estimated_cost);
+      return cost
+        ? {
+            min: roundCost(sum.min + cost.min),
+            max: roundCost(sum.max + cost.max),
+            currency: 'USD',
+          }
+        : sum;
+    },
+    { min: 0, max: 0, currency: 'USD' }
+  );
+}
+
+/**
+ * Order a validated response by strategy and normalize its cost estimates
+ */
+export function toArchitectureAlternatives(
+  response: AlternativeArchitecturesResponse
+): ArchitectureAlternative[] {
+  return ARCHITECTURE_STRATEGIES.map((strategy) => {
+    const alternative = response.alternatives.find(
+      (candidate) => candidate.strategy === strategy
+    ) as AlternativeResponse;
+    const monthlyCost = planMonthlyCost(alternative.deploymentPlan);
+
+    return {
+      strategy,
+      label: STRATEGY_LABELS[strategy],
+      summary: alternative.summary,
+      pros: alternative.pros,
+      cons: alternative.cons,
+      bestFor: alternative.bestFor,
+      deploymentPlan: {
+        ...alternative.deploymentPlan,
+        estimated_monthly_cost: formatMonthlyCost(monthlyCost),
+      },
+      monthlyCost,
+    };
+  });
+}
+
+/**
+ * Markdown table comparing the alternatives, cheapest first
+ */
+export function formatAlternativesComparison(
+  alternatives: ArchitectureAlternative[]
+): string {
+  const rows = [...alternatives]
+    .sort((a, b) => a.monthlyCost.min - b.monthlyCost.min)
+    .map(
+      ({ label, deploymentPlan, monthlyCost }) =>
+        `| ${label} | ${deploymentPlan.architecture} | ${deploymentPlan.services.map((service) => service.type).join(', ')} | ${formatMonthlyCost(monthlyCost)}/month | ${deploymentPlan.deployment_time || 'unknown'} |`
+    );
+
+  return [
+    '| Option | Architecture | Services | Monthly Cost | Deployment Time |',
+    '| --- | --- | --- | --- | --- |',
+    ...rows,
+  ].join('\n');
+}
+
+function roundCost(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -1,8 +1,15 @@
 import {
-  BedrockRuntimeClient,
-  InvokeModelCommand,
-} from '@aws-sdk/client-bedrock-runtime';
+  completeStructured,
+  getLLMProvider,
+  LLMProvider,
+  repositoryAnalysisResponseSchema,
+  singleTurn,
+} from '../llm/index.js';
 import { logger } from '../utils/logger.js';
+import {
+  detectFrameworks,
+  formatRepositoryFacts,
+} from './framework-detector.js';
 
 interface RepositoryAnalysis {
   language: string;
@@ -48,82 +55,33 @@ interface RepositoryData {
 }
 
 export class BedrockAIService {
-  private client: BedrockRuntimeClient | null = null;
+  private llm: LLMProvider;
 
-  constructor() {
-    this.initialize();
-  }
-
-  private initialize() {
-    try {
-      // Check if we have a Bedrock API key or AWS credentials
-      const apiKey = process.env.AWS_BEDROCK_API_KEY;
-
-      if (apiKey && apiKey !== 'your_bedrock_api_key_here') {
-        logger.info('🔑 AWS Bedrock API key found');
-        // For direct API key, we'll handle it in the call method
-      } else {
-        // Try to initialize with standard AWS credentials
-        this.client = new BedrockRuntimeClient({
-          region: process.env.AWS_REGION || 'us-east-1',
-        });
-        logger.info('🔑 AWS Bedrock client initialized with AWS credentials');
-      }
-    } catch (error) {
-      logger.warn('⚠️ Failed to initialize Bedrock client', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
-    }
+  constructor(llm: LLMProvider = getLLMProvider()) {
+    this.llm = llm;
   }
 
   async analyzeRepository(
     repoData: RepositoryData,
     userPrompt: string
   ): Promise<{ analysis: RepositoryAnalysis; deploymentPlan: DeploymentPlan }> {
-    logger.info('🤖 Starting Bedrock AI analysis');
+    logger.info(
+      `🤖 Starting AI analysis (${this.llm.kind}: ${this.llm.model})`
+    );
 
     const prompt = this.buildAnalysisPrompt(repoData, userPrompt);
 
     try {
-      const apiKey = process.env.AWS_BEDROCK_API_KEY;
-
-      // If we have an API key, try to use it directly
-      if (apiKey && apiKey !== 'your_bedrock_api_key_here') {
-        logger.info('🔗 Using Bedrock API key');
-        return await this.callBedrockWithApiKey(apiKey, prompt);
-      }
-
-      // Otherwise use standard AWS SDK approach
-      if (!this.client) {
-        throw new Error(
-          'Bedrock client not initialized. Please check AWS configuration.'
-        );
-      }
-
-      logger.info('🔗 Using AWS SDK Bedrock client');
-      const command = new InvokeModelCommand({
-        modelId: 'anthropic.claude-3-sonnet-20240229-v1:0',
-        contentType: 'application/json',
-        accept: 'application/json',
-        body: JSON.stringify({
-          anthropic_version: 'bedrock-2023-05-31',
-          max_tokens: 4000,
-          messages: [
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-        }),
-      });
-
-      const response = await this.client.send(command);
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+      const result = await completeStructured(
+        this.llm,
+        singleTurn('repository-analysis', prompt),
+        repositoryAnalysisResponseSchema
+      );
 
-      logger.info('✅ Bedrock analysis completed successfully');
-      return JSON.parse(responseBody.content[0].text);
+      logger.info('✅ AI analysis completed successfully');
+      return result;
     } catch (error) {
-      logger.error('❌ Bedrock AI analysis failed', {
+      logger.error('❌ AI analysis failed', {
         error: error instanceof Error ? error.message : 'Unknown error',
       });
       throw new Error(
@@ -134,48 +92,6 @@ export class BedrockAIService {
     }
   }
 
-  private async callBedrockWithApiKey(apiKey: string, prompt: string) {
-    try {
-      // If your API key is a URL, make a direct HTTP request
-      if (apiKey.includes('http')) {
-        logger.info('🌐 Making HTTP request to Bedrock API endpoint');
-        const response = await fetch(apiKey, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            anthropic_version: 'bedrock-2023-05-31',
-            max_tokens: 4000,
-            messages: [
-              {
-                role: 'user',
-                content: prompt,
-              },
-            ],
-          }),
-        });
-
-        if (!response.ok) {
-          throw new Error(`API request failed: ${response.statusText}`);
-        }
-
-        const responseBody = (await response.json()) as any;
-        return JSON.parse(responseBody.content[0].text);
-      } else {
-        // Handle other API key formats
-        throw new Error(
-          'API key format not supported. Please provide a valid Bedrock endpoint URL.'
-        );
-      }
-    } catch (error) {
-      logger.error('❌ Bedrock API key request failed', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
-      throw error;
-    }
-  }
-
   private buildAnalysisPrompt(
     repoData: RepositoryData,
     userPrompt: string
@@ -203,6 +119,11 @@ ${repoData.readme ? `\`\`\`\n${repoData.readme.slice(0, 1000)}${repoData.readme.
 ## Key Project Files:
 ${fileAnalysis || 'No key files accessible (this may be a private repository)'}
 
+## Rule-Based Detection:
+These facts were derived directly from the files above. Treat them as ground truth and only depart from them when the file contents clearly show otherwise.
+
+${formatRepositoryFacts(detectFrameworks(repoData))}
+
 ## User Requirements:
 ${userPrompt}
 
@@ -0,0 +1,158 @@
+import { BudgetAlert, NotificationEvent } from '../types/index.js';
+import { DeploymentStore } from '../storage/index.js';
+import {
+  describeEvent,
+  getNotifier,
+  Notifier,
+} from '../notifications/index.js';
+import { logger } from '../utils/logger.js';
+import { CostCollector } from './cost-collector.js';
+import { Budget, BudgetGuard, getDeploymentBudget } from './budget-guard.js';
+
+/**
+ * Thresholds already alerted on, kept in the deployment record state
+ */
+interface AlertState {
+  month: string;
+  notified: number[];
+}
+
+/**
+ * Compares collected spend with deployment and user budgets and alerts once
+ * per threshold per month. A threshold only counts as alerted once a channel
+ * has delivered it, so failed deliveries are retried on the next check.
+ */
+export class BudgetMonitor {
+  // The user budget has no record to keep this in; a restart may repeat
+  // the latest alert once
+  private userAlerts: AlertState = { month: '', notified: [] };
+
+  constructor(
+    private store: DeploymentStore,
+    private costCollector: CostCollector,
+    private guard: BudgetGuard,
+    private notifier: Notifier = getNotifier()
+  ) {}
+
+  async check(now: Date = new Date()): Promise<BudgetAlert[]> {
+    if (!this.guard.preferences.costAlerts) {
+      return [];
+    }
+
+    const month = now.toISOString().slice(0, 7);
+    const records = (await this.store.list()).filter(
+      (record) => !['planned', 'destroyed'].includes(record.status)
+    );
+    const alerts: BudgetAlert[] = [];
+
+    for (const record of records) {
+      const budget = this.guard.deploymentBudget(getDeploymentBudget(record));
+      const variance = this.costCollector.getVariance(record, now);
+      if (!budget || !variance.collectedAt) continue;
+
+      const previous = record.state.budgetAlerts as AlertState | undefined;
+      const state =
+        previous?.month === month ? previous : { month, notified: [] };
+      const reached = this.newlyCrossed(
+        budget,
+        variance.actualMonthToDate,
+        state
+      );
+      if (reached.length === 0) continue;
+
+      const alert: BudgetAlert = {
+        scope: 'deployment',
+        name: record.name,
+        deploymentId: record.id,
+        limit: budget.limit,
+        threshold: Math.max(...reached),
+        actualMonthToDate: variance.actualMonthToDate,
+        projectedMonthly: variance.projectedMonthly,
+        month,
+      };
+      alerts.push(alert);
+      if (await this.notify(alert)) {
+        await this.store.save({
+          ...record,
+          state: {
+            ...record.state,
+            budgetAlerts: { month, notified: [...state.notified, ...reached] },
+          },
+        });
+      }
+    }
+
+    const userBudget = this.guard.userBudget();
+    if (userBudget) {
+      if (this.userAlerts.month !== month) {
+        this.userAlerts = { month, notified: [] };
+      }
+      const monthlyCost = this.costCollector.getSpendTotals(
+        records,
+        now
+      ).monthlyCost;
+      const reached = this.newlyCrossed(
+        userBudget,
+        monthlyCost,
+        this.userAlerts
+      );
+      if (reached.length > 0) {
+        const projectedMonthly = records.reduce(
+          (sum, record) =>
+            sum + this.costCollector.getVariance(record, now).projectedMonthly,
+          0
+        );
+        const alert: BudgetAlert = {
+          scope: 'user',
+          name: 'All deployments',
+          limit: userBudget.limit,
+          threshold: Math.max(...reached),
+          actualMonthToDate: monthlyCost,
+          projectedMonthly: Math.round(projectedMonthly * 100) / 100,
+          month,
+        };
+        alerts.push(alert);
+        if (await this.notify(alert)) {
+          this.userAlerts.notified.push(...reached);
+        }
+      }
+    }
+
+    return alerts;
+  }
+
+  /**
+   * The thresholds the spend has reached that have not been alerted on yet
+   */
+  private newlyCrossed(
+    budget: Budget,
+    spend: number,
+    state: AlertState
+  ): number[] {
+    return budget.thresholds.filter(
+      (threshold) =>
+        spend >= (budget.limit * threshold) / 100 &&
+        !state.notified.includes(threshold)
+    );
+  }
+
+  /**
+   * Whether the alert was delivered. Without channels the log line is the
+   * alert.
+   */
+  private async notify(alert: BudgetAlert): Promise<boolean> {
+    const event: NotificationEvent = {
+      type: 'budget.threshold_crossed',
+      name: alert.name,
+      deploymentId: alert.deploymentId,
+      timestamp: new Date(),
+      links: {},
+      alert,
+    };
+    logger.warn(describeEvent(event), { deploymentId: alert.deploymentId });
+    if (!this.notifier.enabled) {
+      return true;
+    }
+    return (await this.notifier.notify(event)) > 0;
+  }
+}
@@ -0,0 +1,135 @@
+import { UserPreferences } from '../types/index.js';
+import { DeploymentRecord, DeploymentStore } from '../storage/index.js';
+import { logger } from '../utils/logger.js';
+import { loadUserPreferences } from '../utils/preferences.js';
+import { CostCollector } from './cost-collector.js';
+
+export const DEFAULT_ALERT_THRESHOLDS = [80, 100];
+
+// Deployments whose spend no longer counts against the user budget
+const INACTIVE_STATUSES = ['planned', 'failed', 'destroyed'];
+
+/**
+ * A monthly limit and the percentages of it that raise alerts
+ */
+export interface Budget {
+  limit: number;
+  scope: 'deployment' | 'user';
+  thresholds: number[];
+}
+
+/**
+ * A deployment's estimate does not fit its own budget or what is left of
+ * the user's
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly budget: Budget,
+    public readonly estimatedMonthly: number,
+    // Other deployments' monthly cost, for the user budget
+    public readonly committedMonthly: number = 0
+  ) {
+    super(
+      budget.scope === 'deployment'
+        ? `Estimated cost $${estimatedMonthly.toFixed(2)}/month exceeds the deployment budget of $${budget.limit.toFixed(2)}/month`
+        : `Estimated cost $${estimatedMonthly.toFixed(2)}/month plus $${committedMonthly.toFixed(2)}/month for existing deployments exceeds the monthly budget of $${budget.limit.toFixed(2)}`
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * The budget a deployment was requested with, kept in its stored request
+ */
+export function getDeploymentBudget(
+  record: DeploymentRecord
+): number | undefined {
+  return record.state.request?.monthlyBudget;
+}
+
+/**
+ * Blocks deployments whose estimate does not fit the deployment's budget or
+ * the user's monthly budget
+ */
+export class BudgetGuard {
+  constructor(
+    private store: DeploymentStore,
+    private costCollector: CostCollector,
+    readonly preferences: UserPreferences = loadUserPreferences()
+  ) {}
+
+  get thresholds(): number[] {
+    return this.preferences.budgetAlertThresholds || DEFAULT_ALERT_THRESHOLDS;
+  }
+
+  deploymentBudget(monthlyBudget?: number): Budget | undefined {
+    return monthlyBudget
+      ? {
+          limit: monthlyBudget,
+          scope: 'deployment',
+          thresholds: this.thresholds,
+        }
+      : undefined;
+  }
+
+  userBudget(): Budget | undefined {
+    return this.preferences.monthlyBudget
+      ? {
+          limit: this.preferences.monthlyBudget,
+          scope: 'user',
+          thresholds: this.thresholds,
+        }
+      : undefined;
+  }
+
+  /**
+   * Throw BudgetExceededError if the estimate does not fit. Existing
+   * deployments count at their estimate or, once spend has been collected,
+   * their projected spend if that is higher.
+   */
+  async check(
+    deploymentId: string,
+    estimatedMonthly: number,
+    monthlyBudget?: number
+  ): Promise<void> {
+    const deploymentBudget = this.deploymentBudget(monthlyBudget);
+    if (deploymentBudget && estimatedMonthly > deploymentBudget.limit) {
+      throw new BudgetExceededError(deploymentBudget, estimatedMonthly);
+    }
+
+    const userBudget = this.userBudget();
+    if (!userBudget) {
+      return;
+    }
+
+    const others = (await this.store.list()).filter(
+      (record) =>
+        record.id !== deploymentId && !INACTIVE_STATUSES.includes(record.status)
+    );
+    const committed = others.reduce(
+      (sum, record) => sum + this.monthlyCommitment(record),
+      0
+    );
+    if (estimatedMonthly + committed > userBudget.limit) {
+      throw new BudgetExceededError(
+        userBudget,
+        estimatedMonthly,
+        Math.round(committed * 100) / 100
+      );
+    }
+
+    logger.info(`Deployment ${deploymentId} fits the monthly budget`, {
+      estimatedMonthly,
+      committed,
+      limit: userBudget.limit,
+    });
+  }
+
+  private monthlyCommitment(record: DeploymentRecord): number {
+    const variance = this.costCollector.getVariance(record);
+    return Math.max(
+      variance.estimatedMonthly || 0,
+      variance.collectedAt ? variance.projectedMonthly : 0
+    );
+  }
+}
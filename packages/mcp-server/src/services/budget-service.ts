@@ -0,0 +1,122 @@
+import AWS from 'aws-sdk';
+import { AWSResource } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+export interface BudgetAlarmParams {
+  name: string;
+  limit: number;
+  // Percentages of the limit that email the subscribers
+  thresholds: number[];
+  // Cost allocation tags in "Key$Value" form; spend matching any is counted
+  tagFilters: string[];
+  email?: string;
+}
+
+const BUDGET_NAME_PREFIX = 'aws-deploy-ai-';
+
+/**
+ * AWS Budgets alarms for deployments. Budgets are account-wide and the API
+ * is only served from us-east-1.
+ */
+export class BudgetService {
+  private budgets: AWS.Budgets;
+  private sts: AWS.STS;
+  private accountId?: string;
+
+  constructor(budgets?: AWS.Budgets, sts?: AWS.STS) {
+    this.budgets = budgets || new AWS.Budgets({ region: 'us-east-1' });
+    this.sts = sts || new AWS.STS();
+  }
+
+  static budgetName(suffix: string): string {
+    // Budget names are limited to 100 characters
+    return `${BUDGET_NAME_PREFIX}${suffix}`.slice(0, 100);
+  }
+
+  /**
+   * Create a monthly cost budget that emails when actual spend crosses each
+   * threshold
+   */
+  async createBudgetAlarm(params: BudgetAlarmParams): Promise<AWSResource> {
+    const accountId = await this.getAccountId();
+    logger.info(`Creating budget alarm: ${params.name}`, {
+      limit: params.limit,
+    });
+
+    await this.budgets
+      .createBudget({
+        AccountId: accountId,
+        Budget: this.toBudget(params),
+        // Every notification needs a subscriber; without an email the
+        // budget is still visible in the console and to the cost monitor
+        NotificationsWithSubscribers: params.email
+          ? params.thresholds.map((threshold) => ({
+              Notification: {
+                NotificationType: 'ACTUAL',
+                ComparisonOperator: 'GREATER_THAN',
+                Threshold: threshold,
+                ThresholdType: 'PERCENTAGE',
+              },
+              Subscribers: [
+                { SubscriptionType: 'EMAIL', Address: params.email! },
+              ],
+            }))
+          : undefined,
+      })
+      .promise();
+
+    return {
+      id: params.name,
+      type: 'Budgets::Budget',
+      arn: `arn:aws:budgets::${accountId}:budget/${params.name}`,
+      region: 'global',
+      status: 'active',
+      tags: {},
+    };
+  }
+
+  /**
+   * Create the budget, or update its limit and filters if it already exists
+   */
+  async ensureBudgetAlarm(params: BudgetAlarmParams): Promise<void> {
+    try {
+      await this.createBudgetAlarm(params);
+    } catch (error) {
+      if ((error as AWS.AWSError).code !== 'DuplicateRecordException') {
+        throw error;
+      }
+      await this.budgets
+        .updateBudget({
+          AccountId: await this.getAccountId(),
+          NewBudget: this.toBudget(params),
+        })
+        .promise();
+    }
+  }
+
+  async deleteBudget(name: string): Promise<void> {
+    await this.budgets
+      .deleteBudget({ AccountId: await this.getAccountId(), BudgetName: name })
+      .promise();
+  }
+
+  private toBudget(params: BudgetAlarmParams): AWS.Budgets.Budget {
+    return {
+      BudgetName: params.name,
+      BudgetLimit: { Amount: params.limit.toFixed(2), Unit: 'USD' },
+      TimeUnit: 'MONTHLY',
+      BudgetType: 'COST',
+      CostFilters: {
+        TagKeyValue: params.tagFilters.map((filter) => `user:${filter}`),
+      },
+    };
+  }
+
+  private async getAccountId(): Promise<string> {
+    if (!this.accountId) {
+      const identity = await this.sts.getCallerIdentity().promise();
+      this.accountId = identity.Account!;
+    }
+    return this.accountId;
+  }
+}
@@ -2,6 +2,10 @@ import {
   CloudFrontClient,
   CreateDistributionCommand,
   GetDistributionCommand,
+  GetDistributionConfigCommand,
+  UpdateDistributionCommand,
+  DeleteDistributionCommand,
+  TagResourceCommand,
   CreateDistributionResult,
   Distribution,
 } from '@aws-sdk/client-cloudfront';
@@ -13,9 +17,9 @@ export class CloudFrontService {
   private cloudFrontClient: CloudFrontClient;
   private region: string;
 
-  constructor(region: string = 'us-east-1') {
+  constructor(region: string = 'us-east-1', client?: CloudFrontClient) {
     this.region = region;
-    this.cloudFrontClient = new CloudFrontClient({ region });
+    this.cloudFrontClient = client || new CloudFrontClient({ region });
   }
 
   /**
@@ -26,13 +30,13 @@ export class CloudFrontService {
     projectName: string,
     environment: string,
     customDomain?: string,
-    certificateArn?: string
-  ): Promise<AWSResource> {
-    const callerReference = generateResourceName(
+    certificateArn?: string,
+    callerReference: string = generateResourceName(
       projectName,
       'cdn',
       environment
-    );
+    )
+  ): Promise<AWSResource> {
     const websiteUrl = this.getS3WebsiteEndpoint(bucketName, this.region);
 
     logger.info(`Creating CloudFront distribution for bucket: ${bucketName}`);
@@ -115,6 +119,19 @@ export class CloudFrontService {
       }
 
       const distribution = result.Distribution;
+      const tags = createAwsTags(projectName, environment, {
+        ResourceType: 'cdn-distribution',
+        BucketName: bucketName,
+      });
+
+      await this.cloudFrontClient.send(
+        new TagResourceCommand({
+          Resource: distribution.ARN!,
+          Tags: {
+            Items: Object.entries(tags).map(([Key, Value]) => ({ Key, Value })),
+          },
+        })
+      );
 
       const resource: AWSResource = {
         id: distribution.Id!,
@@ -122,10 +139,7 @@ export class CloudFrontService {
         arn: distribution.ARN!,
         region: 'global', // CloudFront is global
         status: distribution.Status!,
-        tags: createAwsTags(projectName, environment, {
-          ResourceType: 'cdn-distribution',
-          BucketName: bucketName,
-        }),
+        tags,
       };
 
       logger.info(
@@ -180,6 +194,45 @@ export class CloudFrontService {
     }
   }
 
+  /**
+   * Delete a distribution. Enabled distributions are disabled first and can
+   * only be deleted once that change has deployed, so this returns
+   * 'disabling' until a later call succeeds.
+   */
+  async deleteDistribution(
+    distributionId: string
+  ): Promise<'deleted' | 'disabling'> {
+    const current = await this.cloudFrontClient.send(
+      new GetDistributionConfigCommand({ Id: distributionId })
+    );
+
+    if (current.DistributionConfig?.Enabled) {
+      logger.info(`Disabling CloudFront distribution: ${distributionId}`);
+      await this.cloudFrontClient.send(
+        new UpdateDistributionCommand({
+          Id: distributionId,
+          IfMatch: current.ETag,
+          DistributionConfig: { ...current.DistributionConfig, Enabled: false },
+        })
+      );
+      return 'disabling';
+    }
+
+    const info = await this.getDistributionInfo(distributionId);
+    if (info.status !== 'Deployed') {
+      return 'disabling';
+    }
+
+    await this.cloudFrontClient.send(
+      new DeleteDistributionCommand({
+        Id: distributionId,
+        IfMatch: current.ETag,
+      })
+    );
+    logger.info(`Deleted CloudFront distribution: ${distributionId}`);
+    return 'deleted';
+  }
+
   /**
    * Get S3 website endpoint for region
    */
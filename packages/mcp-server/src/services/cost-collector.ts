@@ -0,0 +1,412 @@
+import { AWSResource, UsageStats } from '../types/index.js';
+import { DeploymentRecord, DeploymentStore } from '../storage/index.js';
+import { logger } from '../utils/logger.js';
+import {
+  AwsCostExplorer,
+  CostExplorerApi,
+  GetCostAndUsageResponse,
+} from './cost-explorer.js';
+
+export interface DailyCost {
+  date: string;
+  amount: number;
+}
+
+/**
+ * Spend Cost Explorer attributed to one deployment, kept in its record state
+ */
+export interface ActualSpend {
+  currency: 'USD';
+  // Oldest first
+  daily: DailyCost[];
+  // Month to date, by Cost Explorer service name
+  byService: Record<string, number>;
+  // The cost allocation tag the spend was matched on
+  matchedBy: 'DeploymentId' | 'Project';
+  collectedAt: string;
+}
+
+export interface CostVariance {
+  currency: 'USD';
+  estimatedMonthly?: number;
+  actualMonthToDate: number;
+  // Month to date extrapolated over the whole month
+  projectedMonthly: number;
+  // Projected minus estimated, as a percentage of the estimate
+  variancePercent?: number;
+  daily: DailyCost[];
+  collectedAt?: string;
+}
+
+export interface CostCollectorOptions {
+  // Days re-read on every collection; Cost Explorer revises recent days
+  lookbackDays?: number;
+  // Daily actuals older than this are dropped
+  retentionDays?: number;
+  // Minimum time between Cost Explorer queries from collectIfStale
+  minIntervalMs?: number;
+}
+
+const METRIC = 'UnblendedCost';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Which Cost Explorer service bills each resource type
+const RESOURCE_SERVICES: Record<string, string> = {
+  'S3::Bucket': 'Amazon Simple Storage Service',
+  'CloudFront::Distribution': 'Amazon CloudFront',
+  'Lambda::Function': 'AWS Lambda',
+  'EC2::Instance': 'Amazon Elastic Compute Cloud - Compute',
+  'ApiGateway::RestApi': 'Amazon API Gateway',
+  'ECR::Repository': 'Amazon EC2 Container Registry (ECR)',
+  'ECR::Image': 'Amazon EC2 Container Registry (ECR)',
+};
+
+// Spend per tag value, per day, per service
+type TaggedCosts = Map<string, Map<string, Map<string, number>>>;
+
+/**
+ * Collects daily actual spend per deployment from Cost Explorer, grouped by
+ * the DeploymentId and Project tags the deployers set, and compares it with
+ * the estimate the deployment was planned with.
+ *
+ * The tags only show up in Cost Explorer once they are activated as cost
+ * allocation tags in the Billing console.
+ */
+export class CostCollector {
+  private lookbackDays: number;
+  private retentionDays: number;
+  private minIntervalMs: number;
+  private lastCollected = 0;
+  private collecting?: Promise<number>;
+
+  constructor(
+    private store: DeploymentStore,
+    private costExplorer: CostExplorerApi = new AwsCostExplorer(),
+    options: CostCollectorOptions = {}
+  ) {
+    this.lookbackDays = options.lookbackDays ?? 14;
+    this.retentionDays = options.retentionDays ?? 90;
+    this.minIntervalMs = options.minIntervalMs ?? 6 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Collect unless the last collection was recent. Cost Explorer refreshes
+   * at most a few times a day and bills every request. Returns whether new
+   * actuals were stored.
+   */
+  async collectIfStale(): Promise<boolean> {
+    if (this.collecting) {
+      await this.collecting.catch(() => undefined);
+      return false;
+    }
+    if (Date.now() - this.lastCollected < this.minIntervalMs) {
+      return false;
+    }
+
+    try {
+      return (await this.collect()) > 0;
+    } catch (error) {
+      logger.warn('Failed to collect deployment costs', {
+        error: error instanceof Error ? error.message : error,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Query Cost Explorer and store the daily actuals of every deployment it
+   * has spend for. Returns the number of deployments updated.
+   */
+  async collect(now: Date = new Date()): Promise<number> {
+    this.collecting = this.collectAll(now);
+    try {
+      return await this.collecting;
+    } finally {
+      // Failures wait out the interval too rather than retrying every call
+      this.lastCollected = Date.now();
+      this.collecting = undefined;
+    }
+  }
+
+  /**
+   * Compare a deployment's stored actuals with its planned estimate
+   */
+  getVariance(record: DeploymentRecord, now: Date = new Date()): CostVariance {
+    const spend = record.state.actualSpend as ActualSpend | undefined;
+    // Deployments made without a stored plan record their estimate directly
+    const estimatedMonthly = (record.state.plan?.estimatedMonthlyCost ??
+      record.state.estimatedMonthlyCost) as number | undefined;
+    const monthStart = toDate(startOfMonth(now));
+    const monthToDate = (spend?.daily || []).filter(
+      (day) => day.date >= monthStart
+    );
+    const actualMonthToDate = roundCents(
+      monthToDate.reduce((sum, day) => sum + day.amount, 0)
+    );
+
+    // Extrapolate from the days the deployment has existed this month
+    const firstDay = new Date(
+      Math.max(
+        startOfMonth(now).getTime(),
+        new Date(toDate(new Date(record.createdAt))).getTime()
+      )
+    );
+    const daysCovered = Math.max(
+      1,
+      Math.ceil((now.getTime() - firstDay.getTime()) / DAY_MS)
+    );
+    const daysRemaining =
+      (startOfMonth(now, 1).getTime() - now.getTime()) / DAY_MS;
+    const projectedMonthly = roundCents(
+      actualMonthToDate + (actualMonthToDate / daysCovered) * daysRemaining
+    );
+
+    return {
+      currency: 'USD',
+      estimatedMonthly,
+      actualMonthToDate,
+      projectedMonthly,
+      ...(estimatedMonthly &&
+        spend && {
+          variancePercent: Math.round(
+            ((projectedMonthly - estimatedMonthly) / estimatedMonthly) * 100
+          ),
+        }),
+      daily: (spend?.daily || []).slice(-7),
+      collectedAt: spend?.collectedAt,
+    };
+  }
+
+  /**
+   * Total and month-to-date spend across deployments
+   */
+  getSpendTotals(
+    records: DeploymentRecord[],
+    now: Date = new Date()
+  ): Pick<UsageStats, 'totalCost' | 'monthlyCost'> {
+    const monthStart = toDate(startOfMonth(now));
+    let totalCost = 0;
+    let monthlyCost = 0;
+    for (const record of records) {
+      for (const day of (record.state.actualSpend as ActualSpend | undefined)
+        ?.daily || []) {
+        totalCost += day.amount;
+        if (day.date >= monthStart) monthlyCost += day.amount;
+      }
+    }
+    return {
+      totalCost: roundCents(totalCost),
+      monthlyCost: roundCents(monthlyCost),
+    };
+  }
+
+  private async collectAll(now: Date): Promise<number> {
+    const lookbackStart = new Date(now.getTime() - this.lookbackDays * DAY_MS);
+    // Reach back to the 1st so month-to-date service totals are complete
+    const start = toDate(
+      new Date(Math.min(lookbackStart.getTime(), startOfMonth(now).getTime()))
+    );
+    // End is exclusive; include today's partial spend
+    const end = toDate(new Date(now.getTime() + DAY_MS));
+
+    const records = (await this.store.list()).filter(
+      (record) => record.status !== 'planned'
+    );
+    if (records.length === 0) {
+      return 0;
+    }
+
+    const byDeploymentId = await this.queryByTag('DeploymentId', start, end);
+    const unmatched = records.filter(
+      (record) => !byDeploymentId.has(record.id)
+    );
+    // Older resources only carry the Project tag, which is the record name
+    const byProject =
+      unmatched.length > 0
+        ? await this.queryByTag('Project', start, end)
+        : new Map();
+
+    let updated = 0;
+    for (const record of records) {
+      let costs = byDeploymentId.get(record.id);
+      let matchedBy: ActualSpend['matchedBy'] = 'DeploymentId';
+      if (
+        !costs &&
+        unmatched.filter((other) => other.name === record.name).length === 1
+      ) {
+        costs = byProject.get(record.name);
+        matchedBy = 'Project';
+      }
+      if (!costs) continue;
+
+      // Re-read so a deployment saved meanwhile is not overwritten
+      const latest = (await this.store.get(record.id)) || record;
+      const spend = this.mergeSpend(
+        latest.state.actualSpend,
+        costs,
+        start,
+        now,
+        matchedBy
+      );
+      await this.store.save({
+        ...latest,
+        resources: this.attributeToResources(latest.resources, spend),
+        state: { ...latest.state, actualSpend: spend },
+      });
+      updated++;
+    }
+
+    logger.info(`Collected actual costs for ${updated} deployment(s)`, {
+      start,
+      end,
+    });
+    return updated;
+  }
+
+  private async queryByTag(
+    tagKey: 'DeploymentId' | 'Project',
+    start: string,
+    end: string
+  ): Promise<TaggedCosts> {
+    const costs: TaggedCosts = new Map();
+    let nextPageToken: string | undefined;
+
+    do {
+      const response: GetCostAndUsageResponse =
+        await this.costExplorer.getCostAndUsage({
+          TimePeriod: { Start: start, End: end },
+          Granularity: 'DAILY',
+          Metrics: [METRIC],
+          GroupBy: [
+            { Type: 'TAG', Key: tagKey },
+            { Type: 'DIMENSION', Key: 'SERVICE' },
+          ],
+          NextPageToken: nextPageToken,
+        });
+
+      for (const result of response.ResultsByTime || []) {
+        const date = result.TimePeriod!.Start;
+        for (const group of result.Groups || []) {
+          const [tag, service] = group.Keys || [];
+          // Keys look like "DeploymentId$<value>"; untagged spend has no value
+          const value = tag?.slice(tagKey.length + 1);
+          const amount = Number(group.Metrics?.[METRIC]?.Amount || 0);
+          if (!value || !amount) continue;
+
+          const days = costs.get(value) || new Map();
+          const services = days.get(date) || new Map();
+          services.set(service, (services.get(service) || 0) + amount);
+          days.set(date, services);
+          costs.set(value, days);
+        }
+      }
+      nextPageToken = response.NextPageToken;
+    } while (nextPageToken);
+
+    return costs;
+  }
+
+  private mergeSpend(
+    previous: ActualSpend | undefined,
+    costs: Map<string, Map<string, number>>,
+    start: string,
+    now: Date,
+    matchedBy: ActualSpend['matchedBy']
+  ): ActualSpend {
+    const retainFrom = toDate(
+      new Date(now.getTime() - this.retentionDays * DAY_MS)
+    );
+    const monthStart = toDate(startOfMonth(now));
+
+    // The queried window replaces what was stored for it
+    const daily = new Map<string, number>(
+      (previous?.daily || [])
+        .filter((day) => day.date < start && day.date >= retainFrom)
+        .map((day) => [day.date, day.amount])
+    );
+    const byService: Record<string, number> = {};
+    for (const [date, services] of costs) {
+      let total = 0;
+      for (const [service, amount] of services) {
+        total += amount;
+        if (date >= monthStart) {
+          byService[service] = (byService[service] || 0) + amount;
+        }
+      }
+      daily.set(date, roundCents(total));
+    }
+
+    return {
+      currency: 'USD',
+      daily: Array.from(daily, ([date, amount]) => ({ date, amount })).sort(
+        (a, b) => a.date.localeCompare(b.date)
+      ),
+      byService: Object.fromEntries(
+        Object.entries(byService).map(([service, amount]) => [
+          service,
+          roundCents(amount),
+        ])
+      ),
+      matchedBy,
+      collectedAt: now.toISOString(),
+    };
+  }
+
+  /**
+   * Set each resource's cost to its service's month-to-date spend, where the
+   * resource is the deployment's only one billed under that service
+   */
+  private attributeToResources(
+    resources: AWSResource[],
+    spend: ActualSpend
+  ): AWSResource[] {
+    return resources.map((resource) => {
+      const service = RESOURCE_SERVICES[resource.type];
+      const sharesService = resources.some(
+        (other) =>
+          other !== resource && RESOURCE_SERVICES[other.type] === service
+      );
+      if (!service || sharesService) {
+        return resource;
+      }
+      return { ...resource, cost: spend.byService[service] || 0 };
+    });
+  }
+}
+
+function startOfMonth(date: Date, offset: number = 0): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offset, 1)
+  );
+}
+
+function toDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Markdown estimate-vs-actual section for deployment status output
+ */
+export function formatCostVariance(variance: CostVariance): string {
+  if (!variance.collectedAt) {
+    return `**Actual Cost:** not collected yet${variance.estimatedMonthly !== undefined ? ` (estimated $${variance.estimatedMonthly.toFixed(2)}/month)` : ''}. Spend shows up once Cost Explorer reports it for the DeploymentId tag, usually within a day.`;
+  }
+
+  const lines = [
+    '**Estimate vs Actual:**',
+    `• Estimated: ${variance.estimatedMonthly !== undefined ? `$${variance.estimatedMonthly.toFixed(2)}/month` : 'unknown'}`,
+    `• Month to date: $${variance.actualMonthToDate.toFixed(2)}`,
+    `• Projected: $${variance.projectedMonthly.toFixed(2)}/month${variance.variancePercent !== undefined ? ` (${variance.variancePercent >= 0 ? '+' : ''}${variance.variancePercent}% vs estimate)` : ''}`,
+  ];
+  if (variance.daily.length > 0) {
+    lines.push(
+      `• Last ${variance.daily.length} day(s): ${variance.daily.map((day) => `${day.date.slice(5)} $${day.amount.toFixed(2)}`).join(', ')}`
+    );
+  }
+  lines.push(`_Collected ${variance.collectedAt}_`);
+  return lines.join('\n');
+}
@@ -0,0 +1,125 @@
+import { readFileSync } from 'fs';
+import AWS from 'aws-sdk';
+import { logger } from '../utils/logger.js';
+
+export type GetCostAndUsageRequest = AWS.CostExplorer.GetCostAndUsageRequest;
+export type GetCostAndUsageResponse = AWS.CostExplorer.GetCostAndUsageResponse;
+
+/**
+ * The Cost Explorer call the cost collector makes. Each real request is
+ * billed by AWS, so callers should batch and throttle them.
+ */
+export interface CostExplorerApi {
+  getCostAndUsage(
+    request: GetCostAndUsageRequest
+  ): Promise<GetCostAndUsageResponse>;
+}
+
+export class AwsCostExplorer implements CostExplorerApi {
+  private client: AWS.CostExplorer;
+
+  constructor(client?: AWS.CostExplorer) {
+    // Cost Explorer is only served from us-east-1
+    this.client = client || new AWS.CostExplorer({ region: 'us-east-1' });
+  }
+
+  async getCostAndUsage(
+    request: GetCostAndUsageRequest
+  ): Promise<GetCostAndUsageResponse> {
+    return this.client.getCostAndUsage(request).promise();
+  }
+}
+
+/**
+ * One day of spend for the stub, with the tags Cost Explorer would group it by
+ */
+export interface StubCostEntry {
+  date: string;
+  amount: number;
+  service?: string;
+  tags?: Record<string, string>;
+}
+
+/**
+ * Answers Cost Explorer queries from fixed entries, so cost collection can be
+ * exercised without an AWS account
+ */
+export class StubCostExplorer implements CostExplorerApi {
+  readonly requests: GetCostAndUsageRequest[] = [];
+
+  constructor(private entries: StubCostEntry[] = []) {}
+
+  /**
+   * Load entries from a JSON array of StubCostEntry
+   */
+  static fromFile(file: string): StubCostExplorer {
+    const entries = JSON.parse(readFileSync(file, 'utf-8'));
+    if (!Array.isArray(entries)) {
+      throw new Error(`${file} must contain an array of cost entries`);
+    }
+    return new StubCostExplorer(entries);
+  }
+
+  async getCostAndUsage(
+    request: GetCostAndUsageRequest
+  ): Promise<GetCostAndUsageResponse> {
+    this.requests.push(request);
+
+    const metric = request.Metrics?.[0] || 'UnblendedCost';
+    const results: AWS.CostExplorer.ResultsByTime = [];
+    for (
+      let day = new Date(`${request.TimePeriod.Start}T00:00:00Z`);
+      day.toISOString().slice(0, 10) < request.TimePeriod.End;
+      day.setUTCDate(day.getUTCDate() + 1)
+    ) {
+      const start = day.toISOString().slice(0, 10);
+      const next = new Date(day);
+      next.setUTCDate(next.getUTCDate() + 1);
+
+      const groups = new Map<string, number>();
+      for (const entry of this.entries.filter((e) => e.date === start)) {
+        const keys = (request.GroupBy || []).map((group) =>
+          group.Type === 'TAG'
+            ? `${group.Key}$${entry.tags?.[group.Key!] || ''}`
+            : entry.service || 'Other'
+        );
+        const key = JSON.stringify(keys);
+        groups.set(key, (groups.get(key) || 0) + entry.amount);
+      }
+
+      results.push({
+        TimePeriod: { Start: start, End: next.toISOString().slice(0, 10) },
+        Groups: Array.from(groups, ([keys, amount]) => ({
+          Keys: JSON.parse(keys),
+          Metrics: { [metric]: { Amount: String(amount), Unit: 'USD' } },
+        })),
+        Estimated: false,
+      });
+    }
+
+    return { ResultsByTime: results };
+  }
+}
+
+/**
+ * Create a client from COST_EXPLORER ("aws" | "stub"). Defaults to AWS.
+ * The stub answers from the entries in COST_EXPLORER_STUB_FILE, or reports
+ * no spend without one.
+ */
+export function createCostExplorer(): CostExplorerApi {
+  const kind = process.env.COST_EXPLORER || 'aws';
+
+  switch (kind) {
+    case 'aws':
+      return new AwsCostExplorer();
+    case 'stub': {
+      const file = process.env.COST_EXPLORER_STUB_FILE;
+      logger.warn(
+        `Using the stub Cost Explorer${file ? ` with ${file}` : ''}; actual costs are not real spend.`
+      );
+      return file ? StubCostExplorer.fromFile(file) : new StubCostExplorer();
+    }
+    default:
+      throw new Error(`Unknown COST_EXPLORER "${kind}"; expected aws or stub`);
+  }
+}
@@ -0,0 +1,836 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  ECSClient,
+  CreateClusterCommand,
+  RegisterTaskDefinitionCommand,
+  CreateServiceCommand,
+  UpdateServiceCommand,
+  DeleteServiceCommand,
+  DeleteClusterCommand,
+  DeregisterTaskDefinitionCommand,
+  waitUntilServicesInactive,
+  waitUntilServicesStable,
+} from '@aws-sdk/client-ecs';
+import {
+  ECRClient,
+  CreateRepositoryCommand,
+  DescribeRepositoriesCommand,
+  GetAuthorizationTokenCommand,
+  DeleteRepositoryCommand,
+  BatchDeleteImageCommand,
+} from '@aws-sdk/client-ecr';
+import {
+  ElasticLoadBalancingV2Client,
+  CreateLoadBalancerCommand,
+  CreateTargetGroupCommand,
+  CreateListenerCommand,
+  DeleteLoadBalancerCommand,
+  DeleteTargetGroupCommand,
+  waitUntilLoadBalancersDeleted,
+} from '@aws-sdk/client-elastic-load-balancing-v2';
+import {
+  EC2Client,
+  DescribeVpcsCommand,
+  DescribeSubnetsCommand,
+  CreateSecurityGroupCommand,
+  AuthorizeSecurityGroupIngressCommand,
+  DeleteSecurityGroupCommand,
+} from '@aws-sdk/client-ec2';
+import {
+  IAMClient,
+  CreateRoleCommand,
+  GetRoleCommand,
+  AttachRolePolicyCommand,
+} from '@aws-sdk/client-iam';
+import { AWSResource } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { createAwsTags, sanitizeProjectName } from '../utils/helpers.js';
+import { CommandRunner, runCommand } from '../utils/command.js';
+
+export interface EcsServiceClients {
+  ecs?: ECSClient;
+  ecr?: ECRClient;
+  elb?: ElasticLoadBalancingV2Client;
+  ec2?: EC2Client;
+  iam?: IAMClient;
+  runCommand?: CommandRunner;
+}
+
+export interface ContainerNetwork {
+  vpcId: string;
+  subnetIds: string[];
+}
+
+export interface ContainerLoadBalancer {
+  loadBalancerArn: string;
+  targetGroupArn: string;
+  dnsName: string;
+  serviceSecurityGroupId: string;
+}
+
+export interface ContainerService {
+  clusterArn: string;
+  serviceArn: string;
+}
+
+export interface ContainerRepository {
+  resource: AWSResource;
+  /**
+   * False when the repository already existed. Repositories are shared by
+   * every deployment of a project, so only the deployment that created one
+   * owns it.
+   */
+  created: boolean;
+}
+
+const EXECUTION_ROLE_NAME = 'aws-deploy-ai-ecs-task-execution';
+
+/**
+ * How long to wait for IAM to propagate a new role, and how many times to
+ * retry ECS calls that reject a role which has not propagated yet
+ */
+const ROLE_PROPAGATION_DELAY_MS = 10000;
+const ROLE_PROPAGATION_ATTEMPTS = 6;
+
+export class EcsService {
+  private ecsClient: ECSClient;
+  private ecrClient: ECRClient;
+  private elbClient: ElasticLoadBalancingV2Client;
+  private ec2Client: EC2Client;
+  private iamClient: IAMClient;
+  private runCommand: CommandRunner;
+  private region: string;
+
+  constructor(region: string = 'us-east-1', clients: EcsServiceClients = {}) {
+    this.region = region;
+    this.ecsClient = clients.ecs || new ECSClient({ region });
+    this.ecrClient = clients.ecr || new ECRClient({ region });
+    this.elbClient =
+      clients.elb || new ElasticLoadBalancingV2Client({ region });
+    this.ec2Client = clients.ec2 || new EC2Client({ region });
+    this.iamClient = clients.iam || new IAMClient({ region });
+    this.runCommand = clients.runCommand || runCommand;
+  }
+
+  /**
+   * Make sure the project has a Dockerfile, generating one when missing.
+   * Returns the port the container listens on: the first EXPOSE of an
+   * existing Dockerfile, or the port of the generated one.
+   */
+  async ensureDockerfile(
+    projectPath: string,
+    projectInfo: any
+  ): Promise<{ generated: boolean; path: string; port: number }> {
+    const dockerfilePath = path.join(projectPath, 'Dockerfile');
+
+    if (projectInfo.hasDockerfile) {
+      const contents = await fs.readFile(dockerfilePath, 'utf-8');
+      const exposed = contents.match(/^\s*EXPOSE\s+(\d+)/im);
+      return {
+        generated: false,
+        path: dockerfilePath,
+        port: exposed ? Number(exposed[1]) : projectInfo.port || 3000,
+      };
+    }
+
+    const dockerfile = this.generateDockerfile(projectInfo);
+    await fs.writeFile(dockerfilePath, dockerfile.contents);
+    logger.info(`Generated Dockerfile at ${dockerfilePath}`);
+    return { generated: true, path: dockerfilePath, port: dockerfile.port };
+  }
+
+  /**
+   * Create (or reuse) an ECR repository for the project image
+   */
+  async ensureRepository(
+    projectName: string,
+    deploymentId: string
+  ): Promise<ContainerRepository> {
+    const repositoryName = `aws-deploy-ai/${sanitizeProjectName(projectName)}`;
+
+    try {
+      const existing = await this.ecrClient.send(
+        new DescribeRepositoriesCommand({ repositoryNames: [repositoryName] })
+      );
+      const repository = existing.repositories?.[0];
+      if (repository?.repositoryUri) {
+        logger.info(`Reusing ECR repository: ${repositoryName}`);
+        return {
+          resource: this.toRepositoryResource(
+            repository.repositoryUri,
+            repository.repositoryArn!,
+            projectName,
+            deploymentId
+          ),
+          created: false,
+        };
+      }
+    } catch (error) {
+      if (
+        !(error instanceof Error) ||
+        error.name !== 'RepositoryNotFoundException'
+      ) {
+        throw error;
+      }
+    }
+
+    logger.info(`Creating ECR repository: ${repositoryName}`);
+    const result = await this.ecrClient.send(
+      new CreateRepositoryCommand({
+        repositoryName,
+        imageScanningConfiguration: { scanOnPush: true },
+        tags: this.toTagList(
+          createAwsTags(projectName, 'production', {
+            DeploymentId: deploymentId,
+            ResourceType: 'container-repository',
+          })
+        ),
+      })
+    );
+
+    if (!result.repository?.repositoryUri) {
+      throw new Error('Failed to create ECR repository');
+    }
+
+    return {
+      resource: this.toRepositoryResource(
+        result.repository.repositoryUri,
+        result.repository.repositoryArn!,
+        projectName,
+        deploymentId
+      ),
+      created: true,
+    };
+  }
+
+  /**
+   * Build the project image and push it to ECR
+   */
+  async buildAndPushImage(
+    projectPath: string,
+    repositoryUri: string,
+    tag: string
+  ): Promise<string> {
+    const imageUri = `${repositoryUri}:${tag}`;
+
+    logger.info(`Building container image: ${imageUri}`);
+    await this.runCommand(
+      `docker build --platform linux/amd64 -t ${imageUri} .`,
+      {
+        cwd: projectPath,
+      }
+    );
+
+    const auth = await this.ecrClient.send(
+      new GetAuthorizationTokenCommand({})
+    );
+    const authData = auth.authorizationData?.[0];
+    if (!authData?.authorizationToken || !authData.proxyEndpoint) {
+      throw new Error('Failed to get ECR authorization token');
+    }
+
+    const [username, password] = Buffer.from(
+      authData.authorizationToken,
+      'base64'
+    )
+      .toString('utf-8')
+      .split(':');
+
+    await this.runCommand(
+      `docker login --username ${username} --password-stdin ${authData.proxyEndpoint}`,
+      { input: password }
+    );
+
+    logger.info(`Pushing container image: ${imageUri}`);
+    await this.runCommand(`docker push ${imageUri}`);
+
+    return imageUri;
+  }
+
+  /**
+   * Find the default VPC and its subnets for Fargate tasks
+   */
+  async getDefaultNetwork(): Promise<ContainerNetwork> {
+    const vpcs = await this.ec2Client.send(
+      new DescribeVpcsCommand({
+        Filters: [{ Name: 'isDefault', Values: ['true'] }],
+      })
+    );
+    const vpcId = vpcs.Vpcs?.[0]?.VpcId;
+    if (!vpcId) {
+      throw new Error(
+        `No default VPC found in ${this.region}. Create one with "aws ec2 create-default-vpc".`
+      );
+    }
+
+    const subnets = await this.ec2Client.send(
+      new DescribeSubnetsCommand({
+        Filters: [{ Name: 'vpc-id', Values: [vpcId] }],
+      })
+    );
+    const subnetIds = (subnets.Subnets || [])
+      .map((subnet) => subnet.SubnetId)
+      .filter((id): id is string => !!id);
+
+    if (subnetIds.length < 2) {
+      throw new Error(
+        'An Application Load Balancer needs subnets in at least two availability zones'
+      );
+    }
+
+    return { vpcId, subnetIds };
+  }
+
+  /**
+   * Create an internet-facing ALB that forwards port 80 to the container port.
+   * Each resource is appended to `created` as soon as it exists, so a failure
+   * part way through leaves the earlier ones recorded for rollback.
+   */
+  async createLoadBalancer(
+    projectName: string,
+    deploymentId: string,
+    network: ContainerNetwork,
+    containerPort: number,
+    created: AWSResource[]
+  ): Promise<ContainerLoadBalancer> {
+    const baseName = this.shortName(projectName, deploymentId);
+    const tags = createAwsTags(projectName, 'production', {
+      DeploymentId: deploymentId,
+    });
+
+    const albGroupId = await this.createSecurityGroup(
+      `aws-deploy-ai-${baseName}-alb`,
+      `Load balancer for AWS Deploy AI deployment ${deploymentId}`,
+      network.vpcId,
+      { port: 80, cidr: '0.0.0.0/0' },
+      (groupId) =>
+        created.push(this.toResource(groupId, 'EC2::SecurityGroup', tags))
+    );
+    const serviceGroupId = await this.createSecurityGroup(
+      `aws-deploy-ai-${baseName}-svc`,
+      `Fargate tasks for AWS Deploy AI deployment ${deploymentId}`,
+      network.vpcId,
+      { port: containerPort, sourceGroupId: albGroupId },
+      (groupId) =>
+        created.push(this.toResource(groupId, 'EC2::SecurityGroup', tags))
+    );
+
+    const lbResult = await this.elbClient.send(
+      new CreateLoadBalancerCommand({
+        Name: `${baseName}-alb`,
+        Subnets: network.subnetIds,
+        SecurityGroups: [albGroupId],
+        Scheme: 'internet-facing',
+        Type: 'application',
+        Tags: this.toTagList(tags),
+      })
+    );
+    const loadBalancer = lbResult.LoadBalancers?.[0];
+    if (!loadBalancer?.LoadBalancerArn || !loadBalancer.DNSName) {
+      throw new Error('Failed to create Application Load Balancer');
+    }
+    created.push(
+      this.toResource(
+        loadBalancer.LoadBalancerArn,
+        'ElasticLoadBalancingV2::LoadBalancer',
+        tags,
+        loadBalancer.LoadBalancerArn
+      )
+    );
+
+    const tgResult = await this.elbClient.send(
+      new CreateTargetGroupCommand({
+        Name: `${baseName}-tg`,
+        Protocol: 'HTTP',
+        Port: containerPort,
+        VpcId: network.vpcId,
+        TargetType: 'ip',
+        HealthCheckPath: '/',
+        Matcher: { HttpCode: '200-399' },
+        Tags: this.toTagList(tags),
+      })
+    );
+    const targetGroupArn = tgResult.TargetGroups?.[0]?.TargetGroupArn;
+    if (!targetGroupArn) {
+      throw new Error('Failed to create target group');
+    }
+    created.push(
+      this.toResource(
+        targetGroupArn,
+        'ElasticLoadBalancingV2::TargetGroup',
+        tags,
+        targetGroupArn
+      )
+    );
+
+    await this.elbClient.send(
+      new CreateListenerCommand({
+        LoadBalancerArn: loadBalancer.LoadBalancerArn,
+        Protocol: 'HTTP',
+        Port: 80,
+        DefaultActions: [{ Type: 'forward', TargetGroupArn: targetGroupArn }],
+      })
+    );
+
+    return {
+      loadBalancerArn: loadBalancer.LoadBalancerArn,
+      targetGroupArn,
+      dnsName: loadBalancer.DNSName,
+      serviceSecurityGroupId: serviceGroupId,
+    };
+  }
+
+  /**
+   * Register a Fargate task definition for the pushed image
+   */
+  async registerTaskDefinition(
+    projectName: string,
+    deploymentId: string,
+    imageUri: string,
+    containerPort: number,
+    environment: Record<string, string> = {}
+  ): Promise<AWSResource> {
+    const family = `aws-deploy-ai-${sanitizeProjectName(projectName)}`;
+    const executionRoleArn = await this.ensureExecutionRole();
+
+    logger.info(`Registering task definition: ${family}`);
+    const result = await this.retryWhileRolePropagates(() =>
+      this.ecsClient.send(
+        new RegisterTaskDefinitionCommand({
+          family,
+          requiresCompatibilities: ['FARGATE'],
+          networkMode: 'awsvpc',
+          cpu: '256',
+          memory: '512',
+          executionRoleArn,
+          containerDefinitions: [
+            {
+              name: 'app',
+              image: imageUri,
+              essential: true,
+              portMappings: [{ containerPort, protocol: 'tcp' }],
+              environment: Object.entries({
+                NODE_ENV: 'production',
+                PORT: String(containerPort),
+                ...environment,
+              }).map(([name, value]) => ({ name, value })),
+            },
+          ],
+          tags: this.toEcsTags(
+            createAwsTags(projectName, 'production', {
+              DeploymentId: deploymentId,
+            })
+          ),
+        })
+      )
+    );
+
+    const arn = result.taskDefinition?.taskDefinitionArn;
+    if (!arn) {
+      throw new Error('Failed to register task definition');
+    }
+
+    return this.toResource(
+      arn,
+      'ECS::TaskDefinition',
+      createAwsTags(projectName, 'production', { DeploymentId: deploymentId }),
+      arn
+    );
+  }
+
+  /**
+   * Create the cluster and a Fargate service registered with the target group.
+   * Each resource is pushed onto `created` as soon as it exists, so a later
+   * failure still leaves it on the deployment for teardown.
+   */
+  async runService(
+    projectName: string,
+    deploymentId: string,
+    taskDefinitionArn: string,
+    network: ContainerNetwork,
+    loadBalancer: ContainerLoadBalancer,
+    containerPort: number,
+    created: AWSResource[]
+  ): Promise<ContainerService> {
+    const baseName = this.shortName(projectName, deploymentId);
+    const tags = createAwsTags(projectName, 'production', {
+      DeploymentId: deploymentId,
+    });
+
+    const cluster = await this.ecsClient.send(
+      new CreateClusterCommand({
+        clusterName: `aws-deploy-ai-${baseName}`,
+        capacityProviders: ['FARGATE'],
+        tags: this.toEcsTags(tags),
+      })
+    );
+    const clusterArn = cluster.cluster?.clusterArn;
+    if (!clusterArn) {
+      throw new Error('Failed to create ECS cluster');
+    }
+    created.push(this.toResource(clusterArn, 'ECS::Cluster', tags, clusterArn));
+
+    const service = await this.retryWhileRolePropagates(() =>
+      this.ecsClient.send(
+        new CreateServiceCommand({
+          cluster: clusterArn,
+          serviceName: `${baseName}-svc`,
+          taskDefinition: taskDefinitionArn,
+          desiredCount: 1,
+          launchType: 'FARGATE',
+          networkConfiguration: {
+            awsvpcConfiguration: {
+              subnets: network.subnetIds,
+              securityGroups: [loadBalancer.serviceSecurityGroupId],
+              assignPublicIp: 'ENABLED',
+            },
+          },
+          loadBalancers: [
+            {
+              targetGroupArn: loadBalancer.targetGroupArn,
+              containerName: 'app',
+              containerPort,
+            },
+          ],
+          healthCheckGracePeriodSeconds: 60,
+          tags: this.toEcsTags(tags),
+        })
+      )
+    );
+    const serviceArn = service.service?.serviceArn;
+    if (!serviceArn) {
+      throw new Error('Failed to create ECS service');
+    }
+    created.push(this.toResource(serviceArn, 'ECS::Service', tags, serviceArn));
+
+    return { clusterArn, serviceArn };
+  }
+
+  /**
+   * Wait until the service reaches a steady state
+   */
+  async waitForServiceStable(
+    clusterArn: string,
+    serviceArn: string,
+    maxWaitSeconds: number = 600
+  ): Promise<void> {
+    await waitUntilServicesStable(
+      { client: this.ecsClient, maxWaitTime: maxWaitSeconds },
+      { cluster: clusterArn, services: [serviceArn] }
+    );
+  }
+
+  /**
+   * Scale a service to zero and delete it
+   */
+  async deleteService(serviceArn: string): Promise<void> {
+    // arn:aws:ecs:<region>:<account>:service/<cluster>/<service>
+    const [, cluster] = serviceArn.split(':').pop()!.split('/');
+
+    await this.ecsClient.send(
+      new UpdateServiceCommand({
+        cluster,
+        service: serviceArn,
+        desiredCount: 0,
+      })
+    );
+    await this.ecsClient.send(
+      new DeleteServiceCommand({ cluster, service: serviceArn, force: true })
+    );
+    await waitUntilServicesInactive(
+      { client: this.ecsClient, maxWaitTime: 600 },
+      { cluster, services: [serviceArn] }
+    );
+  }
+
+  async deleteCluster(clusterArn: string): Promise<void> {
+    await this.ecsClient.send(
+      new DeleteClusterCommand({ cluster: clusterArn })
+    );
+  }
+
+  async deregisterTaskDefinition(taskDefinitionArn: string): Promise<void> {
+    await this.ecsClient.send(
+      new DeregisterTaskDefinitionCommand({ taskDefinition: taskDefinitionArn })
+    );
+  }
+
+  /**
+   * Delete a load balancer (and its listeners) and wait until it is gone
+   */
+  async deleteLoadBalancer(loadBalancerArn: string): Promise<void> {
+    await this.elbClient.send(
+      new DeleteLoadBalancerCommand({ LoadBalancerArn: loadBalancerArn })
+    );
+    await waitUntilLoadBalancersDeleted(
+      { client: this.elbClient, maxWaitTime: 600 },
+      { LoadBalancerArns: [loadBalancerArn] }
+    );
+  }
+
+  async deleteTargetGroup(targetGroupArn: string): Promise<void> {
+    await this.elbClient.send(
+      new DeleteTargetGroupCommand({ TargetGroupArn: targetGroupArn })
+    );
+  }
+
+  async deleteSecurityGroup(groupId: string): Promise<void> {
+    await this.ec2Client.send(
+      new DeleteSecurityGroupCommand({ GroupId: groupId })
+    );
+  }
+
+  /**
+   * Delete one pushed image, given as <repository-uri>:<tag>
+   */
+  async deleteImage(imageUri: string): Promise<void> {
+    const separator = imageUri.lastIndexOf(':');
+    const repositoryName = imageUri
+      .slice(0, separator)
+      .split('/')
+      .slice(1)
+      .join('/');
+    const result = await this.ecrClient.send(
+      new BatchDeleteImageCommand({
+        repositoryName,
+        imageIds: [{ imageTag: imageUri.slice(separator + 1) }],
+      })
+    );
+    const failure = result.failures?.find(
+      (entry) => entry.failureCode !== 'ImageNotFound'
+    );
+    if (failure) {
+      throw new Error(
+        `Failed to delete image ${imageUri}: ${failure.failureReason}`
+      );
+    }
+  }
+
+  /**
+   * Delete an ECR repository once it holds no images. Repositories are shared
+   * by every deployment of a project, so one still holding images of other
+   * deployments is left in place and false is returned.
+   */
+  async deleteRepository(repositoryUri: string): Promise<boolean> {
+    // <account>.dkr.ecr.<region>.amazonaws.com/<repository-name>
+    const repositoryName = repositoryUri.split('/').slice(1).join('/');
+    try {
+      await this.ecrClient.send(
+        new DeleteRepositoryCommand({ repositoryName })
+      );
+      return true;
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.name === 'RepositoryNotEmptyException'
+      ) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Generate a Dockerfile for projects that don't ship one
+   */
+  generateDockerfile(projectInfo: any): { contents: string; port: number } {
+    if (projectInfo.type !== 'nodejs') {
+      return {
+        contents: `FROM nginx:alpine
+COPY . /usr/share/nginx/html
+EXPOSE 80
+`,
+        port: 80,
+      };
+    }
+
+    const port = projectInfo.port || 3000;
+
+    const hasBuild = !!projectInfo.packageJson?.scripts?.build;
+
+    return {
+      contents: `FROM node:18-alpine
+WORKDIR /app
+COPY package*.json ./
+RUN npm install
+COPY . .
+${hasBuild ? 'RUN npm run build\n' : ''}ENV NODE_ENV=production
+ENV PORT=${port}
+EXPOSE ${port}
+CMD ["npm", "start"]
+`,
+      port,
+    };
+  }
+
+  private async ensureExecutionRole(): Promise<string> {
+    const roleName = EXECUTION_ROLE_NAME;
+
+    try {
+      const existing = await this.iamClient.send(
+        new GetRoleCommand({ RoleName: roleName })
+      );
+      if (existing.Role?.Arn) {
+        return existing.Role.Arn;
+      }
+    } catch (error) {
+      if (!(error instanceof Error) || error.name !== 'NoSuchEntityException') {
+        throw error;
+      }
+    }
+
+    const role = await this.iamClient.send(
+      new CreateRoleCommand({
+        RoleName: roleName,
+        AssumeRolePolicyDocument: JSON.stringify({
+          Version: '2012-10-17',
+          Statement: [
+            {
+              Effect: 'Allow',
+              Principal: { Service: 'ecs-tasks.amazonaws.com' },
+              Action: 'sts:AssumeRole',
+            },
+          ],
+        }),
+        Description: 'ECS task execution role for AWS Deploy AI',
+        Tags: this.toTagList({ ManagedBy: 'aws-deploy-ai' }),
+      })
+    );
+
+    await this.iamClient.send(
+      new AttachRolePolicyCommand({
+        RoleName: roleName,
+        PolicyArn:
+          'arn:aws:iam::aws:policy/service-role/AmazonECSTaskExecutionRolePolicy',
+      })
+    );
+
+    // IAM is eventually consistent: ECS cannot assume a new role right away
+    logger.info(`Waiting for IAM to propagate role ${roleName}`);
+    await this.delay(ROLE_PROPAGATION_DELAY_MS);
+
+    return role.Role?.Arn || '';
+  }
+
+  /**
+   * Retry an ECS call that fails because the execution role has not
+   * propagated yet. Other errors are thrown straight away.
+   */
+  private async retryWhileRolePropagates<T>(
+    call: () => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await call();
+      } catch (error) {
+        const propagating =
+          error instanceof Error &&
+          (error.name === 'InvalidParameterException' ||
+            error.name === 'ClientException') &&
+          /role/i.test(error.message);
+        if (!propagating || attempt >= ROLE_PROPAGATION_ATTEMPTS) {
+          throw error;
+        }
+        logger.info(
+          `Execution role not usable yet, retrying (${attempt}/${ROLE_PROPAGATION_ATTEMPTS})`
+        );
+        await this.delay(ROLE_PROPAGATION_DELAY_MS);
+      }
+    }
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  private async createSecurityGroup(
+    groupName: string,
+    description: string,
+    vpcId: string,
+    ingress: { port: number; cidr?: string; sourceGroupId?: string },
+    onCreated: (groupId: string) => void
+  ): Promise<string> {
+    const result = await this.ec2Client.send(
+      new CreateSecurityGroupCommand({
+        GroupName: groupName,
+        Description: description,
+        VpcId: vpcId,
+      })
+    );
+    const groupId = result.GroupId!;
+    onCreated(groupId);
+
+    await this.ec2Client.send(
+      new AuthorizeSecurityGroupIngressCommand({
+        GroupId: groupId,
+        IpPermissions: [
+          {
+            IpProtocol: 'tcp',
+            FromPort: ingress.port,
+            ToPort: ingress.port,
+            ...(ingress.cidr
+              ? { IpRanges: [{ CidrIp: ingress.cidr }] }
+              : { UserIdGroupPairs: [{ GroupId: ingress.sourceGroupId }] }),
+          },
+        ],
+      })
+    );
+
+    return groupId;
+  }
+
+  /**
+   * ALB and target group names are limited to 32 characters
+   */
+  private shortName(projectName: string, deploymentId: string): string {
+    const suffix = deploymentId.replace(/[^a-z0-9]/gi, '').slice(-6);
+    return `${sanitizeProjectName(projectName).slice(0, 18)}-${suffix}`.replace(
+      /-+/g,
+      '-'
+    );
+  }
+
+  private toRepositoryResource(
+    repositoryUri: string,
+    repositoryArn: string,
+    projectName: string,
+    deploymentId: string
+  ): AWSResource {
+    return {
+      id: repositoryUri,
+      type: 'ECR::Repository',
+      arn: repositoryArn,
+      region: this.region,
+      status: 'active',
+      tags: createAwsTags(projectName, 'production', {
+        DeploymentId: deploymentId,
+        ResourceType: 'container-repository',
+      }),
+    };
+  }
+
+  private toResource(
+    id: string,
+    type: string,
+    tags: Record<string, string>,
+    arn: string = ''
+  ): AWSResource {
+    return {
+      id,
+      type,
+      arn,
+      region: this.region,
+      status: 'active',
+      tags,
+    };
+  }
+
+  private toTagList(tags: Record<string, string>) {
+    return Object.entries(tags).map(([Key, Value]) => ({ Key, Value }));
+  }
+
+  private toEcsTags(tags: Record<string, string>) {
+    return Object.entries(tags).map(([key, value]) => ({ key, value }));
+  }
+}
@@ -0,0 +1,490 @@
+/**
+ * Rule-based framework detection shared by the analysis tools, the GitHub
+ * service and the model prompts. Mirrored in
+ * packages/frontend/src/lib/framework-detector.ts.
+ */
+
+export type FrameworkId =
+  | 'nextjs'
+  | 'vite'
+  | 'cra'
+  | 'angular'
+  | 'vue'
+  | 'nestjs'
+  | 'express'
+  | 'fastify'
+  | 'django'
+  | 'flask'
+  | 'fastapi'
+  | 'go'
+  | 'static'
+  | 'docker';
+
+export type FrameworkRuntime = 'node' | 'python' | 'go' | 'static' | 'docker';
+
+export interface FrameworkDetection {
+  id: FrameworkId;
+  name: string;
+  runtime: FrameworkRuntime;
+  // Whether a build produces files to serve, or the app is a server
+  serves: 'static' | 'server';
+  // 0-1: the summed weight of the rules that matched
+  confidence: number;
+  evidence: string[];
+}
+
+/**
+ * Everything the rules could establish about a repository
+ */
+export interface RepositoryFacts {
+  primary?: FrameworkDetection;
+  candidates: FrameworkDetection[];
+  language: string;
+  packageManager: string;
+  installCommand: string;
+  buildCommand: string;
+  startCommand: string;
+  outputDirectory?: string;
+  port: number;
+  hasDockerfile: boolean;
+  hasDatabase: boolean;
+  hasEnvVariables: boolean;
+  staticAssets: boolean;
+  dependencies: string[];
+  devDependencies: string[];
+}
+
+export interface DetectionInput {
+  // File path -> contents. Contents may be empty when only the name is known.
+  files: Record<string, string>;
+  packageJson?: any;
+  // Primary language reported by the host, e.g. GitHub
+  language?: string;
+}
+
+// Below this confidence a detection is reported but not acted on
+export const MIN_CONFIDENCE = 0.5;
+
+interface DetectionContext {
+  has(...names: string[]): string | undefined;
+  dependency(name: string): boolean;
+  script(pattern: RegExp): string | undefined;
+  pythonPackage(name: string): boolean;
+}
+
+interface FrameworkRule {
+  id: FrameworkId;
+  name: string;
+  runtime: FrameworkRuntime;
+  serves: 'static' | 'server';
+  port: number;
+  outputDirectory?: string;
+  // Each signal returns evidence when it matches
+  signals: {
+    weight: number;
+    match: (context: DetectionContext) => string | undefined;
+  }[];
+}
+
+const dependency = (name: string, weight: number) => ({
+  weight,
+  match: (context: DetectionContext) =>
+    context.dependency(name) ? `package.json depends on ${name}` : undefined,
+});
+
+const file = (weight: number, ...names: string[]) => ({
+  weight,
+  match: (context: DetectionContext) => {
+    const found = context.has(...names);
+    return found ? `${found} present` : undefined;
+  },
+});
+
+const script = (pattern: RegExp, weight: number) => ({
+  weight,
+  match: (context: DetectionContext) => {
+    const found = context.script(pattern);
+    return found ? `script runs "${found}"` : undefined;
+  },
+});
+
+const pythonPackage = (name: string, weight: number) => ({
+  weight,
+  match: (context: DetectionContext) =>
+    context.pythonPackage(name)
+      ? `Python requirements list ${name}`
+      : undefined,
+});
+
+const RULES: FrameworkRule[] = [
+  {
+    id: 'nextjs',
+    name: 'Next.js',
+    runtime: 'node',
+    serves: 'server',
+    port: 3000,
+    signals: [
+      dependency('next', 0.8),
+      file(0.2, 'next.config.js', 'next.config.mjs', 'next.config.ts'),
+      script(/\bnext (build|start)\b/, 0.1),
+    ],
+  },
+  {
+    id: 'nestjs',
+    name: 'NestJS',
+    runtime: 'node',
+    serves: 'server',
+    port: 3000,
+    signals: [dependency('@nestjs/core', 0.9), file(0.1, 'nest-cli.json')],
+  },
+  {
+    id: 'express',
+    name: 'Express',
+    runtime: 'node',
+    serves: 'server',
+    port: 3000,
+    signals: [dependency('express', 0.8)],
+  },
+  {
+    id: 'fastify',
+    name: 'Fastify',
+    runtime: 'node',
+    serves: 'server',
+    port: 3000,
+    signals: [dependency('fastify', 0.8)],
+  },
+  {
+    id: 'angular',
+    name: 'Angular',
+    runtime: 'node',
+    serves: 'static',
+    port: 3000,
+    outputDirectory: 'dist',
+    signals: [dependency('@angular/core', 0.7), file(0.3, 'angular.json')],
+  },
+  {
+    id: 'cra',
+    name: 'Create React App',
+    runtime: 'node',
+    serves: 'static',
+    port: 3000,
+    outputDirectory: 'build',
+    signals: [
+      dependency('react-scripts', 0.9),
+      script(/\breact-scripts build\b/, 0.1),
+    ],
+  },
+  {
+    id: 'vite',
+    name: 'Vite',
+    runtime: 'node',
+    serves: 'static',
+    port: 3000,
+    outputDirectory: 'dist',
+    signals: [
+      dependency('vite', 0.6),
+      file(0.3, 'vite.config.js', 'vite.config.ts', 'vite.config.mjs'),
+      script(/\bvite build\b/, 0.1),
+    ],
+  },
+  {
+    id: 'vue',
+    name: 'Vue',
+    runtime: 'node',
+    serves: 'static',
+    port: 3000,
+    outputDirectory: 'dist',
+    signals: [
+      dependency('vue', 0.5),
+      dependency('@vue/cli-service', 0.3),
+      file(0.2, 'vue.config.js'),
+    ],
+  },
+  {
+    id: 'django',
+    name: 'Django',
+    runtime: 'python',
+    serves: 'server',
+    port: 8000,
+    signals: [pythonPackage('django', 0.7), file(0.3, 'manage.py')],
+  },
+  {
+    id: 'fastapi',
+    name: 'FastAPI',
+    runtime: 'python',
+    serves: 'server',
+    port: 8000,
+    signals: [pythonPackage('fastapi', 0.8), pythonPackage('uvicorn', 0.1)],
+  },
+  {
+    id: 'flask',
+    name: 'Flask',
+    runtime: 'python',
+    serves: 'server',
+    port: 5000,
+    signals: [pythonPackage('flask', 0.8), file(0.1, 'app.py', 'wsgi.py')],
+  },
+  {
+    id: 'go',
+    name: 'Go',
+    runtime: 'go',
+    serves: 'server',
+    port: 8080,
+    signals: [file(0.9, 'go.mod'), file(0.1, 'main.go')],
+  },
+  {
+    id: 'static',
+    name: 'Static HTML',
+    runtime: 'static',
+    serves: 'static',
+    port: 3000,
+    outputDirectory: '.',
+    signals: [
+      file(0.6, 'index.html'),
+      {
+        weight: 0.2,
+        match: (context) =>
+          context.has('index.html') && !context.has('package.json')
+            ? 'no package.json'
+            : undefined,
+      },
+    ],
+  },
+  {
+    // Kept below any framework match: a Dockerfile says how to run the
+    // app, not what it is
+    id: 'docker',
+    name: 'Dockerfile',
+    runtime: 'docker',
+    serves: 'server',
+    port: 8080,
+    signals: [file(0.5, 'Dockerfile')],
+  },
+];
+
+const DATABASE_PACKAGES =
+  /^(pg|mysql2?|mongoose|mongodb|redis|ioredis|sqlite3|prisma|@prisma\/client|sequelize|typeorm|psycopg2(-binary)?|sqlalchemy|pymongo)$/i;
+
+/**
+ * Run every rule against a repository and derive its build and run facts
+ * from the most confident match
+ */
+export function detectFrameworks(input: DetectionInput): RepositoryFacts {
+  const names = new Map<string, string>();
+  for (const filePath of Object.keys(input.files)) {
+    names.set(filePath.toLowerCase(), filePath);
+  }
+
+  const packageJson = input.packageJson || parsePackageJson(input.files);
+  const dependencies = Object.keys(packageJson?.dependencies || {});
+  const devDependencies = Object.keys(packageJson?.devDependencies || {});
+  const scripts: Record<string, string> = packageJson?.scripts || {};
+
+  const has = (...candidates: string[]) =>
+    candidates
+      .map((candidate) => names.get(candidate.toLowerCase()))
+      .find(Boolean);
+  const read = (name: string) => {
+    const found = has(name);
+    return found ? input.files[found] || '' : '';
+  };
+  const pythonRequirements = ['requirements.txt', 'Pipfile', 'pyproject.toml']
+    .map(read)
+    .join('\n');
+
+  const context: DetectionContext = {
+    has,
+    dependency: (name) =>
+      dependencies.includes(name) || devDependencies.includes(name),
+    script: (pattern) => Object.values(scripts).find((s) => pattern.test(s)),
+    pythonPackage: (name) =>
+      new RegExp(`^\\s*["']?${name}\\b`, 'im').test(pythonRequirements),
+  };
+
+  const candidates = RULES.map((rule) => {
+    const evidence: string[] = [];
+    let confidence = 0;
+    for (const signal of rule.signals) {
+      const found = signal.match(context);
+      if (found) {
+        evidence.push(found);
+        confidence += signal.weight;
+      }
+    }
+    return {
+      rule,
+      detection: {
+        id: rule.id,
+        name: rule.name,
+        runtime: rule.runtime,
+        serves: rule.serves,
+        confidence: Math.round(Math.min(confidence, 1) * 100) / 100,
+        evidence,
+      } as FrameworkDetection,
+    };
+  })
+    .filter(({ detection }) => detection.confidence > 0)
+    // Stable sort keeps rule order for ties, so Next.js wins over Express
+    .sort((a, b) => b.detection.confidence - a.detection.confidence);
+
+  const best = candidates.find(
+    ({ detection }) => detection.confidence >= MIN_CONFIDENCE
+  );
+  const rule = best?.rule;
+
+  const packageManager = packageJson
+    ? has('pnpm-lock.yaml')
+      ? 'pnpm'
+      : has('yarn.lock')
+        ? 'yarn'
+        : 'npm'
+    : rule?.runtime === 'python' || has('requirements.txt')
+      ? 'pip'
+      : rule?.runtime === 'go'
+        ? 'go'
+        : 'none';
+
+  const exposed = Number(read('Dockerfile').match(/^\s*EXPOSE\s+(\d+)/im)?.[1]);
+  const port = rule?.id === 'docker' && exposed ? exposed : rule?.port || 3000;
+
+  return {
+    primary: best?.detection,
+    candidates: candidates.map(({ detection }) => detection),
+    language: input.language || languageOf(rule, context),
+    packageManager,
+    ...commandsFor(rule, port, packageManager, scripts, context),
+    outputDirectory: rule?.outputDirectory,
+    port,
+    hasDockerfile: Boolean(has('Dockerfile')),
+    hasDatabase:
+      [...dependencies, ...devDependencies].some((name) =>
+        DATABASE_PACKAGES.test(name)
+      ) ||
+      pythonRequirements
+        .split('\n')
+        .some((line) => DATABASE_PACKAGES.test(line.split(/[=<>~ ]/)[0])),
+    hasEnvVariables: Boolean(has('.env', '.env.example', '.env.sample')),
+    staticAssets:
+      rule?.serves === 'static' || Boolean(has('public', 'static', 'assets')),
+    dependencies,
+    devDependencies,
+  };
+}
+
+/**
+ * Render the facts as a prompt section the model should treat as ground truth
+ */
+export function formatRepositoryFacts(facts: RepositoryFacts): string {
+  if (facts.candidates.length === 0) {
+    return 'No framework detected by the rule-based analyzer.';
+  }
+
+  const candidates = facts.candidates
+    .map(
+      (candidate) =>
+        `- ${candidate.name}: ${Math.round(candidate.confidence * 100)}% (${candidate.evidence.join('; ')})`
+    )
+    .join('\n');
+
+  return `${candidates}
+
+- **Framework**: ${facts.primary?.name || 'undetermined'}
+- **Package Manager**: ${facts.packageManager}
+- **Install Command**: ${facts.installCommand || 'none'}
+- **Build Command**: ${facts.buildCommand || 'none'}
+- **Start Command**: ${facts.startCommand || 'none'}
+- **Port**: ${facts.port}
+- **Has Dockerfile**: ${facts.hasDockerfile}`;
+}
+
+function parsePackageJson(files: Record<string, string>): any {
+  try {
+    return files['package.json'] ? JSON.parse(files['package.json']) : null;
+  } catch {
+    return null;
+  }
+}
+
+function languageOf(
+  rule: FrameworkRule | undefined,
+  context: DetectionContext
+): string {
+  switch (rule?.runtime) {
+    case 'node':
+      return context.dependency('typescript') || context.has('tsconfig.json')
+        ? 'TypeScript'
+        : 'JavaScript';
+    case 'python':
+      return 'Python';
+    case 'go':
+      return 'Go';
+    case 'static':
+      return 'HTML';
+    default:
+      return 'Unknown';
+  }
+}
+
+function commandsFor(
+  rule: FrameworkRule | undefined,
+  port: number,
+  packageManager: string,
+  scripts: Record<string, string>,
+  context: DetectionContext
+): Pick<RepositoryFacts, 'installCommand' | 'buildCommand' | 'startCommand'> {
+  switch (rule?.runtime) {
+    case 'node': {
+      const run = (name: string) =>
+        packageManager === 'npm'
+          ? `npm run ${name}`
+          : `${packageManager} ${name}`;
+      return {
+        installCommand: `${packageManager} install`,
+        buildCommand: scripts.build ? run('build') : '',
+        startCommand:
+          rule.serves === 'static'
+            ? `serve -s ${rule.outputDirectory} -p ${port}`
+            : scripts['start:prod']
+              ? run('start:prod')
+              : scripts.start
+                ? `${packageManager} start`
+                : 'node index.js',
+      };
+    }
+    case 'python': {
+      const entry = context.has('main.py') ? 'main' : 'app';
+      return {
+        installCommand: context.has('requirements.txt')
+          ? 'pip install -r requirements.txt'
+          : 'pip install .',
+        buildCommand: '',
+        startCommand:
+          rule.id === 'django'
+            ? `python manage.py runserver 0.0.0.0:${port}`
+            : rule.id === 'fastapi'
+              ? `uvicorn ${entry}:app --host 0.0.0.0 --port ${port}`
+              : `python ${entry}.py`,
+      };
+    }
+    case 'go':
+      return {
+        installCommand: 'go mod download',
+        buildCommand: 'go build -o app .',
+        startCommand: './app',
+      };
+    case 'static':
+      return {
+        installCommand: '',
+        buildCommand: '',
+        startCommand: `serve -s . -p ${port}`,
+      };
+    case 'docker':
+      return {
+        installCommand: '',
+        buildCommand: 'docker build -t app .',
+        startCommand: `docker run -p ${port}:${port} app`,
+      };
+    default:
+      return { installCommand: '', buildCommand: '', startCommand: '' };
+  }
+}
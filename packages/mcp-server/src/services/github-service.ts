@@ -3,6 +3,7 @@ import simpleGit, { SimpleGit } from 'simple-git';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { logger } from '../utils/logger.js';
+import { detectFrameworks, RepositoryFacts } from './framework-detector.js';
 import archiver from 'archiver';
 import { createWriteStream } from 'fs';
 
@@ -18,13 +19,8 @@ export interface RepositoryContent {
   packageJson?: any;
   readme?: string;
   projectType:
-    | 'static'
-    | 'react'
-    | 'vue'
-    | 'angular'
-    | 'node'
-    | 'python'
-    | 'other';
+    'static' | 'react' | 'vue' | 'angular' | 'node' | 'python' | 'other';
+  facts: RepositoryFacts;
 }
 
 export interface DeploymentFromGitHub {
@@ -94,7 +90,8 @@ export class GitHubService {
       }
 
       // Determine project type
-      projectType = this.determineProjectType(files, packageJson);
+      const facts = detectFrameworks({ files, packageJson });
+      projectType = this.determineProjectType(facts, packageJson);
 
       // Get additional files based on project type
       if (projectType !== 'static') {
@@ -106,6 +103,7 @@ export class GitHubService {
         packageJson,
         readme,
         projectType,
+        facts,
       };
     } catch (error) {
       logger.error('Failed to analyze repository', { error, repository });
@@ -143,48 +141,41 @@ export class GitHubService {
   }
 
   /**
-   * Determine project type based on file analysis
+   * Map the detected framework onto the project types the deployment
+   * steps understand
    */
   private determineProjectType(
-    files: Record<string, string>,
+    facts: RepositoryFacts,
     packageJson: any
   ): RepositoryContent['projectType'] {
-    // Check package.json dependencies
-    if (packageJson) {
-      const deps = {
-        ...packageJson.dependencies,
-        ...packageJson.devDependencies,
-      };
-
-      if (deps.react || deps['@types/react']) {
+    const deps = {
+      ...packageJson?.dependencies,
+      ...packageJson?.devDependencies,
+    };
+
+    switch (facts.primary?.id) {
+      case 'nextjs':
+      case 'cra':
         return 'react';
-      } else if (deps.vue || deps['@vue/core']) {
+      case 'vue':
         return 'vue';
-      } else if (deps['@angular/core']) {
+      case 'angular':
         return 'angular';
-      } else if (deps.express || deps.fastify || deps.koa) {
+      case 'vite':
+        return deps.vue ? 'vue' : deps.react ? 'react' : 'static';
+      case 'nestjs':
+      case 'express':
+      case 'fastify':
         return 'node';
-      }
-    }
-
-    // Check for Python files
-    if (
-      Object.keys(files).some((name) => name.endsWith('.py')) ||
-      files['requirements.txt'] ||
-      files['Pipfile']
-    ) {
-      return 'python';
-    }
-
-    // Check for static files
-    if (
-      files['index.html'] ||
-      Object.keys(files).some((name) => name.endsWith('.html'))
-    ) {
-      return 'static';
+      case 'django':
+      case 'flask':
+      case 'fastapi':
+        return 'python';
+      case 'static':
+        return 'static';
+      default:
+        return 'other';
     }
-
-    return 'other';
   }
 
   /**
@@ -408,6 +399,14 @@ export class GitHubService {
    * Get output directory based on project type
    */
   private getOutputDirectory(content: RepositoryContent): string | undefined {
+    // Builds from a detected bundler land in its own output directory
+    if (
+      content.facts.primary?.runtime === 'node' &&
+      content.facts.outputDirectory
+    ) {
+      return content.facts.outputDirectory;
+    }
+
     switch (content.projectType) {
       case 'react':
         return 'build';
@@ -0,0 +1,1219 @@
+import { stringify } from 'yaml';
+import { ParsedDeploymentIntent } from '../types/index.js';
+import { createAwsTags, sanitizeProjectName } from '../utils/helpers.js';
+import { Architecture, architectureOf } from './ami-resolver.js';
+
+export type ComputeModel = 'static' | 'serverless' | 'container' | 'vm';
+
+export type DatabaseEngine = 'postgres' | 'mysql' | 'dynamodb';
+
+/**
+ * The parts of an AI deployment plan that decide the infrastructure
+ */
+export interface ExportablePlan {
+  architecture: string;
+  services: Array<{ name: string; type: string }>;
+}
+
+export interface InfrastructureSpec {
+  projectName: string;
+  environment: string;
+  region: string;
+  compute: ComputeModel;
+  cdn: boolean;
+  database?: DatabaseEngine;
+  runtime: string;
+  containerPort: number;
+  instanceType: string;
+  // Parts of the plan the templates do not cover
+  notes: string[];
+}
+
+export interface ExportOptions {
+  projectName?: string;
+  environment?: string;
+  region?: string;
+  containerPort?: number;
+}
+
+// AWS managed "CachingOptimized" cache policy
+const CACHING_OPTIMIZED_POLICY_ID = '658327ea-f89d-4fab-a63d-7e88639e58f6';
+// Amazon Linux 2023, matched to the architecture of the instance type
+const AMI_PARAMETERS: Record<Architecture, string> = {
+  x86_64:
+    '/aws/service/ami-amazon-linux-latest/al2023-ami-kernel-default-x86_64',
+  arm64: '/aws/service/ami-amazon-linux-latest/al2023-ami-kernel-default-arm64',
+};
+const LAMBDA_BASIC_EXECUTION_POLICY =
+  'arn:aws:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole';
+const ECS_TASK_EXECUTION_POLICY =
+  'arn:aws:iam::aws:policy/service-role/AmazonECSTaskExecutionRolePolicy';
+
+/**
+ * Renders a deployment plan as CloudFormation or Terraform instead of
+ * creating the resources through the SDK
+ */
+export class InfrastructureExporter {
+  /**
+   * Derive the infrastructure from an AI deployment plan, using the same
+   * architecture keywords RealDeploymentService acts on
+   */
+  specFromPlan(
+    plan: ExportablePlan,
+    options: ExportOptions = {}
+  ): InfrastructureSpec {
+    const architecture = plan.architecture.toLowerCase();
+    const services = plan.services
+      .map((service) => `${service.name} ${service.type}`.toLowerCase())
+      .join(' | ');
+    const notes: string[] = [];
+
+    let compute: ComputeModel;
+    if (architecture.includes('serverless') || services.includes('lambda')) {
+      compute = 'serverless';
+    } else if (
+      architecture.includes('containerized') ||
+      /\b(ecs|fargate)\b/.test(services)
+    ) {
+      compute = 'container';
+    } else if (architecture.includes('static') && !services.includes('ec2')) {
+      compute = 'static';
+    } else {
+      compute = 'vm';
+    }
+
+    let database: DatabaseEngine | undefined;
+    if (services.includes('postgres')) {
+      database = 'postgres';
+    } else if (services.includes('mysql') || services.includes('aurora')) {
+      database = 'mysql';
+    } else if (services.includes('dynamodb')) {
+      database = 'dynamodb';
+    }
+
+    for (const service of plan.services) {
+      const text = `${service.name} ${service.type}`.toLowerCase();
+      if (/elasticache|redis|opensearch|cognito|sqs|sns/.test(text)) {
+        notes.push(`${service.name} (${service.type}) is not exported`);
+      }
+    }
+
+    const instanceType =
+      services.match(
+        /\b([a-z]\d[a-z]*\.(?:nano|micro|small|medium|large))\b/
+      )?.[1] || 't3.micro';
+
+    return this.buildSpec(
+      {
+        compute,
+        cdn: services.includes('cloudfront'),
+        database,
+        runtime: 'nodejs20.x',
+        instanceType,
+        notes,
+      },
+      options
+    );
+  }
+
+  /**
+   * Derive the infrastructure from a parsed prompt
+   */
+  specFromIntent(
+    intent: ParsedDeploymentIntent,
+    options: ExportOptions = {}
+  ): InfrastructureSpec {
+    const infrastructure = intent.infrastructure;
+    const notes: string[] = [];
+
+    let database: DatabaseEngine | undefined;
+    if (infrastructure.database?.type === 'rds') {
+      database = 'postgres';
+    } else if (infrastructure.database?.type === 'dynamodb') {
+      database = 'dynamodb';
+    } else if (infrastructure.database) {
+      notes.push(`${infrastructure.database.type} databases are not exported`);
+    }
+
+    if (intent.domain?.domain) {
+      notes.push(
+        `Custom domain ${intent.domain.domain} needs a certificate and DNS records added by hand`
+      );
+    }
+
+    return this.buildSpec(
+      {
+        compute: infrastructure.compute.type,
+        cdn: infrastructure.cdn,
+        database,
+        runtime: infrastructure.compute.runtime || 'nodejs20.x',
+        instanceType: 't3.micro',
+        notes,
+      },
+      { ...options, region: options.region || intent.environment?.region }
+    );
+  }
+
+  /**
+   * CloudFormation template in YAML
+   */
+  toCloudFormation(spec: InfrastructureSpec): string {
+    const name = this.resourcePrefix(spec);
+    const tags = Object.entries(this.tags(spec, 'cloudformation')).map(
+      ([Key, Value]) => ({ Key, Value })
+    );
+    const parameters: Record<string, unknown> = {};
+    const resources: Record<string, unknown> = {};
+    const outputs: Record<string, unknown> = {};
+
+    switch (spec.compute) {
+      case 'static':
+        resources.WebsiteBucket = {
+          Type: 'AWS::S3::Bucket',
+          Properties: {
+            WebsiteConfiguration: {
+              IndexDocument: 'index.html',
+              ErrorDocument: 'error.html',
+            },
+            PublicAccessBlockConfiguration: {
+              BlockPublicAcls: true,
+              IgnorePublicAcls: true,
+              BlockPublicPolicy: false,
+              RestrictPublicBuckets: false,
+            },
+            Tags: tags,
+          },
+        };
+        resources.WebsiteBucketPolicy = {
+          Type: 'AWS::S3::BucketPolicy',
+          Properties: {
+            Bucket: { Ref: 'WebsiteBucket' },
+            PolicyDocument: {
+              Version: '2012-10-17',
+              Statement: [
+                {
+                  Sid: 'PublicReadGetObject',
+                  Effect: 'Allow',
+                  Principal: '*',
+                  Action: 's3:GetObject',
+                  Resource: { 'Fn::Sub': '${WebsiteBucket.Arn}/*' },
+                },
+              ],
+            },
+          },
+        };
+        outputs.WebsiteURL = {
+          Value: { 'Fn::GetAtt': ['WebsiteBucket', 'WebsiteURL'] },
+        };
+
+        if (spec.cdn) {
+          resources.Distribution = {
+            Type: 'AWS::CloudFront::Distribution',
+            Properties: {
+              DistributionConfig: {
+                Enabled: true,
+                Comment: `CDN for ${spec.projectName} (${spec.environment})`,
+                DefaultRootObject: 'index.html',
+                PriceClass: 'PriceClass_100',
+                Origins: [
+                  {
+                    Id: 'website',
+                    // WebsiteURL without the http:// scheme
+                    DomainName: {
+                      'Fn::Select': [
+                        2,
+                        {
+                          'Fn::Split': [
+                            '/',
+                            { 'Fn::GetAtt': ['WebsiteBucket', 'WebsiteURL'] },
+                          ],
+                        },
+                      ],
+                    },
+                    CustomOriginConfig: { OriginProtocolPolicy: 'http-only' },
+                  },
+                ],
+                DefaultCacheBehavior: {
+                  TargetOriginId: 'website',
+                  ViewerProtocolPolicy: 'redirect-to-https',
+                  CachePolicyId: CACHING_OPTIMIZED_POLICY_ID,
+                },
+                CustomErrorResponses: [
+                  {
+                    ErrorCode: 404,
+                    ResponseCode: 404,
+                    ResponsePagePath: '/error.html',
+                  },
+                ],
+              },
+              Tags: tags,
+            },
+          };
+          outputs.DistributionURL = {
+            Value: { 'Fn::Sub': 'https://${Distribution.DomainName}' },
+          };
+        }
+        break;
+
+      case 'serverless':
+        parameters.CodeS3Bucket = {
+          Type: 'String',
+          Description: 'Bucket holding the packaged function zip',
+        };
+        parameters.CodeS3Key = {
+          Type: 'String',
+          Description: 'Key of the packaged function zip',
+        };
+        parameters.Handler = { Type: 'String', Default: 'index.handler' };
+
+        resources.FunctionRole = {
+          Type: 'AWS::IAM::Role',
+          Properties: {
+            AssumeRolePolicyDocument: this.assumeRolePolicy(
+              'lambda.amazonaws.com'
+            ),
+            ManagedPolicyArns: [LAMBDA_BASIC_EXECUTION_POLICY],
+            Tags: tags,
+          },
+        };
+        resources.Function = {
+          Type: 'AWS::Lambda::Function',
+          Properties: {
+            FunctionName: `${name}-function`,
+            Runtime: spec.runtime,
+            Handler: { Ref: 'Handler' },
+            Role: { 'Fn::GetAtt': ['FunctionRole', 'Arn'] },
+            Code: {
+              S3Bucket: { Ref: 'CodeS3Bucket' },
+              S3Key: { Ref: 'CodeS3Key' },
+            },
+            Timeout: 30,
+            MemorySize: 128,
+            Tags: tags,
+          },
+        };
+        resources.RestApi = {
+          Type: 'AWS::ApiGateway::RestApi',
+          Properties: {
+            Name: `${name}-api`,
+            EndpointConfiguration: { Types: ['REGIONAL'] },
+            Tags: tags,
+          },
+        };
+        resources.ProxyResource = {
+          Type: 'AWS::ApiGateway::Resource',
+          Properties: {
+            RestApiId: { Ref: 'RestApi' },
+            ParentId: { 'Fn::GetAtt': ['RestApi', 'RootResourceId'] },
+            PathPart: '{proxy+}',
+          },
+        };
+        for (const [logicalId, resourceId] of [
+          ['RootMethod', { 'Fn::GetAtt': ['RestApi', 'RootResourceId'] }],
+          ['ProxyMethod', { Ref: 'ProxyResource' }],
+        ] as const) {
+          resources[logicalId] = {
+            Type: 'AWS::ApiGateway::Method',
+            Properties: {
+              RestApiId: { Ref: 'RestApi' },
+              ResourceId: resourceId,
+              HttpMethod: 'ANY',
+              AuthorizationType: 'NONE',
+              Integration: {
+                Type: 'AWS_PROXY',
+                IntegrationHttpMethod: 'POST',
+                Uri: {
+                  'Fn::Sub':
+                    'arn:${AWS::Partition}:apigateway:${AWS::Region}:lambda:path/2015-03-31/functions/${Function.Arn}/invocations',
+                },
+              },
+            },
+          };
+        }
+        resources.ApiDeployment = {
+          Type: 'AWS::ApiGateway::Deployment',
+          DependsOn: ['RootMethod', 'ProxyMethod'],
+          Properties: { RestApiId: { Ref: 'RestApi' }, StageName: 'prod' },
+        };
+        resources.ApiInvokePermission = {
+          Type: 'AWS::Lambda::Permission',
+          Properties: {
+            Action: 'lambda:InvokeFunction',
+            FunctionName: { Ref: 'Function' },
+            Principal: 'apigateway.amazonaws.com',
+            SourceArn: {
+              'Fn::Sub':
+                'arn:${AWS::Partition}:execute-api:${AWS::Region}:${AWS::AccountId}:${RestApi}/*',
+            },
+          },
+        };
+        outputs.ApiURL = {
+          Value: {
+            'Fn::Sub':
+              'https://${RestApi}.execute-api.${AWS::Region}.amazonaws.com/prod',
+          },
+        };
+        break;
+
+      case 'container':
+        parameters.VpcId = { Type: 'AWS::EC2::VPC::Id' };
+        parameters.SubnetIds = {
+          Type: 'List<AWS::EC2::Subnet::Id>',
+          Description: 'Public subnets in at least two availability zones',
+        };
+        parameters.ImageTag = { Type: 'String', Default: 'latest' };
+
+        resources.Repository = {
+          Type: 'AWS::ECR::Repository',
+          Properties: { RepositoryName: name, Tags: tags },
+        };
+        resources.Cluster = {
+          Type: 'AWS::ECS::Cluster',
+          Properties: { ClusterName: name, Tags: tags },
+        };
+        resources.LogGroup = {
+          Type: 'AWS::Logs::LogGroup',
+          Properties: { LogGroupName: `/ecs/${name}`, RetentionInDays: 14 },
+        };
+        resources.TaskExecutionRole = {
+          Type: 'AWS::IAM::Role',
+          Properties: {
+            AssumeRolePolicyDocument: this.assumeRolePolicy(
+              'ecs-tasks.amazonaws.com'
+            ),
+            ManagedPolicyArns: [ECS_TASK_EXECUTION_POLICY],
+            Tags: tags,
+          },
+        };
+        resources.TaskDefinition = {
+          Type: 'AWS::ECS::TaskDefinition',
+          Properties: {
+            Family: name,
+            RequiresCompatibilities: ['FARGATE'],
+            NetworkMode: 'awsvpc',
+            Cpu: '256',
+            Memory: '512',
+            ExecutionRoleArn: { 'Fn::GetAtt': ['TaskExecutionRole', 'Arn'] },
+            ContainerDefinitions: [
+              {
+                Name: 'app',
+                Image: {
+                  'Fn::Sub': '${Repository.RepositoryUri}:${ImageTag}',
+                },
+                Essential: true,
+                PortMappings: [
+                  { ContainerPort: spec.containerPort, Protocol: 'tcp' },
+                ],
+                Environment: [
+                  { Name: 'PORT', Value: String(spec.containerPort) },
+                ],
+                LogConfiguration: {
+                  LogDriver: 'awslogs',
+                  Options: {
+                    'awslogs-group': { Ref: 'LogGroup' },
+                    'awslogs-region': { Ref: 'AWS::Region' },
+                    'awslogs-stream-prefix': 'app',
+                  },
+                },
+              },
+            ],
+            Tags: tags,
+          },
+        };
+        resources.LoadBalancerSecurityGroup = {
+          Type: 'AWS::EC2::SecurityGroup',
+          Properties: {
+            GroupDescription: `Load balancer for ${spec.projectName}`,
+            VpcId: { Ref: 'VpcId' },
+            SecurityGroupIngress: [
+              {
+                IpProtocol: 'tcp',
+                FromPort: 80,
+                ToPort: 80,
+                CidrIp: '0.0.0.0/0',
+              },
+            ],
+            Tags: tags,
+          },
+        };
+        resources.ServiceSecurityGroup = {
+          Type: 'AWS::EC2::SecurityGroup',
+          Properties: {
+            GroupDescription: `Tasks for ${spec.projectName}`,
+            VpcId: { Ref: 'VpcId' },
+            SecurityGroupIngress: [
+              {
+                IpProtocol: 'tcp',
+                FromPort: spec.containerPort,
+                ToPort: spec.containerPort,
+                SourceSecurityGroupId: {
+                  'Fn::GetAtt': ['LoadBalancerSecurityGroup', 'GroupId'],
+                },
+              },
+            ],
+            Tags: tags,
+          },
+        };
+        resources.LoadBalancer = {
+          Type: 'AWS::ElasticLoadBalancingV2::LoadBalancer',
+          Properties: {
+            Type: 'application',
+            Scheme: 'internet-facing',
+            Subnets: { Ref: 'SubnetIds' },
+            SecurityGroups: [
+              { 'Fn::GetAtt': ['LoadBalancerSecurityGroup', 'GroupId'] },
+            ],
+            Tags: tags,
+          },
+        };
+        resources.TargetGroup = {
+          Type: 'AWS::ElasticLoadBalancingV2::TargetGroup',
+          Properties: {
+            TargetType: 'ip',
+            Protocol: 'HTTP',
+            Port: spec.containerPort,
+            VpcId: { Ref: 'VpcId' },
+            HealthCheckPath: '/',
+            Tags: tags,
+          },
+        };
+        resources.Listener = {
+          Type: 'AWS::ElasticLoadBalancingV2::Listener',
+          Properties: {
+            LoadBalancerArn: { Ref: 'LoadBalancer' },
+            Protocol: 'HTTP',
+            Port: 80,
+            DefaultActions: [
+              { Type: 'forward', TargetGroupArn: { Ref: 'TargetGroup' } },
+            ],
+          },
+        };
+        resources.Service = {
+          Type: 'AWS::ECS::Service',
+          DependsOn: ['Listener'],
+          Properties: {
+            ServiceName: `${name}-svc`,
+            Cluster: { Ref: 'Cluster' },
+            LaunchType: 'FARGATE',
+            DesiredCount: 1,
+            TaskDefinition: { Ref: 'TaskDefinition' },
+            NetworkConfiguration: {
+              AwsvpcConfiguration: {
+                AssignPublicIp: 'ENABLED',
+                Subnets: { Ref: 'SubnetIds' },
+                SecurityGroups: [
+                  { 'Fn::GetAtt': ['ServiceSecurityGroup', 'GroupId'] },
+                ],
+              },
+            },
+            LoadBalancers: [
+              {
+                ContainerName: 'app',
+                ContainerPort: spec.containerPort,
+                TargetGroupArn: { Ref: 'TargetGroup' },
+              },
+            ],
+            Tags: tags,
+          },
+        };
+        outputs.LoadBalancerURL = {
+          Value: { 'Fn::Sub': 'http://${LoadBalancer.DNSName}' },
+        };
+        outputs.RepositoryURI = {
+          Value: { 'Fn::GetAtt': ['Repository', 'RepositoryUri'] },
+        };
+        break;
+
+      case 'vm':
+        parameters.LatestAmiId = {
+          Type: 'AWS::SSM::Parameter::Value<AWS::EC2::Image::Id>',
+          Default: AMI_PARAMETERS[architectureOf(spec.instanceType)],
+        };
+
+        resources.InstanceSecurityGroup = {
+          Type: 'AWS::EC2::SecurityGroup',
+          Properties: {
+            GroupDescription: `Web traffic for ${spec.projectName}`,
+            SecurityGroupIngress: [80, 443].map((port) => ({
+              IpProtocol: 'tcp',
+              FromPort: port,
+              ToPort: port,
+              CidrIp: '0.0.0.0/0',
+            })),
+            Tags: tags,
+          },
+        };
+        resources.Instance = {
+          Type: 'AWS::EC2::Instance',
+          Properties: {
+            ImageId: { Ref: 'LatestAmiId' },
+            InstanceType: spec.instanceType,
+            SecurityGroupIds: [
+              { 'Fn::GetAtt': ['InstanceSecurityGroup', 'GroupId'] },
+            ],
+            UserData: { 'Fn::Base64': this.bootstrapScript(spec) },
+            Tags: [...tags, { Key: 'Name', Value: name }],
+          },
+        };
+        outputs.InstanceURL = {
+          Value: { 'Fn::Sub': 'http://${Instance.PublicDnsName}' },
+        };
+        break;
+    }
+
+    if (spec.database === 'dynamodb') {
+      resources.Table = {
+        Type: 'AWS::DynamoDB::Table',
+        Properties: {
+          TableName: `${name}-data`,
+          BillingMode: 'PAY_PER_REQUEST',
+          AttributeDefinitions: [{ AttributeName: 'id', AttributeType: 'S' }],
+          KeySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+          PointInTimeRecoverySpecification: {
+            PointInTimeRecoveryEnabled: true,
+          },
+          SSESpecification: { SSEEnabled: true },
+          Tags: tags,
+        },
+      };
+      outputs.TableName = { Value: { Ref: 'Table' } };
+    } else if (spec.database) {
+      resources.Database = {
+        Type: 'AWS::RDS::DBInstance',
+        DeletionPolicy: 'Snapshot',
+        UpdateReplacePolicy: 'Snapshot',
+        Properties: {
+          Engine: spec.database,
+          DBInstanceClass: 'db.t3.micro',
+          AllocatedStorage: '20',
+          MasterUsername: 'appadmin',
+          ManageMasterUserPassword: true,
+          StorageEncrypted: true,
+          PubliclyAccessible: false,
+          BackupRetentionPeriod: 7,
+          Tags: tags,
+        },
+      };
+      outputs.DatabaseEndpoint = {
+        Value: { 'Fn::GetAtt': ['Database', 'Endpoint.Address'] },
+      };
+    }
+
+    const template = {
+      AWSTemplateFormatVersion: '2010-09-09',
+      Description: `${spec.projectName} (${spec.environment}) - exported by AWS Deploy AI`,
+      ...(Object.keys(parameters).length > 0 && { Parameters: parameters }),
+      Resources: resources,
+      Outputs: outputs,
+    };
+
+    // CloudFormation does not accept YAML anchors for the shared tag lists
+    return stringify(template, { lineWidth: 0, aliasDuplicateObjects: false });
+  }
+
+  /**
+   * Terraform configuration for the AWS provider
+   */
+  toTerraform(spec: InfrastructureSpec): string {
+    const name = this.resourcePrefix(spec);
+    const q = (value: string) => this.hclString(value);
+    const blocks: string[] = [];
+    const outputs: Array<[string, string]> = [];
+
+    blocks.push(`terraform {
+  required_providers {
+    aws = {
+      source  = "hashicorp/aws"
+      version = "~> 5.0"
+    }
+  }
+}
+
+variable "region" {
+  type    = string
+  default = ${q(spec.region)}
+}
+
+provider "aws" {
+  region = var.region
+
+  default_tags {
+    tags = ${this.hclMap(this.tags(spec, 'terraform'), 4)}
+  }
+}`);
+
+    switch (spec.compute) {
+      case 'static':
+        blocks.push(`resource "aws_s3_bucket" "website" {
+  bucket_prefix = ${q(`${name}-`)}
+}
+
+resource "aws_s3_bucket_website_configuration" "website" {
+  bucket = aws_s3_bucket.website.id
+
+  index_document {
+    suffix = "index.html"
+  }
+
+  error_document {
+    key = "error.html"
+  }
+}
+
+resource "aws_s3_bucket_public_access_block" "website" {
+  bucket                  = aws_s3_bucket.website.id
+  block_public_acls       = true
+  ignore_public_acls      = true
+  block_public_policy     = false
+  restrict_public_buckets = false
+}
+
+resource "aws_s3_bucket_policy" "website" {
+  bucket = aws_s3_bucket.website.id
+  policy = jsonencode({
+    Version = "2012-10-17"
+    Statement = [{
+      Sid       = "PublicReadGetObject"
+      Effect    = "Allow"
+      Principal = "*"
+      Action    = "s3:GetObject"
+      Resource  = "\${aws_s3_bucket.website.arn}/*"
+    }]
+  })
+
+  depends_on = [aws_s3_bucket_public_access_block.website]
+}`);
+        outputs.push([
+          'website_url',
+          '"http://${aws_s3_bucket_website_configuration.website.website_endpoint}"',
+        ]);
+
+        if (spec.cdn) {
+          blocks.push(`resource "aws_cloudfront_distribution" "website" {
+  enabled             = true
+  comment             = ${q(`CDN for ${spec.projectName} (${spec.environment})`)}
+  default_root_object = "index.html"
+  price_class         = "PriceClass_100"
+
+  origin {
+    origin_id   = "website"
+    domain_name = aws_s3_bucket_website_configuration.website.website_endpoint
+
+    custom_origin_config {
+      http_port              = 80
+      https_port             = 443
+      origin_protocol_policy = "http-only"
+      origin_ssl_protocols   = ["TLSv1.2"]
+    }
+  }
+
+  default_cache_behavior {
+    target_origin_id       = "website"
+    viewer_protocol_policy = "redirect-to-https"
+    allowed_methods        = ["GET", "HEAD"]
+    cached_methods         = ["GET", "HEAD"]
+    cache_policy_id        = ${q(CACHING_OPTIMIZED_POLICY_ID)}
+  }
+
+  custom_error_response {
+    error_code         = 404
+    response_code      = 404
+    response_page_path = "/error.html"
+  }
+
+  restrictions {
+    geo_restriction {
+      restriction_type = "none"
+    }
+  }
+
+  viewer_certificate {
+    cloudfront_default_certificate = true
+  }
+}`);
+          outputs.push([
+            'distribution_url',
+            '"https://${aws_cloudfront_distribution.website.domain_name}"',
+          ]);
+        }
+        break;
+
+      case 'serverless':
+        blocks.push(`variable "code_s3_bucket" {
+  type        = string
+  description = "Bucket holding the packaged function zip"
+}
+
+variable "code_s3_key" {
+  type        = string
+  description = "Key of the packaged function zip"
+}
+
+variable "handler" {
+  type    = string
+  default = "index.handler"
+}
+
+resource "aws_iam_role" "function" {
+  assume_role_policy = ${this.hclAssumeRolePolicy('lambda.amazonaws.com')}
+}
+
+resource "aws_iam_role_policy_attachment" "function_logs" {
+  role       = aws_iam_role.function.name
+  policy_arn = ${q(LAMBDA_BASIC_EXECUTION_POLICY)}
+}
+
+resource "aws_lambda_function" "app" {
+  function_name = ${q(`${name}-function`)}
+  runtime       = ${q(spec.runtime)}
+  handler       = var.handler
+  role          = aws_iam_role.function.arn
+  s3_bucket     = var.code_s3_bucket
+  s3_key        = var.code_s3_key
+  timeout       = 30
+  memory_size   = 128
+}
+
+resource "aws_api_gateway_rest_api" "app" {
+  name = ${q(`${name}-api`)}
+
+  endpoint_configuration {
+    types = ["REGIONAL"]
+  }
+}
+
+resource "aws_api_gateway_resource" "proxy" {
+  rest_api_id = aws_api_gateway_rest_api.app.id
+  parent_id   = aws_api_gateway_rest_api.app.root_resource_id
+  path_part   = "{proxy+}"
+}
+
+resource "aws_api_gateway_method" "root" {
+  rest_api_id   = aws_api_gateway_rest_api.app.id
+  resource_id   = aws_api_gateway_rest_api.app.root_resource_id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_method" "proxy" {
+  rest_api_id   = aws_api_gateway_rest_api.app.id
+  resource_id   = aws_api_gateway_resource.proxy.id
+  http_method   = "ANY"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_integration" "root" {
+  rest_api_id             = aws_api_gateway_rest_api.app.id
+  resource_id             = aws_api_gateway_rest_api.app.root_resource_id
+  http_method             = aws_api_gateway_method.root.http_method
+  type                    = "AWS_PROXY"
+  integration_http_method = "POST"
+  uri                     = aws_lambda_function.app.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "proxy" {
+  rest_api_id             = aws_api_gateway_rest_api.app.id
+  resource_id             = aws_api_gateway_resource.proxy.id
+  http_method             = aws_api_gateway_method.proxy.http_method
+  type                    = "AWS_PROXY"
+  integration_http_method = "POST"
+  uri                     = aws_lambda_function.app.invoke_arn
+}
+
+resource "aws_api_gateway_deployment" "app" {
+  rest_api_id = aws_api_gateway_rest_api.app.id
+
+  depends_on = [
+    aws_api_gateway_integration.root,
+    aws_api_gateway_integration.proxy,
+  ]
+
+  lifecycle {
+    create_before_destroy = true
+  }
+}
+
+resource "aws_api_gateway_stage" "prod" {
+  rest_api_id   = aws_api_gateway_rest_api.app.id
+  deployment_id = aws_api_gateway_deployment.app.id
+  stage_name    = "prod"
+}
+
+resource "aws_lambda_permission" "api_gateway" {
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.app.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "\${aws_api_gateway_rest_api.app.execution_arn}/*"
+}`);
+        outputs.push(['api_url', 'aws_api_gateway_stage.prod.invoke_url']);
+        break;
+
+      case 'container':
+        blocks.push(`variable "vpc_id" {
+  type = string
+}
+
+variable "subnet_ids" {
+  type        = list(string)
+  description = "Public subnets in at least two availability zones"
+}
+
+variable "image_tag" {
+  type    = string
+  default = "latest"
+}
+
+resource "aws_ecr_repository" "app" {
+  name = ${q(name)}
+}
+
+resource "aws_ecs_cluster" "app" {
+  name = ${q(name)}
+}
+
+resource "aws_cloudwatch_log_group" "app" {
+  name              = ${q(`/ecs/${name}`)}
+  retention_in_days = 14
+}
+
+resource "aws_iam_role" "task_execution" {
+  assume_role_policy = ${this.hclAssumeRolePolicy('ecs-tasks.amazonaws.com')}
+}
+
+resource "aws_iam_role_policy_attachment" "task_execution" {
+  role       = aws_iam_role.task_execution.name
+  policy_arn = ${q(ECS_TASK_EXECUTION_POLICY)}
+}
+
+resource "aws_ecs_task_definition" "app" {
+  family                   = ${q(name)}
+  requires_compatibilities = ["FARGATE"]
+  network_mode             = "awsvpc"
+  cpu                      = "256"
+  memory                   = "512"
+  execution_role_arn       = aws_iam_role.task_execution.arn
+
+  container_definitions = jsonencode([{
+    name         = "app"
+    image        = "\${aws_ecr_repository.app.repository_url}:\${var.image_tag}"
+    essential    = true
+    portMappings = [{ containerPort = ${spec.containerPort}, protocol = "tcp" }]
+    environment  = [{ name = "PORT", value = "${spec.containerPort}" }]
+    logConfiguration = {
+      logDriver = "awslogs"
+      options = {
+        "awslogs-group"         = aws_cloudwatch_log_group.app.name
+        "awslogs-region"        = var.region
+        "awslogs-stream-prefix" = "app"
+      }
+    }
+  }])
+}
+
+resource "aws_security_group" "load_balancer" {
+  description = ${q(`Load balancer for ${spec.projectName}`)}
+  vpc_id      = var.vpc_id
+
+  ingress {
+    protocol    = "tcp"
+    from_port   = 80
+    to_port     = 80
+    cidr_blocks = ["0.0.0.0/0"]
+  }
+
+  egress {
+    protocol    = "-1"
+    from_port   = 0
+    to_port     = 0
+    cidr_blocks = ["0.0.0.0/0"]
+  }
+}
+
+resource "aws_security_group" "service" {
+  description = ${q(`Tasks for ${spec.projectName}`)}
+  vpc_id      = var.vpc_id
+
+  ingress {
+    protocol        = "tcp"
+    from_port       = ${spec.containerPort}
+    to_port         = ${spec.containerPort}
+    security_groups = [aws_security_group.load_balancer.id]
+  }
+
+  egress {
+    protocol    = "-1"
+    from_port   = 0
+    to_port     = 0
+    cidr_blocks = ["0.0.0.0/0"]
+  }
+}
+
+resource "aws_lb" "app" {
+  load_balancer_type = "application"
+  internal           = false
+  subnets            = var.subnet_ids
+  security_groups    = [aws_security_group.load_balancer.id]
+}
+
+resource "aws_lb_target_group" "app" {
+  target_type = "ip"
+  protocol    = "HTTP"
+  port        = ${spec.containerPort}
+  vpc_id      = var.vpc_id
+
+  health_check {
+    path = "/"
+  }
+}
+
+resource "aws_lb_listener" "http" {
+  load_balancer_arn = aws_lb.app.arn
+  protocol          = "HTTP"
+  port              = 80
+
+  default_action {
+    type             = "forward"
+    target_group_arn = aws_lb_target_group.app.arn
+  }
+}
+
+resource "aws_ecs_service" "app" {
+  name            = ${q(`${name}-svc`)}
+  cluster         = aws_ecs_cluster.app.id
+  launch_type     = "FARGATE"
+  desired_count   = 1
+  task_definition = aws_ecs_task_definition.app.arn
+
+  network_configuration {
+    assign_public_ip = true
+    subnets          = var.subnet_ids
+    security_groups  = [aws_security_group.service.id]
+  }
+
+  load_balancer {
+    container_name   = "app"
+    container_port   = ${spec.containerPort}
+    target_group_arn = aws_lb_target_group.app.arn
+  }
+
+  depends_on = [aws_lb_listener.http]
+}`);
+        outputs.push(
+          ['load_balancer_url', '"http://${aws_lb.app.dns_name}"'],
+          ['repository_url', 'aws_ecr_repository.app.repository_url']
+        );
+        break;
+
+      case 'vm':
+        blocks.push(`data "aws_ssm_parameter" "ami" {
+  name = ${q(AMI_PARAMETERS[architectureOf(spec.instanceType)])}
+}
+
+resource "aws_security_group" "instance" {
+  description = ${q(`Web traffic for ${spec.projectName}`)}
+${[80, 443]
+  .map(
+    (port) => `
+  ingress {
+    protocol    = "tcp"
+    from_port   = ${port}
+    to_port     = ${port}
+    cidr_blocks = ["0.0.0.0/0"]
+  }`
+  )
+  .join('\n')}
+
+  egress {
+    protocol    = "-1"
+    from_port   = 0
+    to_port     = 0
+    cidr_blocks = ["0.0.0.0/0"]
+  }
+}
+
+resource "aws_instance" "app" {
+  ami                    = data.aws_ssm_parameter.ami.value
+  instance_type          = ${q(spec.instanceType)}
+  vpc_security_group_ids = [aws_security_group.instance.id]
+
+  user_data = <<-EOT
+${this.bootstrapScript(spec)
+  .split('\n')
+  .map((line) => (line ? `    ${line}` : line))
+  .join('\n')}
+  EOT
+
+  tags = {
+    Name = ${q(name)}
+  }
+}`);
+        outputs.push([
+          'instance_url',
+          '"http://${aws_instance.app.public_dns}"',
+        ]);
+        break;
+    }
+
+    if (spec.database === 'dynamodb') {
+      blocks.push(`resource "aws_dynamodb_table" "data" {
+  name         = ${q(`${name}-data`)}
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "id"
+
+  attribute {
+    name = "id"
+    type = "S"
+  }
+
+  point_in_time_recovery {
+    enabled = true
+  }
+
+  server_side_encryption {
+    enabled = true
+  }
+}`);
+      outputs.push(['table_name', 'aws_dynamodb_table.data.name']);
+    } else if (spec.database) {
+      blocks.push(`resource "aws_db_instance" "database" {
+  identifier_prefix           = ${q(`${name}-`)}
+  engine                      = ${q(spec.database)}
+  instance_class              = "db.t3.micro"
+  allocated_storage           = 20
+  username                    = "appadmin"
+  manage_master_user_password = true
+  storage_encrypted           = true
+  publicly_accessible         = false
+  backup_retention_period     = 7
+  skip_final_snapshot         = false
+  final_snapshot_identifier   = ${q(`${name}-final`)}
+}`);
+      outputs.push(['database_endpoint', 'aws_db_instance.database.address']);
+    }
+
+    blocks.push(
+      ...outputs.map(
+        ([outputName, value]) => `output "${outputName}" {
+  value = ${value}
+}`
+      )
+    );
+
+    return `# ${spec.projectName} (${spec.environment}) - exported by AWS Deploy AI\n\n${blocks.join('\n\n')}\n`;
+  }
+
+  private buildSpec(
+    derived: Pick<
+      InfrastructureSpec,
+      'compute' | 'cdn' | 'database' | 'runtime' | 'instanceType' | 'notes'
+    >,
+    options: ExportOptions
+  ): InfrastructureSpec {
+    const notes = [...derived.notes];
+    const containerPort = options.containerPort || 3000;
+    if (derived.cdn && derived.compute !== 'static') {
+      notes.push('CloudFront is only exported in front of static websites');
+    }
+    if (derived.compute === 'vm') {
+      notes.push(
+        `The instance is bootstrapped with Node.js and nginx proxying port 80 to ${containerPort}; copy the application to /opt/app and start it there`
+      );
+    }
+
+    return {
+      ...derived,
+      projectName: options.projectName || 'aws-deploy-ai-project',
+      environment: options.environment || 'production',
+      region: options.region || 'us-east-1',
+      containerPort,
+      cdn: derived.cdn && derived.compute === 'static',
+      notes,
+    };
+  }
+
+  /**
+   * User data for the exported instance: installs Node.js and puts nginx in
+   * front of the app port. The app itself is not part of the template.
+   */
+  private bootstrapScript(spec: InfrastructureSpec): string {
+    return [
+      '#!/bin/bash',
+      'set -euxo pipefail',
+      'dnf install -y nodejs20 git nginx',
+      'mkdir -p /opt/app',
+      // The stock config claims port 80 as its default server
+      "sed -i 's/ default_server//' /etc/nginx/nginx.conf",
+      "cat > /etc/nginx/conf.d/app.conf <<'NGINX'",
+      'server {',
+      '    listen 80 default_server;',
+      '    location / {',
+      `        proxy_pass http://127.0.0.1:${spec.containerPort};`,
+      '        proxy_set_header Host $host;',
+      '        proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;',
+      '    }',
+      '}',
+      'NGINX',
+      'systemctl enable --now nginx',
+    ].join('\n');
+  }
+
+  private resourcePrefix(spec: InfrastructureSpec): string {
+    return sanitizeProjectName(`${spec.projectName}-${spec.environment}`);
+  }
+
+  /**
+   * Tags for exported stacks. ManagedBy names the IaC tool so the orphan
+   * scanner does not mistake these resources for ones this server created.
+   */
+  private tags(
+    spec: InfrastructureSpec,
+    managedBy: 'cloudformation' | 'terraform'
+  ): Record<string, string> {
+    // CreatedAt would change the output on every export
+    const { CreatedAt: _createdAt, ...tags } = createAwsTags(
+      spec.projectName,
+      spec.environment,
+      { ManagedBy: managedBy, GeneratedBy: 'aws-deploy-ai' }
+    );
+    return tags;
+  }
+
+  private assumeRolePolicy(service: string) {
+    return {
+      Version: '2012-10-17',
+      Statement: [
+        {
+          Effect: 'Allow',
+          Principal: { Service: service },
+          Action: 'sts:AssumeRole',
+        },
+      ],
+    };
+  }
+
+  private hclAssumeRolePolicy(service: string): string {
+    return `jsonencode({
+    Version = "2012-10-17"
+    Statement = [{
+      Effect    = "Allow"
+      Principal = { Service = ${this.hclString(service)} }
+      Action    = "sts:AssumeRole"
+    }]
+  })`;
+  }
+
+  private hclMap(values: Record<string, string>, indent: number): string {
+    const pad = ' '.repeat(indent);
+    const width = Math.max(...Object.keys(values).map((key) => key.length));
+    const lines = Object.entries(values).map(
+      ([key, value]) =>
+        `${pad}  ${key.padEnd(width)} = ${this.hclString(value)}`
+    );
+    return `{\n${lines.join('\n')}\n${pad}}`;
+  }
+
+  private hclString(value: string): string {
+    // JSON escaping is valid HCL; template sequences must be escaped too
+    return JSON.stringify(value).replace(/\$\{/g, '$${').replace(/%\{/g, '%%{');
+  }
+}
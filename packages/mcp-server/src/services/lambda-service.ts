@@ -3,28 +3,84 @@ import {
   CreateFunctionCommand,
   UpdateFunctionCodeCommand,
   GetFunctionCommand,
+  AddPermissionCommand,
+  DeleteFunctionCommand,
   CreateFunctionCommandInput,
 } from '@aws-sdk/client-lambda';
 import {
   IAMClient,
   CreateRoleCommand,
   AttachRolePolicyCommand,
+  ListAttachedRolePoliciesCommand,
+  DetachRolePolicyCommand,
+  DeleteRoleCommand,
 } from '@aws-sdk/client-iam';
 import { AWSResource } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 import { generateResourceName, createAwsTags } from '../utils/helpers.js';
+import { CommandRunner, runCommand } from '../utils/command.js';
 import archiver from 'archiver';
 import { Readable } from 'stream';
+import fs from 'fs/promises';
+import path from 'path';
+
+// Direct ZipFile uploads are capped by Lambda at 50 MB
+const MAX_ZIP_BYTES = 50 * 1024 * 1024;
+
+const NODE_HANDLER_CANDIDATES = [
+  'lambda.js',
+  'lambda.mjs',
+  'handler.js',
+  'handler.mjs',
+  'index.js',
+  'index.mjs',
+  'src/lambda.js',
+  'src/handler.js',
+  'src/index.js',
+  'dist/lambda.js',
+  'dist/handler.js',
+  'dist/index.js',
+  'app.js',
+  'server.js',
+];
+
+const PYTHON_HANDLER_CANDIDATES = [
+  'lambda_function.py',
+  'handler.py',
+  'app.py',
+  'main.py',
+];
+
+const ADAPTER_FILE = 'aws-deploy-ai-handler.js';
+
+export interface LambdaServiceClients {
+  lambda?: LambdaClient;
+  iam?: IAMClient;
+  runCommand?: CommandRunner;
+}
+
+export interface LambdaPackage {
+  zipFile: Buffer;
+  handler: string;
+  runtime: string;
+  entryFile: string;
+  adapterGenerated: boolean;
+}
 
 export class LambdaService {
   private lambdaClient: LambdaClient;
   private iamClient: IAMClient;
+  private runCommand: CommandRunner;
   private region: string;
 
-  constructor(region: string = 'us-east-1') {
+  constructor(
+    region: string = 'us-east-1',
+    clients: LambdaServiceClients = {}
+  ) {
     this.region = region;
-    this.lambdaClient = new LambdaClient({ region });
-    this.iamClient = new IAMClient({ region });
+    this.lambdaClient = clients.lambda || new LambdaClient({ region });
+    this.iamClient = clients.iam || new IAMClient({ region });
+    this.runCommand = clients.runCommand || runCommand;
   }
 
   /**
@@ -34,22 +90,30 @@ export class LambdaService {
     projectName: string,
     environment: string,
     runtime: string = 'nodejs18.x',
-    code?: string,
-    handler: string = 'index.handler'
+    code?: string | Buffer,
+    handler: string = 'index.handler',
+    functionName: string = generateResourceName(
+      projectName,
+      'api',
+      environment
+    ),
+    roleName?: string
   ): Promise<AWSResource> {
-    const functionName = generateResourceName(projectName, 'api', environment);
-
     logger.info(`Creating Lambda function: ${functionName}`);
 
     try {
       // Create IAM role for Lambda
-      const roleArn = await this.createLambdaRole(projectName, environment);
-
-      // Prepare function code
-      const zipBuffer = await this.createCodeZip(
-        code || this.getDefaultLambdaCode()
+      const roleArn = await this.createLambdaRole(
+        projectName,
+        environment,
+        roleName
       );
 
+      // Prepare function code (a Buffer is an already packaged zip)
+      const zipBuffer = Buffer.isBuffer(code)
+        ? code
+        : await this.createCodeZip(code || this.getDefaultLambdaCode());
+
       const functionConfig: CreateFunctionCommandInput = {
         FunctionName: functionName,
         Runtime: runtime as any,
@@ -102,19 +166,222 @@ export class LambdaService {
     }
   }
 
+  /**
+   * Package a cloned repository as a Lambda deployment zip
+   */
+  async packageProject(
+    projectPath: string,
+    projectInfo: any
+  ): Promise<LambdaPackage> {
+    logger.info(`Packaging ${projectPath} for Lambda`);
+
+    try {
+      const files = await fs.readdir(projectPath);
+      let entry: { handler: string; runtime: string; entryFile: string };
+      let adapterGenerated = false;
+
+      if (projectInfo.hasPackageJson || files.includes('package.json')) {
+        await this.installNodeDependencies(projectPath, projectInfo);
+        const detected = await this.detectNodeHandler(projectPath, projectInfo);
+        adapterGenerated = detected.adapterGenerated;
+        entry = {
+          handler: detected.handler,
+          runtime: 'nodejs20.x',
+          entryFile: detected.entryFile,
+        };
+      } else if (files.some((file) => file.endsWith('.py'))) {
+        if (files.includes('requirements.txt')) {
+          await this.runCommand(
+            'pip install -r requirements.txt -t . --quiet',
+            { cwd: projectPath }
+          );
+        }
+        entry = {
+          ...(await this.detectPythonHandler(projectPath)),
+          runtime: 'python3.12',
+        };
+      } else {
+        throw new Error(
+          'Unsupported project layout: expected a package.json or Python sources'
+        );
+      }
+
+      const zipFile = await this.createDirectoryZip(projectPath);
+      if (zipFile.length > MAX_ZIP_BYTES) {
+        throw new Error(
+          `Package is ${Math.round(zipFile.length / 1024 / 1024)} MB, above the 50 MB Lambda upload limit. Use a containerized deployment instead.`
+        );
+      }
+
+      logger.info(
+        `Packaged ${projectPath} (${zipFile.length} bytes), handler ${entry.handler}`
+      );
+      return { zipFile, ...entry, adapterGenerated };
+    } catch (error) {
+      logger.error(`Failed to package project: ${projectPath}`, { error });
+      throw new Error(
+        `Lambda packaging failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Allow API Gateway to invoke a Lambda function
+   */
+  async grantApiGatewayInvoke(
+    functionName: string,
+    sourceArn: string
+  ): Promise<void> {
+    try {
+      await this.lambdaClient.send(
+        new AddPermissionCommand({
+          FunctionName: functionName,
+          StatementId: 'aws-deploy-ai-apigateway-invoke',
+          Action: 'lambda:InvokeFunction',
+          Principal: 'apigateway.amazonaws.com',
+          SourceArn: sourceArn,
+        })
+      );
+    } catch (error) {
+      logger.error(`Failed to grant API Gateway invoke: ${functionName}`, {
+        error,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Install production dependencies, running the build script first if any
+   */
+  private async installNodeDependencies(
+    projectPath: string,
+    projectInfo: any
+  ): Promise<void> {
+    const files = await fs.readdir(projectPath);
+    const install = files.includes('package-lock.json')
+      ? 'npm ci'
+      : 'npm install';
+
+    if (projectInfo.packageJson?.scripts?.build) {
+      await this.runCommand(install, { cwd: projectPath });
+      await this.runCommand('npm run build', { cwd: projectPath });
+      await this.runCommand('npm prune --omit=dev', { cwd: projectPath });
+    } else {
+      await this.runCommand(`${install} --omit=dev`, { cwd: projectPath });
+    }
+  }
+
+  /**
+   * Find an exported handler, or wrap an exported Express app
+   */
+  private async detectNodeHandler(
+    projectPath: string,
+    projectInfo: any
+  ): Promise<{
+    handler: string;
+    entryFile: string;
+    adapterGenerated: boolean;
+  }> {
+    const main = projectInfo.packageJson?.main;
+    const candidates = main
+      ? [path.normalize(main), ...NODE_HANDLER_CANDIDATES]
+      : NODE_HANDLER_CANDIDATES;
+    let appModule: string | undefined;
+
+    for (const candidate of candidates) {
+      let source: string;
+      try {
+        source = await fs.readFile(path.join(projectPath, candidate), 'utf-8');
+      } catch {
+        continue;
+      }
+
+      if (
+        /exports\.handler\s*=|export\s+(const|let|async\s+function|function)\s+handler\b|export\s*\{[^}]*\bhandler\b/.test(
+          source
+        )
+      ) {
+        return {
+          handler: `${candidate.replace(/\.m?js$/, '')}.handler`,
+          entryFile: candidate,
+          adapterGenerated: false,
+        };
+      }
+
+      if (!appModule && /module\.exports\s*=\s*app\b/.test(source)) {
+        appModule = candidate;
+      }
+    }
+
+    const dependencies = projectInfo.packageJson?.dependencies || {};
+    if (appModule && dependencies.express) {
+      await this.runCommand('npm install serverless-http --omit=dev', {
+        cwd: projectPath,
+      });
+      await fs.writeFile(
+        path.join(projectPath, ADAPTER_FILE),
+        [
+          "const serverless = require('serverless-http');",
+          `const app = require('./${appModule}');`,
+          '',
+          'module.exports.handler = serverless(app);',
+          '',
+        ].join('\n')
+      );
+      return {
+        handler: `${ADAPTER_FILE.replace(/\.js$/, '')}.handler`,
+        entryFile: appModule,
+        adapterGenerated: true,
+      };
+    }
+
+    throw new Error(
+      `No Lambda handler found. Export a "handler" function from one of: ${candidates.join(', ')}`
+    );
+  }
+
+  /**
+   * Find a handler or lambda_handler function in common Python entry files
+   */
+  private async detectPythonHandler(
+    projectPath: string
+  ): Promise<{ handler: string; entryFile: string }> {
+    for (const candidate of PYTHON_HANDLER_CANDIDATES) {
+      let source: string;
+      try {
+        source = await fs.readFile(path.join(projectPath, candidate), 'utf-8');
+      } catch {
+        continue;
+      }
+
+      const match = source.match(
+        /^(?:async\s+)?def\s+(lambda_handler|handler)\s*\(/m
+      );
+      if (match) {
+        return {
+          handler: `${candidate.replace(/\.py$/, '')}.${match[1]}`,
+          entryFile: candidate,
+        };
+      }
+    }
+
+    throw new Error(
+      `No Lambda handler found. Define "lambda_handler" or "handler" in one of: ${PYTHON_HANDLER_CANDIDATES.join(', ')}`
+    );
+  }
+
   /**
    * Create IAM role for Lambda function
    */
   private async createLambdaRole(
     projectName: string,
-    environment: string
-  ): Promise<string> {
-    const roleName = generateResourceName(
+    environment: string,
+    roleName: string = generateResourceName(
       projectName,
       'lambda-role',
       environment
-    );
-
+    )
+  ): Promise<string> {
     try {
       const assumeRolePolicy = {
         Version: '2012-10-17',
@@ -190,6 +457,38 @@ export class LambdaService {
     });
   }
 
+  /**
+   * Create ZIP archive of a project directory
+   */
+  private async createDirectoryZip(directory: string): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const archive = archiver('zip', {
+        zlib: { level: 9 },
+      });
+
+      const chunks: Buffer[] = [];
+
+      archive.on('data', (chunk) => {
+        chunks.push(chunk);
+      });
+
+      archive.on('end', () => {
+        resolve(Buffer.concat(chunks));
+      });
+
+      archive.on('error', (error) => {
+        reject(error);
+      });
+
+      archive.glob('**/*', {
+        cwd: directory,
+        dot: true,
+        ignore: ['.git/**', '.env', '.env.*'],
+      });
+      archive.finalize();
+    });
+  }
+
   /**
    * Get default Lambda function code
    */
@@ -296,11 +595,17 @@ exports.handler = async (event, context) => {
   /**
    * Update Lambda function code
    */
-  async updateFunctionCode(functionName: string, code: string): Promise<void> {
+  async updateFunctionCode(
+    functionName: string,
+    code: string | Buffer
+  ): Promise<void> {
     logger.info(`Updating Lambda function code: ${functionName}`);
 
     try {
-      const zipBuffer = await this.createCodeZip(code);
+      // A Buffer is an already packaged zip
+      const zipBuffer = Buffer.isBuffer(code)
+        ? code
+        : await this.createCodeZip(code);
 
       const command = new UpdateFunctionCodeCommand({
         FunctionName: functionName,
@@ -357,6 +662,51 @@ exports.handler = async (event, context) => {
     }
   }
 
+  /**
+   * Delete a function and the execution role created for it
+   */
+  async deleteFunction(
+    functionName: string
+  ): Promise<{ deletedRole?: string }> {
+    logger.info(`Deleting Lambda function: ${functionName}`);
+
+    const info = await this.lambdaClient.send(
+      new GetFunctionCommand({ FunctionName: functionName })
+    );
+    await this.lambdaClient.send(
+      new DeleteFunctionCommand({ FunctionName: functionName })
+    );
+
+    // Only remove roles created by createLambdaRole, never shared ones
+    const roleName = info.Configuration?.Role?.split('/').pop();
+    if (!roleName || !roleName.includes('-lambda-role-')) {
+      return {};
+    }
+
+    await this.deleteRole(roleName);
+
+    logger.info(`Deleted Lambda function ${functionName} and role ${roleName}`);
+    return { deletedRole: roleName };
+  }
+
+  /**
+   * Delete an execution role created by createLambdaRole
+   */
+  async deleteRole(roleName: string): Promise<void> {
+    const attached = await this.iamClient.send(
+      new ListAttachedRolePoliciesCommand({ RoleName: roleName })
+    );
+    for (const policy of attached.AttachedPolicies || []) {
+      await this.iamClient.send(
+        new DetachRolePolicyCommand({
+          RoleName: roleName,
+          PolicyArn: policy.PolicyArn,
+        })
+      );
+    }
+    await this.iamClient.send(new DeleteRoleCommand({ RoleName: roleName }));
+  }
+
   /**
    * Generate Lambda function for different project types
    */
@@ -0,0 +1,538 @@
+import {
+  EC2Client,
+  DescribeInstancesCommand,
+  DescribeRegionsCommand,
+  DescribeSecurityGroupsCommand,
+  Filter,
+  Instance,
+  Tag,
+} from '@aws-sdk/client-ec2';
+import {
+  S3Client,
+  ListBucketsCommand,
+  GetBucketTaggingCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3';
+import {
+  CloudFrontClient,
+  ListDistributionsCommand,
+  ListTagsForResourceCommand,
+} from '@aws-sdk/client-cloudfront';
+import {
+  IAMClient,
+  ListRolesCommand,
+  ListRoleTagsCommand,
+} from '@aws-sdk/client-iam';
+import { LambdaClient, ListFunctionsCommand } from '@aws-sdk/client-lambda';
+import { AWSResource } from '../types/index.js';
+import { DeploymentRecord } from '../storage/index.js';
+import { logger } from '../utils/logger.js';
+
+export interface OrphanScannerClients {
+  ec2?: EC2Client;
+  s3?: S3Client;
+  cloudFront?: CloudFrontClient;
+  iam?: IAMClient;
+  lambda?: LambdaClient;
+  // Lambda clients for the other regions, checked for functions that still
+  // use a role
+  lambdaForRegion?: (region: string) => LambdaClient;
+}
+
+export interface OrphanedResource {
+  resource: AWSResource;
+  name?: string;
+  // Why the resource was attributed to this tool
+  matchedBy: string;
+  deploymentId?: string;
+  estimatedMonthlyCost: number;
+  costNote?: string;
+  createdAt?: Date;
+}
+
+export interface OrphanScanResult {
+  region: string;
+  scannedAt: Date;
+  scanned: number;
+  knownDeployments: number;
+  orphans: OrphanedResource[];
+  estimatedMonthlyCost: number;
+  // Resource types that could not be scanned, e.g. for lack of permissions
+  errors: string[];
+}
+
+const MANAGED_BY_TAG = { key: 'ManagedBy', value: 'aws-deploy-ai' };
+const CREATED_BY_TAG = { key: 'CreatedBy', value: 'AWS Deploy AI' };
+const NAME_PREFIX = 'aws-deploy-ai-';
+// Records in these states no longer account for the resources they list
+const ENDED_STATUSES = ['destroyed', 'failed'];
+
+const HOURS_PER_MONTH = 730;
+const S3_STANDARD_GB_MONTH = 0.023;
+// Bucket sizes are summed from listings; stop after this many pages
+const MAX_LISTING_PAGES = 10;
+
+// On-demand Linux prices in us-east-1, USD per hour
+const INSTANCE_HOURLY_PRICES: Record<string, number> = {
+  't2.nano': 0.0058,
+  't2.micro': 0.0116,
+  't2.small': 0.023,
+  't2.medium': 0.0464,
+  't3.nano': 0.0052,
+  't3.micro': 0.0104,
+  't3.small': 0.0208,
+  't3.medium': 0.0416,
+  't3.large': 0.0832,
+};
+
+export class OrphanScanner {
+  private ec2Client: EC2Client;
+  private s3Client: S3Client;
+  private cloudFrontClient: CloudFrontClient;
+  private iamClient: IAMClient;
+  private lambdaClient: LambdaClient;
+  private lambdaForRegion: (region: string) => LambdaClient;
+  private region: string;
+
+  constructor(
+    region: string = 'us-east-1',
+    clients: OrphanScannerClients = {}
+  ) {
+    this.region = region;
+    this.ec2Client = clients.ec2 || new EC2Client({ region });
+    this.s3Client = clients.s3 || new S3Client({ region });
+    this.cloudFrontClient =
+      clients.cloudFront || new CloudFrontClient({ region: 'us-east-1' });
+    this.iamClient = clients.iam || new IAMClient({ region });
+    this.lambdaClient = clients.lambda || new LambdaClient({ region });
+    this.lambdaForRegion =
+      clients.lambdaForRegion ||
+      ((other: string) => new LambdaClient({ region: other }));
+  }
+
+  /**
+   * Find resources created by this tool that no known deployment accounts for
+   */
+  async scan(deployments: DeploymentRecord[]): Promise<OrphanScanResult> {
+    logger.info(`Scanning ${this.region} for orphaned resources`, {
+      knownDeployments: deployments.length,
+    });
+
+    // Only the resources a live record lists are accounted for; a tagged
+    // DeploymentId alone does not count, and a failed deployment's leftovers
+    // are orphans even though its record remains
+    const knownIds = new Set<string>();
+    for (const deployment of deployments) {
+      if (ENDED_STATUSES.includes(deployment.status)) {
+        continue;
+      }
+      for (const resource of deployment.resources) {
+        if (resource?.id) knownIds.add(resource.id);
+        if (resource?.arn) knownIds.add(resource.arn);
+      }
+    }
+
+    const scanners: Array<[string, () => Promise<OrphanedResource[]>]> = [
+      ['EC2 instances', () => this.scanInstances()],
+      ['security groups', () => this.scanSecurityGroups()],
+      ['S3 buckets', () => this.scanBuckets()],
+      ['CloudFront distributions', () => this.scanDistributions()],
+      ['Lambda roles', () => this.scanLambdaRoles()],
+    ];
+
+    const candidates: OrphanedResource[] = [];
+    const errors: string[] = [];
+
+    for (const [label, scanner] of scanners) {
+      try {
+        candidates.push(...(await scanner()));
+      } catch (error) {
+        logger.warn(`Orphan scan of ${label} failed`, { error });
+        errors.push(
+          `${label}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    const orphans = candidates.filter(
+      (candidate) =>
+        !knownIds.has(candidate.resource.id) &&
+        !knownIds.has(candidate.resource.arn)
+    );
+
+    return {
+      region: this.region,
+      scannedAt: new Date(),
+      scanned: candidates.length,
+      knownDeployments: deployments.length,
+      orphans,
+      estimatedMonthlyCost: this.round(
+        orphans.reduce((sum, orphan) => sum + orphan.estimatedMonthlyCost, 0)
+      ),
+      errors,
+    };
+  }
+
+  private async scanInstances(): Promise<OrphanedResource[]> {
+    const activeStates: Filter = {
+      Name: 'instance-state-name',
+      Values: ['pending', 'running', 'stopping', 'stopped'],
+    };
+    // EC2 ANDs filters, so each way of recognising an instance is a query
+    const queries: Array<[string, Filter]> = [
+      [
+        `tag ${MANAGED_BY_TAG.key}=${MANAGED_BY_TAG.value}`,
+        { Name: `tag:${MANAGED_BY_TAG.key}`, Values: [MANAGED_BY_TAG.value] },
+      ],
+      [
+        `tag ${CREATED_BY_TAG.key}=${CREATED_BY_TAG.value}`,
+        { Name: `tag:${CREATED_BY_TAG.key}`, Values: [CREATED_BY_TAG.value] },
+      ],
+      [
+        `name ${NAME_PREFIX}*`,
+        { Name: 'tag:Name', Values: [`${NAME_PREFIX}*`] },
+      ],
+    ];
+
+    const found = new Map<string, OrphanedResource>();
+
+    for (const [matchedBy, filter] of queries) {
+      let nextToken: string | undefined;
+      do {
+        const result = await this.ec2Client.send(
+          new DescribeInstancesCommand({
+            Filters: [filter, activeStates],
+            NextToken: nextToken,
+          })
+        );
+
+        for (const instance of (result.Reservations || []).flatMap(
+          (reservation) => reservation.Instances || []
+        )) {
+          if (instance.InstanceId && !found.has(instance.InstanceId)) {
+            found.set(
+              instance.InstanceId,
+              this.toInstanceOrphan(instance, matchedBy)
+            );
+          }
+        }
+
+        nextToken = result.NextToken;
+      } while (nextToken);
+    }
+
+    return Array.from(found.values());
+  }
+
+  private toInstanceOrphan(
+    instance: Instance,
+    matchedBy: string
+  ): OrphanedResource {
+    const tags = this.toTagMap(instance.Tags);
+    const state = instance.State?.Name || 'unknown';
+    const hourly = INSTANCE_HOURLY_PRICES[instance.InstanceType || ''];
+    const running = state === 'running' || state === 'pending';
+
+    return {
+      resource: {
+        id: instance.InstanceId!,
+        type: 'EC2::Instance',
+        arn: `arn:aws:ec2:${this.region}::instance/${instance.InstanceId}`,
+        region: this.region,
+        status: state,
+        tags,
+      },
+      name: tags.Name,
+      matchedBy,
+      deploymentId: tags.DeploymentId,
+      estimatedMonthlyCost:
+        running && hourly ? this.round(hourly * HOURS_PER_MONTH) : 0,
+      costNote: !running
+        ? 'Stopped; only its EBS volumes are billed'
+        : hourly
+          ? `${instance.InstanceType} on-demand`
+          : `No price on file for ${instance.InstanceType}`,
+      createdAt: instance.LaunchTime,
+    };
+  }
+
+  private async scanSecurityGroups(): Promise<OrphanedResource[]> {
+    const found = new Map<string, OrphanedResource>();
+    const queries: Array<[string, Filter]> = [
+      [
+        `name ${NAME_PREFIX}*`,
+        { Name: 'group-name', Values: [`${NAME_PREFIX}*`] },
+      ],
+      [
+        `tag ${MANAGED_BY_TAG.key}=${MANAGED_BY_TAG.value}`,
+        { Name: `tag:${MANAGED_BY_TAG.key}`, Values: [MANAGED_BY_TAG.value] },
+      ],
+    ];
+
+    for (const [matchedBy, filter] of queries) {
+      let nextToken: string | undefined;
+      do {
+        const result = await this.ec2Client.send(
+          new DescribeSecurityGroupsCommand({
+            Filters: [filter],
+            NextToken: nextToken,
+          })
+        );
+
+        for (const group of result.SecurityGroups || []) {
+          if (!group.GroupId || found.has(group.GroupId)) continue;
+          const tags = this.toTagMap(group.Tags);
+          found.set(group.GroupId, {
+            resource: {
+              id: group.GroupId,
+              type: 'EC2::SecurityGroup',
+              arn: `arn:aws:ec2:${this.region}:${group.OwnerId}:security-group/${group.GroupId}`,
+              region: this.region,
+              status: 'active',
+              tags,
+            },
+            name: group.GroupName,
+            matchedBy,
+            deploymentId: tags.DeploymentId,
+            estimatedMonthlyCost: 0,
+            costNote: 'Security groups are free',
+          });
+        }
+
+        nextToken = result.NextToken;
+      } while (nextToken);
+    }
+
+    return Array.from(found.values());
+  }
+
+  private async scanBuckets(): Promise<OrphanedResource[]> {
+    const orphans: OrphanedResource[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const result = await this.s3Client.send(
+        new ListBucketsCommand({
+          BucketRegion: this.region,
+          ContinuationToken: continuationToken,
+        })
+      );
+
+      for (const bucket of result.Buckets || []) {
+        if (!bucket.Name) continue;
+
+        const tags = await this.getBucketTags(bucket.Name);
+        if (tags[MANAGED_BY_TAG.key] !== MANAGED_BY_TAG.value) continue;
+
+        const { bytes, complete } = await this.getBucketSize(bucket.Name);
+        const gigabytes = bytes / 1024 ** 3;
+
+        orphans.push({
+          resource: {
+            id: bucket.Name,
+            type: 'S3::Bucket',
+            arn: `arn:aws:s3:::${bucket.Name}`,
+            region: this.region,
+            status: 'active',
+            tags,
+          },
+          name: bucket.Name,
+          matchedBy: `tag ${MANAGED_BY_TAG.key}=${MANAGED_BY_TAG.value}`,
+          deploymentId: tags.DeploymentId,
+          estimatedMonthlyCost: this.round(gigabytes * S3_STANDARD_GB_MONTH),
+          costNote: `${complete ? '' : 'At least '}${gigabytes.toFixed(2)} GB in S3 Standard`,
+          createdAt: bucket.CreationDate,
+        });
+      }
+
+      continuationToken = result.ContinuationToken;
+    } while (continuationToken);
+
+    return orphans;
+  }
+
+  private async getBucketTags(
+    bucketName: string
+  ): Promise<Record<string, string>> {
+    try {
+      const result = await this.s3Client.send(
+        new GetBucketTaggingCommand({ Bucket: bucketName })
+      );
+      return this.toTagMap(result.TagSet);
+    } catch (error) {
+      // Untagged buckets answer with NoSuchTagSet
+      if ((error as { name?: string })?.name !== 'NoSuchTagSet') {
+        logger.debug(`Could not read tags of bucket ${bucketName}`, { error });
+      }
+      return {};
+    }
+  }
+
+  private async getBucketSize(
+    bucketName: string
+  ): Promise<{ bytes: number; complete: boolean }> {
+    let bytes = 0;
+    let continuationToken: string | undefined;
+
+    for (let page = 0; page < MAX_LISTING_PAGES; page++) {
+      const result = await this.s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: bucketName,
+          ContinuationToken: continuationToken,
+        })
+      );
+      bytes += (result.Contents || []).reduce(
+        (sum, object) => sum + (object.Size || 0),
+        0
+      );
+
+      continuationToken = result.NextContinuationToken;
+      if (!continuationToken) {
+        return { bytes, complete: true };
+      }
+    }
+
+    return { bytes, complete: false };
+  }
+
+  private async scanDistributions(): Promise<OrphanedResource[]> {
+    const orphans: OrphanedResource[] = [];
+    let marker: string | undefined;
+
+    do {
+      const result = await this.cloudFrontClient.send(
+        new ListDistributionsCommand({ Marker: marker })
+      );
+      const list = result.DistributionList;
+
+      for (const distribution of list?.Items || []) {
+        if (!distribution.Id || !distribution.ARN) continue;
+
+        const tagResult = await this.cloudFrontClient.send(
+          new ListTagsForResourceCommand({ Resource: distribution.ARN })
+        );
+        const tags = this.toTagMap(tagResult.Tags?.Items);
+        if (tags[MANAGED_BY_TAG.key] !== MANAGED_BY_TAG.value) continue;
+
+        orphans.push({
+          resource: {
+            id: distribution.Id,
+            type: 'CloudFront::Distribution',
+            arn: distribution.ARN,
+            region: 'global',
+            status: distribution.Enabled
+              ? distribution.Status || 'unknown'
+              : 'disabled',
+            tags,
+          },
+          name: distribution.DomainName,
+          matchedBy: `tag ${MANAGED_BY_TAG.key}=${MANAGED_BY_TAG.value}`,
+          deploymentId: tags.DeploymentId,
+          estimatedMonthlyCost: 0,
+          costNote: 'Billed per request and data transfer only',
+          createdAt: distribution.LastModifiedTime,
+        });
+      }
+
+      marker = list?.IsTruncated ? list.NextMarker : undefined;
+    } while (marker);
+
+    return orphans;
+  }
+
+  /**
+   * Execution roles from LambdaService.createLambdaRole that no function uses.
+   * Roles are global, so functions in every enabled region are checked; if
+   * any region cannot be listed, no role is reported.
+   */
+  private async scanLambdaRoles(): Promise<OrphanedResource[]> {
+    const rolesInUse = new Set<string>();
+    for (const region of await this.enabledRegions()) {
+      const client =
+        region === this.region
+          ? this.lambdaClient
+          : this.lambdaForRegion(region);
+      let functionMarker: string | undefined;
+      do {
+        const result = await client.send(
+          new ListFunctionsCommand({ Marker: functionMarker })
+        );
+        for (const fn of result.Functions || []) {
+          if (fn.Role) rolesInUse.add(fn.Role);
+        }
+        functionMarker = result.NextMarker;
+      } while (functionMarker);
+    }
+
+    const orphans: OrphanedResource[] = [];
+    let roleMarker: string | undefined;
+    do {
+      const result = await this.iamClient.send(
+        new ListRolesCommand({ Marker: roleMarker })
+      );
+
+      for (const role of result.Roles || []) {
+        if (
+          !role.RoleName ||
+          !role.Arn ||
+          !role.RoleName.includes('-lambda-role-') ||
+          rolesInUse.has(role.Arn)
+        ) {
+          continue;
+        }
+
+        const tagResult = await this.iamClient.send(
+          new ListRoleTagsCommand({ RoleName: role.RoleName })
+        );
+        const tags = this.toTagMap(tagResult.Tags);
+        if (tags[MANAGED_BY_TAG.key] !== MANAGED_BY_TAG.value) continue;
+
+        orphans.push({
+          resource: {
+            id: role.RoleName,
+            type: 'IAM::Role',
+            arn: role.Arn,
+            region: 'global',
+            status: 'unused',
+            tags,
+          },
+          name: role.RoleName,
+          matchedBy: `tag ${MANAGED_BY_TAG.key}=${MANAGED_BY_TAG.value}, not used by any function`,
+          deploymentId: tags.DeploymentId,
+          estimatedMonthlyCost: 0,
+          costNote: 'IAM roles are free',
+          createdAt: role.CreateDate,
+        });
+      }
+
+      roleMarker = result.IsTruncated ? result.Marker : undefined;
+    } while (roleMarker);
+
+    return orphans;
+  }
+
+  /**
+   * Regions enabled for the account, always including the scanned one
+   */
+  private async enabledRegions(): Promise<string[]> {
+    const result = await this.ec2Client.send(new DescribeRegionsCommand({}));
+    const regions = (result.Regions || [])
+      .map((region) => region.RegionName)
+      .filter((name): name is string => Boolean(name));
+    return Array.from(new Set([this.region, ...regions]));
+  }
+
+  private toTagMap(
+    tags?: Array<Pick<Tag, 'Key' | 'Value'>>
+  ): Record<string, string> {
+    return Object.fromEntries(
+      (tags || [])
+        .filter((tag) => tag.Key)
+        .map((tag) => [tag.Key!, tag.Value || ''])
+    );
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
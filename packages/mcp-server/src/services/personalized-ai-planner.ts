@@ -1,15 +1,23 @@
 import {
-  BedrockRuntimeClient,
-  InvokeModelCommand,
-} from '@aws-sdk/client-bedrock-runtime';
+  alternativeArchitecturesResponseSchema,
+  completeStructured,
+  createLLMProvider,
+  LLMProvider,
+  PersonalizedPlanResponse,
+  personalizedPlanResponseSchema,
+  singleTurn,
+} from '../llm/index.js';
 import { logger } from '../utils/logger.js';
+import {
+  ArchitectureAlternative,
+  toArchitectureAlternatives,
+} from './architecture-alternatives.js';
 
 export class PersonalizedAIDeploymentPlanner {
-  private bedrockClient: BedrockRuntimeClient;
-  private modelId = 'anthropic.claude-3-sonnet-20240229-v1:0';
+  private llm: LLMProvider;
 
-  constructor(region: string = 'us-east-1') {
-    this.bedrockClient = new BedrockRuntimeClient({ region });
+  constructor(region: string = 'us-east-1', llm?: LLMProvider) {
+    this.llm = llm || createLLMProvider({ region });
   }
 
   async generatePersonalizedDeploymentPlan(
@@ -24,25 +32,13 @@ export class PersonalizedAIDeploymentPlanner {
         projectAnalysis
       );
 
-      const command = new InvokeModelCommand({
-        modelId: this.modelId,
-        body: JSON.stringify({
-          anthropic_version: 'bedrock-2023-05-31',
-          max_tokens: 4000,
-          messages: [
-            {
-              role: 'user',
-              content: aiPrompt,
-            },
-          ],
-        }),
-      });
-
-      const response = await this.bedrockClient.send(command);
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+      const response = await completeStructured(
+        this.llm,
+        singleTurn('deployment-plan', aiPrompt),
+        personalizedPlanResponseSchema
+      );
 
-      // Parse the AI response into structured deployment plan
-      return this.parseAIResponse(responseBody.content[0].text);
+      return this.toDeploymentPlan(response);
     } catch (error) {
       logger.error('AI deployment planning failed:', error);
       throw new Error(
@@ -171,95 +167,124 @@ Important: Base your recommendations on the ACTUAL project characteristics, not
       .join('\n');
   }
 
-  private parseAIResponse(aiResponse: string): any {
-    try {
-      // Extract JSON from AI response (it might have additional text)
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in AI response');
-      }
-
-      const parsedResponse = JSON.parse(jsonMatch[0]);
+  /**
+   * Map a validated planner response onto the shape the deploy flow uses
+   */
+  private toDeploymentPlan(response: PersonalizedPlanResponse): any {
+    return {
+      analysis: response.deploymentPlan,
+      deploymentPlan: {
+        architecture: response.deploymentPlan.architecture,
+        services: response.deploymentPlan.services,
+        steps: response.deploymentPlan.steps,
+        estimated_monthly_cost: response.deploymentPlan.estimated_monthly_cost,
+        deployment_time:
+          response.deploymentPlan.deployment_time || '30-60 minutes',
+        requirements: response.deploymentPlan.requirements,
+        recommendations: response.deploymentPlan.recommendations,
+      },
+      aiInsights: {
+        complexity: response.analysis?.projectComplexity || 'moderate',
+        traffic: response.analysis?.expectedTraffic || 'medium',
+        specialRequirements: response.analysis?.specialRequirements || [],
+        environmentVariables: response.environmentVariables,
+        monitoring: response.monitoring,
+        cicd: response.cicd,
+      },
+    };
+  }
 
-      // Validate the response structure
-      if (!parsedResponse.deploymentPlan) {
-        throw new Error('Invalid AI response structure');
-      }
+  /**
+   * Cost-optimized, performance-optimized and hybrid plans for the same
+   * project, each in the deployment plan shape so any of them can be
+   * deployed as-is
+   */
+  async generateAlternativeArchitectures(
+    repositoryData: any,
+    userPrompt: string,
+    projectAnalysis: any
+  ): Promise<ArchitectureAlternative[]> {
+    try {
+      const response = await completeStructured(
+        this.llm,
+        singleTurn(
+          'alternative-architectures',
+          this.createAlternativesPrompt(
+            repositoryData,
+            userPrompt,
+            projectAnalysis
+          )
+        ),
+        alternativeArchitecturesResponseSchema
+      );
 
-      return {
-        analysis: parsedResponse.deploymentPlan,
-        deploymentPlan: {
-          architecture: parsedResponse.deploymentPlan.architecture,
-          services: parsedResponse.deploymentPlan.services || [],
-          steps: parsedResponse.deploymentPlan.steps || [],
-          estimated_monthly_cost:
-            parsedResponse.deploymentPlan.estimated_monthly_cost || '$20-100',
-          deployment_time:
-            parsedResponse.deploymentPlan.deployment_time || '30-60 minutes',
-          requirements: parsedResponse.deploymentPlan.requirements || [],
-          recommendations: parsedResponse.deploymentPlan.recommendations || [],
-        },
-        aiInsights: {
-          complexity: parsedResponse.analysis?.projectComplexity || 'moderate',
-          traffic: parsedResponse.analysis?.expectedTraffic || 'medium',
-          specialRequirements:
-            parsedResponse.analysis?.specialRequirements || [],
-          environmentVariables: parsedResponse.environmentVariables || [],
-          monitoring: parsedResponse.monitoring || {},
-          cicd: parsedResponse.cicd || {},
-        },
-      };
+      return toArchitectureAlternatives(response);
     } catch (error) {
-      logger.error('Failed to parse AI response:', error);
+      logger.error('Failed to generate alternatives:', error);
       throw new Error(
-        `Failed to parse AI response: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `Alternative architectures failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
   }
 
-  async generateAlternativeArchitectures(
+  private createAlternativesPrompt(
     repositoryData: any,
     userPrompt: string,
     projectAnalysis: any
-  ): Promise<any[]> {
-    try {
-      const aiPrompt = `
+  ): string {
+    return `
 Based on this project analysis:
 - Project: ${repositoryData.name}
+- Language: ${projectAnalysis.language || repositoryData.language || 'Unknown'}
 - Framework: ${projectAnalysis.framework}
+- Has Docker: ${projectAnalysis.hasDockerfile ?? false}
+- Build Command: ${projectAnalysis.buildCommand || 'none'}
+- Start Command: ${projectAnalysis.startCommand || 'none'}
+- Default Port: ${projectAnalysis.port || 3000}
 - User Requirements: "${userPrompt}"
 
 Generate 3 alternative AWS deployment architectures:
-1. Cost-optimized (minimal cost)
-2. Performance-optimized (maximum performance)
-3. Hybrid (balanced cost and performance)
-
-For each architecture, provide:
-- Architecture type
-- AWS services used
-- Estimated monthly cost
-- Pros and cons
-- Best use case
-
-Respond in JSON format with an array of 3 alternatives.`;
+1. cost: Cost-optimized (minimal cost)
+2. performance: Performance-optimized (maximum performance)
+3. hybrid: Hybrid (balanced cost and performance)
 
-      const command = new InvokeModelCommand({
-        modelId: this.modelId,
-        body: JSON.stringify({
-          anthropic_version: 'bedrock-2023-05-31',
-          max_tokens: 2000,
-          messages: [{ role: 'user', content: aiPrompt }],
-        }),
-      });
+Give every service and the plan as a whole a monthly cost in US dollars, e.g. "$5-15/month", so the alternatives can be compared.
 
-      const response = await this.bedrockClient.send(command);
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+Respond with a valid JSON object in this exact format:
 
-      const jsonMatch = responseBody.content[0].text.match(/\[[\s\S]*\]/);
-      return jsonMatch ? JSON.parse(jsonMatch[0]) : [];
-    } catch (error) {
-      logger.error('Failed to generate alternatives:', error);
-      return [];
+{
+  "alternatives": [
+    {
+      "strategy": "cost|performance|hybrid",
+      "summary": "One sentence on what this option trades off",
+      "pros": ["pro1", "pro2"],
+      "cons": ["con1", "con2"],
+      "bestFor": "The situation this option suits best",
+      "deploymentPlan": {
+        "architecture": "Detailed architecture description",
+        "services": [
+          {
+            "name": "Service name",
+            "type": "AWS service type",
+            "purpose": "What this service does for this project",
+            "estimated_cost": "$X-Y/month"
+          }
+        ],
+        "steps": [
+          {
+            "step": 1,
+            "action": "Action name",
+            "description": "What this step does",
+            "resources": ["resource1", "resource2"]
+          }
+        ],
+        "estimated_monthly_cost": "$X-Y",
+        "deployment_time": "X-Y minutes",
+        "requirements": ["requirement1"],
+        "recommendations": ["recommendation1"]
+      }
     }
+  ]
+}`;
   }
 }
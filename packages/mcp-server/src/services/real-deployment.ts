@@ -3,7 +3,26 @@ import { promisify } from 'util';
 import fs from 'fs/promises';
 import path from 'path';
 import AWS from 'aws-sdk';
+import {
+  AWSResource,
+  DeploymentRevision,
+  DeploymentState,
+} from '../types/index.js';
 import { logger } from '../utils/logger.js';
+import { createDeploymentRevision } from '../utils/helpers.js';
+import { EcsService } from './ecs-service.js';
+import { LambdaService } from './lambda-service.js';
+import { ApiGatewayService } from './api-gateway-service.js';
+import { AmiResolver } from './ami-resolver.js';
+import { BudgetGuard } from './budget-guard.js';
+import { CostCollector } from './cost-collector.js';
+import { createCostExplorer } from './cost-explorer.js';
+import { planMonthlyCost } from './architecture-alternatives.js';
+import {
+  DeploymentRecord,
+  DeploymentStore,
+  getDeploymentStore,
+} from '../storage/index.js';
 
 const execAsync = promisify(exec);
 
@@ -38,9 +57,17 @@ interface DeploymentResult {
     | 'failed';
   message: string;
   repositoryUrl: string;
+  repositoryName?: string;
+  // Branch the deployment follows; updates without a commit pull its head
+  branch?: string;
   awsRegion: string;
   publicUrl?: string;
   instanceId?: string;
+  resources?: AWSResource[];
+  revisions?: DeploymentRevision[];
+  networkPolicy?: LegacyNetworkPolicy;
+  // Upper end of the plan's estimate, counted against the monthly budget
+  estimatedMonthlyCost?: number;
   error?: string;
   steps: Array<{
     name: string;
@@ -50,19 +77,87 @@ interface DeploymentResult {
   }>;
 }
 
+export interface RealDeploymentServices {
+  ecs?: EcsService;
+  lambda?: LambdaService;
+  apiGateway?: ApiGatewayService;
+  ssm?: AWS.SSM;
+  store?: DeploymentStore;
+  amis?: AmiResolver;
+  budgetGuard?: BudgetGuard;
+}
+
+export interface RedeployOptions {
+  branch?: string;
+  commit?: string;
+}
+
+/**
+ * Inbound rules of the security group deployToEC2 creates, kept on the
+ * deployment so they can be audited
+ */
+interface LegacyNetworkPolicy {
+  securityGroupId: string;
+  publicPorts: number[];
+  appPort: number;
+  ipv6: boolean;
+  ssh: 'closed';
+  instanceProfile?: string;
+}
+
+// Only nginx is public; the app port stays on the instance and there is no
+// SSH (use SSM Session Manager with NETWORK_SSM_INSTANCE_PROFILE)
+const PUBLIC_WEB_PORTS = [80, 443];
+
+// Git refs are interpolated into shell commands on the instance
+const GIT_REF_PATTERN = /^[A-Za-z0-9._\/-]+$/;
+const COMMAND_POLL_INTERVAL_MS = 5000;
+const COMMAND_TIMEOUT_MS = 15 * 60 * 1000;
+
+const STATUS_PROGRESS: Record<DeploymentResult['status'], number> = {
+  started: 0,
+  cloning: 10,
+  building: 40,
+  deploying: 70,
+  completed: 100,
+  failed: 0,
+};
+
 export class RealDeploymentService {
   private ec2: AWS.EC2;
   private s3: AWS.S3;
-  private deployments: Map<string, DeploymentResult> = new Map();
+  private ecsService: EcsService;
+  private lambdaService: LambdaService;
+  private apiGatewayService: ApiGatewayService;
+  private ssm: AWS.SSM;
+  private store: DeploymentStore;
+  private amis: AmiResolver;
+  private budgetGuard: BudgetGuard;
   private region: string;
 
-  constructor(region: string = 'us-east-1') {
+  constructor(
+    region: string = 'us-east-1',
+    services: RealDeploymentServices = {}
+  ) {
     this.region = region;
 
     // Initialize AWS services
     AWS.config.update({ region });
     this.ec2 = new AWS.EC2();
     this.s3 = new AWS.S3();
+    this.ecsService = services.ecs || new EcsService(region);
+    this.lambdaService = services.lambda || new LambdaService(region);
+    this.apiGatewayService =
+      services.apiGateway || new ApiGatewayService(region);
+    this.ssm = services.ssm || new AWS.SSM();
+    this.store = services.store || getDeploymentStore();
+    this.amis = services.amis || new AmiResolver();
+    this.budgetGuard =
+      services.budgetGuard ||
+      new BudgetGuard(
+        this.store,
+        new CostCollector(this.store, createCostExplorer())
+      );
   }
 
   async deployFromGitHub(
@@ -74,16 +169,27 @@ export class RealDeploymentService {
   ): Promise<DeploymentResult> {
     const deploymentId = `deploy_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
+    // Refuse a deployment over budget before anything is created
+    const estimatedMonthlyCost = planMonthlyCost({
+      ...deploymentPlan,
+      services: deploymentPlan.services || [],
+      estimated_monthly_cost: deploymentPlan.estimated_monthly_cost || '',
+    }).max;
+    await this.budgetGuard.check(deploymentId, estimatedMonthlyCost);
+
     const deployment: DeploymentResult = {
       deploymentId,
       status: 'started',
       message: 'Deployment initiated',
       repositoryUrl,
+      repositoryName,
+      branch,
       awsRegion: this.region,
+      estimatedMonthlyCost,
       steps: [],
     };
 
-    this.deployments.set(deploymentId, deployment);
+    await this.store.save(this.toRecord(deployment));
     logger.info(`🚀 Starting deployment ${deploymentId} for ${repositoryUrl}`);
 
     // Start deployment process asynchronously
@@ -125,9 +231,19 @@ export class RealDeploymentService {
 
       // Step 3: Choose deployment strategy based on plan
       if (deploymentPlan.architecture.includes('Serverless')) {
-        await this.deployServerless(deployment, projectPath, projectInfo);
+        await this.deployServerless(
+          deployment,
+          projectPath,
+          projectInfo,
+          repositoryName
+        );
       } else if (deploymentPlan.architecture.includes('Containerized')) {
-        await this.deployContainerized(deployment, projectPath, projectInfo);
+        await this.deployContainerized(
+          deployment,
+          projectPath,
+          projectInfo,
+          repositoryName
+        );
       } else {
         await this.deployToEC2(
           deployment,
@@ -206,49 +322,7 @@ export class RealDeploymentService {
     );
 
     try {
-      const files = await fs.readdir(projectPath);
-
-      // Check for package.json (Node.js project)
-      const hasPackageJson = files.includes('package.json');
-      const hasDockerfile = files.includes('Dockerfile');
-
-      let projectInfo: any = {
-        type: 'unknown',
-        buildCommand: null,
-        startCommand: null,
-        port: 3000,
-        hasPackageJson,
-        hasDockerfile,
-      };
-
-      if (hasPackageJson) {
-        const packageJsonPath = path.join(projectPath, 'package.json');
-        const packageJson = JSON.parse(
-          await fs.readFile(packageJsonPath, 'utf-8')
-        );
-
-        projectInfo.type = 'nodejs';
-        projectInfo.packageJson = packageJson;
-        projectInfo.buildCommand =
-          packageJson.scripts?.build || 'npm run build';
-        projectInfo.startCommand = packageJson.scripts?.start || 'npm start';
-
-        // Detect framework
-        const dependencies = {
-          ...packageJson.dependencies,
-          ...packageJson.devDependencies,
-        };
-        if (dependencies.next) {
-          projectInfo.framework = 'nextjs';
-          projectInfo.port = 3000;
-        } else if (dependencies.react) {
-          projectInfo.framework = 'react';
-          projectInfo.port = 3000;
-        } else if (dependencies.vue) {
-          projectInfo.framework = 'vue';
-          projectInfo.port = 8080;
-        }
-      }
+      const projectInfo = await this.inspectProject(projectPath);
 
       this.updateStep(
         deployment,
@@ -271,6 +345,53 @@ export class RealDeploymentService {
     }
   }
 
+  private async inspectProject(projectPath: string): Promise<any> {
+    const files = await fs.readdir(projectPath);
+
+    // Check for package.json (Node.js project)
+    const hasPackageJson = files.includes('package.json');
+    const hasDockerfile = files.includes('Dockerfile');
+
+    let projectInfo: any = {
+      type: 'unknown',
+      buildCommand: null,
+      startCommand: null,
+      port: 3000,
+      hasPackageJson,
+      hasDockerfile,
+    };
+
+    if (hasPackageJson) {
+      const packageJsonPath = path.join(projectPath, 'package.json');
+      const packageJson = JSON.parse(
+        await fs.readFile(packageJsonPath, 'utf-8')
+      );
+
+      projectInfo.type = 'nodejs';
+      projectInfo.packageJson = packageJson;
+      projectInfo.buildCommand = packageJson.scripts?.build || 'npm run build';
+      projectInfo.startCommand = packageJson.scripts?.start || 'npm start';
+
+      // Detect framework
+      const dependencies = {
+        ...packageJson.dependencies,
+        ...packageJson.devDependencies,
+      };
+      if (dependencies.next) {
+        projectInfo.framework = 'nextjs';
+        projectInfo.port = 3000;
+      } else if (dependencies.react) {
+        projectInfo.framework = 'react';
+        projectInfo.port = 3000;
+      } else if (dependencies.vue) {
+        projectInfo.framework = 'vue';
+        projectInfo.port = 8080;
+      }
+    }
+
+    return projectInfo;
+  }
+
   private async deployToEC2(
     deployment: DeploymentResult,
     projectPath: string,
@@ -286,19 +407,32 @@ export class RealDeploymentService {
     deployment.status = 'deploying';
 
     try {
-      // Create EC2 instance
-      const instanceParams = {
-        ImageId: 'ami-0c02fb55956c7d316', // Amazon Linux 2 AMI
-        InstanceType: 't2.micro',
+      const networkPolicy = await this.createWebSecurityGroup(
+        deployment,
+        projectInfo.port || 3000
+      );
+
+      // Create EC2 instance; the user data script expects Amazon Linux 2
+      const instanceType = 't2.micro';
+      const instanceParams: AWS.EC2.RunInstancesRequest = {
+        ImageId: await this.amis.resolveFor(
+          this.region,
+          'amazon-linux-2',
+          instanceType
+        ),
+        InstanceType: instanceType,
         MinCount: 1,
         MaxCount: 1,
-        KeyName: 'aws-deploy-ai-key', // You'll need to create this key pair
-        SecurityGroupIds: ['sg-default'], // Create a security group with ports 22, 80, 3000
+        SecurityGroupIds: [networkPolicy.securityGroupId],
+        ...(networkPolicy.instanceProfile && {
+          IamInstanceProfile: { Name: networkPolicy.instanceProfile },
+        }),
         UserData: Buffer.from(
           await this.generateUserData(
             projectInfo,
             repositoryName,
-            deployment.repositoryUrl
+            deployment.repositoryUrl,
+            deployment.branch
           )
         ).toString('base64'),
         TagSpecifications: [
@@ -321,6 +455,18 @@ export class RealDeploymentService {
       }
 
       deployment.instanceId = instanceId;
+      deployment.resources = deployment.resources || [];
+      deployment.resources.push({
+        id: instanceId,
+        type: 'EC2::Instance',
+        arn: `arn:aws:ec2:${this.region}::instance/${instanceId}`,
+        region: this.region,
+        status: 'running',
+        tags: {
+          Project: repositoryName,
+          DeploymentId: deployment.deploymentId,
+        },
+      });
       this.updateStep(
         deployment,
         'EC2 Instance Created',
@@ -347,7 +493,8 @@ export class RealDeploymentService {
         instanceData.Reservations?.[0]?.Instances?.[0]?.PublicIpAddress;
 
       if (publicIp) {
-        deployment.publicUrl = `http://${publicIp}:${projectInfo.port || 3000}`;
+        // Served through nginx; the app port is not reachable from outside
+        deployment.publicUrl = `http://${publicIp}`;
         this.updateStep(
           deployment,
           'Instance Ready',
@@ -386,10 +533,79 @@ export class RealDeploymentService {
     }
   }
 
+  /**
+   * Create this deployment's security group: HTTP and HTTPS from anywhere
+   * (and ::/0 unless NETWORK_IPV6=false), nothing else
+   */
+  private async createWebSecurityGroup(
+    deployment: DeploymentResult,
+    appPort: number
+  ): Promise<LegacyNetworkPolicy> {
+    const groupName = `aws-deploy-ai-${deployment.deploymentId}`;
+    const ipv6 = process.env.NETWORK_IPV6 !== 'false';
+
+    const result = await this.ec2
+      .createSecurityGroup({
+        GroupName: groupName,
+        Description: `AWS Deploy AI ${deployment.deploymentId}: HTTP and HTTPS only`,
+        TagSpecifications: [
+          {
+            ResourceType: 'security-group',
+            Tags: [
+              { Key: 'Name', Value: groupName },
+              { Key: 'ManagedBy', Value: 'aws-deploy-ai' },
+              { Key: 'DeploymentId', Value: deployment.deploymentId },
+            ],
+          },
+        ],
+      })
+      .promise();
+    const groupId = result.GroupId!;
+
+    deployment.resources = deployment.resources || [];
+    deployment.resources.push({
+      id: groupId,
+      type: 'EC2::SecurityGroup',
+      arn: `arn:aws:ec2:${this.region}::security-group/${groupId}`,
+      region: this.region,
+      status: 'active',
+      tags: { DeploymentId: deployment.deploymentId },
+    });
+
+    await this.ec2
+      .authorizeSecurityGroupIngress({
+        GroupId: groupId,
+        IpPermissions: PUBLIC_WEB_PORTS.map((port) => ({
+          IpProtocol: 'tcp',
+          FromPort: port,
+          ToPort: port,
+          IpRanges: [{ CidrIp: '0.0.0.0/0' }],
+          ...(ipv6 && { Ipv6Ranges: [{ CidrIpv6: '::/0' }] }),
+        })),
+      })
+      .promise();
+
+    deployment.networkPolicy = {
+      securityGroupId: groupId,
+      publicPorts: PUBLIC_WEB_PORTS,
+      appPort,
+      ipv6,
+      ssh: 'closed',
+      instanceProfile: process.env.NETWORK_SSM_INSTANCE_PROFILE,
+    };
+    if (!deployment.networkPolicy.instanceProfile) {
+      logger.warn(
+        `Deployment ${deployment.deploymentId} has no shell access: SSH is closed and NETWORK_SSM_INSTANCE_PROFILE is not set, so it cannot be updated in place`
+      );
+    }
+    return deployment.networkPolicy;
+  }
+
   private async generateUserData(
     projectInfo: any,
     repositoryName: string,
-    repositoryUrl: string
+    repositoryUrl: string,
+    branch: string = 'main'
   ): Promise<string> {
     const userData = `#!/bin/bash
 yum update -y
@@ -404,7 +620,7 @@ mkdir -p /opt/app
 cd /opt/app
 
 # Clone repository
-git clone ${repositoryUrl} ${repositoryName}
+git clone --branch ${branch} ${repositoryUrl} ${repositoryName}
 cd ${repositoryName}
 
 # Install dependencies
@@ -438,8 +654,20 @@ pm2 start ecosystem.config.js
 pm2 startup
 pm2 save
 
-# Configure nginx as reverse proxy (optional)
-yum install -y nginx
+# Configure nginx as the only public entry point to the app
+amazon-linux-extras install -y nginx1 || yum install -y nginx
+cat > /etc/nginx/conf.d/app.conf << EOF
+server {
+    listen 80 default_server;
+    listen [::]:80 default_server;
+    location / {
+        proxy_pass http://127.0.0.1:${projectInfo.port || 3000};
+        proxy_set_header Host \\$host;
+        proxy_set_header X-Forwarded-For \\$proxy_add_x_forwarded_for;
+    }
+}
+EOF
+sed -i 's/listen\\(.*\\)default_server;/listen\\1;/' /etc/nginx/nginx.conf
 systemctl start nginx
 systemctl enable nginx
 
@@ -452,45 +680,509 @@ echo "Deployment completed at $(date)" > /opt/app/deployment.log
   private async deployServerless(
     deployment: DeploymentResult,
     projectPath: string,
-    projectInfo: any
+    projectInfo: any,
+    repositoryName: string
   ): Promise<void> {
-    this.updateStep(
-      deployment,
-      'Serverless Deployment',
-      'running',
-      'Deploying to AWS Lambda...'
-    );
+    deployment.status = 'building';
+    deployment.resources = deployment.resources || [];
+    let stage = 'Packaging Function';
 
-    // For now, implement basic serverless deployment
-    // This would involve creating Lambda functions, API Gateway, etc.
-    this.updateStep(
-      deployment,
-      'Serverless Deployment',
-      'completed',
-      'Serverless deployment not fully implemented yet. Please use EC2 deployment.'
-    );
+    try {
+      // Stage 1: Package repository code with its dependencies
+      this.updateStep(
+        deployment,
+        stage,
+        'running',
+        'Installing dependencies and detecting the Lambda handler...'
+      );
+      const lambdaPackage = await this.lambdaService.packageProject(
+        projectPath,
+        projectInfo
+      );
+      this.updateStep(
+        deployment,
+        stage,
+        'completed',
+        lambdaPackage.adapterGenerated
+          ? `Wrapped Express app in ${lambdaPackage.entryFile} with serverless-http (${lambdaPackage.runtime})`
+          : `Using handler ${lambdaPackage.handler} (${lambdaPackage.runtime})`
+      );
+
+      // Stage 2: Lambda function
+      deployment.status = 'deploying';
+      stage = 'Creating Lambda Function';
+      this.updateStep(
+        deployment,
+        stage,
+        'running',
+        'Creating execution role and uploading function code...'
+      );
+      const lambdaFunction = await this.lambdaService.createFunction(
+        repositoryName,
+        'production',
+        lambdaPackage.runtime,
+        lambdaPackage.zipFile,
+        lambdaPackage.handler
+      );
+      deployment.resources.push(lambdaFunction);
+      this.updateStep(
+        deployment,
+        stage,
+        'completed',
+        `Function created: ${lambdaFunction.id}`
+      );
+
+      // Stage 3: API Gateway
+      stage = 'Creating API Gateway';
+      this.updateStep(
+        deployment,
+        stage,
+        'running',
+        'Creating REST API that proxies all requests to the function...'
+      );
+      const api = await this.apiGatewayService.createLambdaProxyApi(
+        repositoryName,
+        'production',
+        lambdaFunction.arn
+      );
+      deployment.resources.push(api.resource);
+      await this.lambdaService.grantApiGatewayInvoke(
+        lambdaFunction.id,
+        `${api.executeApiArn}/*/*`
+      );
+
+      deployment.publicUrl = api.invokeUrl;
+      this.updateStep(
+        deployment,
+        stage,
+        'completed',
+        `API available at ${deployment.publicUrl}`
+      );
+    } catch (error) {
+      this.updateStep(
+        deployment,
+        stage,
+        'failed',
+        `Serverless deployment failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      throw new Error(
+        `Serverless deployment failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
   }
 
   private async deployContainerized(
     deployment: DeploymentResult,
     projectPath: string,
-    projectInfo: any
+    projectInfo: any,
+    repositoryName: string
   ): Promise<void> {
-    this.updateStep(
-      deployment,
-      'Container Deployment',
-      'running',
-      'Deploying to ECS...'
+    deployment.status = 'building';
+    deployment.resources = deployment.resources || [];
+    let stage = 'Preparing Dockerfile';
+
+    try {
+      // Stage 1: Dockerfile
+      this.updateStep(
+        deployment,
+        stage,
+        'running',
+        'Checking for a Dockerfile in the repository...'
+      );
+      const dockerfile = await this.ecsService.ensureDockerfile(
+        projectPath,
+        projectInfo
+      );
+      // Generated Dockerfiles for static sites serve from nginx on port 80
+      const containerPort = dockerfile.port;
+      this.updateStep(
+        deployment,
+        stage,
+        'completed',
+        dockerfile.generated
+          ? `No Dockerfile found, generated one for ${projectInfo.framework || projectInfo.type} project`
+          : 'Using Dockerfile from repository'
+      );
+
+      // Stage 2: Build and push image to ECR
+      stage = 'Building Container Image';
+      this.updateStep(
+        deployment,
+        stage,
+        'running',
+        'Creating ECR repository and building image...'
+      );
+      const repository = await this.ecsService.ensureRepository(
+        repositoryName,
+        deployment.deploymentId
+      );
+      // The repository is shared by the project's deployments; this one
+      // owns only its image, and the repository if it created it
+      if (repository.created) {
+        deployment.resources.push(repository.resource);
+      }
+      const imageUri = await this.ecsService.buildAndPushImage(
+        projectPath,
+        repository.resource.id,
+        deployment.deploymentId.toLowerCase()
+      );
+      deployment.resources.push({
+        id: imageUri,
+        type: 'ECR::Image',
+        arn: '',
+        region: repository.resource.region,
+        status: 'active',
+        tags: repository.resource.tags,
+      });
+      this.updateStep(
+        deployment,
+        stage,
+        'completed',
+        `Image pushed: ${imageUri}`
+      );
+
+      // Stage 3: Task definition
+      deployment.status = 'deploying';
+      stage = 'Registering Task Definition';
+      this.updateStep(
+        deployment,
+        stage,
+        'running',
+        'Registering Fargate task definition...'
+      );
+      const taskDefinition = await this.ecsService.registerTaskDefinition(
+        repositoryName,
+        deployment.deploymentId,
+        imageUri,
+        containerPort
+      );
+      deployment.resources.push(taskDefinition);
+      this.updateStep(
+        deployment,
+        stage,
+        'completed',
+        `Task definition registered: ${taskDefinition.id}`
+      );
+
+      // Stage 4: Load balancer
+      stage = 'Creating Load Balancer';
+      this.updateStep(
+        deployment,
+        stage,
+        'running',
+        'Creating Application Load Balancer in the default VPC...'
+      );
+      const network = await this.ecsService.getDefaultNetwork();
+      const loadBalancer = await this.ecsService.createLoadBalancer(
+        repositoryName,
+        deployment.deploymentId,
+        network,
+        containerPort,
+        deployment.resources
+      );
+      this.updateStep(
+        deployment,
+        stage,
+        'completed',
+        `Load balancer ready at ${loadBalancer.dnsName}`
+      );
+
+      // Stage 5: Fargate service
+      stage = 'Starting Fargate Service';
+      this.updateStep(
+        deployment,
+        stage,
+        'running',
+        'Creating ECS cluster and service. Waiting for tasks to become healthy...'
+      );
+      const service = await this.ecsService.runService(
+        repositoryName,
+        deployment.deploymentId,
+        taskDefinition.arn,
+        network,
+        loadBalancer,
+        containerPort,
+        deployment.resources
+      );
+      await this.ecsService.waitForServiceStable(
+        service.clusterArn,
+        service.serviceArn
+      );
+
+      deployment.publicUrl = `http://${loadBalancer.dnsName}`;
+      this.updateStep(
+        deployment,
+        stage,
+        'completed',
+        `Service running behind ${deployment.publicUrl}`
+      );
+    } catch (error) {
+      this.updateStep(
+        deployment,
+        stage,
+        'failed',
+        `Container deployment failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      throw new Error(
+        `Container deployment failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Redeploy a GitHub deployment in place: pull the new commit onto the
+   * existing EC2 instance, or repackage the existing Lambda function.
+   * The update runs in the background and is recorded as a new revision.
+   */
+  async updateDeployment(
+    deploymentId: string,
+    options: RedeployOptions = {}
+  ): Promise<DeploymentRevision> {
+    const record = await this.store.get(deploymentId);
+    if (!record) {
+      throw new Error(`Deployment ${deploymentId} not found`);
+    }
+    // Web interface deployments live in the signed-in user's account, which
+    // this server has no credentials for
+    if (record.source === 'frontend') {
+      throw new Error(
+        `Deployment ${deploymentId} was created from the web interface in another AWS account and cannot be updated here`
+      );
+    }
+    if (record.status !== DeploymentState.COMPLETED) {
+      throw new Error(
+        `Only completed deployments can be updated (deployment status: ${record.status})`
+      );
+    }
+    if (!record.repositoryUrl) {
+      throw new Error(`Deployment ${deploymentId} has no repository to pull`);
+    }
+
+    // A commit pins the checkout; otherwise follow the branch head. The branch
+    // is recorded at deploy time because HEAD is detached after a pinned update
+    const branch = options.commit ? undefined : options.branch || record.branch;
+    const ref = options.commit || branch;
+    if (ref && !GIT_REF_PATTERN.test(ref)) {
+      throw new Error(`Invalid branch or commit: ${ref}`);
+    }
+
+    const instance = record.resources.find(
+      (resource) => resource.type === 'EC2::Instance'
+    );
+    const lambdaFunction = record.resources.find(
+      (resource) => resource.type === 'Lambda::Function'
+    );
+    if (!instance && !lambdaFunction) {
+      throw new Error(
+        `Deployment ${deploymentId} has no EC2 instance or Lambda function to update`
+      );
+    }
+
+    const revision = createDeploymentRevision(
+      deploymentId,
+      record.state.revisions,
+      ref
+    );
+    await this.saveRevision(deploymentId, revision);
+    logger.info(
+      `🔁 Updating deployment ${deploymentId} to revision ${revision.revision}`
     );
 
-    // For now, implement basic container deployment
-    // This would involve building Docker images, pushing to ECR, deploying to ECS
-    this.updateStep(
-      deployment,
-      'Container Deployment',
-      'completed',
-      'Container deployment not fully implemented yet. Please use EC2 deployment.'
+    const update = instance
+      ? this.updateInstance(record, instance.id, revision, branch)
+      : this.updateFunction(record, lambdaFunction!.id, revision);
+
+    update
+      .then(() => {
+        revision.status = 'completed';
+      })
+      .catch((error) => {
+        logger.error(`Update of deployment ${deploymentId} failed:`, error);
+        revision.status = 'failed';
+        revision.error =
+          error instanceof Error ? error.message : 'Unknown error';
+      })
+      .finally(() => {
+        revision.endTime = new Date();
+        this.saveRevision(deploymentId, revision).catch((error) => {
+          logger.error(`Failed to persist deployment ${deploymentId}`, {
+            error,
+          });
+        });
+      });
+
+    return revision;
+  }
+
+  private async updateInstance(
+    record: DeploymentRecord,
+    instanceId: string,
+    revision: DeploymentRevision,
+    branch?: string
+  ): Promise<void> {
+    const layout = {
+      directory: `/opt/app/${record.name}`,
+      process: record.name,
+      user: 'root',
+    };
+
+    // Without a ref fall back to the remote default branch: @{u} does not
+    // resolve once an earlier pinned update has detached HEAD
+    const script = [
+      'set -e',
+      `cd ${layout.directory}`,
+      'git fetch --all --tags --prune',
+      ...(revision.ref ? [`git checkout --force ${revision.ref}`] : []),
+      ...(branch ? [`git reset --hard origin/${branch}`] : []),
+      ...(revision.ref ? [] : ['git reset --hard origin/HEAD']),
+      'npm install',
+      'npm run build --if-present',
+      `pm2 restart ${layout.process}`,
+      'git rev-parse HEAD',
+    ].join(' && ');
+
+    const output = await this.runOnInstance(instanceId, [
+      `sudo -u ${layout.user} -H bash -c '${script}'`,
+    ]);
+
+    revision.commit = output.trim().split('\n').pop();
+    revision.changes.push(
+      `Pulled ${revision.commit || revision.ref || 'latest'} onto ${instanceId}`,
+      `Restarted ${layout.process}`
+    );
+  }
+
+  private async updateFunction(
+    record: DeploymentRecord,
+    functionName: string,
+    revision: DeploymentRevision
+  ): Promise<void> {
+    const workDir = `/tmp/deployments/${record.id}/revision-${revision.revision}`;
+    const projectPath = `${workDir}/${record.name}`;
+
+    try {
+      await fs.mkdir(workDir, { recursive: true });
+      await execAsync(`git clone ${record.repositoryUrl} ${projectPath}`);
+      if (revision.ref) {
+        await execAsync(
+          `git -C ${projectPath} checkout --force ${revision.ref}`
+        );
+      }
+      const { stdout } = await execAsync(
+        `git -C ${projectPath} rev-parse HEAD`
+      );
+      revision.commit = stdout.trim();
+
+      const projectInfo = await this.inspectProject(projectPath);
+      const lambdaPackage = await this.lambdaService.packageProject(
+        projectPath,
+        projectInfo
+      );
+      await this.lambdaService.updateFunctionCode(
+        functionName,
+        lambdaPackage.zipFile
+      );
+      revision.changes.push(
+        `Updated code of ${functionName} to ${revision.commit}`
+      );
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Run shell commands on an instance through SSM Run Command and return
+   * their output once they finish
+   */
+  private async runOnInstance(
+    instanceId: string,
+    commands: string[]
+  ): Promise<string> {
+    let commandId: string | undefined;
+    try {
+      const result = await this.ssm
+        .sendCommand({
+          InstanceIds: [instanceId],
+          DocumentName: 'AWS-RunShellScript',
+          Parameters: { commands },
+        })
+        .promise();
+      commandId = result.Command?.CommandId;
+    } catch (error) {
+      if ((error as AWS.AWSError).code === 'InvalidInstanceId') {
+        throw new Error(
+          `Instance ${instanceId} is not managed by SSM. Attach an instance profile with the AmazonSSMManagedInstanceCore policy and try again.`
+        );
+      }
+      throw error;
+    }
+
+    if (!commandId) {
+      throw new Error(`SSM did not accept the command for ${instanceId}`);
+    }
+
+    const deadline = Date.now() + COMMAND_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, COMMAND_POLL_INTERVAL_MS)
+      );
+
+      let invocation: AWS.SSM.GetCommandInvocationResult;
+      try {
+        invocation = await this.ssm
+          .getCommandInvocation({
+            CommandId: commandId,
+            InstanceId: instanceId,
+          })
+          .promise();
+      } catch (error) {
+        // The invocation is not visible immediately after sending
+        if ((error as AWS.AWSError).code === 'InvocationDoesNotExist') {
+          continue;
+        }
+        throw error;
+      }
+
+      if (invocation.Status === 'Success') {
+        return invocation.StandardOutputContent || '';
+      }
+      if (
+        invocation.Status &&
+        ['Cancelled', 'TimedOut', 'Failed', 'Cancelling'].includes(
+          invocation.Status
+        )
+      ) {
+        throw new Error(
+          `Update command ${invocation.Status.toLowerCase()}: ${invocation.StandardErrorContent || 'no output'}`
+        );
+      }
+    }
+
+    throw new Error(`Update command on ${instanceId} did not finish in time`);
+  }
+
+  /**
+   * Merge one revision into the stored record. Re-reads the record so
+   * status polling written in the meantime is kept.
+   */
+  private async saveRevision(
+    deploymentId: string,
+    revision: DeploymentRevision
+  ): Promise<void> {
+    const record = await this.store.get(deploymentId);
+    if (!record) return;
+
+    const revisions: DeploymentRevision[] = (
+      record.state.revisions || []
+    ).filter(
+      (existing: DeploymentRevision) => existing.revision !== revision.revision
     );
+
+    await this.store.save({
+      ...record,
+      message: `Revision ${revision.revision} ${revision.status}`,
+      state: { ...record.state, revisions: [...revisions, revision] },
+    });
   }
 
   private updateStep(
@@ -507,13 +1199,55 @@ echo "Deployment completed at $(date)" > /opt/app/deployment.log
     });
 
     logger.info(`${deployment.deploymentId} - ${name}: ${message}`);
+    this.store.save(this.toRecord(deployment)).catch((error) => {
+      logger.error(`Failed to persist deployment ${deployment.deploymentId}`, {
+        error,
+      });
+    });
+  }
+
+  private toRecord(deployment: DeploymentResult) {
+    return {
+      id: deployment.deploymentId,
+      name: deployment.repositoryName || deployment.repositoryUrl,
+      source: 'github' as const,
+      repositoryUrl: deployment.repositoryUrl,
+      branch: deployment.branch,
+      region: deployment.awsRegion,
+      status: deployment.status,
+      progress: STATUS_PROGRESS[deployment.status],
+      message: deployment.message,
+      publicUrl: deployment.publicUrl,
+      resources: deployment.resources || [],
+      state: deployment,
+    };
+  }
+
+  private fromRecord(record: DeploymentRecord): DeploymentResult {
+    return {
+      deploymentId: record.id,
+      status: record.status as DeploymentResult['status'],
+      message: record.message || '',
+      repositoryUrl: record.repositoryUrl || '',
+      awsRegion: record.region || this.region,
+      publicUrl: record.publicUrl,
+      resources: record.resources,
+      steps: [],
+      revisions: record.state.revisions,
+      // Records from other flows only share the common fields
+      ...(record.source === 'github' && record.state),
+    };
   }
 
-  getDeploymentStatus(deploymentId: string): DeploymentResult | null {
-    return this.deployments.get(deploymentId) || null;
+  async getDeploymentStatus(
+    deploymentId: string
+  ): Promise<DeploymentResult | null> {
+    const record = await this.store.get(deploymentId);
+    return record ? this.fromRecord(record) : null;
   }
 
-  getAllDeployments(): DeploymentResult[] {
-    return Array.from(this.deployments.values());
+  async getAllDeployments(): Promise<DeploymentResult[]> {
+    const records = await this.store.list();
+    return records.map((record) => this.fromRecord(record));
   }
 }
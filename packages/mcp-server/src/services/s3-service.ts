@@ -5,6 +5,10 @@ import {
   PutBucketWebsiteCommand,
   PutBucketPolicyCommand,
   GetBucketLocationCommand,
+  ListObjectVersionsCommand,
+  DeleteObjectsCommand,
+  DeleteBucketCommand,
+  PutBucketTaggingCommand,
 } from '@aws-sdk/client-s3';
 import { FileUpload, AWSResource } from '../types/index.js';
 import { logger } from '../utils/logger.js';
@@ -18,9 +22,9 @@ export class S3Service {
   private s3Client: S3Client;
   private region: string;
 
-  constructor(region: string = 'us-east-1') {
+  constructor(region: string = 'us-east-1', client?: S3Client) {
     this.region = region;
-    this.s3Client = new S3Client({ region });
+    this.s3Client = client || new S3Client({ region });
   }
 
   /**
@@ -28,14 +32,13 @@ export class S3Service {
    */
   async createWebsiteBucket(
     projectName: string,
-    environment: string
-  ): Promise<AWSResource> {
-    const bucketName = generateResourceName(
+    environment: string,
+    bucketName: string = generateResourceName(
       projectName,
       'website',
       environment
-    );
-
+    )
+  ): Promise<AWSResource> {
     if (!validateAwsResourceName(bucketName, 's3')) {
       throw new Error(`Invalid bucket name: ${bucketName}`);
     }
@@ -56,6 +59,11 @@ export class S3Service {
         })
       );
 
+      const tags = createAwsTags(projectName, environment, {
+        ResourceType: 'website-bucket',
+      });
+      await this.tagBucket(bucketName, tags);
+
       // Configure for website hosting
       await this.s3Client.send(
         new PutBucketWebsiteCommand({
@@ -98,9 +106,7 @@ export class S3Service {
         arn: `arn:aws:s3:::${bucketName}`,
         region: this.region,
         status: 'active',
-        tags: createAwsTags(projectName, environment, {
-          ResourceType: 'website-bucket',
-        }),
+        tags,
       };
 
       logger.info(`Successfully created S3 bucket: ${bucketName}`);
@@ -174,6 +180,52 @@ export class S3Service {
     }
   }
 
+  /**
+   * Empty a bucket (including object versions) and delete it
+   */
+  async deleteBucket(bucketName: string): Promise<number> {
+    logger.info(`Deleting S3 bucket: ${bucketName}`);
+    let deletedObjects = 0;
+    let keyMarker: string | undefined;
+    let versionIdMarker: string | undefined;
+
+    do {
+      const listing = await this.s3Client.send(
+        new ListObjectVersionsCommand({
+          Bucket: bucketName,
+          KeyMarker: keyMarker,
+          VersionIdMarker: versionIdMarker,
+        })
+      );
+
+      const objects = [
+        ...(listing.Versions || []),
+        ...(listing.DeleteMarkers || []),
+      ].map((item) => ({ Key: item.Key!, VersionId: item.VersionId }));
+
+      if (objects.length > 0) {
+        await this.s3Client.send(
+          new DeleteObjectsCommand({
+            Bucket: bucketName,
+            Delete: { Objects: objects, Quiet: true },
+          })
+        );
+        deletedObjects += objects.length;
+      }
+
+      keyMarker = listing.IsTruncated ? listing.NextKeyMarker : undefined;
+      versionIdMarker = listing.IsTruncated
+        ? listing.NextVersionIdMarker
+        : undefined;
+    } while (keyMarker);
+
+    await this.s3Client.send(new DeleteBucketCommand({ Bucket: bucketName }));
+    logger.info(
+      `Deleted S3 bucket: ${bucketName} (${deletedObjects} objects removed)`
+    );
+    return deletedObjects;
+  }
+
   /**
    * Create S3 bucket for application assets (with versioning)
    */
@@ -198,15 +250,18 @@ export class S3Service {
         })
       );
 
+      const tags = createAwsTags(projectName, environment, {
+        ResourceType: 'assets-bucket',
+      });
+      await this.tagBucket(bucketName, tags);
+
       const resource: AWSResource = {
         id: bucketName,
         type: 'S3::Bucket',
         arn: `arn:aws:s3:::${bucketName}`,
         region: this.region,
         status: 'active',
-        tags: createAwsTags(projectName, environment, {
-          ResourceType: 'assets-bucket',
-        }),
+        tags,
       };
 
       logger.info(`Successfully created S3 assets bucket: ${bucketName}`);
@@ -358,4 +413,21 @@ export class S3Service {
 </body>
 </html>`;
   }
+
+  /**
+   * Tag the bucket itself so it can be found again by the orphan scanner
+   */
+  private async tagBucket(
+    bucketName: string,
+    tags: Record<string, string>
+  ): Promise<void> {
+    await this.s3Client.send(
+      new PutBucketTaggingCommand({
+        Bucket: bucketName,
+        Tagging: {
+          TagSet: Object.entries(tags).map(([Key, Value]) => ({ Key, Value })),
+        },
+      })
+    );
+  }
 }
@@ -0,0 +1,301 @@
+import {
+  EC2Client,
+  TerminateInstancesCommand,
+  waitUntilInstanceTerminated,
+} from '@aws-sdk/client-ec2';
+import { AWSResource } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { S3Service } from './s3-service.js';
+import { CloudFrontService } from './cloudfront-service.js';
+import { LambdaService } from './lambda-service.js';
+import { ApiGatewayService } from './api-gateway-service.js';
+import { EcsService } from './ecs-service.js';
+import { BudgetService } from './budget-service.js';
+
+export interface TeardownServices {
+  s3?: S3Service;
+  cloudFront?: CloudFrontService;
+  lambda?: LambdaService;
+  apiGateway?: ApiGatewayService;
+  ecs?: EcsService;
+  ec2?: EC2Client;
+  budgets?: BudgetService;
+}
+
+export type TeardownOutcome =
+  | 'planned'
+  | 'deleted'
+  | 'already-deleted'
+  | 'kept'
+  | 'pending'
+  | 'skipped'
+  | 'failed';
+
+export interface TeardownResult {
+  resource: AWSResource;
+  outcome: TeardownOutcome;
+  message: string;
+}
+
+/**
+ * Deletion order: consumers before the things they depend on
+ */
+export const TEARDOWN_ORDER = [
+  'ECS::Service',
+  'ApiGateway::RestApi',
+  'CloudFront::Distribution',
+  'Lambda::Function',
+  'IAM::Role',
+  'EC2::Instance',
+  'ElasticLoadBalancingV2::LoadBalancer',
+  'ElasticLoadBalancingV2::TargetGroup',
+  'ECS::Cluster',
+  'ECS::TaskDefinition',
+  'EC2::SecurityGroup',
+  'S3::Bucket',
+  'ECR::Image',
+  'ECR::Repository',
+  // Last, so the alarm watches spend until everything else is gone
+  'Budgets::Budget',
+];
+
+const NOT_FOUND_ERRORS = [
+  'ResourceNotFoundException',
+  'NotFoundException',
+  'NoSuchBucket',
+  'NoSuchDistribution',
+  'NoSuchEntity',
+  'InvalidInstanceID.NotFound',
+  'InvalidGroup.NotFound',
+  'RepositoryNotFoundException',
+  'ClusterNotFoundException',
+  'ServiceNotFoundException',
+  'LoadBalancerNotFound',
+  'TargetGroupNotFound',
+];
+
+export class TeardownService {
+  private s3Service: S3Service;
+  private cloudFrontService: CloudFrontService;
+  private lambdaService: LambdaService;
+  private apiGatewayService: ApiGatewayService;
+  private ecsService: EcsService;
+  private ec2Client: EC2Client;
+  private budgetService: BudgetService;
+
+  constructor(region: string = 'us-east-1', services: TeardownServices = {}) {
+    this.s3Service = services.s3 || new S3Service(region);
+    this.cloudFrontService =
+      services.cloudFront || new CloudFrontService(region);
+    this.lambdaService = services.lambda || new LambdaService(region);
+    this.apiGatewayService =
+      services.apiGateway || new ApiGatewayService(region);
+    this.ecsService = services.ecs || new EcsService(region);
+    this.ec2Client = services.ec2 || new EC2Client({ region });
+    this.budgetService = services.budgets || new BudgetService();
+  }
+
+  /**
+   * Order resources for deletion. Within a type, newest first.
+   */
+  planTeardown(resources: AWSResource[]): AWSResource[] {
+    const rank = (resource: AWSResource) => {
+      const index = TEARDOWN_ORDER.indexOf(resource.type);
+      return index === -1 ? TEARDOWN_ORDER.length : index;
+    };
+
+    return [...resources].reverse().sort((a, b) => rank(a) - rank(b));
+  }
+
+  /**
+   * Delete resources in dependency order, continuing past failures
+   */
+  async destroyResources(
+    resources: AWSResource[],
+    options: { dryRun?: boolean } = {}
+  ): Promise<TeardownResult[]> {
+    const results: TeardownResult[] = [];
+
+    for (const resource of this.planTeardown(resources)) {
+      if (!TEARDOWN_ORDER.includes(resource.type)) {
+        results.push({
+          resource,
+          outcome: 'skipped',
+          message: `No teardown handler for ${resource.type}`,
+        });
+        continue;
+      }
+
+      if (options.dryRun) {
+        results.push({
+          resource,
+          outcome: 'planned',
+          message: `Would delete ${resource.type} ${resource.id}`,
+        });
+        continue;
+      }
+
+      try {
+        const { outcome, message } = await this.destroyResource(resource);
+        results.push({ resource, outcome, message });
+      } catch (error) {
+        if (this.isNotFound(error)) {
+          results.push({
+            resource,
+            outcome: 'already-deleted',
+            message: `${resource.type} ${resource.id} no longer exists`,
+          });
+          continue;
+        }
+
+        logger.error(`Failed to delete ${resource.type} ${resource.id}`, {
+          error,
+        });
+        results.push({
+          resource,
+          outcome: 'failed',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return results;
+  }
+
+  private async destroyResource(
+    resource: AWSResource
+  ): Promise<{ outcome: TeardownOutcome; message: string }> {
+    const deleted = (message: string) => ({
+      outcome: 'deleted' as const,
+      message,
+    });
+
+    logger.info(`Deleting ${resource.type}: ${resource.id}`);
+
+    switch (resource.type) {
+      case 'ECS::Service':
+        await this.ecsService.deleteService(resource.arn || resource.id);
+        return deleted('Service scaled to zero and deleted');
+
+      case 'ApiGateway::RestApi':
+        await this.apiGatewayService.deleteRestApi(resource.id);
+        return deleted('REST API deleted');
+
+      case 'CloudFront::Distribution': {
+        const state = await this.cloudFrontService.deleteDistribution(
+          resource.id
+        );
+        return state === 'deleted'
+          ? deleted('Distribution deleted')
+          : {
+              outcome: 'pending',
+              message:
+                'Distribution is being disabled; run the teardown again once it has deployed (about 15 minutes)',
+            };
+      }
+
+      case 'Lambda::Function': {
+        const { deletedRole } = await this.lambdaService.deleteFunction(
+          resource.id
+        );
+        return deleted(
+          deletedRole
+            ? `Function and execution role ${deletedRole} deleted`
+            : 'Function deleted'
+        );
+      }
+
+      case 'IAM::Role':
+        await this.lambdaService.deleteRole(resource.id);
+        return deleted('Role and policy attachments deleted');
+
+      case 'EC2::Instance':
+        await this.ec2Client.send(
+          new TerminateInstancesCommand({ InstanceIds: [resource.id] })
+        );
+        await waitUntilInstanceTerminated(
+          { client: this.ec2Client, maxWaitTime: 300 },
+          { InstanceIds: [resource.id] }
+        );
+        return deleted('Instance terminated');
+
+      case 'ElasticLoadBalancingV2::LoadBalancer':
+        await this.ecsService.deleteLoadBalancer(resource.arn || resource.id);
+        return deleted('Load balancer and listeners deleted');
+
+      case 'ElasticLoadBalancingV2::TargetGroup':
+        await this.ecsService.deleteTargetGroup(resource.arn || resource.id);
+        return deleted('Target group deleted');
+
+      case 'ECS::Cluster':
+        await this.ecsService.deleteCluster(resource.arn || resource.id);
+        return deleted('Cluster deleted');
+
+      case 'ECS::TaskDefinition':
+        await this.ecsService.deregisterTaskDefinition(
+          resource.arn || resource.id
+        );
+        return deleted('Task definition deregistered');
+
+      case 'EC2::SecurityGroup':
+        await this.retryOnDependency(() =>
+          this.ecsService.deleteSecurityGroup(resource.id)
+        );
+        return deleted('Security group deleted');
+
+      case 'S3::Bucket': {
+        const objects = await this.s3Service.deleteBucket(resource.id);
+        return deleted(`Bucket emptied (${objects} objects) and deleted`);
+      }
+
+      case 'ECR::Image':
+        await this.ecsService.deleteImage(resource.id);
+        return deleted('Image deleted');
+
+      case 'ECR::Repository':
+        return (await this.ecsService.deleteRepository(resource.id))
+          ? deleted('Repository deleted')
+          : {
+              outcome: 'kept',
+              message:
+                'Repository still holds images of other deployments of the project, so it was left in place',
+            };
+
+      case 'Budgets::Budget':
+        await this.budgetService.deleteBudget(resource.id);
+        return deleted('Budget alarm deleted');
+
+      default:
+        return {
+          outcome: 'skipped',
+          message: `No teardown handler for ${resource.type}`,
+        };
+    }
+  }
+
+  /**
+   * Network interfaces of terminated instances and deleted load balancers
+   * can hold on to a security group for a short while
+   */
+  private async retryOnDependency(
+    action: () => Promise<void>,
+    attempts: number = 6
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await action();
+      } catch (error) {
+        const name = (error as { name?: string })?.name;
+        if (name !== 'DependencyViolation' || attempt >= attempts) {
+          throw error;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10000));
+      }
+    }
+  }
+
+  private isNotFound(error: unknown): boolean {
+    const name = (error as { name?: string })?.name;
+    return !!name && NOT_FOUND_ERRORS.includes(name);
+  }
+}
@@ -0,0 +1,123 @@
+import { AWSResource } from '../types/index.js';
+
+/**
+ * Which flow created a deployment record
+ */
+export type DeploymentSource = 'website' | 'github' | 'frontend';
+
+export interface DeploymentRecord {
+  id: string;
+  name: string;
+  source: DeploymentSource;
+  repositoryUrl?: string;
+  branch?: string;
+  region?: string;
+  // AWS account the resources were created in
+  accountId?: string;
+  status: string;
+  progress: number;
+  message?: string;
+  publicUrl?: string;
+  resources: AWSResource[];
+  // Flow-specific snapshot (steps, instance details, errors)
+  state: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type DeploymentRecordInput = Omit<
+  DeploymentRecord,
+  'createdAt' | 'updatedAt'
+> & { createdAt?: Date };
+
+export interface DeploymentListOptions {
+  source?: DeploymentSource;
+  status?: string;
+  limit?: number;
+}
+
+/**
+ * The fields a compare-and-set may change along with the status
+ */
+export type DeploymentStatusUpdate = Pick<DeploymentRecord, 'status'> &
+  Partial<Pick<DeploymentRecord, 'progress' | 'message'>>;
+
+/**
+ * Persistence for deployment state shared by the MCP tools and the frontend
+ */
+export interface DeploymentStore {
+  save(record: DeploymentRecordInput): Promise<DeploymentRecord>;
+  get(id: string): Promise<DeploymentRecord | null>;
+  list(options?: DeploymentListOptions): Promise<DeploymentRecord[]>;
+  delete(id: string): Promise<void>;
+  /**
+   * Apply the update only while the record still has the expected status,
+   * so two callers cannot both claim it. Returns null when it did not.
+   */
+  compareAndSet(
+    id: string,
+    expectedStatus: string,
+    update: DeploymentStatusUpdate
+  ): Promise<DeploymentRecord | null>;
+}
+
+/**
+ * Non-persistent store, used in tests and when no database is configured
+ */
+export class InMemoryDeploymentStore implements DeploymentStore {
+  private records: Map<string, DeploymentRecord> = new Map();
+
+  async save(record: DeploymentRecordInput): Promise<DeploymentRecord> {
+    const existing = this.records.get(record.id);
+    const now = new Date();
+
+    // Round-trip through JSON so callers see the same shapes a database returns
+    const saved: DeploymentRecord = {
+      ...JSON.parse(JSON.stringify(record)),
+      createdAt: existing?.createdAt || record.createdAt || now,
+      updatedAt: now,
+    };
+
+    this.records.set(record.id, saved);
+    return { ...saved };
+  }
+
+  async get(id: string): Promise<DeploymentRecord | null> {
+    const record = this.records.get(id);
+    return record ? { ...record } : null;
+  }
+
+  async list(options: DeploymentListOptions = {}): Promise<DeploymentRecord[]> {
+    const records = Array.from(this.records.values())
+      .filter((record) => !options.source || record.source === options.source)
+      .filter((record) => !options.status || record.status === options.status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    return (options.limit ? records.slice(0, options.limit) : records).map(
+      (record) => ({ ...record })
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  async compareAndSet(
+    id: string,
+    expectedStatus: string,
+    update: DeploymentStatusUpdate
+  ): Promise<DeploymentRecord | null> {
+    const record = this.records.get(id);
+    if (!record || record.status !== expectedStatus) {
+      return null;
+    }
+
+    const saved: DeploymentRecord = {
+      ...record,
+      ...JSON.parse(JSON.stringify(update)),
+      updatedAt: new Date(),
+    };
+    this.records.set(id, saved);
+    return { ...saved };
+  }
+}
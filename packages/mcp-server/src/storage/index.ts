@@ -0,0 +1,40 @@
+import { logger } from '../utils/logger.js';
+import {
+  DeploymentStore,
+  InMemoryDeploymentStore,
+} from './deployment-store.js';
+import { PrismaDeploymentStore } from './prisma-deployment-store.js';
+
+export * from './deployment-store.js';
+export { PrismaDeploymentStore } from './prisma-deployment-store.js';
+
+let sharedStore: DeploymentStore | undefined;
+
+/**
+ * Create a store from DEPLOYMENT_STORE ("prisma" | "memory").
+ * Defaults to Prisma when DATABASE_URL is set, otherwise in-memory.
+ */
+export function createDeploymentStore(): DeploymentStore {
+  const kind =
+    process.env.DEPLOYMENT_STORE ||
+    (process.env.DATABASE_URL ? 'prisma' : 'memory');
+
+  if (kind === 'prisma') {
+    return new PrismaDeploymentStore();
+  }
+
+  logger.warn(
+    'Using in-memory deployment store; deployments will not survive restarts. Set DATABASE_URL to persist them.'
+  );
+  return new InMemoryDeploymentStore();
+}
+
+/**
+ * Process-wide store shared by all deployment tools
+ */
+export function getDeploymentStore(): DeploymentStore {
+  if (!sharedStore) {
+    sharedStore = createDeploymentStore();
+  }
+  return sharedStore;
+}
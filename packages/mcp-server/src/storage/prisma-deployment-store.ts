@@ -0,0 +1,137 @@
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import {
+  DeploymentListOptions,
+  DeploymentRecord,
+  DeploymentRecordInput,
+  DeploymentSource,
+  DeploymentStatusUpdate,
+  DeploymentStore,
+} from './deployment-store.js';
+
+/**
+ * SQLite-backed store using the schema in packages/frontend/prisma
+ */
+export class PrismaDeploymentStore implements DeploymentStore {
+  private prisma: PrismaClient;
+  // Saves are chained so rapid step updates land in order
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(prisma?: PrismaClient) {
+    this.prisma = prisma || new PrismaClient();
+  }
+
+  async save(record: DeploymentRecordInput): Promise<DeploymentRecord> {
+    const write = this.writes.then(() => this.upsert(record));
+    this.writes = write.catch((error) => {
+      logger.error(`Failed to save deployment: ${record.id}`, { error });
+    });
+    return write;
+  }
+
+  async get(id: string): Promise<DeploymentRecord | null> {
+    await this.writes;
+    const row = await this.prisma.deployment.findUnique({ where: { id } });
+    return row ? this.toRecord(row) : null;
+  }
+
+  async list(options: DeploymentListOptions = {}): Promise<DeploymentRecord[]> {
+    await this.writes;
+    const rows = await this.prisma.deployment.findMany({
+      where: {
+        ...(options.source && { source: options.source }),
+        ...(options.status && { status: options.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      ...(options.limit && { take: options.limit }),
+    });
+    return rows.map((row: any) => this.toRecord(row));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.writes;
+    await this.prisma.deployment.deleteMany({ where: { id } });
+  }
+
+  async compareAndSet(
+    id: string,
+    expectedStatus: string,
+    update: DeploymentStatusUpdate
+  ): Promise<DeploymentRecord | null> {
+    const write = this.writes.then(() =>
+      this.updateIfStatus(id, expectedStatus, update)
+    );
+    this.writes = write.catch((error) => {
+      logger.error(`Failed to update deployment: ${id}`, { error });
+    });
+    return write;
+  }
+
+  private async upsert(
+    record: DeploymentRecordInput
+  ): Promise<DeploymentRecord> {
+    const data = {
+      name: record.name,
+      source: record.source,
+      repositoryUrl: record.repositoryUrl,
+      branch: record.branch || 'main',
+      region: record.region,
+      accountId: record.accountId,
+      status: record.status,
+      progress: record.progress,
+      message: record.message,
+      publicUrl: record.publicUrl,
+      resources: JSON.parse(JSON.stringify(record.resources)),
+      state: JSON.parse(JSON.stringify(record.state)),
+    };
+
+    const row = await this.prisma.deployment.upsert({
+      where: { id: record.id },
+      create: {
+        id: record.id,
+        ...data,
+        ...(record.createdAt && { createdAt: record.createdAt }),
+      },
+      update: data,
+    });
+    return this.toRecord(row);
+  }
+
+  private async updateIfStatus(
+    id: string,
+    expectedStatus: string,
+    update: DeploymentStatusUpdate
+  ): Promise<DeploymentRecord | null> {
+    // A single conditional UPDATE, so the check and the write are atomic
+    const { count } = await this.prisma.deployment.updateMany({
+      where: { id, status: expectedStatus },
+      data: update,
+    });
+    if (count !== 1) {
+      return null;
+    }
+
+    const row = await this.prisma.deployment.findUnique({ where: { id } });
+    return row ? this.toRecord(row) : null;
+  }
+
+  private toRecord(row: any): DeploymentRecord {
+    return {
+      id: row.id,
+      name: row.name,
+      source: row.source as DeploymentSource,
+      repositoryUrl: row.repositoryUrl ?? undefined,
+      branch: row.branch ?? undefined,
+      region: row.region ?? undefined,
+    accountId: row.accountId ?? undefined,
+      status: row.status,
+      progress: row.progress,
+      message: row.message ?? undefined,
+      publicUrl: row.publicUrl ?? undefined,
+      resources: (row.resources as DeploymentRecord['resources']) || [],
+      state: (row.state as DeploymentRecord['state']) || {},
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+}
@@ -1,6 +1,11 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { logger } from '../utils/logger.js';
 import { BedrockAIService } from '../services/bedrock-ai.js';
+import {
+  detectFrameworks,
+  FrameworkDetection,
+  RepositoryFacts,
+} from '../services/framework-detector.js';
 import { GitHubService } from '../services/github.js';
 
 interface RepositoryData {
@@ -26,6 +31,17 @@ interface RepositoryAnalysis {
   hasDockerfile: boolean;
 }
 
+// 'ai' asks the model, grounded in the rule-based facts; 'rules' uses the
+// facts alone and never calls a model
+type AnalysisMode = 'ai' | 'rules';
+
+interface AnalysisResult {
+  analysis: RepositoryAnalysis;
+  deploymentPlan: DeploymentPlan;
+  detection: FrameworkDetection[];
+  analysisMode: AnalysisMode;
+}
+
 interface DeploymentPlan {
   architecture: string;
   services: {
@@ -46,6 +62,13 @@ interface DeploymentPlan {
   recommendations: string[];
 }
 
+const ANALYSIS_MODE_SCHEMA = {
+  type: 'string',
+  enum: ['ai', 'rules'],
+  description:
+    'ai (default): model analysis grounded in rule-based detection; rules: rule-based detection only, no model call',
+};
+
 export class AIAnalysisTools {
   private static bedrockService = new BedrockAIService();
   private static githubService = new GitHubService();
@@ -75,6 +98,7 @@ export class AIAnalysisTools {
               type: 'string',
               description: 'User requirements for deployment',
             },
+            analysis_mode: ANALYSIS_MODE_SCHEMA,
           },
           required: ['repositoryData', 'userPrompt'],
         },
@@ -98,6 +122,7 @@ export class AIAnalysisTools {
               type: 'string',
               description: 'User requirements for deployment',
             },
+            analysis_mode: ANALYSIS_MODE_SCHEMA,
           },
           required: ['owner', 'repo', 'userPrompt'],
         },
@@ -110,13 +135,15 @@ export class AIAnalysisTools {
       case 'analyze_repository':
         return await this.analyzeRepository(
           args.repositoryData,
-          args.userPrompt
+          args.userPrompt,
+          args.analysis_mode
         );
       case 'analyze_github_repository':
         return await this.analyzeGitHubRepository(
           args.owner,
           args.repo,
-          args.userPrompt
+          args.userPrompt,
+          args.analysis_mode
         );
       default:
         throw new Error(`Unknown tool: ${name}`);
@@ -125,8 +152,19 @@ export class AIAnalysisTools {
 
   private static async analyzeRepository(
     repoData: RepositoryData,
-    userPrompt: string
-  ): Promise<{ analysis: RepositoryAnalysis; deploymentPlan: DeploymentPlan }> {
+    userPrompt: string,
+    analysisMode: AnalysisMode = 'ai'
+  ): Promise<AnalysisResult> {
+    const facts = detectFrameworks(repoData);
+
+    if (analysisMode === 'rules') {
+      logger.info('📐 Running rule-based repository analysis', {
+        repo: repoData.name,
+        framework: facts.primary?.name,
+      });
+      return this.rulesBasedResult(repoData, userPrompt, facts, 'rules');
+    }
+
     logger.info('🤖 Starting AI repository analysis with Bedrock', {
       repo: repoData.name,
       prompt: userPrompt.substring(0, 100) + '...',
@@ -145,7 +183,7 @@ export class AIAnalysisTools {
         architecture: result.deploymentPlan.architecture,
       });
 
-      return result;
+      return { ...result, detection: facts.candidates, analysisMode };
     } catch (bedrockError) {
       logger.warn('⚠️ Bedrock AI failed, falling back to local analysis', {
         error:
@@ -155,30 +193,42 @@ export class AIAnalysisTools {
       });
 
       // Fallback to local analysis if Bedrock fails
-      const analysis = this.performLocalRepositoryAnalysis(repoData);
-      const deploymentPlan = this.generateLocalDeploymentPlan(
-        analysis,
-        userPrompt,
-        repoData
-      );
+      const result = this.rulesBasedResult(repoData, userPrompt, facts, 'ai');
 
       logger.info('✅ Local fallback analysis completed', {
         repo: repoData.name,
-        architecture: deploymentPlan.architecture,
+        architecture: result.deploymentPlan.architecture,
       });
 
-      return {
-        analysis,
-        deploymentPlan,
-      };
+      return result;
     }
   }
 
+  private static rulesBasedResult(
+    repoData: RepositoryData,
+    userPrompt: string,
+    facts: RepositoryFacts,
+    analysisMode: AnalysisMode
+  ): AnalysisResult {
+    const analysis = this.performLocalRepositoryAnalysis(repoData, facts);
+    return {
+      analysis,
+      deploymentPlan: this.generateLocalDeploymentPlan(
+        analysis,
+        userPrompt,
+        repoData
+      ),
+      detection: facts.candidates,
+      analysisMode,
+    };
+  }
+
   private static async analyzeGitHubRepository(
     owner: string,
     repo: string,
-    userPrompt: string
-  ): Promise<{ analysis: RepositoryAnalysis; deploymentPlan: DeploymentPlan }> {
+    userPrompt: string,
+    analysisMode: AnalysisMode = 'ai'
+  ): Promise<AnalysisResult> {
     logger.info('📦 Analyzing GitHub repository with real AI', {
       owner,
       repo,
@@ -193,7 +243,7 @@ export class AIAnalysisTools {
       );
 
       // Analyze with Bedrock AI
-      return await this.analyzeRepository(repoData, userPrompt);
+      return await this.analyzeRepository(repoData, userPrompt, analysisMode);
     } catch (error) {
       logger.error('❌ GitHub repository analysis failed', {
         owner,
@@ -205,115 +255,24 @@ export class AIAnalysisTools {
   }
 
   private static performLocalRepositoryAnalysis(
-    repoData: RepositoryData
+    repoData: RepositoryData,
+    facts: RepositoryFacts
   ): RepositoryAnalysis {
-    const files = Object.keys(repoData.files);
-
-    // Detect framework and package manager
-    const hasPackageJson = files.includes('package.json');
-    const hasRequirementsTxt = files.includes('requirements.txt');
-    const hasComposerJson = files.includes('composer.json');
-    const hasDockerfile =
-      files.includes('Dockerfile') || files.includes('dockerfile');
-
-    let framework = 'Unknown';
-    let packageManager = 'Unknown';
-    let buildCommand = '';
-    let startCommand = '';
-    let port = 3000;
-    const dependencies: string[] = [];
-    const devDependencies: string[] = [];
-
-    // Analyze package.json if it exists
-    if (hasPackageJson && repoData.files['package.json']) {
-      try {
-        const packageJson = JSON.parse(repoData.files['package.json']);
-        packageManager = 'npm';
-
-        // Detect framework
-        if (packageJson.dependencies) {
-          if (packageJson.dependencies.react) framework = 'React';
-          else if (packageJson.dependencies.next) framework = 'Next.js';
-          else if (packageJson.dependencies.vue) framework = 'Vue.js';
-          else if (packageJson.dependencies.angular) framework = 'Angular';
-          else if (packageJson.dependencies.express) framework = 'Express.js';
-
-          dependencies.push(...Object.keys(packageJson.dependencies));
-        }
-
-        if (packageJson.devDependencies) {
-          devDependencies.push(...Object.keys(packageJson.devDependencies));
-        }
-
-        // Extract scripts
-        if (packageJson.scripts) {
-          buildCommand = packageJson.scripts.build || 'npm run build';
-          startCommand = packageJson.scripts.start || 'npm start';
-        }
-      } catch (e) {
-        logger.warn('Failed to parse package.json', {
-          error: e instanceof Error ? e.message : 'Unknown parsing error',
-        });
-      }
-    }
-
-    // Python detection
-    if (hasRequirementsTxt) {
-      packageManager = 'pip';
-      framework = 'Python';
-      buildCommand = 'pip install -r requirements.txt';
-      startCommand = 'python app.py';
-      port = 5000;
-    }
-
-    // PHP detection
-    if (hasComposerJson) {
-      packageManager = 'composer';
-      framework = 'PHP';
-      buildCommand = 'composer install';
-      startCommand = 'php index.php';
-      port = 8000;
-    }
-
-    // Check for static assets
-    const staticAssets = files.some(
-      (file) =>
-        file.endsWith('.css') ||
-        file.endsWith('.js') ||
-        file.endsWith('.html') ||
-        file.includes('public/') ||
-        file.includes('static/')
-    );
-
-    // Check for environment variables
-    const hasEnvVariables = files.some(
-      (file) => file.includes('.env') || file.includes('config')
-    );
-
-    // Simple database detection
-    const hasDatabase =
-      dependencies.some(
-        (dep) =>
-          dep.includes('mysql') ||
-          dep.includes('postgres') ||
-          dep.includes('mongodb') ||
-          dep.includes('sqlite')
-      ) ||
-      (repoData.readme?.toLowerCase().includes('database') ?? false);
-
     return {
-      language: repoData.language,
-      framework,
-      packageManager,
-      hasDatabase,
-      hasEnvVariables,
-      buildCommand,
-      startCommand,
-      port,
-      dependencies,
-      devDependencies,
-      staticAssets,
-      hasDockerfile,
+      language: facts.language,
+      framework: facts.primary?.name || 'Unknown',
+      packageManager: facts.packageManager,
+      hasDatabase:
+        facts.hasDatabase ||
+        (repoData.readme?.toLowerCase().includes('database') ?? false),
+      hasEnvVariables: facts.hasEnvVariables,
+      buildCommand: facts.buildCommand,
+      startCommand: facts.startCommand,
+      port: facts.port,
+      dependencies: facts.dependencies,
+      devDependencies: facts.devDependencies,
+      staticAssets: facts.staticAssets,
+      hasDockerfile: facts.hasDockerfile,
     };
   }
 
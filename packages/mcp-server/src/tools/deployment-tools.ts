@@ -1,8 +1,22 @@
 import { z } from 'zod';
+import fs from 'fs/promises';
+import path from 'path';
 import { AIPromptInterpreter } from '../services/ai-interpreter.js';
 import { S3Service } from '../services/s3-service.js';
 import { CloudFrontService } from '../services/cloudfront-service.js';
 import { LambdaService } from '../services/lambda-service.js';
+import { TeardownService } from '../services/teardown-service.js';
+import { OrphanScanner } from '../services/orphan-scanner.js';
+import { CostCollector } from '../services/cost-collector.js';
+import { createCostExplorer } from '../services/cost-explorer.js';
+import { BudgetService } from '../services/budget-service.js';
+import { BudgetGuard } from '../services/budget-guard.js';
+import { BudgetMonitor } from '../services/budget-alerts.js';
+import { RealDeploymentService } from '../services/real-deployment.js';
+import {
+  ExportablePlan,
+  InfrastructureExporter,
+} from '../services/infrastructure-exporter.js';
 import {
   DeploymentRequest,
   DeploymentStatus,
@@ -10,87 +24,159 @@ import {
   ParsedDeploymentIntent,
   ProjectType,
   AWSResource,
+  RollbackReport,
+  ExecutionPlan,
+  PlannedResourceChange,
+  DeploymentRevision,
+  FileUpload,
+  UsageAssumptions,
+  NotificationEventBase,
 } from '../types/index.js';
 import { logger } from '../utils/logger.js';
+import { getPricingEngine, PricingEngine } from '../pricing/index.js';
+import { getNotifier, Notifier } from '../notifications/index.js';
+import {
+  DeploymentRecord,
+  DeploymentStore,
+  getDeploymentStore,
+  InMemoryDeploymentStore,
+} from '../storage/index.js';
 import {
   generateDeploymentId,
   createDeploymentStatus,
   updateDeploymentStep,
   sanitizeProjectName,
+  generateResourceName,
+  createDeploymentRevision,
 } from '../utils/helpers.js';
 
+interface WebsiteDeploymentParams {
+  prompt: string;
+  projectName?: string;
+  customDomain?: string;
+  environment?: 'development' | 'staging' | 'production';
+  monthlyBudget?: number;
+  files?: Array<{
+    name: string;
+    content: string;
+    contentType: string;
+    path: string;
+  }>;
+}
+
+interface UpdateDeploymentParams {
+  deploymentId: string;
+  files?: WebsiteDeploymentParams['files'];
+  code?: string;
+  branch?: string;
+  commit?: string;
+}
+
+// Statuses in which no deployment or update is still creating resources
+const SETTLED_STATUSES: string[] = [
+  DeploymentState.PLANNED,
+  DeploymentState.COMPLETED,
+  DeploymentState.FAILED,
+  DeploymentState.DESTROYED,
+];
+
+// How long a plan can wait for approval before it has to be recomputed
+const PLAN_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Deployment step that creates each planned resource type
+const PLAN_STEPS: Record<string, string> = {
+  'S3::Bucket': 'Create S3 Bucket',
+  'CloudFront::Distribution': 'Configure CloudFront',
+  'Lambda::Function': 'Create Lambda',
+  'Budgets::Budget': 'Create Budget Alarm',
+};
+
+// How often spend is checked against budgets while the server runs
+const COST_MONITOR_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
 export class DeploymentTools {
   private aiInterpreter: AIPromptInterpreter;
   private s3Service: S3Service;
   private cloudFrontService: CloudFrontService;
   private lambdaService: LambdaService;
-  private deploymentStatuses: Map<string, DeploymentStatus> = new Map();
+  private teardownService: TeardownService;
+  private realDeploymentService: RealDeploymentService;
+  private store: DeploymentStore;
+  private costCollector: CostCollector;
+  private budgetGuard: BudgetGuard;
+  private budgetMonitor: BudgetMonitor;
+  private budgetService: BudgetService;
+  private notifier: Notifier;
+  private pricing: PricingEngine;
+  private region: string;
 
-  constructor(region: string = 'us-east-1') {
-    this.aiInterpreter = new AIPromptInterpreter();
+  constructor(region: string = 'us-east-1', store?: DeploymentStore) {
+    this.region = region;
+    this.pricing = getPricingEngine();
+    this.aiInterpreter = new AIPromptInterpreter(undefined, this.pricing);
     this.s3Service = new S3Service(region);
     this.cloudFrontService = new CloudFrontService(region);
     this.lambdaService = new LambdaService(region);
+    this.budgetService = new BudgetService();
+    this.teardownService = new TeardownService(region, {
+      s3: this.s3Service,
+      cloudFront: this.cloudFrontService,
+      lambda: this.lambdaService,
+      budgets: this.budgetService,
+    });
+    this.store = store || getDeploymentStore();
+    this.costCollector = new CostCollector(this.store, createCostExplorer());
+    this.budgetGuard = new BudgetGuard(this.store, this.costCollector);
+    this.notifier = getNotifier();
+    this.budgetMonitor = new BudgetMonitor(
+      this.store,
+      this.costCollector,
+      this.budgetGuard,
+      this.notifier
+    );
+    this.realDeploymentService = new RealDeploymentService(region, {
+      lambda: this.lambdaService,
+      store: this.store,
+      budgetGuard: this.budgetGuard,
+    });
   }
 
   /**
    * MCP Tool: Deploy Website
    * Main deployment orchestration tool
    */
-  async deployWebsite(params: {
-    prompt: string;
-    projectName?: string;
-    customDomain?: string;
-    environment?: 'development' | 'staging' | 'production';
-    files?: Array<{
-      name: string;
-      content: string;
-      contentType: string;
-      path: string;
-    }>;
-  }) {
+  async deployWebsite(params: WebsiteDeploymentParams) {
     const deploymentId = generateDeploymentId();
     logger.info(`Starting deployment: ${deploymentId}`, { params });
 
     try {
       // Create deployment request
-      const request: DeploymentRequest = {
-        id: deploymentId,
-        prompt: params.prompt,
-        projectName: params.projectName,
-        customDomain: params.customDomain,
-        environment: params.environment || 'production',
-        timestamp: new Date(),
-        files: params.files?.map((f) => ({
-          name: f.name,
-          content: f.content,
-          contentType: f.contentType,
-          size: Buffer.byteLength(f.content),
-          path: f.path,
-        })),
-      };
+      const request = this.buildRequest(deploymentId, params);
+
+      // Plan and price it first, so a deployment over budget is refused
+      // before it starts
+      const intent = await this.aiInterpreter.parseDeploymentIntent(request);
+      const plan = this.buildExecutionPlan(request, intent);
+      await this.budgetGuard.check(
+        deploymentId,
+        plan.estimatedMonthlyCost,
+        request.monthlyBudget
+      );
 
       // Initialize deployment status
       const steps = this.getDeploymentSteps(params.prompt);
       const status = createDeploymentStatus(deploymentId, steps);
-      this.deploymentStatuses.set(deploymentId, status);
+      status.plan = plan;
+      updateDeploymentStep(
+        status,
+        'Parse Intent',
+        'completed',
+        JSON.stringify(intent, null, 2)
+      );
+      await this.store.save(this.toRecord(request, status));
 
       // Start deployment process
-      this.executeDeployment(request).catch((error) => {
-        logger.error(`Deployment failed: ${deploymentId}`, { error });
-        status.status = DeploymentState.FAILED;
-        status.error = {
-          code: 'DEPLOYMENT_FAILED',
-          message: error.message,
-          details: error.stack || '',
-          recoverable: true,
-          suggestions: [
-            'Check AWS credentials',
-            'Verify resource quotas',
-            'Retry deployment',
-          ],
-        };
-      });
+      this.startExecution(request, status, plan);
 
       return {
         deploymentId,
@@ -106,16 +192,221 @@ export class DeploymentTools {
     }
   }
 
+  /**
+   * MCP Tool: Plan Deployment
+   * Works out the exact resources a deployment would create and stores the
+   * plan for apply-deployment-plan. Nothing is created in AWS.
+   */
+  async planDeployment(
+    params: WebsiteDeploymentParams
+  ): Promise<ExecutionPlan> {
+    const deploymentId = generateDeploymentId();
+    logger.info(`Planning deployment: ${deploymentId}`, {
+      prompt: params.prompt,
+    });
+
+    try {
+      const request = this.buildRequest(deploymentId, params);
+      const intent = await this.aiInterpreter.parseDeploymentIntent(request);
+      const plan = this.buildExecutionPlan(request, intent);
+      await this.budgetGuard.check(
+        deploymentId,
+        plan.estimatedMonthlyCost,
+        request.monthlyBudget
+      );
+
+      const status = createDeploymentStatus(
+        deploymentId,
+        this.getPlanSteps(plan)
+      );
+      status.status = DeploymentState.PLANNED;
+      status.currentStep = 'Awaiting approval';
+      status.plan = plan;
+      await this.store.save(this.toRecord(request, status));
+
+      return plan;
+    } catch (error) {
+      logger.error('Failed to plan deployment', { error, params });
+      throw new Error(
+        `Planning failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * MCP Tool: Apply Deployment Plan
+   * Creates exactly the resources of a stored plan, once
+   */
+  async applyDeploymentPlan(planId: string) {
+    const record = await this.store.get(planId);
+
+    if (!record || !record.state.plan) {
+      throw new Error(`Plan not found: ${planId}`);
+    }
+    if (record.status !== DeploymentState.PLANNED) {
+      throw new Error(
+        `Plan ${planId} has already been applied (deployment status: ${record.status})`
+      );
+    }
+
+    const status = this.toStatus(record);
+    const plan = status.plan!;
+    if (new Date(plan.expiresAt).getTime() < Date.now()) {
+      throw new Error(
+        `Plan ${planId} expired at ${new Date(plan.expiresAt).toISOString()}; run plan-deployment again`
+      );
+    }
+    if (plan.region !== this.region) {
+      throw new Error(
+        `Plan ${planId} targets ${plan.region} but this server deploys to ${this.region}`
+      );
+    }
+
+    // Claim the plan before any other work so it cannot be applied twice
+    const claimed = await this.store.compareAndSet(
+      planId,
+      DeploymentState.PLANNED,
+      { status: DeploymentState.PENDING, message: 'Initializing' }
+    );
+    if (!claimed) {
+      throw new Error(`Plan ${planId} is already being applied`);
+    }
+
+    const request = record.state.request as DeploymentRequest;
+    try {
+      // Other deployments may have used up the budget since planning
+      await this.budgetGuard.check(
+        planId,
+        plan.estimatedMonthlyCost,
+        request.monthlyBudget
+      );
+    } catch (error) {
+      // Nothing was created, so the plan can be applied again later
+      await this.store.compareAndSet(planId, DeploymentState.PENDING, {
+        status: DeploymentState.PLANNED,
+        message: record.message,
+      });
+      throw error;
+    }
+
+    logger.info(`Applying deployment plan: ${planId}`, {
+      changes: plan.changes.length,
+    });
+
+    status.status = DeploymentState.PENDING;
+    status.currentStep = 'Initializing';
+    status.startTime = new Date();
+    await this.store.save(this.toRecord(request, status));
+
+    this.startExecution(request, status, plan);
+
+    return {
+      deploymentId: planId,
+      status: status.status,
+      message: `Creating the ${plan.changes.length} planned resource(s)`,
+      trackingUrl: `/deployment/${planId}`,
+    };
+  }
+
+  /**
+   * MCP Tool: Update Deployment
+   * Redeploys an existing deployment in place and records it as a new
+   * revision instead of creating new resources
+   */
+  async updateDeployment(params: UpdateDeploymentParams) {
+    const record = await this.store.get(params.deploymentId);
+
+    if (!record) {
+      throw new Error(`Deployment not found: ${params.deploymentId}`);
+    }
+    if (record.source !== 'website') {
+      const revision = await this.realDeploymentService.updateDeployment(
+        record.id,
+        { branch: params.branch, commit: params.commit }
+      );
+      return this.toUpdateResult(record.id, revision);
+    }
+
+    if (record.status !== DeploymentState.COMPLETED) {
+      throw new Error(
+        `Only completed deployments can be updated (deployment status: ${record.status})`
+      );
+    }
+
+    const status = this.toStatus(record);
+    const bucket = status.resources.find((r) => r.type === 'S3::Bucket');
+    const distribution = status.resources.find(
+      (r) => r.type === 'CloudFront::Distribution'
+    );
+    const lambdaFunction = status.resources.find(
+      (r) => r.type === 'Lambda::Function'
+    );
+
+    if (!params.files?.length && !params.code) {
+      throw new Error('Provide files or code to deploy');
+    }
+    if (params.files?.length && !bucket) {
+      throw new Error(`Deployment ${record.id} has no S3 bucket for files`);
+    }
+    if (params.code && !lambdaFunction) {
+      throw new Error(`Deployment ${record.id} has no Lambda function`);
+    }
+
+    const request: DeploymentRequest = record.state.request || {
+      id: record.id,
+      prompt: '',
+      timestamp: record.createdAt,
+      projectName: record.name,
+    };
+    const revision = createDeploymentRevision(record.id, status.revisions);
+    status.revisions = [...(status.revisions || []), revision];
+    await this.store.save(this.toRecord(request, status));
+
+    logger.info(`Updating deployment: ${record.id}`, {
+      revision: revision.revision,
+    });
+
+    this.executeUpdate(params, revision, {
+      bucket,
+      distribution,
+      lambdaFunction,
+    })
+      .then(() => {
+        revision.status = 'completed';
+      })
+      .catch((error) => {
+        logger.error(`Deployment update failed: ${record.id}`, { error });
+        revision.status = 'failed';
+        revision.error = error.message;
+      })
+      .finally(() => {
+        revision.endTime = new Date();
+        this.saveStatus(request, status);
+      });
+
+    return this.toUpdateResult(record.id, revision);
+  }
+
   /**
    * MCP Tool: Get Deployment Status
    */
   async getDeploymentStatus(deploymentId: string) {
-    const status = this.deploymentStatuses.get(deploymentId);
+    let record = await this.store.get(deploymentId);
 
-    if (!status) {
+    if (!record) {
       throw new Error(`Deployment not found: ${deploymentId}`);
     }
 
+    const planned = record.status === DeploymentState.PLANNED;
+    if (!planned) {
+      if (await this.costCollector.collectIfStale()) {
+        await this.budgetMonitor.check();
+      }
+      record = (await this.store.get(deploymentId)) || record;
+    }
+
+    const status = this.toStatus(record);
+
     return {
       id: status.id,
       status: status.status,
@@ -133,9 +424,13 @@ export class DeploymentTools {
       resources: status.resources,
       urls: status.urls,
       error: status.error,
+      rollback: status.rollback,
+      plan: status.plan,
+      revisions: status.revisions,
       startTime: status.startTime,
       endTime: status.endTime,
       estimatedCompletion: status.estimatedCompletion,
+      cost: planned ? undefined : this.costCollector.getVariance(record),
     };
   }
 
@@ -178,53 +473,247 @@ export class DeploymentTools {
    * MCP Tool: List Active Deployments
    */
   async listDeployments() {
-    const deployments = Array.from(this.deploymentStatuses.values()).map(
-      (status) => ({
+    const records = await this.store.list();
+    const deployments = records.map((record) => {
+      const status = this.toStatus(record);
+      return {
         id: status.id,
         status: status.status,
         progress: status.progress,
         startTime: status.startTime,
         endTime: status.endTime,
         resourceCount: status.resources.length,
-      })
-    );
+      };
+    });
 
     return {
       total: deployments.length,
+      planned: deployments.filter((d) => d.status === DeploymentState.PLANNED)
+        .length,
       active: deployments.filter(
         (d) =>
           d.status === DeploymentState.PROVISIONING ||
-          d.status === DeploymentState.DEPLOYING
+          d.status === DeploymentState.DEPLOYING ||
+          d.status === DeploymentState.ROLLING_BACK
       ).length,
       completed: deployments.filter(
         (d) => d.status === DeploymentState.COMPLETED
       ).length,
       failed: deployments.filter((d) => d.status === DeploymentState.FAILED)
         .length,
+      spend: this.costCollector.getSpendTotals(records),
       deployments,
     };
   }
 
+  /**
+   * MCP Tool: Destroy Deployment
+   * Deletes the deployment's recorded resources in dependency order
+   */
+  async destroyDeployment(deploymentId: string, dryRun: boolean = false) {
+    const record = await this.store.get(deploymentId);
+
+    if (!record) {
+      throw new Error(`Deployment not found: ${deploymentId}`);
+    }
+
+    // Resources created after the teardown starts would be left behind
+    const updating = record.state?.revisions?.some(
+      (revision: DeploymentRevision) => revision.status === 'in-progress'
+    );
+    if (!SETTLED_STATUSES.includes(record.status) || updating) {
+      throw new Error(
+        `Deployment ${deploymentId} is ${updating ? 'being updated' : record.status}; wait for it to finish before destroying it`
+      );
+    }
+
+    logger.info(`Destroying deployment: ${deploymentId}`, { dryRun });
+
+    const results = await this.getTeardownService(
+      record.region
+    ).destroyResources(record.resources, { dryRun });
+    const remaining = results
+      .filter((result) =>
+        ['pending', 'skipped', 'failed'].includes(result.outcome)
+      )
+      .map((result) => result.resource);
+    const destroyed = remaining.length === 0;
+
+    if (!dryRun) {
+      const status = destroyed ? DeploymentState.DESTROYED : record.status;
+      await this.store.save({
+        ...record,
+        status,
+        message: destroyed
+          ? 'All resources deleted'
+          : `${remaining.length} resource(s) still need to be deleted`,
+        resources: remaining,
+        state: {
+          ...record.state,
+          status,
+          resources: remaining,
+          teardown: results.map((result) => ({
+            type: result.resource.type,
+            id: result.resource.id,
+            outcome: result.outcome,
+            message: result.message,
+          })),
+        },
+      });
+    }
+
+    return {
+      deploymentId,
+      dryRun,
+      destroyed: !dryRun && destroyed,
+      results,
+      remaining: remaining.length,
+    };
+  }
+
+  /**
+   * MCP Tool: Find Orphaned Resources
+   * Lists tagged resources that no stored deployment accounts for, and
+   * optionally deletes the ones named in resourceIds (or all of them with
+   * all: true)
+   */
+  async findOrphanedResources(
+    options: {
+      region?: string;
+      deleteOrphans?: boolean;
+      resourceIds?: string[];
+      all?: boolean;
+      dryRun?: boolean;
+    } = {}
+  ) {
+    const region = options.region || this.region;
+    const deployments = await this.store.list();
+    const scan = await new OrphanScanner(region).scan(deployments);
+
+    if (!options.deleteOrphans) {
+      return { ...scan, deletion: undefined };
+    }
+
+    // Resources matched only by name could still belong to a deployment this
+    // server does not know about, so nothing is deleted unless it is named
+    if (!options.all && !options.resourceIds?.length) {
+      throw new Error(
+        'Name the orphans to delete in resourceIds, or pass all: true to delete every one found'
+      );
+    }
+    // A fresh in-memory store knows no deployments at all: not those from
+    // before a restart, nor those created by the dashboard
+    if (!options.dryRun && this.store instanceof InMemoryDeploymentStore) {
+      throw new Error(
+        'Refusing to delete orphans with the in-memory deployment store, which does not know every live deployment. Set DATABASE_URL to use the shared store.'
+      );
+    }
+
+    const selected = scan.orphans
+      .map((orphan) => orphan.resource)
+      .filter(
+        (resource) => options.all || options.resourceIds!.includes(resource.id)
+      );
+
+    logger.info(`Deleting orphaned resources in ${region}`, {
+      count: selected.length,
+      dryRun: options.dryRun,
+    });
+
+    const deletion = await this.getTeardownService(region).destroyResources(
+      selected,
+      { dryRun: options.dryRun }
+    );
+
+    return { ...scan, deletion };
+  }
+
+  /**
+   * MCP Tool: Export Infrastructure
+   * Renders a deployment plan or prompt as CloudFormation and/or Terraform
+   * without creating anything
+   */
+  async exportInfrastructure(params: {
+    prompt?: string;
+    deploymentPlan?: ExportablePlan;
+    format?: 'cloudformation' | 'terraform' | 'both';
+    projectName?: string;
+    environment?: string;
+    region?: string;
+    containerPort?: number;
+    outputDirectory?: string;
+  }) {
+    const exporter = new InfrastructureExporter();
+    const format = params.format || 'both';
+    const options = {
+      projectName: params.projectName,
+      environment: params.environment,
+      region: params.region,
+      containerPort: params.containerPort,
+    };
+
+    let spec;
+    if (params.deploymentPlan) {
+      spec = exporter.specFromPlan(params.deploymentPlan, {
+        ...options,
+        region: params.region || this.region,
+      });
+    } else if (params.prompt) {
+      const intent = await this.aiInterpreter.parseDeploymentIntent({
+        id: 'export-' + Date.now(),
+        prompt: params.prompt,
+        projectName: params.projectName,
+        timestamp: new Date(),
+      });
+      // Without an explicit region the prompt's region applies
+      spec = exporter.specFromIntent(intent, options);
+    } else {
+      throw new Error('Either a prompt or a deploymentPlan is required');
+    }
+
+    logger.info('Exporting infrastructure', { spec, format });
+
+    const cloudFormation =
+      format !== 'terraform' ? exporter.toCloudFormation(spec) : undefined;
+    const terraform =
+      format !== 'cloudformation' ? exporter.toTerraform(spec) : undefined;
+
+    const files: string[] = [];
+    if (params.outputDirectory) {
+      await fs.mkdir(params.outputDirectory, { recursive: true });
+      if (cloudFormation) {
+        const file = path.join(params.outputDirectory, 'cloudformation.yaml');
+        await fs.writeFile(file, cloudFormation);
+        files.push(file);
+      }
+      if (terraform) {
+        const file = path.join(params.outputDirectory, 'main.tf');
+        await fs.writeFile(file, terraform);
+        files.push(file);
+      }
+    }
+
+    return { spec, cloudFormation, terraform, files };
+  }
+
   /**
    * MCP Tool: Get Cost Estimate
    */
-  async getCostEstimate(prompt: string) {
+  async getCostEstimate(prompt: string, usage?: Partial<UsageAssumptions>) {
     try {
       const tempRequest: DeploymentRequest = {
         id: 'cost-analysis-' + Date.now(),
         prompt,
         timestamp: new Date(),
+        usage,
       };
 
       const intent =
         await this.aiInterpreter.parseDeploymentIntent(tempRequest);
 
       return {
-        monthly: intent.estimatedCost.monthly,
-        yearly: intent.estimatedCost.yearly,
-        currency: intent.estimatedCost.currency,
-        breakdown: intent.estimatedCost.breakdown,
-        comparison: this.generateCostComparison(intent.estimatedCost.monthly),
+        ...intent.estimatedCost,
+        comparison: await this.generateCostComparison(intent, usage),
         optimizationTips: await this.getCostOptimizationTips(intent),
       };
     } catch (error) {
@@ -235,33 +724,235 @@ export class DeploymentTools {
     }
   }
 
+  private buildRequest(
+    deploymentId: string,
+    params: WebsiteDeploymentParams
+  ): DeploymentRequest {
+    return {
+      id: deploymentId,
+      prompt: params.prompt,
+      projectName: params.projectName,
+      customDomain: params.customDomain,
+      environment: params.environment || 'production',
+      monthlyBudget: params.monthlyBudget,
+      timestamp: new Date(),
+      files: params.files?.map((f) => ({
+        name: f.name,
+        content: f.content,
+        contentType: f.contentType,
+        size: Buffer.byteLength(f.content),
+        path: f.path,
+      })),
+    };
+  }
+
+  /**
+   * Run a deployment in the background, recording unexpected failures
+   */
+  private startExecution(
+    request: DeploymentRequest,
+    status: DeploymentStatus,
+    plan: ExecutionPlan
+  ): void {
+    this.executeDeployment(request, status, plan).catch((error) => {
+      logger.error(`Deployment failed: ${request.id}`, { error });
+      status.status = DeploymentState.FAILED;
+      status.error = {
+        code: 'DEPLOYMENT_FAILED',
+        message: error.message,
+        details: error.stack || '',
+        recoverable: true,
+        suggestions: [
+          'Check AWS credentials',
+          'Verify resource quotas',
+          'Retry deployment',
+        ],
+      };
+      this.saveStatus(request, status);
+    });
+  }
+
+  /**
+   * Push new content to the resources of an existing website deployment
+   */
+  private async executeUpdate(
+    params: UpdateDeploymentParams,
+    revision: DeploymentRevision,
+    targets: {
+      bucket?: AWSResource;
+      distribution?: AWSResource;
+      lambdaFunction?: AWSResource;
+    }
+  ): Promise<void> {
+    if (params.files?.length && targets.bucket) {
+      const files: FileUpload[] = params.files.map((f) => ({
+        name: f.name,
+        content: f.content,
+        contentType: f.contentType,
+        size: Buffer.byteLength(f.content),
+        path: f.path,
+      }));
+      await this.s3Service.uploadFiles(targets.bucket.id, files);
+      revision.changes.push(
+        `Uploaded ${files.length} file(s) to ${targets.bucket.id}`
+      );
+
+      if (targets.distribution) {
+        const invalidationId = await this.cloudFrontService.createInvalidation(
+          targets.distribution.id
+        );
+        revision.changes.push(
+          `Invalidated ${targets.distribution.id} (${invalidationId})`
+        );
+      }
+    }
+
+    if (params.code && targets.lambdaFunction) {
+      await this.lambdaService.updateFunctionCode(
+        targets.lambdaFunction.id,
+        params.code
+      );
+      revision.changes.push(`Updated code of ${targets.lambdaFunction.id}`);
+    }
+  }
+
+  private toUpdateResult(deploymentId: string, revision: DeploymentRevision) {
+    return {
+      deploymentId,
+      revision: revision.revision,
+      status: revision.status,
+      message: `Revision ${revision.revision} started`,
+      trackingUrl: `/deployment/${deploymentId}`,
+    };
+  }
+
   /**
-   * Execute the actual deployment process
+   * Turn a parsed intent into the concrete resources a deployment creates,
+   * naming each one up front so apply creates exactly what was reviewed
    */
-  private async executeDeployment(request: DeploymentRequest): Promise<void> {
-    const status = this.deploymentStatuses.get(request.id)!;
+  private buildExecutionPlan(
+    request: DeploymentRequest,
+    intent: ParsedDeploymentIntent
+  ): ExecutionPlan {
     const projectName = sanitizeProjectName(
       request.projectName || 'aws-deploy-ai-project'
     );
+    const environment = request.environment || 'production';
+    const monthlyCost = (service: string) =>
+      intent.estimatedCost.breakdown
+        .filter((item) => item.service.includes(service))
+        .reduce((sum, item) => sum + item.cost, 0);
 
-    try {
-      // Step 1: Parse deployment intent
-      updateDeploymentStep(status, 'Parse Intent', 'running');
-      const intent = await this.aiInterpreter.parseDeploymentIntent(request);
-      updateDeploymentStep(
-        status,
-        'Parse Intent',
-        'completed',
-        JSON.stringify(intent, null, 2)
+    const changes: PlannedResourceChange[] = [
+      {
+        action: 'create',
+        type: 'S3::Bucket',
+        name: generateResourceName(projectName, 'website', environment),
+        description: 'Public website bucket with static website hosting',
+        ports: [80],
+        estimatedMonthlyCost: monthlyCost('S3'),
+      },
+    ];
+
+    if (intent.infrastructure.cdn) {
+      changes.push({
+        action: 'create',
+        type: 'CloudFront::Distribution',
+        name: generateResourceName(projectName, 'cdn', environment),
+        description: `CDN in front of the website bucket${request.customDomain ? ` for ${request.customDomain}` : ''}`,
+        ports: [80, 443],
+        estimatedMonthlyCost: monthlyCost('CloudFront'),
+      });
+    }
+
+    if (intent.infrastructure.compute.type === 'serverless') {
+      changes.push(
+        {
+          action: 'create',
+          type: 'IAM::Role',
+          name: generateResourceName(projectName, 'lambda-role', environment),
+          description: 'Execution role for the Lambda function',
+          estimatedMonthlyCost: 0,
+        },
+        {
+          action: 'create',
+          type: 'Lambda::Function',
+          name: generateResourceName(projectName, 'api', environment),
+          description: 'API function',
+          runtime: intent.infrastructure.compute.runtime || 'nodejs18.x',
+          estimatedMonthlyCost: monthlyCost('Lambda'),
+        }
       );
+    }
+
+    const budget = this.budgetGuard.deploymentBudget(request.monthlyBudget);
+    if (budget && this.budgetGuard.preferences.costAlerts) {
+      changes.push({
+        action: 'create',
+        type: 'Budgets::Budget',
+        name: BudgetService.budgetName(request.id),
+        description: `Alarm at ${budget.thresholds.join('/')}% of $${budget.limit.toFixed(2)}/month`,
+        // The first two budgets in an account are free
+        estimatedMonthlyCost: 0,
+      });
+    }
+
+    const total = changes.reduce(
+      (sum, change) => sum + change.estimatedMonthlyCost,
+      0
+    );
+    const createdAt = new Date();
+    return {
+      id: request.id,
+      region: this.region,
+      projectName,
+      environment,
+      intent,
+      changes,
+      estimatedMonthlyCost: Math.round(total * 100) / 100,
+      createdAt,
+      expiresAt: new Date(createdAt.getTime() + PLAN_TTL_MS),
+    };
+  }
+
+  private getPlanSteps(plan: ExecutionPlan): string[] {
+    return plan.changes
+      .map((change) => PLAN_STEPS[change.type])
+      .filter((step): step is string => Boolean(step));
+  }
+
+  /**
+   * Execute the actual deployment process for a plan that has already been
+   * checked against the budget
+   */
+  private async executeDeployment(
+    request: DeploymentRequest,
+    status: DeploymentStatus,
+    plan: ExecutionPlan
+  ): Promise<void> {
+    await this.notifier.notify({
+      ...this.eventBase(request, plan),
+      type: 'deployment.started',
+      environment: request.environment || 'production',
+      region: this.region,
+      estimatedMonthlyCost: plan.estimatedMonthlyCost,
+    });
+
+    try {
+      const { projectName, environment } = plan;
+      const planned = (type: string) =>
+        plan.changes.find(
+          (change) => change.type === type && change.action === 'create'
+        );
 
       // Step 2: Create S3 bucket
-      updateDeploymentStep(status, 'Create S3 Bucket', 'running');
+      this.updateStep(request, status, 'Create S3 Bucket', 'running');
       const bucketResource = await this.s3Service.createWebsiteBucket(
         projectName,
-        request.environment || 'production'
+        environment,
+        planned('S3::Bucket')?.name
       );
-      status.resources.push(bucketResource);
+      this.recordResource(request, status, bucketResource);
 
       // Upload files or create default content
       const files = request.files || [
@@ -282,7 +973,8 @@ export class DeploymentTools {
       ];
 
       await this.s3Service.uploadFiles(bucketResource.id, files);
-      updateDeploymentStep(
+      this.updateStep(
+        request,
         status,
         'Create S3 Bucket',
         'completed',
@@ -290,16 +982,20 @@ export class DeploymentTools {
       );
 
       // Step 3: Create CloudFront distribution (if CDN is required)
-      if (intent.infrastructure.cdn) {
-        updateDeploymentStep(status, 'Configure CloudFront', 'running');
+      const cdnChange = planned('CloudFront::Distribution');
+      if (cdnChange) {
+        this.updateStep(request, status, 'Configure CloudFront', 'running');
         const cdnResource = await this.cloudFrontService.createDistribution(
           bucketResource.id,
           projectName,
-          request.environment || 'production',
-          request.customDomain
+          environment,
+          request.customDomain,
+          undefined,
+          cdnChange.name
         );
-        status.resources.push(cdnResource);
-        updateDeploymentStep(
+        this.recordResource(request, status, cdnResource);
+        this.updateStep(
+          request,
           status,
           'Configure CloudFront',
           'completed',
@@ -308,15 +1004,21 @@ export class DeploymentTools {
       }
 
       // Step 4: Create Lambda function (if serverless compute is needed)
-      if (intent.infrastructure.compute.type === 'serverless') {
-        updateDeploymentStep(status, 'Create Lambda', 'running');
+      const functionChange = planned('Lambda::Function');
+      if (functionChange) {
+        this.updateStep(request, status, 'Create Lambda', 'running');
         const lambdaResource = await this.lambdaService.createFunction(
           projectName,
-          request.environment || 'production',
-          intent.infrastructure.compute.runtime || 'nodejs18.x'
+          environment,
+          functionChange.runtime,
+          undefined,
+          undefined,
+          functionChange.name,
+          planned('IAM::Role')?.name
         );
-        status.resources.push(lambdaResource);
-        updateDeploymentStep(
+        this.recordResource(request, status, lambdaResource);
+        this.updateStep(
+          request,
           status,
           'Create Lambda',
           'completed',
@@ -324,7 +1026,14 @@ export class DeploymentTools {
         );
       }
 
-      // Step 5: Generate URLs
+      // Step 5: Alarm on the deployment's spend
+      const budgetChange = planned('Budgets::Budget');
+      if (budgetChange) {
+        await this.createBudgetAlarm(request, status, plan, budgetChange.name);
+      }
+      await this.ensureUserBudgetAlarm();
+
+      // Step 6: Generate URLs
       status.urls = await this.generateDeploymentUrls(
         status.resources,
         bucketResource.id
@@ -334,24 +1043,314 @@ export class DeploymentTools {
       status.status = DeploymentState.COMPLETED;
       status.endTime = new Date();
       status.progress = 100;
+      this.saveStatus(request, status);
 
       logger.info(`Deployment completed successfully: ${request.id}`);
+      await this.notifier.notify({
+        ...this.eventBase(request, plan, status.urls?.[0]),
+        type: 'deployment.completed',
+        durationMs: status.endTime.getTime() - status.startTime.getTime(),
+        resources: status.resources.length,
+      });
     } catch (error) {
       logger.error(`Deployment execution failed: ${request.id}`, { error });
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      const failedStep = status.steps.find((step) => step.status === 'running');
+      if (failedStep) {
+        updateDeploymentStep(
+          status,
+          failedStep.name,
+          'failed',
+          undefined,
+          message
+        );
+        await this.notifier.notify({
+          ...this.eventBase(request, plan),
+          type: 'deployment.step_failed',
+          step: failedStep.name,
+          error: message,
+        });
+      }
+
+      const created = status.resources.length;
+      const rollback = await this.rollback(request, status);
+      // Nothing to report when it failed before creating anything
+      if (created > 0) {
+        await this.notifier.notify({
+          ...this.eventBase(request, plan),
+          type: 'deployment.rolled_back',
+          error: message,
+          cleanedUp: rollback.cleanedUp.length,
+          notCleanedUp: rollback.notCleanedUp,
+        });
+      }
+      const suggestions = [
+        'Check AWS permissions',
+        'Verify resource limits',
+        'Contact support',
+      ];
+      if (rollback.notCleanedUp.length > 0) {
+        suggestions.unshift(
+          'Run destroy-deployment to retry deleting the resources left behind'
+        );
+      }
+
       status.status = DeploymentState.FAILED;
+      status.endTime = new Date();
       status.error = {
         code: 'EXECUTION_FAILED',
-        message: error instanceof Error ? error.message : 'Unknown error',
+        message,
         details: error instanceof Error ? error.stack || '' : '',
         recoverable: true,
-        suggestions: [
-          'Check AWS permissions',
-          'Verify resource limits',
-          'Contact support',
+        suggestions,
+      };
+      this.saveStatus(request, status);
+    }
+  }
+
+  private eventBase(
+    request: DeploymentRequest,
+    plan?: ExecutionPlan,
+    liveUrl?: string
+  ): NotificationEventBase {
+    return {
+      name: plan?.projectName || request.projectName || request.id,
+      deploymentId: request.id,
+      timestamp: new Date(),
+      links: { liveUrl },
+    };
+  }
+
+  /**
+   * Check spend against budgets every few hours while the server runs.
+   * Only with COST_ALERTS=true.
+   */
+  startCostMonitoring(
+    intervalMs: number = COST_MONITOR_INTERVAL_MS
+  ): NodeJS.Timeout | undefined {
+    if (!this.budgetGuard.preferences.costAlerts) {
+      return undefined;
+    }
+
+    const run = () =>
+      this.costCollector
+        .collectIfStale()
+        .then(() => this.budgetMonitor.check())
+        .catch((error) => {
+          logger.warn('Cost monitoring failed', {
+            error: error instanceof Error ? error.message : error,
+          });
+        });
+    run();
+    // Monitoring alone should not keep the process alive
+    return setInterval(run, intervalMs).unref();
+  }
+
+  /**
+   * A budget alarm is not worth failing a deployment over; it is logged
+   * and the step marked failed instead
+   */
+  private async createBudgetAlarm(
+    request: DeploymentRequest,
+    status: DeploymentStatus,
+    plan: ExecutionPlan,
+    name: string
+  ): Promise<void> {
+    const budget = this.budgetGuard.deploymentBudget(request.monthlyBudget)!;
+    this.updateStep(request, status, 'Create Budget Alarm', 'running');
+    try {
+      const resource = await this.budgetService.createBudgetAlarm({
+        name,
+        limit: budget.limit,
+        thresholds: budget.thresholds,
+        tagFilters: [
+          `DeploymentId$${request.id}`,
+          // Website resources are tagged by project only
+          `Project$${plan.projectName}`,
         ],
+        email: this.budgetGuard.preferences.alertEmail,
+      });
+      this.recordResource(request, status, resource);
+      this.updateStep(
+        request,
+        status,
+        'Create Budget Alarm',
+        'completed',
+        `Budget alarm created: ${name} ($${budget.limit.toFixed(2)}/month)`
+      );
+    } catch (error) {
+      logger.warn(`Failed to create budget alarm for ${request.id}`, {
+        error,
+      });
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      updateDeploymentStep(
+        status,
+        'Create Budget Alarm',
+        'failed',
+        undefined,
+        message
+      );
+      this.saveStatus(request, status);
+      await this.notifier.notify({
+        ...this.eventBase(request, plan),
+        type: 'deployment.step_failed',
+        step: 'Create Budget Alarm',
+        error: message,
+      });
+    }
+  }
+
+  /**
+   * Keep an account-wide alarm on the user budget, covering every resource
+   * this tool manages
+   */
+  private async ensureUserBudgetAlarm(): Promise<void> {
+    const budget = this.budgetGuard.userBudget();
+    if (!budget || !this.budgetGuard.preferences.costAlerts) {
+      return;
+    }
+
+    try {
+      await this.budgetService.ensureBudgetAlarm({
+        name: BudgetService.budgetName('monthly'),
+        limit: budget.limit,
+        thresholds: budget.thresholds,
+        tagFilters: ['ManagedBy$aws-deploy-ai'],
+        email: this.budgetGuard.preferences.alertEmail,
+      });
+    } catch (error) {
+      logger.warn('Failed to update the monthly budget alarm', { error });
+    }
+  }
+
+  private getTeardownService(region?: string): TeardownService {
+    return !region || region === this.region
+      ? this.teardownService
+      : new TeardownService(region);
+  }
+
+  /**
+   * Record a created resource right away so a rollback can find it
+   */
+  private recordResource(
+    request: DeploymentRequest,
+    status: DeploymentStatus,
+    resource: AWSResource
+  ): void {
+    status.resources.push(resource);
+    this.saveStatus(request, status);
+  }
+
+  /**
+   * Compensate for a failed deployment by deleting the resources it created.
+   * Anything that could not be deleted stays in status.resources.
+   */
+  private async rollback(
+    request: DeploymentRequest,
+    status: DeploymentStatus
+  ): Promise<RollbackReport> {
+    const report: RollbackReport = {
+      cleanedUp: [],
+      notCleanedUp: [],
+      startTime: new Date(),
+    };
+    status.status = DeploymentState.ROLLING_BACK;
+    status.rollback = report;
+    this.saveStatus(request, status);
+
+    logger.info(`Rolling back deployment: ${request.id}`, {
+      resources: status.resources.length,
+    });
+
+    const results = await this.teardownService.destroyResources(
+      status.resources
+    );
+    const remaining: AWSResource[] = [];
+
+    for (const result of results) {
+      const entry = {
+        type: result.resource.type,
+        id: result.resource.id,
+        message: result.message,
       };
-      throw error;
+
+      if (['deleted', 'already-deleted', 'kept'].includes(result.outcome)) {
+        report.cleanedUp.push(entry);
+      } else {
+        report.notCleanedUp.push(entry);
+        remaining.push(result.resource);
+      }
     }
+
+    report.endTime = new Date();
+    status.resources = remaining;
+    logger.info(`Rollback finished: ${request.id}`, {
+      cleanedUp: report.cleanedUp.length,
+      notCleanedUp: report.notCleanedUp.length,
+    });
+
+    return report;
+  }
+
+  /**
+   * Update a deployment step and persist the new status
+   */
+  private updateStep(
+    request: DeploymentRequest,
+    status: DeploymentStatus,
+    stepName: string,
+    stepStatus: 'running' | 'completed' | 'failed',
+    output?: string
+  ): void {
+    updateDeploymentStep(status, stepName, stepStatus, output);
+    this.saveStatus(request, status);
+  }
+
+  private saveStatus(request: DeploymentRequest, status: DeploymentStatus) {
+    this.store.save(this.toRecord(request, status)).catch((error) => {
+      logger.error(`Failed to persist deployment: ${status.id}`, { error });
+    });
+  }
+
+  private toRecord(request: DeploymentRequest, status: DeploymentStatus) {
+    return {
+      id: status.id,
+      name: request.projectName || 'aws-deploy-ai-project',
+      source: 'website' as const,
+      region: this.region,
+      status: status.status,
+      progress: status.progress,
+      message: status.error?.message || status.currentStep,
+      publicUrl: status.urls?.[0],
+      resources: status.resources,
+      // The request is kept so a stored plan can be applied later
+      state: { ...status, request },
+      createdAt: status.startTime,
+    };
+  }
+
+  /**
+   * Rebuild a DeploymentStatus, including for records from other flows
+   */
+  private toStatus(record: DeploymentRecord): DeploymentStatus {
+    if (record.source === 'website') {
+      return record.state as DeploymentStatus;
+    }
+
+    const finished = ['completed', 'failed'].includes(record.status);
+    return {
+      id: record.id,
+      status: record.status as DeploymentState,
+      progress: record.progress,
+      currentStep: record.message || record.status,
+      steps: [],
+      resources: record.resources,
+      urls: record.publicUrl ? [record.publicUrl] : undefined,
+      revisions: record.state.revisions,
+      startTime: record.createdAt,
+      endTime: finished ? record.updatedAt : undefined,
+    };
   }
 
   private getDeploymentSteps(prompt: string): string[] {
@@ -399,15 +1398,29 @@ export class DeploymentTools {
     return timeMs;
   }
 
-  private generateCostComparison(monthlyCost: number): any {
+  /**
+   * Compare the estimate with running the same app on one EC2 instance,
+   * priced from the same unit prices and usage
+   */
+  private async generateCostComparison(
+    intent: ParsedDeploymentIntent,
+    usage?: Partial<UsageAssumptions>
+  ) {
+    const monthlyCost = intent.estimatedCost.monthly;
+    const singleInstance = await this.pricing.estimateSingleInstance(
+      intent,
+      usage
+    );
+    const baseline = singleInstance.monthly;
+
     return {
-      vs_traditional_hosting: {
-        savings: Math.max(0, 25 - monthlyCost),
-        percentage: Math.round(((25 - monthlyCost) / 25) * 100),
-      },
-      vs_vps: {
-        savings: Math.max(0, 50 - monthlyCost),
-        percentage: Math.round(((50 - monthlyCost) / 50) * 100),
+      vs_single_instance: {
+        monthly: baseline,
+        savings: Math.round((baseline - monthlyCost) * 100) / 100,
+        percentage:
+          baseline > 0
+            ? Math.round(((baseline - monthlyCost) / baseline) * 100)
+            : 0,
       },
     };
   }
@@ -460,29 +1473,138 @@ export class DeploymentTools {
    * Get Zod schemas for MCP tool validation
    */
   static getToolSchemas() {
+    const websiteDeployment = {
+      prompt: z
+        .string()
+        .describe('Natural language description of what to deploy'),
+      projectName: z.string().optional().describe('Name of the project'),
+      customDomain: z.string().optional().describe('Custom domain name'),
+      environment: z.enum(['development', 'staging', 'production']).optional(),
+      monthlyBudget: z
+        .number()
+        .positive()
+        .optional()
+        .describe('Monthly budget in USD; deployments estimated above it fail'),
+      files: z
+        .array(
+          z.object({
+            name: z.string(),
+            content: z.string(),
+            contentType: z.string(),
+            path: z.string(),
+          })
+        )
+        .optional(),
+    };
+
     return {
-      deployWebsite: {
+      deployWebsite: websiteDeployment,
+      planDeployment: websiteDeployment,
+      applyDeploymentPlan: {
+        planId: z.string().describe('Plan ID returned by plan-deployment'),
+      },
+      updateDeployment: {
+        deploymentId: z.string().describe('Deployment ID to update'),
+        files: websiteDeployment.files.describe(
+          'Files to upload to the existing bucket'
+        ),
+        code: z
+          .string()
+          .optional()
+          .describe('New code for the existing Lambda function'),
+        branch: z
+          .string()
+          .optional()
+          .describe('Branch to pull for GitHub deployments'),
+        commit: z
+          .string()
+          .optional()
+          .describe('Commit to deploy for GitHub deployments'),
+      },
+      getDeploymentStatus: {
+        deploymentId: z.string().describe('Deployment ID to check'),
+      },
+      destroyDeployment: {
+        deploymentId: z.string().describe('Deployment ID to tear down'),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe('List what would be deleted without deleting anything'),
+      },
+      findOrphanedResources: {
+        region: z
+          .string()
+          .optional()
+          .describe('AWS region to scan (defaults to the server region)'),
+        deleteOrphans: z
+          .boolean()
+          .optional()
+          .describe('Delete the orphaned resources that were found'),
+        resourceIds: z
+          .array(z.string())
+          .optional()
+          .describe(
+            'With deleteOrphans, the resource IDs from the scan to delete'
+          ),
+        all: z
+          .boolean()
+          .optional()
+          .describe('With deleteOrphans, delete every orphan found instead'),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe('With deleteOrphans, list what would be deleted'),
+      },
+      exportInfrastructure: {
         prompt: z
           .string()
-          .describe('Natural language description of what to deploy'),
-        projectName: z.string().optional().describe('Name of the project'),
-        customDomain: z.string().optional().describe('Custom domain name'),
+          .optional()
+          .describe('Deployment requirements to turn into templates'),
+        deploymentPlan: z
+          .object({
+            architecture: z.string(),
+            services: z.array(
+              z.object({ name: z.string(), type: z.string() }).passthrough()
+            ),
+          })
+          .passthrough()
+          .optional()
+          .describe('Deployment plan from the AI repository analysis'),
+        format: z
+          .enum(['cloudformation', 'terraform', 'both'])
+          .optional()
+          .describe('Output format (default: both)'),
+        projectName: z.string().optional().describe('Project name'),
         environment: z
           .enum(['development', 'staging', 'production'])
-          .optional(),
-        files: z
-          .array(
-            z.object({
-              name: z.string(),
-              content: z.string(),
-              contentType: z.string(),
-              path: z.string(),
-            })
-          )
-          .optional(),
+          .optional()
+          .describe('Deployment environment'),
+        region: z
+          .string()
+          .optional()
+          .describe(
+            "AWS region (defaults to the prompt's region, or the server region for a plan)"
+          ),
+        containerPort: z
+          .number()
+          .optional()
+          .describe('Port the application listens on (default: 3000)'),
+        outputDirectory: z
+          .string()
+          .optional()
+          .describe('Also write the templates to this directory'),
       },
-      getDeploymentStatus: {
-        deploymentId: z.string().describe('Deployment ID to check'),
+      compareArchitectures: {
+        repository: z
+          .string()
+          .describe('GitHub repository in format "owner/repo"'),
+        prompt: z
+          .string()
+          .describe('Natural language description of deployment requirements'),
+        branch: z
+          .string()
+          .optional()
+          .describe('Branch to analyze (default: main)'),
       },
       analyzeDeployment: {
         prompt: z.string().describe('Deployment requirements to analyze'),
@@ -491,6 +1613,17 @@ export class DeploymentTools {
         prompt: z
           .string()
           .describe('Deployment requirements for cost estimation'),
+        monthlyRequests: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe('Expected requests per month (default: 1,000,000)'),
+        dataTransferGB: z
+          .number()
+          .nonnegative()
+          .optional()
+          .describe('Expected data transfer out per month in GB (default: 50)'),
       },
     };
   }
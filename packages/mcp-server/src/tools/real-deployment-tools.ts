@@ -132,7 +132,8 @@ export class RealDeploymentTools {
   }
 
   private static async getDeploymentStatus(deploymentId: string): Promise<any> {
-    const deployment = this.deploymentService.getDeploymentStatus(deploymentId);
+    const deployment =
+      await this.deploymentService.getDeploymentStatus(deploymentId);
 
     if (!deployment) {
       throw new Error(`Deployment ${deploymentId} not found`);
@@ -152,7 +153,7 @@ export class RealDeploymentTools {
   }
 
   private static async listDeployments(): Promise<any> {
-    const deployments = this.deploymentService.getAllDeployments();
+    const deployments = await this.deploymentService.getAllDeployments();
 
     return {
       deployments: deployments.map((d) => ({
@@ -11,6 +11,10 @@ export interface DeploymentRequest {
   customDomain?: string;
   files?: FileUpload[];
   environment?: 'development' | 'staging' | 'production';
+  // Overrides for the traffic the cost estimate assumes
+  usage?: Partial<UsageAssumptions>;
+  // Monthly limit for this deployment, in USD
+  monthlyBudget?: number;
 }
 
 export interface FileUpload {
@@ -99,6 +103,13 @@ export interface CostEstimate {
   yearly: number;
   breakdown: CostBreakdown[];
   currency: string;
+  region?: string;
+  // What the free tier took off the monthly cost
+  freeTierSavings?: number;
+  // Where the unit prices came from and when they were published
+  priceSource?: 'price-list' | 'cache' | 'snapshot';
+  pricesAsOf?: string;
+  assumptions?: UsageAssumptions;
 }
 
 export interface CostBreakdown {
@@ -106,6 +117,25 @@ export interface CostBreakdown {
   cost: number;
   unit: string;
   description: string;
+  quantity?: number;
+  unitPrice?: number;
+  // Units covered by the free tier, already left out of cost
+  freeTierQuantity?: number;
+}
+
+/**
+ * Monthly traffic a cost estimate assumes
+ */
+export interface UsageAssumptions {
+  monthlyRequests: number;
+  dataTransferGB: number;
+  lambdaMemoryMB: number;
+  lambdaDurationMs: number;
+  containerTasks: number;
+  containerVcpu: number;
+  containerMemoryGB: number;
+  databaseStorageGB: number;
+  hoursPerMonth: number;
 }
 
 export interface DeploymentStatus {
@@ -117,12 +147,74 @@ export interface DeploymentStatus {
   resources: AWSResource[];
   urls?: string[];
   error?: DeploymentError;
+  rollback?: RollbackReport;
+  plan?: ExecutionPlan;
+  revisions?: DeploymentRevision[];
   startTime: Date;
   endTime?: Date;
   estimatedCompletion?: Date;
 }
 
+export interface RollbackEntry {
+  type: string;
+  id: string;
+  message: string;
+}
+
+export interface RollbackReport {
+  cleanedUp: RollbackEntry[];
+  notCleanedUp: RollbackEntry[];
+  startTime: Date;
+  endTime?: Date;
+}
+
+/**
+ * An update applied in place to an existing deployment. The initial
+ * deployment is revision 1.
+ */
+export interface DeploymentRevision {
+  revision: number;
+  status: 'in-progress' | 'completed' | 'failed';
+  ref?: string;
+  commit?: string;
+  changes: string[];
+  error?: string;
+  startTime: Date;
+  endTime?: Date;
+}
+
+/**
+ * One resource an execution plan will create, change or delete
+ */
+export interface PlannedResourceChange {
+  action: 'create' | 'update' | 'delete';
+  type: string;
+  name: string;
+  description: string;
+  instanceType?: string;
+  runtime?: string;
+  ports?: number[];
+  estimatedMonthlyCost: number;
+}
+
+/**
+ * Concrete resource list computed by plan-deployment and executed unchanged by
+ * apply-deployment-plan. The plan ID is the ID of the deployment it creates.
+ */
+export interface ExecutionPlan {
+  id: string;
+  region: string;
+  projectName: string;
+  environment: string;
+  intent: ParsedDeploymentIntent;
+  changes: PlannedResourceChange[];
+  estimatedMonthlyCost: number;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
 export enum DeploymentState {
+  PLANNED = 'planned',
   PENDING = 'pending',
   ANALYZING = 'analyzing',
   PROVISIONING = 'provisioning',
@@ -131,6 +223,7 @@ export enum DeploymentState {
   COMPLETED = 'completed',
   FAILED = 'failed',
   ROLLING_BACK = 'rolling-back',
+  DESTROYED = 'destroyed',
 }
 
 export interface DeploymentStep {
@@ -187,6 +280,12 @@ export interface UserPreferences {
   costAlerts: boolean;
   emailNotifications: boolean;
   slackIntegration?: SlackConfig;
+  // Monthly limit across all deployments, in USD
+  monthlyBudget?: number;
+  // Percentages of a budget that raise cost alerts
+  budgetAlertThresholds?: number[];
+  alertEmail?: string;
+  webhook?: WebhookConfig;
 }
 
 export interface SlackConfig {
@@ -195,6 +294,65 @@ export interface SlackConfig {
   enabled: boolean;
 }
 
+export interface WebhookConfig {
+  url: string;
+  // Signs each delivery with HMAC-SHA256 when set
+  secret?: string;
+  enabled: boolean;
+}
+
+/**
+ * Actual spend crossed a budget threshold
+ */
+export interface BudgetAlert {
+  scope: 'deployment' | 'user';
+  // Deployment name, or "All deployments" for the user budget
+  name: string;
+  deploymentId?: string;
+  limit: number;
+  threshold: number;
+  actualMonthToDate: number;
+  projectedMonthly: number;
+  // YYYY-MM
+  month: string;
+}
+
+export type NotificationEventType = NotificationEvent['type'];
+
+/**
+ * Sent to Slack and webhooks as deployments progress
+ */
+export type NotificationEvent = NotificationEventBase &
+  (
+    | {
+        type: 'deployment.started';
+        environment: string;
+        region: string;
+        estimatedMonthlyCost?: number;
+      }
+    | { type: 'deployment.step_failed'; step: string; error: string }
+    | { type: 'deployment.completed'; durationMs: number; resources: number }
+    | {
+        type: 'deployment.rolled_back';
+        error: string;
+        cleanedUp: number;
+        notCleanedUp: RollbackEntry[];
+      }
+    | { type: 'budget.threshold_crossed'; alert: BudgetAlert }
+  );
+
+export interface NotificationEventBase {
+  // Deployment or project name
+  name: string;
+  deploymentId?: string;
+  timestamp: Date;
+  links: {
+    liveUrl?: string;
+    // Deployment status page on the dashboard
+    statusUrl?: string;
+  };
+}
+
 export interface DeploymentTemplate {
   id: string;
   name: string;
@@ -0,0 +1,28 @@
+import { exec } from 'child_process';
+
+export type CommandRunner = (
+  command: string,
+  options?: { cwd?: string; input?: string }
+) => Promise<{ stdout: string; stderr: string }>;
+
+/**
+ * Run a shell command, optionally piping input to stdin
+ */
+export const runCommand: CommandRunner = (command, options = {}) =>
+  new Promise((resolve, reject) => {
+    const child = exec(
+      command,
+      { cwd: options.cwd, maxBuffer: 20 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve({ stdout, stderr });
+        }
+      }
+    );
+
+    if (options.input !== undefined) {
+      child.stdin?.end(options.input);
+    }
+  });
@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import {
+  DeploymentRevision,
   DeploymentStatus,
   DeploymentState,
   DeploymentStep,
@@ -102,6 +103,27 @@ export function updateDeploymentStep(
   return status;
 }
 
+/**
+ * Start the next revision of a deployment, refusing while one is running
+ */
+export function createDeploymentRevision(
+  deploymentId: string,
+  previous: DeploymentRevision[] = [],
+  ref?: string
+): DeploymentRevision {
+  if (previous.some((revision) => revision.status === 'in-progress')) {
+    throw new Error(`Deployment ${deploymentId} is already being updated`);
+  }
+
+  return {
+    revision: (previous[previous.length - 1]?.revision ?? 1) + 1,
+    status: 'in-progress',
+    ref,
+    changes: [],
+    startTime: new Date(),
+  };
+}
+
 /**
  * Get human-readable description for deployment steps
  */
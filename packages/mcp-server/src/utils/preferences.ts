@@ -0,0 +1,43 @@
+import { UserPreferences } from '../types/index.js';
+
+/**
+ * Preferences of the user this server deploys for:
+ *
+ * COST_ALERTS=true creates AWS Budgets alarms and sends threshold alerts;
+ * MONTHLY_BUDGET caps spend across all deployments; BUDGET_ALERT_THRESHOLDS
+ * lists alert percentages ("80,100"); ALERT_EMAIL is where AWS Budgets emails.
+ *
+ * SLACK_WEBHOOK_URL (with SLACK_CHANNEL) and NOTIFICATION_WEBHOOK_URL (with
+ * NOTIFICATION_WEBHOOK_SECRET to sign deliveries) receive deployment events.
+ */
+export function loadUserPreferences(
+  env: NodeJS.ProcessEnv = process.env
+): UserPreferences {
+  const thresholds = env.BUDGET_ALERT_THRESHOLDS?.split(',')
+    .map((value) => Number(value.trim()))
+    .filter((value) => value > 0);
+
+  return {
+    defaultRegion: env.AWS_REGION || 'us-east-1',
+    defaultEnvironment: 'production',
+    costAlerts: env.COST_ALERTS === 'true',
+    emailNotifications: Boolean(env.ALERT_EMAIL),
+    alertEmail: env.ALERT_EMAIL,
+    monthlyBudget: env.MONTHLY_BUDGET ? Number(env.MONTHLY_BUDGET) : undefined,
+    budgetAlertThresholds: thresholds?.length ? thresholds : undefined,
+    slackIntegration: env.SLACK_WEBHOOK_URL
+      ? {
+          webhookUrl: env.SLACK_WEBHOOK_URL,
+          channel: env.SLACK_CHANNEL || '',
+          enabled: true,
+        }
+      : undefined,
+    webhook: env.NOTIFICATION_WEBHOOK_URL
+      ? {
+          url: env.NOTIFICATION_WEBHOOK_URL,
+          secret: env.NOTIFICATION_WEBHOOK_SECRET,
+          enabled: true,
+        }
+      : undefined,
+  };
+}